@@ -3,8 +3,10 @@
  * Ele consome o `ProjectContext` e gerencia a renderização condicional do painel de projetos
  * ou da visualização detalhada de um projeto ativo. Também controla a visibilidade de todos os modais da aplicação.
  */
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from './hooks/useAuth';
+import { useOrganizations } from './hooks/useOrganizations';
+import { useProgressAsOf } from './hooks/useProgressAsOf';
 import { Auth } from './components/Auth';
 import { useProject } from './contexts/ProjectContext';
 import { PlsTable } from './components/PlsTable';
@@ -18,17 +20,23 @@ import { ProjectDashboard } from './components/ProjectDashboard';
 import { ProjectSettings } from './components/ProjectSettings';
 import { SpinnerIcon, BuildingIcon } from './components/Icons';
 import { FinancialSummary } from './components/FinancialSummary';
+import { ScheduleCurve } from './components/ScheduleCurve';
 import { ReportBuilderModal } from './components/ReportBuilderModal';
 import { UnitProgressSummary } from './components/UnitProgressSummary';
 import { UnitExportModal } from './components/UnitExportModal';
 import { PlsEditorModal } from './components/PlsEditorModal';
 import { HistoryModal } from './components/HistoryModal';
+import { AuditLogModal } from './components/AuditLogModal';
 import { exportToJSON } from './services/exportService';
 import { TextAssistantModal } from './components/TextAssistantModal';
 import { LiveAssistantModal } from './components/LiveAssistantModal';
 import { ReportHistoryModal } from './components/ReportHistoryModal';
 import { LayoutEditorModal } from './components/LayoutEditorModal';
 import { BackupRestoreModal } from './components/BackupRestoreModal';
+import { MeasurementsModal } from './components/MeasurementsModal';
+import { ApprovalQueueModal } from './components/ApprovalQueueModal';
+import { getPendingByCell } from './services/approvalService';
+import { getItemProgressRow, getItemProgressUnits } from './services/progressService';
 
 /**
  * O componente principal que gerencia a lógica de renderização da aplicação após a
@@ -38,12 +46,17 @@ import { BackupRestoreModal } from './components/BackupRestoreModal';
  */
 const AppContent: React.FC = () => {
     const { user, isInitializing: isAuthInitializing } = useAuth();
+    const { organizations, activeOrganization, setActiveOrganizationId, reload: reloadOrganizations } = useOrganizations(user);
     const {
         activeProject,
         projects,
         isLoadingProjects,
         projectFinancials,
         dynamicPlsData,
+        editorsByItem,
+        setEditingItem: setPresenceItem,
+        isOnline,
+        pendingSyncCount,
         setActiveProjectId,
         createProject,
         updateProject,
@@ -52,11 +65,17 @@ const AppContent: React.FC = () => {
         updateSingleProgress,
         updateProgressFromAssistant,
         savePls,
+        applyChangeOrder,
         saveLayouts,
         updateItemName,
         archiveReport,
+        openMeasurement,
+        closeMeasurement,
+        reopenMeasurement,
+        reviewPendingProgress,
         overwriteProjects,
         importProjects,
+        can,
     } = useProject();
 
     // Estados para controlar a visibilidade de modais e painéis
@@ -66,15 +85,35 @@ const AppContent: React.FC = () => {
     const [isLayoutEditorOpen, setIsLayoutEditorOpen] = useState(false);
     const [isPlsEditorOpen, setIsPlsEditorOpen] = useState(false);
     const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
+    const [isAuditLogOpen, setIsAuditLogOpen] = useState(false);
     const [isReportHistoryOpen, setIsReportHistoryOpen] = useState(false);
     const [isAssistantVisible, setIsAssistantVisible] = useState(false);
     const [isTextAssistantOpen, setIsTextAssistantOpen] = useState(false);
     const [isLiveAssistantOpen, setIsLiveAssistantOpen] = useState(false);
     const [isBackupRestoreModalOpen, setIsBackupRestoreModalOpen] = useState(false);
+    const [isMeasurementsModalOpen, setIsMeasurementsModalOpen] = useState(false);
+    const [isApprovalQueueOpen, setIsApprovalQueueOpen] = useState(false);
 
     const [assistantView, setAssistantView] = useState<AssistantView>('image');
     const [editingItem, setEditingItem] = useState<ServiceSubItem | null>(null);
     const [exportingUnit, setExportingUnit] = useState<HousingUnit | null>(null);
+    const [inlineEditingItemId, setInlineEditingItemId] = useState<string | null>(null);
+
+    // Informa aos colaboradores o serviço em edição, seja no modal de edição em lote ou na edição em linha.
+    useEffect(() => {
+        setPresenceItem(editingItem?.id ?? inlineEditingItemId);
+    }, [editingItem, inlineEditingItemId, setPresenceItem]);
+
+    const pendingByCell = useMemo(() => getPendingByCell(activeProject?.pending_progress), [activeProject?.pending_progress]);
+
+    // Posição do projeto em uma data passada, reconstruída pelo histórico. Volta para a posição atual ao trocar de projeto.
+    const [asOfDate, setAsOfDate] = useState<string | null>(null);
+    useEffect(() => {
+        setAsOfDate(null);
+    }, [activeProject?.id]);
+    const { project: historicalProject, financials: historicalFinancials, isLoading: isLoadingAsOf } = useProgressAsOf(activeProject, asOfDate);
+    const displayedProject = historicalProject || activeProject;
+    const displayedFinancials = historicalFinancials || projectFinancials;
 
     const handleExportJson = () => {
         if (!activeProject) return;
@@ -119,11 +158,16 @@ const AppContent: React.FC = () => {
                     onCreateProject={() => setIsCreatingProject(true)}
                     user={user}
                     onOpenBackupRestore={() => setIsBackupRestoreModalOpen(true)}
+                    organizations={organizations}
+                    activeOrganization={activeOrganization}
+                    onSelectOrganization={setActiveOrganizationId}
+                    onOrganizationsChanged={reloadOrganizations}
                 />
                 {isCreatingProject && (
                     <ProjectSetup
+                        organization={activeOrganization}
                         onSetup={(projectData) => {
-                            createProject(projectData);
+                            createProject(projectData, activeOrganization || undefined);
                             setIsCreatingProject(false);
                         }}
                         onCancel={() => setIsCreatingProject(false)}
@@ -150,26 +194,47 @@ const AppContent: React.FC = () => {
                 onShowReportBuilder={() => setIsReportBuilderOpen(true)}
                 onShowPlsEditor={() => setIsPlsEditorOpen(true)}
                 onShowHistory={() => setIsHistoryModalOpen(true)}
+                onShowAuditLog={() => setIsAuditLogOpen(true)}
                 onShowReportHistory={() => setIsReportHistoryOpen(true)}
+                onShowMeasurements={() => setIsMeasurementsModalOpen(true)}
+                onShowApprovals={() => setIsApprovalQueueOpen(true)}
                 onToggleAssistant={() => setIsAssistantVisible(prev => !prev)}
                 onToggleLiveAssistant={() => setIsLiveAssistantOpen(prev => !prev)}
                 onExportJson={handleExportJson}
+                isOnline={isOnline}
+                pendingSyncCount={pendingSyncCount}
+                canEditProgress={can('edit_progress')}
+                canEditPls={can('edit_pls')}
             />
             <main className="p-4 sm:p-6 lg:p-8">
                 <div className="space-y-8">
-                    <FinancialSummary project={activeProject} financials={projectFinancials} />
+                    <FinancialSummary
+                        project={displayedProject}
+                        financials={displayedFinancials}
+                        asOfDate={asOfDate}
+                        onAsOfDateChange={setAsOfDate}
+                        isLoadingAsOf={isLoadingAsOf}
+                    />
+                    {activeProject.schedule && activeProject.schedule.length > 0 && (
+                        <ScheduleCurve project={displayedProject} financials={displayedFinancials} />
+                    )}
                     <PlsTable
                         plsData={dynamicPlsData}
                         housingUnits={activeProject.housing_units}
-                        progress={activeProject.progress}
+                        progress={displayedProject.progress}
                         onEditItem={setEditingItem}
                         onUpdateSingleProgress={updateSingleProgress}
                         onUpdateItemName={updateItemName}
-                        categoryFinancials={projectFinancials.categoryTotals}
+                        categoryFinancials={displayedFinancials.categoryTotals}
                         onOpenTextAssistant={() => setIsTextAssistantOpen(true)}
+                        editorsByItem={editorsByItem}
+                        onEditingItemChange={setInlineEditingItemId}
+                        readOnly={!can('edit_progress') || !!asOfDate}
+                        pendingProgress={asOfDate ? undefined : pendingByCell}
+                        typologies={activeProject.typologies}
                     />
                     <UnitProgressSummary 
-                        project={activeProject}
+                        project={displayedProject}
                         plsData={dynamicPlsData}
                         onExportUnit={setExportingUnit}
                     />
@@ -194,8 +259,9 @@ const AppContent: React.FC = () => {
             {editingItem && (
                 <ProgressUpdateModal
                     item={editingItem}
-                    housingUnits={activeProject.housing_units}
-                    initialProgress={activeProject.progress[editingItem.id] || []}
+                    housingUnits={getItemProgressUnits(editingItem, activeProject.housing_units)}
+                    initialProgress={getItemProgressRow(editingItem, activeProject.progress, activeProject.housing_units)}
+                    otherEditors={editorsByItem[editingItem.id]}
                     onUpdate={(itemId, newProgress) => {
                         updateProgress(itemId, newProgress);
                         setEditingItem(null);
@@ -206,7 +272,7 @@ const AppContent: React.FC = () => {
             {exportingUnit && (
                 <UnitExportModal
                     unit={exportingUnit}
-                    project={activeProject}
+                    project={displayedProject}
                     plsData={dynamicPlsData}
                     onClose={() => setExportingUnit(null)}
                 />
@@ -227,9 +293,10 @@ const AppContent: React.FC = () => {
             )}
             {isReportBuilderOpen && (
                 <ReportBuilderModal
-                    project={activeProject}
+                    project={displayedProject}
                     plsData={dynamicPlsData}
-                    financials={projectFinancials}
+                    financials={displayedFinancials}
+                    asOfDate={historicalProject ? asOfDate : null}
                     onClose={() => setIsReportBuilderOpen(false)}
                     onArchiveReport={archiveReport}
                     onManageLayouts={() => setIsLayoutEditorOpen(true)}
@@ -250,25 +317,60 @@ const AppContent: React.FC = () => {
             {isPlsEditorOpen && (
                 <PlsEditorModal
                     initialPlsData={activeProject.pls_data || PLS_TEMPLATE}
+                    progress={activeProject.progress}
+                    currentVersion={activeProject.pls_version || 1}
+                    changeOrders={activeProject.change_orders || []}
+                    canRecordChangeOrder={can('edit_settings')}
                     onSave={(newPls) => {
                         savePls(newPls);
                         setIsPlsEditorOpen(false);
                     }}
+                    onSaveChangeOrder={(newPls, input) => {
+                        applyChangeOrder(newPls, input);
+                        setIsPlsEditorOpen(false);
+                    }}
                     onClose={() => setIsPlsEditorOpen(false)}
                 />
             )}
             {isHistoryModalOpen && (
                 <HistoryModal
-                    history={activeProject.history || []}
+                    projectId={activeProject.id}
+                    projectName={activeProject.name}
                     onClose={() => setIsHistoryModalOpen(false)}
                 />
             )}
+            {isAuditLogOpen && (
+                <AuditLogModal
+                    projectId={activeProject.id}
+                    onClose={() => setIsAuditLogOpen(false)}
+                />
+            )}
             {isReportHistoryOpen && (
                 <ReportHistoryModal
                     project={activeProject}
                     onClose={() => setIsReportHistoryOpen(false)}
                 />
             )}
+            {isMeasurementsModalOpen && (
+                <MeasurementsModal
+                    project={activeProject}
+                    plsData={dynamicPlsData}
+                    financials={projectFinancials}
+                    onOpenMeasurement={openMeasurement}
+                    onCloseMeasurement={closeMeasurement}
+                    onReopenMeasurement={reopenMeasurement}
+                    canManage={can('manage_measurements')}
+                    onClose={() => setIsMeasurementsModalOpen(false)}
+                />
+            )}
+            {isApprovalQueueOpen && (
+                <ApprovalQueueModal
+                    project={activeProject}
+                    canReview={can('approve_progress')}
+                    onReview={reviewPendingProgress}
+                    onClose={() => setIsApprovalQueueOpen(false)}
+                />
+            )}
             {isTextAssistantOpen && (
                 <TextAssistantModal
                     isOpen={isTextAssistantOpen}
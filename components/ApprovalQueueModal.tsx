@@ -0,0 +1,105 @@
+/**
+ * @file Componente `ApprovalQueueModal` que lista as alterações de progresso aguardando aprovação,
+ * agrupadas por serviço e unidade, para que o responsável técnico as aprove ou rejeite.
+ */
+import React, { useMemo } from 'react';
+import { Project } from '../types';
+import { CloseIcon, CheckCircleIcon } from './Icons';
+import { groupPendingChanges } from '../services/approvalService';
+import { getUnitProgress } from '../services/progressService';
+
+/**
+ * @typedef {object} ApprovalQueueModalProps
+ * @property {Project} project - O projeto ativo.
+ * @property {boolean} canReview - Se o usuário pode aprovar ou rejeitar as alterações.
+ * @property {(ids: string[], decision: 'approved' | 'rejected') => void} onReview - Callback com as alterações e a decisão.
+ * @property {() => void} onClose - Callback para fechar o modal.
+ */
+interface ApprovalQueueModalProps {
+    project: Project;
+    canReview: boolean;
+    onReview: (ids: string[], decision: 'approved' | 'rejected') => void;
+    onClose: () => void;
+}
+
+/**
+ * Modal da fila de aprovação de alterações de progresso.
+ * @param {ApprovalQueueModalProps} props - As propriedades do componente.
+ * @returns {React.ReactElement} O modal renderizado.
+ */
+export const ApprovalQueueModal: React.FC<ApprovalQueueModalProps> = ({ project, canReview, onReview, onClose }) => {
+    const groups = useMemo(() => groupPendingChanges(project.pending_progress), [project.pending_progress]);
+    const engineer = project.responsible_engineer?.name;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="w-full max-w-3xl bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center">
+                    <div className="flex items-center gap-4">
+                        <div className="flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-amber-100 dark:bg-amber-900/50 text-amber-600 dark:text-amber-400">
+                            <CheckCircleIcon className="h-6 w-6" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-slate-100">Aprovações Pendentes</h2>
+                            <p className="mt-1 text-sm text-gray-600 dark:text-slate-400">
+                                As alterações só entram no progresso e na medição depois de aprovadas{engineer ? ` pelo responsável técnico (${engineer})` : ''}.
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400">
+                        <CloseIcon />
+                    </button>
+                </header>
+
+                <div className="flex-grow p-4 overflow-y-auto space-y-4">
+                    {groups.length === 0 ? (
+                        <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-16">Nenhuma alteração aguardando aprovação.</p>
+                    ) : groups.map(group => (
+                        <section key={group.itemId} className="border dark:border-slate-700 rounded-lg">
+                            <div className="flex justify-between items-center gap-2 px-3 py-2 bg-slate-50 dark:bg-slate-900/50 rounded-t-lg">
+                                <h3 className="font-semibold text-slate-800 dark:text-slate-100">
+                                    <span className="font-mono text-slate-500 dark:text-slate-400 mr-2">{group.itemId}</span>
+                                    {group.itemName}
+                                </h3>
+                                {canReview && group.changes.length > 1 && (
+                                    <div className="flex gap-2 flex-shrink-0">
+                                        <button onClick={() => onReview(group.changes.map(c => c.id), 'approved')} className="px-3 py-1 text-xs font-semibold text-white bg-emerald-600 rounded-md hover:bg-emerald-700">
+                                            Aprovar todas
+                                        </button>
+                                        <button onClick={() => onReview(group.changes.map(c => c.id), 'rejected')} className="px-3 py-1 text-xs font-semibold text-rose-700 dark:text-rose-300 border border-rose-300 dark:border-rose-700 rounded-md hover:bg-rose-50 dark:hover:bg-rose-900/30">
+                                            Rejeitar todas
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                            <ul className="divide-y dark:divide-slate-700">
+                                {group.changes.map(change => (
+                                    <li key={change.id} className="flex justify-between items-center gap-4 px-3 py-2">
+                                        <div>
+                                            <p className="text-sm text-slate-800 dark:text-slate-200">
+                                                <strong>{change.unitName}</strong>: {getUnitProgress(project.progress, change.itemId, change.unitId)}% → <span className="font-semibold text-amber-600 dark:text-amber-400">{change.newProgress}%</span>
+                                            </p>
+                                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                                Enviada por {change.submittedBy} em {new Date(change.submittedAt || change.timestamp).toLocaleString('pt-BR')}
+                                            </p>
+                                        </div>
+                                        {canReview && (
+                                            <div className="flex gap-2 flex-shrink-0">
+                                                <button onClick={() => onReview([change.id], 'approved')} className="px-3 py-1 text-sm font-semibold text-white bg-emerald-600 rounded-md hover:bg-emerald-700">
+                                                    Aprovar
+                                                </button>
+                                                <button onClick={() => onReview([change.id], 'rejected')} className="px-3 py-1 text-sm font-semibold text-rose-700 dark:text-rose-300 border border-rose-300 dark:border-rose-700 rounded-md hover:bg-rose-50 dark:hover:bg-rose-900/30">
+                                                    Rejeitar
+                                                </button>
+                                            </div>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
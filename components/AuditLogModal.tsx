@@ -0,0 +1,155 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import { AuditAction, AuditEntry, AuditFilter } from '../types';
+import { CloseIcon, ShieldCheckIcon, SearchIcon, SpinnerIconSmall } from './Icons';
+import { flushPendingWrites, loadAuditPage } from '../services/projectService';
+import { AUDIT_ACTION_LABELS, filterAuditEntries, getAuditUsers } from '../services/auditService';
+import { usePagedCollection } from '../hooks/usePagedCollection';
+
+interface AuditLogModalProps {
+  projectId: string;
+  onClose: () => void;
+}
+
+const AUDIT_PAGE_SIZE = 50;
+
+const selectClassName = "px-3 py-2 text-sm bg-slate-100 dark:bg-slate-700/80 border border-transparent focus:border-blue-500 focus:ring-blue-500 rounded-md";
+
+export const AuditLogModal: React.FC<AuditLogModalProps> = ({ projectId, onClose }) => {
+    const [filter, setFilter] = useState<AuditFilter>({ action: 'all', userEmail: 'all', search: '' });
+
+    const loadPage = useCallback(async (cursor: unknown) => {
+        // Grava antes as alterações ainda pendentes, para que os seus eventos apareçam na trilha.
+        if (!cursor) await flushPendingWrites(projectId);
+        return loadAuditPage(projectId, AUDIT_PAGE_SIZE, cursor);
+    }, [projectId]);
+    const { items: entries, isLoading, hasMore, loadMore } = usePagedCollection<AuditEntry>(loadPage, 'Falha ao carregar a trilha de auditoria.');
+
+    const users = useMemo(() => getAuditUsers(entries), [entries]);
+    const filteredEntries = useMemo(() => filterAuditEntries(entries, filter), [entries, filter]);
+    const isFiltered = filter.action !== 'all' || filter.userEmail !== 'all' || !!filter.search.trim();
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="w-full max-w-3xl bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center sticky top-0 bg-white dark:bg-slate-800 rounded-t-2xl z-10">
+                    <div className="flex items-center gap-4">
+                        <div className="flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-slate-100 dark:bg-slate-700">
+                           <ShieldCheckIcon />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-slate-100">
+                                Trilha de Auditoria
+                            </h2>
+                            <p className="mt-1 text-sm text-gray-600 dark:text-slate-400">
+                                Quem alterou configurações, unidades, PLS, membros, layouts, documentos e medições, e o que mudou.
+                            </p>
+                        </div>
+                    </div>
+                     <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400">
+                        <CloseIcon />
+                    </button>
+                </header>
+
+                <div className="p-4 border-b dark:border-slate-700 flex flex-col sm:flex-row gap-3">
+                     <div className="relative flex-grow">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <SearchIcon className="h-5 w-5 text-slate-400" />
+                        </div>
+                        <input
+                            type="text"
+                            placeholder="Buscar na descrição ou nos valores..."
+                            value={filter.search}
+                            onChange={(e) => setFilter(prev => ({ ...prev, search: e.target.value }))}
+                            className="w-full pl-10 pr-4 py-2 bg-slate-100 dark:bg-slate-700/80 border border-transparent focus:bg-white dark:focus:bg-slate-800 focus:border-blue-500 focus:ring-blue-500 rounded-md transition-colors"
+                        />
+                    </div>
+                    <select
+                        value={filter.action}
+                        onChange={(e) => setFilter(prev => ({ ...prev, action: e.target.value as AuditAction | 'all' }))}
+                        className={selectClassName}
+                        aria-label="Filtrar por tipo de evento"
+                    >
+                        <option value="all">Todos os eventos</option>
+                        {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                            <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={filter.userEmail}
+                        onChange={(e) => setFilter(prev => ({ ...prev, userEmail: e.target.value }))}
+                        className={selectClassName}
+                        aria-label="Filtrar por usuário"
+                    >
+                        <option value="all">Todos os usuários</option>
+                        {users.map(email => <option key={email} value={email}>{email}</option>)}
+                    </select>
+                </div>
+
+                <main className="flex-grow p-4 overflow-y-auto">
+                    {filteredEntries.length > 0 ? (
+                        <ul className="space-y-4">
+                            {filteredEntries.map(entry => (
+                                <li key={entry.id} className="border-b dark:border-slate-700 pb-3 last:border-b-0">
+                                    <div className="flex flex-wrap items-baseline justify-between gap-2">
+                                        <span className="text-xs font-semibold uppercase text-blue-700 dark:text-blue-400">
+                                            {AUDIT_ACTION_LABELS[entry.action] || entry.action}
+                                        </span>
+                                        <span className="text-xs text-slate-500 dark:text-slate-400">
+                                            {new Date(entry.timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                                            {entry.userEmail && <> · {entry.userEmail}</>}
+                                        </span>
+                                    </div>
+                                    <p className="text-sm text-slate-800 dark:text-slate-200 mt-1">{entry.description}</p>
+                                    {entry.reason && (
+                                        <p className="text-sm text-slate-600 dark:text-slate-300 mt-1">
+                                            <span className="font-semibold">Motivo:</span> {entry.reason}
+                                        </p>
+                                    )}
+                                    {entry.changes && entry.changes.length > 0 && (
+                                        <table className="mt-2 w-full text-xs">
+                                            <tbody>
+                                                {entry.changes.map(change => (
+                                                    <tr key={change.field + change.label} className="align-top">
+                                                        <td className="py-0.5 pr-3 font-medium text-slate-600 dark:text-slate-300 whitespace-nowrap">{change.label}</td>
+                                                        <td className="py-0.5 pr-3 text-rose-600 dark:text-rose-400">{change.before ?? '—'}</td>
+                                                        <td className="py-0.5 pr-3 text-slate-400">→</td>
+                                                        <td className="py-0.5 text-emerald-600 dark:text-emerald-400">{change.after ?? '—'}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    ) : isLoading ? (
+                        <div className="flex justify-center py-16 text-slate-500">
+                            <SpinnerIconSmall />
+                        </div>
+                    ) : (
+                         <div className="text-center py-16">
+                            <p className="font-semibold text-slate-700 dark:text-slate-200">
+                                {isFiltered ? 'Nenhum evento encontrado' : 'Nenhum evento registrado'}
+                            </p>
+                            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                                {isFiltered ? 'Tente ajustar os filtros ou carregar eventos mais antigos.' : 'As alterações do projeto (exceto o progresso) aparecerão aqui.'}
+                            </p>
+                        </div>
+                    )}
+                    {hasMore && entries.length > 0 && (
+                        <div className="flex justify-center pt-6">
+                            <button
+                                onClick={loadMore}
+                                disabled={isLoading}
+                                className="flex items-center gap-2 px-4 py-2 text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-500 text-slate-700 dark:text-slate-200 rounded-md hover:bg-slate-100 dark:hover:bg-slate-600 font-semibold disabled:opacity-50"
+                            >
+                                {isLoading && <SpinnerIconSmall />}
+                                Carregar mais
+                            </button>
+                        </div>
+                    )}
+                </main>
+            </div>
+        </div>
+    );
+};
@@ -8,6 +8,7 @@ import {
   browserLocalPersistence,
   browserSessionPersistence,
   fetchSignInMethodsForEmail,
+  sendEmailVerification,
 } from 'firebase/auth';
 import { auth } from '../firebase/config';
 import * as userService from '../services/userService';
@@ -77,9 +78,11 @@ export const Auth: React.FC = () => {
       if (mode === 'register') {
         const userCredential = await createUserWithEmailAndPassword(auth, email, password);
         await userService.createUserProfile(userCredential.user);
+        // Invitations are only accepted for verified emails (see useAuth).
+        await sendEmailVerification(userCredential.user).catch(error => console.warn("Failed to send verification email", error));
         // After successful registration and profile creation, a success toast can be shown.
         // The onAuthStateChanged listener will handle the redirect.
-        toast.success('Cadastro realizado com sucesso!');
+        toast.success('Cadastro realizado com sucesso! Confirme o seu e-mail para aceitar convites de projetos.');
       } else { // Login mode
         await signInWithEmailAndPassword(auth, email, password);
         // Success toast for login can be added here if desired.
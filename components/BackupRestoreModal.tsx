@@ -2,6 +2,7 @@ import React, { useRef, useState } from 'react';
 import { CloseIcon, ArrowDownTrayIcon, ArrowUpTrayIcon } from './Icons';
 import toast from 'react-hot-toast';
 import { Project } from '../types';
+import { loadProjectArchives } from '../services/projectService';
 
 export const isValidProjectArray = (data: any): data is Project[] => {
     if (!Array.isArray(data)) {
@@ -36,13 +37,15 @@ export const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({ onClose,
     const [fileToRestore, setFileToRestore] = useState<File | null>(null);
     const [fileToImport, setFileToImport] = useState<File | null>(null);
 
-    const handleBackup = () => {
+    const handleBackup = async () => {
         try {
             if (!projects || projects.length === 0) {
                 toast.error('Não há dados de projetos para fazer backup.');
                 return;
             }
-            const data = JSON.stringify(projects, null, 2);
+            // O histórico e os relatórios arquivados ficam em subcoleções e são carregados para o backup.
+            const projectsWithArchives = await Promise.all(projects.map(loadProjectArchives));
+            const data = JSON.stringify(projectsWithArchives, null, 2);
             const blob = new Blob([data], { type: 'application/json;charset=utf-8' });
             const url = URL.createObjectURL(blob);
             const link = document.createElement('a');
@@ -2,6 +2,7 @@ import React from 'react';
 import { Project } from '../types';
 import { ArrowDownTrayIcon } from './Icons';
 import toast from 'react-hot-toast';
+import { loadProjectArchives } from '../services/projectService';
 
 interface BackupSettingsProps {
     project: Project;
@@ -9,10 +10,11 @@ interface BackupSettingsProps {
 
 export const BackupSettings: React.FC<BackupSettingsProps> = ({ project }) => {
     
-    const handleBackup = () => {
+    const handleBackup = async () => {
         try {
-            // Wrap the single project in an array to be compatible with the global importer
-            const data = JSON.stringify([project], null, 2);
+            // Wrap the single project in an array to be compatible with the global importer.
+            // History and archived reports live in subcollections and are loaded for the backup.
+            const data = JSON.stringify([await loadProjectArchives(project)], null, 2);
             const blob = new Blob([data], { type: 'application/json;charset=utf-8' });
             const url = URL.createObjectURL(blob);
             const link = document.createElement('a');
@@ -4,7 +4,7 @@
  */
 import React from 'react';
 import { Project, CategoryFinancials } from '../types';
-import { ChartBarIcon } from './Icons';
+import { ChartBarIcon, SpinnerIconSmall } from './Icons';
 
 /**
  * @typedef {object} FinancialSummaryProps
@@ -14,6 +14,9 @@ import { ChartBarIcon } from './Icons';
  * @property {number} financials.totalReleased - O valor monetário total liberado/medido.
  * @property {number} financials.balanceToMeasure - O saldo financeiro restante a medir.
  * @property {CategoryFinancials[]} financials.categoryTotals - Detalhes financeiros agregados por categoria.
+ * @property {string | null} [asOfDate] - Data (`AAAA-MM-DD`) da posição exibida, ou `null` para a posição atual.
+ * @property {(date: string | null) => void} [onAsOfDateChange] - Callback para escolher a data; sem ele, o seletor não é exibido.
+ * @property {boolean} [isLoadingAsOf] - Se o histórico da data escolhida ainda está sendo carregado.
  */
 interface FinancialSummaryProps {
     project: Project;
@@ -22,7 +25,10 @@ interface FinancialSummaryProps {
         totalReleased: number;
         balanceToMeasure: number;
         categoryTotals: CategoryFinancials[];
-    }
+    };
+    asOfDate?: string | null;
+    onAsOfDateChange?: (date: string | null) => void;
+    isLoadingAsOf?: boolean;
 }
 
 /**
@@ -58,13 +64,40 @@ const MetricCard: React.FC<{ title: string; value: string; className?: string }>
  * @param {FinancialSummaryProps} props - As propriedades do componente, incluindo dados do projeto e financeiros.
  * @returns {React.ReactElement} O componente de resumo financeiro.
  */
-export const FinancialSummary: React.FC<FinancialSummaryProps> = ({ project, financials }) => {
+export const FinancialSummary: React.FC<FinancialSummaryProps> = ({ project, financials, asOfDate = null, onAsOfDateChange, isLoadingAsOf = false }) => {
+    const today = new Date().toLocaleDateString('en-CA');
     return (
-        <div className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-md border dark:border-slate-700">
-            <h2 className="text-xl font-bold mb-4 text-slate-800 dark:text-slate-100 flex items-center gap-3">
-                <ChartBarIcon />
-                Resumo Financeiro
-            </h2>
+        <div className={`bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-md border ${asOfDate ? 'border-amber-400 dark:border-amber-600' : 'dark:border-slate-700'}`}>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100 flex items-center gap-3">
+                    <ChartBarIcon />
+                    Resumo Financeiro
+                </h2>
+                {onAsOfDateChange && (
+                    <div className="flex items-center gap-2 text-sm">
+                        {isLoadingAsOf && <SpinnerIconSmall />}
+                        <label htmlFor="as-of-date" className="font-medium text-slate-600 dark:text-slate-300">Posição em</label>
+                        <input
+                            type="date"
+                            id="as-of-date"
+                            max={today}
+                            value={asOfDate || today}
+                            onChange={e => onAsOfDateChange(e.target.value && e.target.value < today ? e.target.value : null)}
+                            className="px-2 py-1 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md text-sm"
+                        />
+                        {asOfDate && (
+                            <button onClick={() => onAsOfDateChange(null)} className="px-3 py-1 text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+                                Voltar para hoje
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+            {asOfDate && (
+                <p className="mb-4 p-3 text-sm bg-amber-50 dark:bg-amber-900/40 border border-amber-200 dark:border-amber-700 text-amber-800 dark:text-amber-200 rounded-lg">
+                    Exibindo o progresso e os valores do fim de {new Date(`${asOfDate}T12:00:00`).toLocaleDateString('pt-BR')}, reconstruídos pelo histórico. A tabela fica somente leitura e os relatórios gerados usam esta posição. A estrutura da PLS, as unidades e o custo da obra são os atuais.
+                </p>
+            )}
 
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
                 <MetricCard title="Incidência" value={`${financials.totalProgress.toFixed(2)}%`} className="text-amber-600 dark:text-amber-400" />
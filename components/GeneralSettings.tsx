@@ -1,10 +1,15 @@
 /**
  * @file Componente `GeneralSettings` que renderiza a aba "Geral" dentro do modal de configurações do projeto.
- * Permite a edição dos detalhes principais do projeto, como nome, custos, empresas envolvidas e unidades habitacionais.
+ * Permite a edição dos detalhes principais do projeto, como nome, custos, empresas envolvidas, unidades habitacionais e tipologias.
  */
 import React, { useState } from 'react';
-import { Project, HousingUnit } from '../types';
+import { Project, HousingUnit, FinancialRule } from '../types';
 import { PlusIcon, TrashIcon, SparklesIcon } from './Icons';
+import { FINANCIAL_RULE_LABELS, getFinancialRule } from '../services/financialService';
+import { TypologySettings } from './TypologySettings';
+import { generateTowerUnits, hasUnitGroups } from '../services/unitGroupService';
+
+const unitInputClassName = "appearance-none block w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md shadow-sm placeholder-gray-400 dark:placeholder-slate-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
 
 /**
  * Componente de input reutilizável com rótulo, estilizado para formulários.
@@ -52,6 +57,9 @@ interface GeneralSettingsProps {
  */
 export const GeneralSettings: React.FC<GeneralSettingsProps> = ({ formData, setFormData, onDelete }) => {
   const [quickGen, setQuickGen] = useState({ prefix: 'Casa', start: 1, end: 10 });
+  // Empreendimentos verticais organizam as unidades em torres e andares
+  const [isVertical, setIsVertical] = useState(() => hasUnitGroups(formData?.housing_units || []));
+  const [towerGen, setTowerGen] = useState({ tower: 'Torre A', firstFloor: 1, lastFloor: 10, unitsPerFloor: 4 });
   
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -100,6 +108,42 @@ export const GeneralSettings: React.FC<GeneralSettingsProps> = ({ formData, setF
       }));
   };
 
+  const handleUnitGroupChange = (id: string, field: 'tower' | 'floor', value: string) => {
+      setFormData(prev => ({
+          ...prev,
+          housing_units: prev.housing_units.map(unit => {
+              if (unit.id !== id) return unit;
+              const { [field]: _previous, ...rest } = unit;
+              return value.trim() ? { ...rest, [field]: value } : rest;
+          })
+      }));
+  };
+
+  const handleTowerGenerate = () => {
+    if (!towerGen.tower.trim() || towerGen.firstFloor > towerGen.lastFloor || towerGen.unitsPerFloor < 1) return;
+    const newUnits = generateTowerUnits(towerGen.tower, towerGen.firstFloor, towerGen.lastFloor, towerGen.unitsPerFloor);
+    setFormData(prev => ({
+        ...prev,
+        housing_units: [...prev.housing_units, ...newUnits]
+    }));
+  };
+
+  const handleTowerGenChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const { name, value, type } = e.target;
+      setTowerGen(prev => ({ ...prev, [name]: type === 'number' ? parseInt(value) || 0 : value }));
+  };
+
+  const handleUnitTypologyChange = (id: string, typologyId: string) => {
+      setFormData(prev => ({
+          ...prev,
+          housing_units: prev.housing_units.map(unit => {
+              if (unit.id !== id) return unit;
+              const { typologyId: _previous, ...rest } = unit;
+              return typologyId ? { ...rest, typologyId } : rest;
+          })
+      }));
+  };
+
   const handleQuickGenerate = () => {
     if (quickGen.start > quickGen.end) return;
     const newUnits: HousingUnit[] = [];
@@ -135,6 +179,24 @@ export const GeneralSettings: React.FC<GeneralSettingsProps> = ({ formData, setF
             <div className="md:col-span-2">
                 <FormInput label="VGV (R$)" id="vgv" value={formData?.vgv} onChange={handleChange} type="number" min={1} step="0.01" />
             </div>
+            <div className="md:col-span-2">
+                <label htmlFor="financial_rule" className="block text-sm font-medium text-gray-700 dark:text-slate-300">
+                    Regra de Cálculo da Incidência Medida
+                </label>
+                <select
+                    id="financial_rule"
+                    value={getFinancialRule(formData)}
+                    onChange={(e) => setFormData(prev => ({ ...prev, financial_rule: e.target.value as FinancialRule }))}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                >
+                    {(Object.keys(FINANCIAL_RULE_LABELS) as FinancialRule[]).map(rule => (
+                        <option key={rule} value={rule}>{FINANCIAL_RULE_LABELS[rule]}</option>
+                    ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                    Vale para todas as telas e relatórios. Medições já fechadas mantêm os valores congelados.
+                </p>
+            </div>
         </fieldset>
 
         <fieldset className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -153,6 +215,33 @@ export const GeneralSettings: React.FC<GeneralSettingsProps> = ({ formData, setF
             <legend className="text-lg font-medium text-gray-900 dark:text-slate-200">Unidades Habitacionais</legend>
             <p className="text-sm text-gray-600 dark:text-slate-400 mb-3">Adicione, remova ou renomeie as unidades do projeto.</p>
             
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-slate-300">
+                <input
+                    type="checkbox"
+                    checked={isVertical}
+                    onChange={(e) => setIsVertical(e.target.checked)}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Empreendimento vertical (unidades organizadas em torres e andares)
+            </label>
+
+            {isVertical ? (
+            <div className="mt-4 p-3 rounded-lg border dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+                <div className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-300 mb-3">
+                    <SparklesIcon />
+                    <span>Geração Rápida por Torre</span>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+                    <input name="tower" value={towerGen.tower} onChange={handleTowerGenChange} placeholder="Torre (ex: Torre A)" className={unitInputClassName} />
+                    <input name="firstFloor" type="number" value={towerGen.firstFloor} onChange={handleTowerGenChange} placeholder="Do andar" title="Primeiro andar" className={unitInputClassName} />
+                    <input name="lastFloor" type="number" value={towerGen.lastFloor} onChange={handleTowerGenChange} placeholder="Até o andar" title="Último andar" className={unitInputClassName} />
+                    <input name="unitsPerFloor" type="number" min={1} value={towerGen.unitsPerFloor} onChange={handleTowerGenChange} placeholder="Unidades por andar" title="Unidades por andar" className={unitInputClassName} />
+                </div>
+                <button type="button" onClick={handleTowerGenerate} className="mt-3 w-full sm:w-auto px-4 py-2 bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200 rounded-md hover:bg-blue-200 dark:hover:bg-blue-800/50 transition-all duration-200 text-sm font-medium">
+                    Gerar Unidades da Torre
+                </button>
+            </div>
+            ) : (
             <div className="mt-4 p-3 rounded-lg border dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
                 <div className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-300 mb-3">
                     <SparklesIcon />
@@ -167,6 +256,7 @@ export const GeneralSettings: React.FC<GeneralSettingsProps> = ({ formData, setF
                     Gerar Unidades
                 </button>
             </div>
+            )}
 
             <div className="mt-4 space-y-3 max-h-48 overflow-y-auto pr-2 rounded-md border dark:border-slate-700 p-3 bg-slate-50 dark:bg-slate-900/50">
                 {formData?.housing_units.map((unit, index) => (
@@ -178,6 +268,39 @@ export const GeneralSettings: React.FC<GeneralSettingsProps> = ({ formData, setF
                             placeholder={`Nome da Unidade ${index + 1}`}
                             className="flex-grow appearance-none block w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md shadow-sm placeholder-gray-400 dark:placeholder-slate-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                         />
+                        {isVertical && (
+                            <>
+                                <input
+                                    type="text"
+                                    value={unit.tower || ''}
+                                    onChange={(e) => handleUnitGroupChange(unit.id, 'tower', e.target.value)}
+                                    placeholder="Torre"
+                                    aria-label={`Torre de ${unit.name}`}
+                                    className={`w-28 ${unitInputClassName}`}
+                                />
+                                <input
+                                    type="text"
+                                    value={unit.floor || ''}
+                                    onChange={(e) => handleUnitGroupChange(unit.id, 'floor', e.target.value)}
+                                    placeholder="Andar"
+                                    aria-label={`Andar de ${unit.name}`}
+                                    className={`w-28 ${unitInputClassName}`}
+                                />
+                            </>
+                        )}
+                        {(formData?.typologies || []).length > 0 && (
+                            <select
+                                value={unit.typologyId || ''}
+                                onChange={(e) => handleUnitTypologyChange(unit.id, e.target.value)}
+                                aria-label={`Tipologia de ${unit.name}`}
+                                className="w-48 px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                            >
+                                <option value="">Sem tipologia</option>
+                                {formData.typologies!.map(typology => (
+                                    <option key={typology.id} value={typology.id}>{typology.name}</option>
+                                ))}
+                            </select>
+                        )}
                         <button type="button" onClick={() => handleRemoveUnit(unit.id)} className="text-rose-500 hover:text-rose-700 p-2 rounded-full hover:bg-rose-100 dark:hover:bg-rose-900/50 disabled:opacity-50" disabled={formData?.housing_units.length <= 1}>
                             <TrashIcon />
                         </button>
@@ -190,6 +313,8 @@ export const GeneralSettings: React.FC<GeneralSettingsProps> = ({ formData, setF
                 Adicionar Unidade Manualmente
             </button>
         </fieldset>
+
+        <TypologySettings formData={formData} setFormData={setFormData} />
         
          <fieldset className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <legend className="text-lg font-medium text-gray-900 dark:text-slate-200 col-span-full">Endereço</legend>
@@ -208,6 +333,20 @@ export const GeneralSettings: React.FC<GeneralSettingsProps> = ({ formData, setF
             <div className="md:col-span-2">
                 <FormInput label="E-mail" id="responsible_engineer.email" type="email" value={formData?.responsible_engineer?.email || ''} onChange={handleChange} />
             </div>
+            <label className="md:col-span-2 flex items-start gap-3 text-sm text-gray-700 dark:text-slate-300">
+                <input
+                    type="checkbox"
+                    checked={!!formData?.require_progress_approval}
+                    onChange={(e) => setFormData(prev => ({ ...prev, require_progress_approval: e.target.checked }))}
+                    className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>
+                    Exigir aprovação do responsável técnico para alterações de progresso
+                    <span className="block text-xs text-gray-500 dark:text-slate-400">
+                        As alterações dos editores ficam pendentes até que o responsável técnico (membro com este e-mail) ou um aprovador as aprove.
+                    </span>
+                </span>
+            </label>
         </fieldset>
 
         <fieldset className="pt-6 border-t border-rose-500/30">
@@ -3,7 +3,7 @@
  */
 import React from 'react';
 import { Project } from '../types';
-import { ArrowLeftIcon, SettingsIcon, DocumentArrowDownIcon, TableCellsIcon, HistoryIcon, SparklesIcon, CodeBracketIcon, MicrophoneIcon, ArchiveBoxIcon, SignOutIcon } from './Icons';
+import { ArrowLeftIcon, SettingsIcon, DocumentArrowDownIcon, TableCellsIcon, HistoryIcon, ShieldCheckIcon, SparklesIcon, CodeBracketIcon, MicrophoneIcon, ArchiveBoxIcon, SignOutIcon, CalendarDaysIcon, CloudArrowUpIcon, CheckCircleIcon } from './Icons';
 import { ThemeToggle } from './ThemeToggle';
 import { auth } from '../firebase/config';
 
@@ -15,10 +15,17 @@ import { auth } from '../firebase/config';
  * @property {() => void} onShowReportBuilder - Callback para abrir o construtor de relatórios.
  * @property {() => void} onShowPlsEditor - Callback para abrir o editor da PLS.
  * @property {() => void} onShowHistory - Callback para abrir o histórico de alterações.
+ * @property {() => void} onShowAuditLog - Callback para abrir a trilha de auditoria.
  * @property {() => void} onShowReportHistory - Callback para abrir o histórico de relatórios.
+ * @property {() => void} onShowMeasurements - Callback para abrir o gerenciamento de medições.
+ * @property {() => void} onShowApprovals - Callback para abrir a fila de aprovação de alterações de progresso.
  * @property {() => void} onToggleAssistant - Callback para alternar a visibilidade do assistente Gemini.
  * @property {() => void} onToggleLiveAssistant - Callback para alternar a visibilidade do assistente de voz.
  * @property {() => void} onExportJson - Callback para exportar os dados brutos do projeto em JSON.
+ * @property {boolean} isOnline - Indica se o navegador está com conexão.
+ * @property {number} pendingSyncCount - Número de alterações feitas sem conexão aguardando sincronização.
+ * @property {boolean} canEditProgress - Se o papel do usuário permite atualizar o progresso (exibe os assistentes).
+ * @property {boolean} canEditPls - Se o papel do usuário permite editar a PLS.
  */
 interface HeaderProps {
   project: Project;
@@ -27,12 +34,43 @@ interface HeaderProps {
   onShowReportBuilder: () => void;
   onShowPlsEditor: () => void;
   onShowHistory: () => void;
+  onShowAuditLog: () => void;
   onShowReportHistory: () => void;
+  onShowMeasurements: () => void;
+  onShowApprovals: () => void;
   onToggleAssistant: () => void;
   onToggleLiveAssistant: () => void;
   onExportJson: () => void;
+  isOnline: boolean;
+  pendingSyncCount: number;
+  canEditProgress: boolean;
+  canEditPls: boolean;
 }
 
+/**
+ * Subcomponente que indica o modo offline e quantas alterações aguardam sincronização.
+ * Não é exibido quando há conexão e nada pendente.
+ * @param {object} props - Propriedades do componente.
+ * @param {boolean} props.isOnline - Indica se o navegador está com conexão.
+ * @param {number} props.pendingSyncCount - Número de alterações pendentes.
+ * @returns {React.ReactElement | null} O indicador de sincronização.
+ */
+const SyncStatusBadge: React.FC<{ isOnline: boolean; pendingSyncCount: number }> = ({ isOnline, pendingSyncCount }) => {
+    if (isOnline && pendingSyncCount === 0) return null;
+    const label = pendingSyncCount > 0
+        ? `${pendingSyncCount} ${pendingSyncCount === 1 ? 'alteração pendente' : 'alterações pendentes'}`
+        : 'Sem conexão';
+    return (
+        <span
+            className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-semibold rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300"
+            title={isOnline ? 'Sincronizando alterações feitas sem conexão...' : 'Sem conexão. As alterações ficam salvas neste dispositivo e serão sincronizadas quando a conexão voltar.'}
+        >
+            <CloudArrowUpIcon />
+            {isOnline ? label : `Offline${pendingSyncCount > 0 ? ` · ${label}` : ''}`}
+        </span>
+    );
+};
+
 /**
  * Subcomponente para exibir um item de detalhe no cabeçalho, com um rótulo e um valor.
  * @param {object} props - Propriedades do componente.
@@ -53,8 +91,9 @@ const DetailItem: React.FC<{ label: string; value?: string | number | null }> =
  * @param {HeaderProps} props - Propriedades para configurar o cabeçalho e seus manipuladores de evento.
  * @returns {React.ReactElement} O componente de cabeçalho.
  */
-export const Header: React.FC<HeaderProps> = ({ project, onBackToDashboard, onShowSettings, onShowReportBuilder, onShowPlsEditor, onShowHistory, onShowReportHistory, onToggleAssistant, onToggleLiveAssistant, onExportJson }) => {
-  
+export const Header: React.FC<HeaderProps> = ({ project, onBackToDashboard, onShowSettings, onShowReportBuilder, onShowPlsEditor, onShowHistory, onShowAuditLog, onShowReportHistory, onShowMeasurements, onShowApprovals, onToggleAssistant, onToggleLiveAssistant, onExportJson, isOnline, pendingSyncCount, canEditProgress, canEditPls }) => {
+  const pendingApprovalCount = Object.keys(project.pending_progress || {}).length;
+
   return (
     <header className="bg-white dark:bg-slate-800 shadow-sm sticky top-0 z-20 border-b-4 border-amber-400">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8">
@@ -67,26 +106,49 @@ export const Header: React.FC<HeaderProps> = ({ project, onBackToDashboard, onSh
             <h1 className="text-lg font-bold text-slate-900 dark:text-slate-100 hidden sm:block">
               Acompanhamento de Obras
             </h1>
+            <SyncStatusBadge isOnline={isOnline} pendingSyncCount={pendingSyncCount} />
           </div>
           <div className="flex items-center gap-1 sm:gap-2">
-             <button onClick={onToggleAssistant} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300" aria-label="Abrir Assistente Gemini">
-                <SparklesIcon />
-            </button>
-             <button onClick={onToggleLiveAssistant} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300" aria-label="Abrir Assistente de Voz">
-                <MicrophoneIcon />
-            </button>
+            {canEditProgress && (
+              <>
+                <button onClick={onToggleAssistant} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300" aria-label="Abrir Assistente Gemini">
+                    <SparklesIcon />
+                </button>
+                <button onClick={onToggleLiveAssistant} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300" aria-label="Abrir Assistente de Voz">
+                    <MicrophoneIcon />
+                </button>
+              </>
+            )}
              <button onClick={onShowReportBuilder} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300" aria-label="Gerar Relatório">
                 <DocumentArrowDownIcon />
             </button>
             <button onClick={onShowReportHistory} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300" aria-label="Histórico de Relatórios">
                 <ArchiveBoxIcon />
             </button>
-            <button onClick={onShowPlsEditor} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300" aria-label="Editar Itens da PLS">
-                <TableCellsIcon />
+            <button onClick={onShowMeasurements} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300" aria-label="Medições">
+                <CalendarDaysIcon />
             </button>
+            {(project.require_progress_approval || pendingApprovalCount > 0) && (
+              <button onClick={onShowApprovals} className="relative p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300" aria-label="Aprovações Pendentes">
+                  <CheckCircleIcon className="h-6 w-6" />
+                  {pendingApprovalCount > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-amber-500 text-white text-[10px] font-bold flex items-center justify-center">
+                        {pendingApprovalCount}
+                    </span>
+                  )}
+              </button>
+            )}
+            {canEditPls && (
+              <button onClick={onShowPlsEditor} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300" aria-label="Editar Itens da PLS">
+                  <TableCellsIcon />
+              </button>
+            )}
              <button onClick={onShowHistory} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300" aria-label="Histórico de Alterações">
                 <HistoryIcon />
             </button>
+            <button onClick={onShowAuditLog} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300" aria-label="Trilha de Auditoria">
+                <ShieldCheckIcon />
+            </button>
             <button onClick={onExportJson} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300" aria-label="Exportar Dados do Projeto (JSON)">
                 <CodeBracketIcon />
             </button>
@@ -1,12 +1,21 @@
-import React, { useState, useMemo } from 'react';
-import { ProgressLog } from '../types';
-import { CloseIcon, HistoryIcon, SearchIcon, ArrowUpIcon, ArrowDownIcon } from './Icons';
+import React, { useState, useMemo, useCallback } from 'react';
+import { HistoryFilter, ProgressLog, ProgressLogSource } from '../types';
+import { CloseIcon, HistoryIcon, SearchIcon, ArrowUpIcon, ArrowDownIcon, SpinnerIconSmall, ArrowDownTrayIcon } from './Icons';
+import { flushPendingWrites, loadHistoryPage } from '../services/projectService';
+import { PROGRESS_LOG_SOURCE_LABELS, filterProgressLogs, getHistoryAuthors, getProgressLogAuthorEmail } from '../services/historyService';
+import { exportHistoryToXLSX } from '../services/exportService';
+import { usePagedCollection } from '../hooks/usePagedCollection';
 
 interface HistoryModalProps {
-  history: ProgressLog[];
+  projectId: string;
+  projectName: string;
   onClose: () => void;
 }
 
+const HISTORY_PAGE_SIZE = 50;
+
+const selectClassName = "px-3 py-2 text-sm bg-slate-100 dark:bg-slate-700/80 border border-transparent focus:border-blue-500 focus:ring-blue-500 rounded-md";
+
 const formatDateHeader = (dateString: string) => {
     const date = new Date(dateString);
     const today = new Date();
@@ -23,19 +32,19 @@ const formatDateHeader = (dateString: string) => {
     });
 };
 
-export const HistoryModal: React.FC<HistoryModalProps> = ({ history, onClose }) => {
-    const [searchTerm, setSearchTerm] = useState('');
+export const HistoryModal: React.FC<HistoryModalProps> = ({ projectId, projectName, onClose }) => {
+    const [filter, setFilter] = useState<HistoryFilter>({ source: 'all', userEmail: 'all', search: '' });
 
-    const filteredHistory = useMemo(() => {
-        if (!searchTerm.trim()) {
-            return history;
-        }
-        const lowercasedQuery = searchTerm.toLowerCase();
-        return history.filter(log => 
-            log.itemName.toLowerCase().includes(lowercasedQuery) ||
-            log.unitName.toLowerCase().includes(lowercasedQuery)
-        );
-    }, [history, searchTerm]);
+    const loadPage = useCallback(async (cursor: unknown) => {
+        // Grava antes as alterações ainda pendentes, para que apareçam no histórico.
+        if (!cursor) await flushPendingWrites(projectId);
+        return loadHistoryPage(projectId, HISTORY_PAGE_SIZE, cursor);
+    }, [projectId]);
+    const { items: history, isLoading, hasMore, loadMore } = usePagedCollection(loadPage, 'Falha ao carregar o histórico.');
+
+    const authors = useMemo(() => getHistoryAuthors(history), [history]);
+    const filteredHistory = useMemo(() => filterProgressLogs(history, filter), [history, filter]);
+    const isFiltered = filter.source !== 'all' || filter.userEmail !== 'all' || !!filter.search.trim();
 
     const groupedHistory = useMemo(() => {
         const groups: { [date: string]: ProgressLog[] } = {};
@@ -62,28 +71,58 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({ history, onClose })
                                 Histórico de Alterações do Projeto
                             </h2>
                             <p className="mt-1 text-sm text-gray-600 dark:text-slate-400">
-                                Veja todas as mudanças de progresso registradas.
+                                Veja todas as mudanças de progresso registradas, quem as fez e por onde.
                             </p>
                         </div>
                     </div>
-                     <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400">
-                        <CloseIcon />
-                    </button>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={() => exportHistoryToXLSX(projectName, filteredHistory)}
+                            disabled={filteredHistory.length === 0}
+                            title="Exportar os registros carregados e filtrados (XLSX)"
+                            className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 disabled:opacity-40"
+                        >
+                            <ArrowDownTrayIcon />
+                        </button>
+                        <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400">
+                            <CloseIcon />
+                        </button>
+                    </div>
                 </header>
 
-                <div className="p-4 border-b dark:border-slate-700">
-                     <div className="relative">
+                <div className="p-4 border-b dark:border-slate-700 flex flex-col sm:flex-row gap-3">
+                     <div className="relative flex-grow">
                         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                             <SearchIcon className="h-5 w-5 text-slate-400" />
                         </div>
                         <input
                             type="text"
                             placeholder="Buscar por serviço ou unidade..."
-                            value={searchTerm}
-                            onChange={(e) => setSearchTerm(e.target.value)}
-                            className="w-full pl-10 pr-4 py-3 bg-slate-100 dark:bg-slate-700/80 border border-transparent focus:bg-white dark:focus:bg-slate-800 focus:border-blue-500 focus:ring-blue-500 rounded-md transition-colors"
+                            value={filter.search}
+                            onChange={(e) => setFilter(prev => ({ ...prev, search: e.target.value }))}
+                            className="w-full pl-10 pr-4 py-2 bg-slate-100 dark:bg-slate-700/80 border border-transparent focus:bg-white dark:focus:bg-slate-800 focus:border-blue-500 focus:ring-blue-500 rounded-md transition-colors"
                         />
                     </div>
+                    <select
+                        value={filter.source}
+                        onChange={(e) => setFilter(prev => ({ ...prev, source: e.target.value as ProgressLogSource | 'all' }))}
+                        className={selectClassName}
+                        aria-label="Filtrar por origem"
+                    >
+                        <option value="all">Todas as origens</option>
+                        {(Object.keys(PROGRESS_LOG_SOURCE_LABELS) as ProgressLogSource[]).map(source => (
+                            <option key={source} value={source}>{PROGRESS_LOG_SOURCE_LABELS[source]}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={filter.userEmail}
+                        onChange={(e) => setFilter(prev => ({ ...prev, userEmail: e.target.value }))}
+                        className={selectClassName}
+                        aria-label="Filtrar por autor"
+                    >
+                        <option value="all">Todos os autores</option>
+                        {authors.map(email => <option key={email} value={email}>{email}</option>)}
+                    </select>
                 </div>
 
                 <main className="flex-grow p-4 overflow-y-auto">
@@ -97,6 +136,7 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({ history, onClose })
                                     <ul className="space-y-3">
                                         {(logs as ProgressLog[]).map(log => {
                                             const isIncrease = log.newProgress > log.oldProgress;
+                                            const author = getProgressLogAuthorEmail(log);
                                             return (
                                                 <li key={log.id} className="flex items-start gap-3">
                                                     <div className={`mt-1 flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${isIncrease ? 'bg-emerald-100 dark:bg-emerald-900/50 text-emerald-600 dark:text-emerald-400' : 'bg-rose-100 dark:bg-rose-900/50 text-rose-600 dark:text-rose-400'}`}>
@@ -108,8 +148,16 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({ history, onClose })
                                                             <span className="font-semibold text-rose-600 dark:text-rose-400">{log.oldProgress}%</span> para {' '}
                                                             <span className="font-semibold text-emerald-600 dark:text-emerald-400">{log.newProgress}%</span>.
                                                         </p>
+                                                        {log.status && log.status !== 'pending' && (
+                                                            <p className={`text-xs font-semibold mt-0.5 ${log.status === 'approved' ? 'text-emerald-700 dark:text-emerald-400' : 'text-rose-700 dark:text-rose-400'}`}>
+                                                                {log.status === 'approved' ? 'Aprovada' : 'Rejeitada (progresso mantido)'} por {log.reviewedBy}
+                                                                {log.submittedBy && <span className="font-normal text-slate-500 dark:text-slate-400"> · enviada por {log.submittedBy}</span>}
+                                                            </p>
+                                                        )}
                                                         <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
                                                             {new Date(log.timestamp).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
+                                                            {author && <> · {author}</>}
+                                                            {log.source && <> · {PROGRESS_LOG_SOURCE_LABELS[log.source]}</>}
                                                         </p>
                                                     </div>
                                                 </li>
@@ -119,16 +167,32 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({ history, onClose })
                                 </div>
                             ))}
                         </div>
+                    ) : isLoading ? (
+                        <div className="flex justify-center py-16 text-slate-500">
+                            <SpinnerIconSmall />
+                        </div>
                     ) : (
                          <div className="text-center py-16">
                             <p className="font-semibold text-slate-700 dark:text-slate-200">
-                                {searchTerm ? 'Nenhum resultado encontrado' : 'Nenhum histórico de alterações encontrado'}
+                                {isFiltered ? 'Nenhum resultado encontrado' : 'Nenhum histórico de alterações encontrado'}
                             </p>
                             <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
-                                {searchTerm ? 'Tente ajustar sua busca.' : 'As alterações de progresso aparecerão aqui.'}
+                                {isFiltered ? 'Tente ajustar os filtros ou carregar registros mais antigos.' : 'As alterações de progresso aparecerão aqui.'}
                             </p>
                         </div>
                     )}
+                    {hasMore && history.length > 0 && (
+                        <div className="flex justify-center pt-6">
+                            <button
+                                onClick={loadMore}
+                                disabled={isLoading}
+                                className="flex items-center gap-2 px-4 py-2 text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-500 text-slate-700 dark:text-slate-200 rounded-md hover:bg-slate-100 dark:hover:bg-slate-600 font-semibold disabled:opacity-50"
+                            >
+                                {isLoading && <SpinnerIconSmall />}
+                                Carregar mais
+                            </button>
+                        </div>
+                    )}
                 </main>
             </div>
         </div>
@@ -0,0 +1,344 @@
+/**
+ * @file Componente `MeasurementsModal` para gerenciar as medições do projeto.
+ * Permite abrir e fechar medições e exibe, para cada uma, o executado no período versus o acumulado
+ * por etapa e por serviço.
+ */
+import React, { useState, useMemo, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { Project, ServiceCategory, Financials, Measurement, AuditEntry } from '../types';
+import { CloseIcon, CalendarDaysIcon } from './Icons';
+import { buildPeriodSummary, getOpenMeasurement, getPreviousClosedMeasurement } from '../services/measurementService';
+import { toCurrentPlsVersion } from '../services/changeOrderService';
+import { flushPendingWrites, loadAuditEntries } from '../services/projectService';
+
+/**
+ * @typedef {object} MeasurementsModalProps
+ * @property {Project} project - O projeto ativo.
+ * @property {ServiceCategory[]} plsData - A estrutura de serviços calculada.
+ * @property {Financials} financials - Os dados financeiros atuais do projeto.
+ * @property {(periodStart: string, periodEnd: string) => void} onOpenMeasurement - Callback para abrir uma nova medição.
+ * @property {() => void} onCloseMeasurement - Callback para fechar a medição aberta.
+ * @property {(measurementId: string, reason: string) => void} onReopenMeasurement - Callback para reabrir uma medição fechada com justificativa.
+ * @property {boolean} canManage - Se o usuário pode abrir, fechar e reabrir medições.
+ * @property {() => void} onClose - Callback para fechar o modal.
+ */
+interface MeasurementsModalProps {
+    project: Project;
+    plsData: ServiceCategory[];
+    financials: Financials;
+    onOpenMeasurement: (periodStart: string, periodEnd: string) => void;
+    onCloseMeasurement: () => void;
+    onReopenMeasurement: (measurementId: string, reason: string) => void;
+    canManage: boolean;
+    onClose: () => void;
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+/**
+ * Formata uma data no formato AAAA-MM-DD para o padrão brasileiro, sem conversão de fuso horário.
+ * @param {string} date A data a ser formatada.
+ * @returns {string} A data formatada, ex: "31/01/2025".
+ */
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+/**
+ * Retorna o dia seguinte a uma data no formato AAAA-MM-DD.
+ */
+const nextDay = (date: string) => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + 1);
+    return d.toISOString().split('T')[0];
+};
+
+/**
+ * Formulário para abrir uma nova medição, com o início sugerido a partir do fim da medição anterior.
+ * @param {object} props - Propriedades do componente.
+ * @param {string} props.defaultStart - A data de início sugerida (AAAA-MM-DD).
+ * @param {(periodStart: string, periodEnd: string) => void} props.onSubmit - Callback com o período escolhido.
+ * @returns {React.ReactElement} O formulário de nova medição.
+ */
+const NewMeasurementForm: React.FC<{ defaultStart: string; onSubmit: (periodStart: string, periodEnd: string) => void }> = ({ defaultStart, onSubmit }) => {
+    const [periodStart, setPeriodStart] = useState(defaultStart);
+    const [periodEnd, setPeriodEnd] = useState('');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSubmit(periodStart, periodEnd);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border dark:border-slate-700 space-y-2">
+            <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-200">Abrir Nova Medição</h3>
+            <div className="grid grid-cols-2 gap-2">
+                <label className="text-xs text-slate-500 dark:text-slate-400">
+                    Início
+                    <input type="date" required value={periodStart} onChange={e => setPeriodStart(e.target.value)} className="mt-1 block w-full px-2 py-1 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md text-sm" />
+                </label>
+                <label className="text-xs text-slate-500 dark:text-slate-400">
+                    Fim
+                    <input type="date" required min={periodStart} value={periodEnd} onChange={e => setPeriodEnd(e.target.value)} className="mt-1 block w-full px-2 py-1 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md text-sm" />
+                </label>
+            </div>
+            <button type="submit" className="w-full px-3 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700">
+                Abrir Medição
+            </button>
+        </form>
+    );
+};
+
+/**
+ * Modal que lista as medições do projeto e detalha o executado no período versus o acumulado.
+ * @param {MeasurementsModalProps} props - As propriedades do componente.
+ * @returns {React.ReactElement} O modal de medições.
+ */
+export const MeasurementsModal: React.FC<MeasurementsModalProps> = ({ project, plsData, financials, onOpenMeasurement, onCloseMeasurement, onReopenMeasurement, canManage, onClose }) => {
+    const measurements = useMemo(() => [...(project.measurements || [])].sort((a, b) => b.number - a.number), [project.measurements]);
+    const openMeasurement = getOpenMeasurement(measurements);
+
+    const [selectedId, setSelectedId] = useState<string | null>(measurements[0]?.id || null);
+    const selected = measurements.find(m => m.id === selectedId) || measurements[0];
+    const lastClosed = getPreviousClosedMeasurement(measurements, Infinity);
+    const [reopenReason, setReopenReason] = useState('');
+    const [isReopening, setIsReopening] = useState(false);
+
+    const [reopeningEntries, setReopeningEntries] = useState<AuditEntry[]>([]);
+
+    // Recarrega as reaberturas da trilha de auditoria sempre que as medições mudam (por exemplo, ao reabrir uma).
+    useEffect(() => {
+        let cancelled = false;
+        flushPendingWrites(project.id)
+            .then(() => loadAuditEntries(project.id, 'measurement_reopened'))
+            .then(entries => { if (!cancelled) setReopeningEntries(entries); })
+            .catch(error => {
+                console.error("Failed to load measurement reopenings", error);
+                if (!cancelled) toast.error("Falha ao carregar as reaberturas das medições.");
+            });
+        return () => { cancelled = true; };
+    }, [project.id, project.measurements]);
+
+    const reopenings = useMemo(() => {
+        // As reaberturas antigas ficam no documento do projeto; as gravadas nos dois lugares aparecem uma vez.
+        const loadedIds = new Set(reopeningEntries.map(entry => entry.id));
+        const legacy = (project.audit_log || []).filter(entry => entry.action === 'measurement_reopened' && !loadedIds.has(entry.id));
+        return [...reopeningEntries, ...legacy]
+            .filter(entry => entry.targetId === selected?.id)
+            .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    }, [reopeningEntries, project.audit_log, selected?.id]);
+
+    const summary = useMemo(() => {
+        if (!selected) return null;
+        const isClosed = selected.status === 'closed';
+        // Os snapshots medidos antes de um aditivo são convertidos para os serviços da PLS em vigor
+        const snapshot = toCurrentPlsVersion(project, selected).progressSnapshot;
+        const progress = isClosed && snapshot ? snapshot : project.progress;
+        const periodFinancials = isClosed && selected.financialsSnapshot ? selected.financialsSnapshot : financials;
+        const previous = getPreviousClosedMeasurement(measurements, selected.number);
+        return buildPeriodSummary(plsData, progress, periodFinancials, project.housing_units, previous && toCurrentPlsVersion(project, previous));
+    }, [selected, measurements, project, plsData, financials]);
+
+    const handleCloseMeasurement = (measurement: Measurement) => {
+        if (window.confirm(`Fechar a Medição ${measurement.number}? O progresso e os valores atuais serão congelados como base para a próxima medição.`)) {
+            onCloseMeasurement();
+        }
+    };
+
+    const handleReopen = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selected || !reopenReason.trim()) return;
+        onReopenMeasurement(selected.id, reopenReason);
+        setReopenReason('');
+        setIsReopening(false);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="w-full max-w-5xl bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center">
+                    <div className="flex items-center gap-4">
+                        <div className="flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-slate-100 dark:bg-slate-700">
+                            <CalendarDaysIcon />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-slate-100">Medições</h2>
+                            <p className="mt-1 text-sm text-gray-600 dark:text-slate-400">
+                                Abra e feche períodos de medição e compare o executado no período com o acumulado.
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400">
+                        <CloseIcon />
+                    </button>
+                </header>
+
+                <div className="flex-grow flex overflow-hidden">
+                    <aside className="w-1/3 border-r dark:border-slate-700 p-4 overflow-y-auto space-y-4">
+                        {canManage && !openMeasurement && (
+                            <NewMeasurementForm
+                                key={measurements.length}
+                                defaultStart={measurements[0]?.periodEnd ? nextDay(measurements[0].periodEnd) : new Date().toISOString().split('T')[0]}
+                                onSubmit={onOpenMeasurement}
+                            />
+                        )}
+
+                        {measurements.length === 0 ? (
+                            <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">Nenhuma medição registrada.</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {measurements.map(measurement => (
+                                    <li key={measurement.id}>
+                                        <button
+                                            onClick={() => setSelectedId(measurement.id)}
+                                            className={`w-full text-left p-3 rounded-lg border transition-colors ${selected?.id === measurement.id ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30' : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}
+                                        >
+                                            <div className="flex justify-between items-center">
+                                                <span className="font-semibold text-slate-800 dark:text-slate-100">Medição {measurement.number}</span>
+                                                <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${measurement.status === 'open' ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300' : 'bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300'}`}>
+                                                    {measurement.status === 'open' ? 'ABERTA' : 'FECHADA'}
+                                                </span>
+                                            </div>
+                                            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                                                {formatDate(measurement.periodStart)} a {formatDate(measurement.periodEnd)}
+                                            </p>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </aside>
+
+                    <main className="flex-grow p-4 overflow-y-auto">
+                        {selected && summary ? (
+                            <div className="space-y-4">
+                                <div className="flex justify-between items-start gap-4">
+                                    <div>
+                                        <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100">Medição {selected.number}</h3>
+                                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                                            {selected.status === 'closed' && selected.closedAt
+                                                ? `Fechada em ${new Date(selected.closedAt).toLocaleString('pt-BR')}`
+                                                : 'Em apuração: os valores refletem o progresso atual.'}
+                                        </p>
+                                        {(project.change_orders?.length || 0) > 0 && (
+                                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                                Medida contra a PLS versão {selected.status === 'closed' ? selected.plsVersion || 1 : project.pls_version || 1}
+                                            </p>
+                                        )}
+                                    </div>
+                                    {canManage && selected.status === 'open' && (
+                                        <button onClick={() => handleCloseMeasurement(selected)} className="flex-shrink-0 px-4 py-2 text-sm font-semibold text-white bg-amber-600 rounded-md hover:bg-amber-700">
+                                            Fechar Medição
+                                        </button>
+                                    )}
+                                    {canManage && selected.id === lastClosed?.id && !isReopening && (
+                                        <button onClick={() => setIsReopening(true)} className="flex-shrink-0 px-4 py-2 text-sm font-semibold text-rose-700 dark:text-rose-300 border border-rose-300 dark:border-rose-700 rounded-md hover:bg-rose-50 dark:hover:bg-rose-900/30">
+                                            Reabrir Medição
+                                        </button>
+                                    )}
+                                </div>
+
+                                {isReopening && selected.id === lastClosed?.id && (
+                                    <form onSubmit={handleReopen} className="p-3 bg-rose-50 dark:bg-rose-900/30 border border-rose-200 dark:border-rose-800 rounded-lg space-y-2">
+                                        <label htmlFor="reopen-reason" className="block text-sm font-semibold text-rose-800 dark:text-rose-200">Motivo da reabertura</label>
+                                        <p className="text-xs text-rose-700 dark:text-rose-300">
+                                            Os valores congelados desta medição serão descartados e a reabertura ficará registrada na trilha de auditoria.
+                                            {openMeasurement && ` A Medição ${openMeasurement.number}, ainda aberta, será descartada.`}
+                                        </p>
+                                        <textarea
+                                            id="reopen-reason"
+                                            required
+                                            rows={3}
+                                            value={reopenReason}
+                                            onChange={e => setReopenReason(e.target.value)}
+                                            className="block w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md text-sm"
+                                        />
+                                        <div className="flex justify-end gap-2">
+                                            <button type="button" onClick={() => setIsReopening(false)} className="px-3 py-1.5 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md">
+                                                Cancelar
+                                            </button>
+                                            <button type="submit" disabled={!reopenReason.trim()} className="px-3 py-1.5 text-sm font-semibold text-white bg-rose-600 rounded-md hover:bg-rose-700 disabled:opacity-50">
+                                                Confirmar Reabertura
+                                            </button>
+                                        </div>
+                                    </form>
+                                )}
+
+                                {reopenings.length > 0 && (
+                                    <div className="text-xs text-slate-500 dark:text-slate-400 space-y-1">
+                                        {reopenings.map(entry => (
+                                            <p key={entry.id}>
+                                                Reaberta em {new Date(entry.timestamp).toLocaleString('pt-BR')}{entry.userEmail && ` por ${entry.userEmail}`}: "{entry.reason}"
+                                            </p>
+                                        ))}
+                                    </div>
+                                )}
+
+                                <div className="grid grid-cols-3 gap-3">
+                                    <div className="p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border dark:border-slate-700">
+                                        <p className="text-xs font-medium text-slate-500 dark:text-slate-400">Executado no Período</p>
+                                        <p className="text-lg font-bold text-emerald-600 dark:text-emerald-400">{formatCurrency(summary.totalReleased.period)}</p>
+                                        <p className="text-xs text-slate-500">{summary.totalProgress.period.toFixed(2)}%</p>
+                                    </div>
+                                    <div className="p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border dark:border-slate-700">
+                                        <p className="text-xs font-medium text-slate-500 dark:text-slate-400">Acumulado Anterior</p>
+                                        <p className="text-lg font-bold text-slate-700 dark:text-slate-300">{formatCurrency(summary.totalReleased.previous)}</p>
+                                        <p className="text-xs text-slate-500">{summary.totalProgress.previous.toFixed(2)}%</p>
+                                    </div>
+                                    <div className="p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border dark:border-slate-700">
+                                        <p className="text-xs font-medium text-slate-500 dark:text-slate-400">Acumulado</p>
+                                        <p className="text-lg font-bold text-amber-600 dark:text-amber-400">{formatCurrency(summary.totalReleased.accumulated)}</p>
+                                        <p className="text-xs text-slate-500">{summary.totalProgress.accumulated.toFixed(2)}%</p>
+                                    </div>
+                                </div>
+
+                                <table className="w-full text-sm border-collapse">
+                                    <thead>
+                                        <tr className="bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200">
+                                            <th className="px-3 py-2 text-left font-semibold">Etapa / Serviço</th>
+                                            <th className="px-3 py-2 text-right font-semibold">Anterior</th>
+                                            <th className="px-3 py-2 text-right font-semibold">No Período</th>
+                                            <th className="px-3 py-2 text-right font-semibold">Acumulado</th>
+                                            <th className="px-3 py-2 text-right font-semibold">Liberado no Período</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {plsData.map(category => {
+                                            const categorySummary = summary.categories[category.id];
+                                            return (
+                                                <React.Fragment key={category.id}>
+                                                    <tr className="bg-slate-50 dark:bg-slate-900/50 font-semibold text-slate-800 dark:text-slate-100 border-t dark:border-slate-700">
+                                                        <td className="px-3 py-2">{category.id} - {category.name}</td>
+                                                        <td className="px-3 py-2 text-right">{categorySummary.measuredIncidence.previous.toFixed(2)}%</td>
+                                                        <td className="px-3 py-2 text-right text-emerald-700 dark:text-emerald-400">{categorySummary.measuredIncidence.period.toFixed(2)}%</td>
+                                                        <td className="px-3 py-2 text-right">{categorySummary.measuredIncidence.accumulated.toFixed(2)}%</td>
+                                                        <td className="px-3 py-2 text-right">{formatCurrency(categorySummary.released.period)}</td>
+                                                    </tr>
+                                                    {category.subItems.map(item => {
+                                                        const itemSummary = summary.items[item.id];
+                                                        return (
+                                                            <tr key={item.id} className="text-slate-600 dark:text-slate-300 border-t dark:border-slate-700/50">
+                                                                <td className="px-3 py-1.5 pl-6">{item.id} - {item.name}</td>
+                                                                <td className="px-3 py-1.5 text-right">{itemSummary.progress.previous.toFixed(2)}%</td>
+                                                                <td className="px-3 py-1.5 text-right text-emerald-700 dark:text-emerald-400">{itemSummary.progress.period.toFixed(2)}%</td>
+                                                                <td className="px-3 py-1.5 text-right">{itemSummary.progress.accumulated.toFixed(2)}%</td>
+                                                                <td className="px-3 py-1.5 text-right">{formatCurrency(itemSummary.released.period)}</td>
+                                                            </tr>
+                                                        );
+                                                    })}
+                                                </React.Fragment>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                                <p className="text-xs text-slate-500 dark:text-slate-400">
+                                    Nas etapas, os valores correspondem à incidência mensurada; nos serviços, ao progresso médio entre as unidades.
+                                </p>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-16">Abra a primeira medição para começar a acompanhar os períodos.</p>
+                        )}
+                    </main>
+                </div>
+            </div>
+        </div>
+    );
+};
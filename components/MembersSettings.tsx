@@ -1,7 +1,10 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Project, UserProfile } from '../types';
+import { AuditAction, AuditFieldChange, Project, ProjectInvitation, ProjectRole, UserProfile } from '../types';
 import * as userService from '../services/userService';
 import * as projectService from '../services/projectService';
+import { ASSIGNABLE_ROLES, getMemberRole, hasPermission, ROLE_LABELS } from '../services/permissionService';
+import { getInvitations, INVITATION_VALIDITY_DAYS, isInvitationExpired, normalizeEmail } from '../services/invitationService';
+import { createAuditEntry } from '../services/auditService';
 import { TrashIcon, SpinnerIconSmall } from './Icons';
 import toast from 'react-hot-toast';
 
@@ -14,10 +17,12 @@ export const MembersSettings: React.FC<MembersSettingsProps> = ({ project, user
     const [members, setMembers] = useState<Map<string, UserProfile>>(new Map());
     const [isLoadingMembers, setIsLoadingMembers] = useState(true);
     const [newMemberEmail, setNewMemberEmail] = useState('');
+    const [newMemberRole, setNewMemberRole] = useState<ProjectRole>('viewer');
     const [isAdding, setIsAdding] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    const isOwner = user.uid === project.ownerId;
+    const canManageMembers = hasPermission(project, user.uid, 'manage_members');
+    const invitations = getInvitations(project);
 
     const fetchMembers = useCallback(async () => {
         setIsLoadingMembers(true);
@@ -34,6 +39,14 @@ export const MembersSettings: React.FC<MembersSettingsProps> = ({ project, user
         fetchMembers();
     }, [fetchMembers, project.id]);
     
+    /**
+     * Registra uma alteração de membros na trilha de auditoria. Uma falha aqui não desfaz a alteração já gravada.
+     */
+    const recordAudit = (action: AuditAction, description: string, targetId: string, changes?: AuditFieldChange[]) => {
+        return projectService.recordAuditEntries(project.id, [createAuditEntry(action, description, user, { targetId, changes })])
+            .catch(err => console.error("Error recording audit entry:", err));
+    };
+
     const handleAddMember = async (e: React.FormEvent) => {
         e.preventDefault();
         setError(null);
@@ -43,8 +56,8 @@ export const MembersSettings: React.FC<MembersSettingsProps> = ({ project, user
         try {
             const userToAdd = await userService.findUserByEmail(newMemberEmail);
             if (!userToAdd) {
-                setError("Nenhum usuário encontrado com este e-mail.");
-                setIsAdding(false);
+                // Sem conta no sistema: o convite vira participação quando a pessoa se cadastrar com este e-mail.
+                await sendInvitation(newMemberEmail, newMemberRole);
                 return;
             }
             if (project.members?.includes(userToAdd.uid)) {
@@ -53,7 +66,8 @@ export const MembersSettings: React.FC<MembersSettingsProps> = ({ project, user
                 return;
             }
 
-            const promise = projectService.addMemberToProject(project.id, userToAdd.uid);
+            const promise = projectService.addMemberToProject(project.id, userToAdd.uid, newMemberRole)
+                .then(() => recordAudit('member_added', `${userToAdd.email || userToAdd.uid} adicionado como ${ROLE_LABELS[newMemberRole]}.`, userToAdd.uid));
             await toast.promise(promise, {
                 loading: 'Adicionando membro...',
                 success: () => {
@@ -72,9 +86,53 @@ export const MembersSettings: React.FC<MembersSettingsProps> = ({ project, user
         }
     };
 
+    const sendInvitation = async (email: string, role: ProjectRole) => {
+        const promise = projectService.inviteMemberToProject(project, email, role, user)
+            .then(invitation => recordAudit('invitation_sent', `Convite enviado para ${invitation.email} como ${ROLE_LABELS[role]}.`, invitation.email));
+        await toast.promise(promise, {
+            loading: 'Enviando convite...',
+            success: () => {
+                setNewMemberEmail('');
+                return `Convite enviado para ${normalizeEmail(email)}.`;
+            },
+            error: 'Falha ao enviar o convite.'
+        });
+    };
+
+    const handleResendInvitation = (invitation: ProjectInvitation) => {
+        sendInvitation(invitation.email, invitation.role).catch(err => console.error("Error resending invitation:", err));
+    };
+
+    const handleRevokeInvitation = (invitation: ProjectInvitation) => {
+        if (!window.confirm(`Revogar o convite para ${invitation.email}?`)) return;
+        const promise = projectService.revokeInvitation(project.id, invitation.email)
+            .then(() => recordAudit('invitation_revoked', `Convite para ${invitation.email} revogado.`, invitation.email));
+        toast.promise(promise, {
+            loading: 'Revogando convite...',
+            success: 'Convite revogado.',
+            error: 'Falha ao revogar o convite.'
+        });
+    };
+
+    const handleRoleChange = (memberId: string, role: ProjectRole) => {
+        const email = members.get(memberId)?.email || memberId;
+        const previousRole = getMemberRole(project, memberId);
+        const promise = projectService.setMemberRole(project.id, memberId, role)
+            .then(() => recordAudit('member_role_changed', `Papel de ${email} alterado para ${ROLE_LABELS[role]}.`, memberId, [
+                { field: 'roles', label: 'Papel', before: previousRole ? ROLE_LABELS[previousRole] : null, after: ROLE_LABELS[role] },
+            ]));
+        toast.promise(promise, {
+            loading: 'Alterando papel...',
+            success: `Papel alterado para ${ROLE_LABELS[role]}.`,
+            error: 'Falha ao alterar o papel do membro.'
+        });
+    };
+
     const handleRemoveMember = async (memberId: string) => {
         if (window.confirm(`Tem certeza que deseja remover este membro do projeto?`)) {
-            const promise = projectService.removeMemberFromProject(project.id, memberId);
+            const email = members.get(memberId)?.email || memberId;
+            const promise = projectService.removeMemberFromProject(project.id, memberId)
+                .then(() => recordAudit('member_removed', `${email} removido do projeto.`, memberId));
             toast.promise(promise, {
                 loading: 'Removendo membro...',
                 success: 'Membro removido com sucesso!',
@@ -87,7 +145,7 @@ export const MembersSettings: React.FC<MembersSettingsProps> = ({ project, user
         <div className="space-y-6">
             <div>
                 <h3 className="text-lg font-medium text-gray-900 dark:text-slate-200">Membros do Projeto</h3>
-                <p className="text-sm text-gray-600 dark:text-slate-400">Gerencie quem tem acesso a este projeto.</p>
+                <p className="text-sm text-gray-600 dark:text-slate-400">Gerencie quem tem acesso a este projeto e o que cada membro pode alterar.</p>
             </div>
 
             <div className="space-y-3">
@@ -100,20 +158,62 @@ export const MembersSettings: React.FC<MembersSettingsProps> = ({ project, user
                                 <span className="font-medium text-slate-800 dark:text-slate-200">{member.email}</span>
                                 {member.uid === project.ownerId && <span className="text-xs font-semibold text-amber-600 dark:text-amber-500">PROPRIETÁRIO</span>}
                             </div>
-                            {isOwner && member.uid !== project.ownerId && (
-                                <button onClick={() => handleRemoveMember(member.uid)} className="text-rose-500 hover:text-rose-700 p-2 rounded-full hover:bg-rose-100 dark:hover:bg-rose-900/50">
-                                    <TrashIcon />
-                                </button>
+                            {canManageMembers && member.uid !== project.ownerId ? (
+                                <div className="flex items-center gap-2">
+                                    <select
+                                        value={getMemberRole(project, member.uid) || 'viewer'}
+                                        onChange={(e) => handleRoleChange(member.uid, e.target.value as ProjectRole)}
+                                        className="px-2 py-1 text-sm border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md"
+                                        aria-label={`Papel de ${member.email}`}
+                                    >
+                                        {ASSIGNABLE_ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                                    </select>
+                                    <button onClick={() => handleRemoveMember(member.uid)} className="text-rose-500 hover:text-rose-700 p-2 rounded-full hover:bg-rose-100 dark:hover:bg-rose-900/50">
+                                        <TrashIcon />
+                                    </button>
+                                </div>
+                            ) : member.uid !== project.ownerId && (
+                                <span className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase">{ROLE_LABELS[getMemberRole(project, member.uid) || 'viewer']}</span>
                             )}
                         </div>
                     ))
                 )}
             </div>
             
-            {isOwner && (
+            {canManageMembers && invitations.length > 0 && (
+                <div className="space-y-3">
+                    <h3 className="text-lg font-medium text-gray-900 dark:text-slate-200 mt-8">Convites Pendentes</h3>
+                    {invitations.map(invitation => {
+                        const isExpired = isInvitationExpired(invitation);
+                        return (
+                            <div key={invitation.email} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-700/50 rounded-md">
+                                <div className="flex flex-col">
+                                    <span className="font-medium text-slate-800 dark:text-slate-200">{invitation.email}</span>
+                                    <span className={`text-xs ${isExpired ? 'text-rose-600 dark:text-rose-400' : 'text-slate-500 dark:text-slate-400'}`}>
+                                        {ROLE_LABELS[invitation.role]} · {isExpired ? 'expirado em' : 'válido até'} {new Date(invitation.expiresAt).toLocaleDateString('pt-BR')}
+                                    </span>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <button type="button" onClick={() => handleResendInvitation(invitation)} className="text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300">
+                                        Reenviar
+                                    </button>
+                                    <button type="button" onClick={() => handleRevokeInvitation(invitation)} className="text-rose-500 hover:text-rose-700 p-2 rounded-full hover:bg-rose-100 dark:hover:bg-rose-900/50" title="Revogar convite">
+                                        <TrashIcon />
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {canManageMembers && (
                 <form onSubmit={handleAddMember}>
                     <h3 className="text-lg font-medium text-gray-900 dark:text-slate-200 mt-8">Convidar Novo Membro</h3>
-                    <p className="text-sm text-gray-600 dark:text-slate-400 mb-3">O usuário deve ter uma conta no sistema para ser adicionado.</p>
+                    <p className="text-sm text-gray-600 dark:text-slate-400 mb-3">
+                        Usuários já cadastrados são adicionados na hora. Os demais recebem um convite por e-mail, válido por {INVITATION_VALIDITY_DAYS} dias,
+                        e entram no projeto ao se cadastrar com o e-mail convidado.
+                    </p>
                      <div className="flex items-start gap-3">
                         <div className="flex-grow">
                              <input
@@ -124,6 +224,14 @@ export const MembersSettings: React.FC<MembersSettingsProps> = ({ project, user
                                 className="appearance-none block w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md shadow-sm placeholder-gray-400 dark:placeholder-slate-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                             />
                         </div>
+                        <select
+                            value={newMemberRole}
+                            onChange={(e) => setNewMemberRole(e.target.value as ProjectRole)}
+                            className="px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md shadow-sm"
+                            aria-label="Papel do novo membro"
+                        >
+                            {ASSIGNABLE_ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                        </select>
                         <button type="submit" disabled={isAdding} className="flex items-center justify-center gap-2 w-32 px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50">
                             {isAdding ? <SpinnerIconSmall /> : 'Adicionar'}
                         </button>
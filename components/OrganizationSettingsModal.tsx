@@ -0,0 +1,334 @@
+/**
+ * @file Componente `OrganizationSettingsModal`, para criar uma organização ou alterar os seus dados,
+ * a sua identidade visual, o seu modelo padrão de PLS e os seus membros.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { Organization, OrganizationRole, UserProfile } from '../types';
+import * as projectService from '../services/projectService';
+import * as userService from '../services/userService';
+import {
+    canManageOrganization, getOrganizationRole, ORGANIZATION_PROJECT_ROLES, ORGANIZATION_ROLE_LABELS,
+    removeOrganizationMember, setOrganizationMember
+} from '../services/organizationService';
+import { ROLE_LABELS } from '../services/permissionService';
+import { useTemplates } from '../hooks/useTemplates';
+import { BuildingIcon, CloseIcon, TrashIcon, SpinnerIconSmall } from './Icons';
+
+interface OrganizationSettingsModalProps {
+    /** A organização a alterar, ou `null` para criar uma nova. */
+    organization: Organization | null;
+    user: UserProfile;
+    /** Chamado após gravar, com a organização gravada. */
+    onSaved: (organization: Organization) => void;
+    /** Chamado após excluir a organização. */
+    onDeleted: () => void;
+    onClose: () => void;
+}
+
+const inputClassName = "appearance-none block w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md shadow-sm placeholder-gray-400 dark:placeholder-slate-400 focus:outline-none focus:ring-amber-500 focus:border-amber-500 sm:text-sm";
+
+const ORGANIZATION_ROLES: OrganizationRole[] = ['member', 'admin'];
+
+/**
+ * Renderiza o modal de configurações da organização.
+ * @param {OrganizationSettingsModalProps} props As propriedades do componente.
+ * @returns {React.ReactElement} O modal.
+ */
+export const OrganizationSettingsModal: React.FC<OrganizationSettingsModalProps> = ({ organization, user, onSaved, onDeleted, onClose }) => {
+    const { templates } = useTemplates(user.uid, organization?.id);
+    const [formData, setFormData] = useState<Organization | null>(organization);
+    // Última versão gravada, usada nas alterações de membros (que não gravam os dados ainda não salvos do formulário).
+    const [savedOrganization, setSavedOrganization] = useState<Organization | null>(organization);
+    const [newName, setNewName] = useState('');
+    const [memberProfiles, setMemberProfiles] = useState<Map<string, UserProfile>>(new Map());
+    const [newMemberEmail, setNewMemberEmail] = useState('');
+    const [newMemberRole, setNewMemberRole] = useState<OrganizationRole>('member');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const canManage = !!organization && canManageOrganization(organization, user.uid);
+
+    const fetchMembers = useCallback(async () => {
+        if (!organization) return;
+        setMemberProfiles(await userService.getUsersFromIds(organization.members));
+    }, [organization]);
+
+    useEffect(() => {
+        fetchMembers().catch(error => console.error("Failed to load organization members", error));
+    }, [fetchMembers]);
+
+    /**
+     * Grava a organização e avisa o painel, para que recarregue a lista.
+     */
+    const save = async (updated: Organization, messages: { loading: string; success: string; error: string }): Promise<boolean> => {
+        setIsSaving(true);
+        try {
+            await toast.promise(projectService.saveOrganization(updated), messages);
+            setSavedOrganization(updated);
+            setFormData(prev => ({ ...(prev || updated), members: updated.members, roles: updated.roles }));
+            onSaved(updated);
+            return true;
+        } catch (error) {
+            console.error("Failed to save organization", error);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+        setIsSaving(true);
+        try {
+            const created = await toast.promise(projectService.createOrganization(newName, user.uid), {
+                loading: 'Criando organização...',
+                success: 'Organização criada!',
+                error: 'Falha ao criar a organização.',
+            });
+            onSaved(created);
+            onClose();
+        } catch (error) {
+            console.error("Failed to create organization", error);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSaveDetails = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!formData || !formData.name.trim()) return;
+        // Sem campos vazios, para não gravar `undefined` no Firestore.
+        const { cnpj, branding, default_template_id, ...rest } = formData;
+        const logoUrl = branding?.logo_url?.trim();
+        const updated: Organization = {
+            ...rest,
+            members: savedOrganization?.members || rest.members,
+            roles: savedOrganization?.roles || rest.roles,
+            name: formData.name.trim(),
+            ...(cnpj?.trim() ? { cnpj: cnpj.trim() } : {}),
+            ...(logoUrl || branding?.primary_color ? {
+                branding: {
+                    ...(logoUrl ? { logo_url: logoUrl } : {}),
+                    ...(branding?.primary_color ? { primary_color: branding.primary_color } : {}),
+                },
+            } : {}),
+            ...(default_template_id ? { default_template_id } : {}),
+        };
+        save(updated, { loading: 'Salvando organização...', success: 'Organização salva!', error: 'Falha ao salvar a organização.' });
+    };
+
+    const handleAddMember = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!savedOrganization || !newMemberEmail.trim()) return;
+        const userToAdd = await userService.findUserByEmail(newMemberEmail);
+        if (!userToAdd) {
+            toast.error("Nenhum usuário encontrado com este e-mail.");
+            return;
+        }
+        if (savedOrganization.members.includes(userToAdd.uid)) {
+            toast.error("Este usuário já é membro da organização.");
+            return;
+        }
+        const saved = await save(setOrganizationMember(savedOrganization, userToAdd.uid, newMemberRole), {
+            loading: 'Adicionando membro...',
+            success: 'Membro adicionado!',
+            error: 'Falha ao adicionar o membro.',
+        });
+        if (saved) {
+            setMemberProfiles(prev => new Map(prev).set(userToAdd.uid, userToAdd));
+            setNewMemberEmail('');
+        }
+    };
+
+    const handleRoleChange = (memberId: string, role: OrganizationRole) => {
+        if (!savedOrganization) return;
+        save(setOrganizationMember(savedOrganization, memberId, role), {
+            loading: 'Alterando papel...',
+            success: `Papel alterado para ${ORGANIZATION_ROLE_LABELS[role]}.`,
+            error: 'Falha ao alterar o papel do membro.',
+        });
+    };
+
+    const handleRemoveMember = (memberId: string) => {
+        if (!savedOrganization || !window.confirm("Remover este membro da organização? Ele continua nos projetos dos quais já é membro.")) return;
+        save(removeOrganizationMember(savedOrganization, memberId), {
+            loading: 'Removendo membro...',
+            success: 'Membro removido.',
+            error: 'Falha ao remover o membro.',
+        });
+    };
+
+    const handleDelete = async () => {
+        if (!organization || !window.confirm(`Excluir a organização "${organization.name}"? Os projetos continuam com os seus membros.`)) return;
+        try {
+            await toast.promise(projectService.deleteOrganization(organization.id), {
+                loading: 'Excluindo organização...',
+                success: 'Organização excluída.',
+                error: 'Falha ao excluir a organização.',
+            });
+            onDeleted();
+            onClose();
+        } catch (error) {
+            console.error("Failed to delete organization", error);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="w-full max-w-2xl bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center">
+                    <div className="flex items-center gap-4">
+                        <div className="flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-amber-100 dark:bg-amber-900/50">
+                            <BuildingIcon />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-slate-100">{organization ? organization.name : 'Nova Organização'}</h2>
+                            <p className="mt-1 text-sm text-gray-600 dark:text-slate-400">
+                                {organization ? 'Dados, identidade visual, modelo padrão e membros da organização.' : 'Reúna os projetos e a equipe de uma construtora ou SPE.'}
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400">
+                        <CloseIcon />
+                    </button>
+                </header>
+
+                <main className="p-6 overflow-y-auto space-y-8">
+                    {!formData ? (
+                        <form onSubmit={handleCreate} className="space-y-3">
+                            <label htmlFor="organization_new_name" className="block text-sm font-medium text-gray-700 dark:text-slate-300">Nome da organização</label>
+                            <input id="organization_new_name" type="text" required value={newName} onChange={e => setNewName(e.target.value)} placeholder="Ex: Construtora Cataratas" className={inputClassName} />
+                            <button type="submit" disabled={isSaving} className="px-4 py-2 bg-amber-500 text-white rounded-md text-sm font-semibold hover:bg-amber-600 disabled:opacity-50">
+                                Criar Organização
+                            </button>
+                        </form>
+                    ) : (
+                        <>
+                            <form onSubmit={handleSaveDetails} className="space-y-4">
+                                <fieldset disabled={!canManage} className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <div>
+                                        <label htmlFor="organization_name" className="block text-sm font-medium text-gray-700 dark:text-slate-300">Nome</label>
+                                        <input id="organization_name" type="text" required value={formData.name} onChange={e => setFormData({ ...formData, name: e.target.value })} className={`mt-1 ${inputClassName}`} />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="organization_cnpj" className="block text-sm font-medium text-gray-700 dark:text-slate-300">CNPJ</label>
+                                        <input id="organization_cnpj" type="text" value={formData.cnpj || ''} onChange={e => setFormData({ ...formData, cnpj: e.target.value })} className={`mt-1 ${inputClassName}`} />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="organization_logo" className="block text-sm font-medium text-gray-700 dark:text-slate-300">URL do logotipo</label>
+                                        <input
+                                            id="organization_logo"
+                                            type="url"
+                                            value={formData.branding?.logo_url || ''}
+                                            onChange={e => setFormData({ ...formData, branding: { ...formData.branding, logo_url: e.target.value } })}
+                                            placeholder="https://..."
+                                            className={`mt-1 ${inputClassName}`}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="organization_color" className="block text-sm font-medium text-gray-700 dark:text-slate-300">Cor principal</label>
+                                        <input
+                                            id="organization_color"
+                                            type="color"
+                                            value={formData.branding?.primary_color || '#f59e0b'}
+                                            onChange={e => setFormData({ ...formData, branding: { ...formData.branding, primary_color: e.target.value } })}
+                                            className="mt-1 h-10 w-20 border border-gray-300 dark:border-slate-600 rounded-md"
+                                        />
+                                    </div>
+                                    <div className="sm:col-span-2">
+                                        <label htmlFor="organization_template" className="block text-sm font-medium text-gray-700 dark:text-slate-300">Modelo padrão de PLS</label>
+                                        <select
+                                            id="organization_template"
+                                            value={formData.default_template_id || ''}
+                                            onChange={e => setFormData({ ...formData, default_template_id: e.target.value || undefined })}
+                                            className={`mt-1 ${inputClassName}`}
+                                        >
+                                            <option value="">PLS padrão</option>
+                                            {templates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+                                        </select>
+                                        <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">Sugerido na criação dos projetos da organização.</p>
+                                    </div>
+                                </fieldset>
+                                {canManage && (
+                                    <button type="submit" disabled={isSaving} className="px-4 py-2 bg-amber-500 text-white rounded-md text-sm font-semibold hover:bg-amber-600 disabled:opacity-50">
+                                        Salvar Organização
+                                    </button>
+                                )}
+                            </form>
+
+                            <section className="space-y-3">
+                                <div>
+                                    <h3 className="text-lg font-medium text-gray-900 dark:text-slate-200">Membros</h3>
+                                    <p className="text-sm text-gray-600 dark:text-slate-400">
+                                        Nos novos projetos da organização, os membros entram com o papel "{ROLE_LABELS[ORGANIZATION_PROJECT_ROLES.member]}"
+                                        e os administradores, com o papel "{ROLE_LABELS[ORGANIZATION_PROJECT_ROLES.admin]}".
+                                    </p>
+                                </div>
+                                {formData.members.map(memberId => {
+                                    const role = getOrganizationRole(formData, memberId) || 'member';
+                                    return (
+                                        <div key={memberId} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-700/50 rounded-md">
+                                            <div className="flex flex-col">
+                                                <span className="font-medium text-slate-800 dark:text-slate-200">{memberProfiles.get(memberId)?.email || memberId}</span>
+                                                {memberId === formData.ownerId && <span className="text-xs font-semibold text-amber-600 dark:text-amber-500">PROPRIETÁRIO</span>}
+                                            </div>
+                                            {canManage && memberId !== formData.ownerId ? (
+                                                <div className="flex items-center gap-2">
+                                                    <select
+                                                        value={role}
+                                                        onChange={e => handleRoleChange(memberId, e.target.value as OrganizationRole)}
+                                                        disabled={isSaving}
+                                                        className="px-2 py-1 text-sm border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md"
+                                                        aria-label={`Papel de ${memberProfiles.get(memberId)?.email || memberId}`}
+                                                    >
+                                                        {ORGANIZATION_ROLES.map(r => <option key={r} value={r}>{ORGANIZATION_ROLE_LABELS[r]}</option>)}
+                                                    </select>
+                                                    <button type="button" onClick={() => handleRemoveMember(memberId)} disabled={isSaving} className="text-rose-500 hover:text-rose-700 p-2 rounded-full hover:bg-rose-100 dark:hover:bg-rose-900/50">
+                                                        <TrashIcon />
+                                                    </button>
+                                                </div>
+                                            ) : (
+                                                <span className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase">{ORGANIZATION_ROLE_LABELS[role]}</span>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                                {canManage && (
+                                    <form onSubmit={handleAddMember} className="flex items-start gap-3">
+                                        <input
+                                            type="email"
+                                            value={newMemberEmail}
+                                            onChange={e => setNewMemberEmail(e.target.value)}
+                                            placeholder="E-mail do novo membro"
+                                            className={`flex-grow ${inputClassName}`}
+                                        />
+                                        <select
+                                            value={newMemberRole}
+                                            onChange={e => setNewMemberRole(e.target.value as OrganizationRole)}
+                                            className="px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md shadow-sm"
+                                            aria-label="Papel do novo membro"
+                                        >
+                                            {ORGANIZATION_ROLES.map(r => <option key={r} value={r}>{ORGANIZATION_ROLE_LABELS[r]}</option>)}
+                                        </select>
+                                        <button type="submit" disabled={isSaving} className="flex items-center justify-center w-32 px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50">
+                                            {isSaving ? <SpinnerIconSmall /> : 'Adicionar'}
+                                        </button>
+                                    </form>
+                                )}
+                            </section>
+
+                            {formData.ownerId === user.uid && (
+                                <section className="pt-4 border-t dark:border-slate-700">
+                                    <button type="button" onClick={handleDelete} className="text-sm font-medium text-rose-600 hover:text-rose-800 dark:text-rose-400">
+                                        Excluir Organização
+                                    </button>
+                                </section>
+                            )}
+                        </>
+                    )}
+                </main>
+            </div>
+        </div>
+    );
+};
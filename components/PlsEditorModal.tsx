@@ -1,13 +1,133 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { PlsCategoryTemplate, PlsSubItemTemplate } from '../types';
+import { ChangeOrder, ChangeOrderInput, PlsCategoryTemplate, PlsIssue, PlsSubItemTemplate, ProgressMatrix, ServiceScope } from '../types';
 import { CloseIcon, PlusIcon, TrashIcon, TableCellsIcon } from './Icons';
+import { suggestItemMapping } from '../services/changeOrderService';
+import { hasPlsErrors, validatePls } from '../services/plsValidationService';
+import { PlsValidationPanel } from './PlsValidationPanel';
 
 interface PlsEditorModalProps {
   initialPlsData: PlsCategoryTemplate[];
+  /** A matriz de progresso atual, para avisar antes de descartar o progresso de serviços removidos. */
+  progress: ProgressMatrix;
+  /** Versão da PLS em vigor. */
+  currentVersion: number;
+  /** Aditivos já registrados no projeto. */
+  changeOrders: ChangeOrder[];
+  /** Se o usuário pode registrar aditivos (alteram o custo das obras). */
+  canRecordChangeOrder: boolean;
   onSave: (newPlsData: PlsCategoryTemplate[]) => void;
+  onSaveChangeOrder: (newPlsData: PlsCategoryTemplate[], input: ChangeOrderInput) => void;
   onClose: () => void;
 }
 
+const formatCurrency = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+/**
+ * Formulário do aditivo: motivo, data, variação do custo das obras e correspondência dos serviços
+ * da versão anterior que não existem mais na nova estrutura.
+ */
+const ChangeOrderForm: React.FC<{
+    oldPls: PlsCategoryTemplate[];
+    newPls: PlsCategoryTemplate[];
+    nextVersion: number;
+    changeOrders: ChangeOrder[];
+    input: ChangeOrderInput;
+    onChange: (input: ChangeOrderInput) => void;
+}> = ({ oldPls, newPls, nextVersion, changeOrders, input, onChange }) => {
+    const newItems = newPls.flatMap(cat => cat.subItems);
+    const newIds = new Set(newItems.map(item => item.id));
+    const changedItems = oldPls.flatMap(cat => cat.subItems).filter(item => !newIds.has(item.id));
+    // Mantém o texto digitado para permitir valores negativos em edição (ex: "-")
+    const [costText, setCostText] = useState(input.costDelta ? String(input.costDelta) : '');
+
+    return (
+        <div className="space-y-6">
+            <p className="text-sm text-slate-600 dark:text-slate-300">
+                A estrutura atual será mantida como versão anterior e a nova estrutura passará a ser a versão {nextVersion}.
+                Relatórios e medições já fechadas continuam referenciando a versão em que foram medidos.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                    Data do aditivo
+                    <input
+                        type="date"
+                        value={input.date}
+                        onChange={e => onChange({ ...input, date: e.target.value })}
+                        className="mt-1 block w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-sm"
+                    />
+                </label>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                    Variação do custo das obras (R$)
+                    <input
+                        type="number"
+                        step="0.01"
+                        value={costText}
+                        onChange={e => {
+                            setCostText(e.target.value);
+                            onChange({ ...input, costDelta: parseFloat(e.target.value) || 0 });
+                        }}
+                        placeholder="0,00"
+                        className="mt-1 block w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-sm"
+                    />
+                </label>
+            </div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                Motivo
+                <textarea
+                    value={input.reason}
+                    onChange={e => onChange({ ...input, reason: e.target.value })}
+                    rows={2}
+                    placeholder="Ex: Revisão do orçamento aprovada pelo agente financeiro."
+                    className="mt-1 block w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-sm"
+                />
+            </label>
+
+            <div>
+                <h3 className="text-sm font-semibold text-slate-800 dark:text-slate-100">Correspondência dos serviços</h3>
+                {changedItems.length === 0 ? (
+                    <p className="mt-1 text-sm text-slate-500">Todos os serviços da versão anterior mantêm o mesmo ID e o seu progresso.</p>
+                ) : (
+                    <>
+                        <p className="mt-1 text-xs text-slate-500">
+                            Escolha para qual serviço da nova versão vai o progresso de cada serviço removido ou com ID alterado.
+                        </p>
+                        <div className="mt-2 space-y-2">
+                            {changedItems.map(item => (
+                                <div key={item.id} className="flex items-center gap-3 text-sm">
+                                    <span className="w-1/2 truncate" title={item.name}>{item.id} - {item.name}</span>
+                                    <select
+                                        value={input.itemMapping[item.id] || ''}
+                                        onChange={e => onChange({ ...input, itemMapping: { ...input.itemMapping, [item.id]: e.target.value || null } })}
+                                        className="w-1/2 p-1.5 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700"
+                                    >
+                                        <option value="">Suprimido (progresso descartado)</option>
+                                        {newItems.map(newItem => (
+                                            <option key={newItem.id} value={newItem.id}>{newItem.id} - {newItem.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {changeOrders.length > 0 && (
+                <div>
+                    <h3 className="text-sm font-semibold text-slate-800 dark:text-slate-100">Aditivos anteriores</h3>
+                    <ul className="mt-2 space-y-1 text-sm text-slate-600 dark:text-slate-300">
+                        {changeOrders.map(order => (
+                            <li key={order.id}>
+                                Aditivo {order.number} ({order.date.split('-').reverse().join('/')}): versão {order.fromVersion} → {order.toVersion}, {formatCurrency(order.costDelta)} - {order.reason}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
 // Helper component for inline editing
 const EditableField: React.FC<{
   value: string | number;
@@ -84,13 +204,24 @@ const CategoryEditor: React.FC<{
     categoryIndex: number;
     onCategoryChange: (index: number, field: 'name' | 'id', value: string) => void;
     onItemChange: (catIndex: number, itemIndex: number, field: 'name' | 'id' | 'incidence' | 'unit', value: string | number) => void;
+    onScopeChange: (catIndex: number, itemIndex: number, scope: ServiceScope) => void;
     onAddItem: (catIndex: number) => void;
     onRemoveItem: (catIndex: number, itemIndex: number) => void;
     onRemoveCategory: (catIndex: number) => void;
     totalIncidence: number;
-}> = ({ category, categoryIndex, onCategoryChange, onItemChange, onAddItem, onRemoveItem, onRemoveCategory, totalIncidence }) => {
+    issues: PlsIssue[];
+}> = ({ category, categoryIndex, onCategoryChange, onItemChange, onScopeChange, onAddItem, onRemoveItem, onRemoveCategory, totalIncidence, issues }) => {
+    // Destaca os serviços com problemas, priorizando os erros
+    const severityOf = (itemId: string) => {
+        const itemIssues = issues.filter(issue => issue.itemId === itemId);
+        if (itemIssues.some(issue => issue.severity === 'error')) return 'ring-1 ring-rose-400 bg-rose-50 dark:bg-rose-900/20';
+        if (itemIssues.length > 0) return 'ring-1 ring-amber-300 bg-amber-50 dark:bg-amber-900/20';
+        return '';
+    };
+    const categoryHasIssue = issues.some(issue => issue.categoryId === category.id && !issue.itemId);
+
     return (
-        <div className="p-4 border rounded-lg bg-slate-50 dark:bg-slate-800/50 dark:border-slate-700">
+        <div className={`p-4 border rounded-lg bg-slate-50 dark:bg-slate-800/50 ${categoryHasIssue ? 'border-amber-400 dark:border-amber-600' : 'dark:border-slate-700'}`}>
             <div className="flex items-start gap-4 mb-3">
                 <div className="flex-grow">
                      <EditableField
@@ -104,14 +235,14 @@ const CategoryEditor: React.FC<{
                     <p className="font-bold text-blue-600 dark:text-blue-400">{totalIncidence.toFixed(2)}%</p>
                     <p className="text-xs text-slate-500">Total da Etapa</p>
                 </div>
-                <button onClick={() => onRemoveCategory(categoryIndex)} className="p-2 text-rose-500 hover:bg-rose-100 dark:hover:bg-rose-900/50 rounded-full">
+                <button type="button" onClick={() => onRemoveCategory(categoryIndex)} className="p-2 text-rose-500 hover:bg-rose-100 dark:hover:bg-rose-900/50 rounded-full">
                     <TrashIcon />
                 </button>
             </div>
 
             <div className="space-y-1 pl-4 border-l-2 dark:border-slate-600">
                 {category.subItems.map((item, itemIndex) => (
-                    <div key={`${item.id}-${itemIndex}`} className="group flex items-center gap-2 -ml-1 p-1 rounded-md hover:bg-slate-100 dark:hover:bg-slate-700/50">
+                    <div key={`${item.id}-${itemIndex}`} className={`group flex items-center gap-2 -ml-1 p-1 rounded-md hover:bg-slate-100 dark:hover:bg-slate-700/50 ${severityOf(item.id)}`}>
                         <EditableField
                             value={item.id}
                             onSave={v => onItemChange(categoryIndex, itemIndex, 'id', String(v))}
@@ -137,13 +268,21 @@ const CategoryEditor: React.FC<{
                             type="number"
                             className="w-24 text-right"
                         />
-                         <button onClick={() => onRemoveItem(categoryIndex, itemIndex)} className="p-2 text-slate-500 hover:text-rose-600 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100">
+                        <button
+                            type="button"
+                            onClick={() => onScopeChange(categoryIndex, itemIndex, item.scope === 'global' ? 'unit' : 'global')}
+                            className={`w-24 flex-shrink-0 px-2 py-1 rounded-full text-xs font-medium ${item.scope === 'global' ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/50 dark:text-indigo-300' : 'bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300'}`}
+                            title={item.scope === 'global' ? 'Medido uma única vez para todo o empreendimento. Clique para medir por unidade.' : 'Medido em cada unidade. Clique para medir na área comum.'}
+                        >
+                            {item.scope === 'global' ? 'Área comum' : 'Por unidade'}
+                        </button>
+                         <button type="button" onClick={() => onRemoveItem(categoryIndex, itemIndex)} className="p-2 text-slate-500 hover:text-rose-600 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100">
                             <TrashIcon />
                         </button>
                     </div>
                 ))}
             </div>
-            <button onClick={() => onAddItem(categoryIndex)} className="mt-3 ml-4 flex items-center gap-2 text-sm text-blue-600 dark:text-blue-400 font-medium hover:underline">
+            <button type="button" onClick={() => onAddItem(categoryIndex)} className="mt-3 ml-4 flex items-center gap-2 text-sm text-blue-600 dark:text-blue-400 font-medium hover:underline">
                 <PlusIcon />
                 Adicionar Serviço
             </button>
@@ -152,8 +291,18 @@ const CategoryEditor: React.FC<{
 };
 
 
-export const PlsEditorModal: React.FC<PlsEditorModalProps> = ({ initialPlsData, onSave, onClose }) => {
+export const PlsEditorModal: React.FC<PlsEditorModalProps> = ({ initialPlsData, progress, currentVersion, changeOrders, canRecordChangeOrder, onSave, onSaveChangeOrder, onClose }) => {
     const [editedPls, setEditedPls] = useState<PlsCategoryTemplate[]>(() => JSON.parse(JSON.stringify(initialPlsData)));
+    const hasProgress = useMemo(() => Object.values(progress).some(row => Object.values(row || {}).some(value => value > 0)), [progress]);
+    // Durante a obra, as revisões da PLS são registradas como aditivo por padrão
+    const [recordAsChangeOrder, setRecordAsChangeOrder] = useState(canRecordChangeOrder && hasProgress);
+    const [step, setStep] = useState<'edit' | 'changeOrder'>('edit');
+    const [changeOrderInput, setChangeOrderInput] = useState<ChangeOrderInput>({
+        date: new Date().toISOString().split('T')[0],
+        reason: '',
+        costDelta: 0,
+        itemMapping: {},
+    });
 
     const handleCategoryChange = (index: number, field: 'name' | 'id', value: string) => {
         const newPls = [...editedPls];
@@ -179,6 +328,16 @@ export const PlsEditorModal: React.FC<PlsEditorModalProps> = ({ initialPlsData,
         setEditedPls(newPls);
     };
 
+    const handleScopeChange = (catIndex: number, itemIndex: number, scope: ServiceScope) => {
+        const newPls = [...editedPls];
+        const newItems = [...newPls[catIndex].subItems];
+        // Sem campos `undefined`, que o Firestore não aceita dentro de listas
+        const { scope: _previous, ...rest } = newItems[itemIndex];
+        newItems[itemIndex] = scope === 'global' ? { ...rest, scope } : rest;
+        newPls[catIndex] = { ...newPls[catIndex], subItems: newItems };
+        setEditedPls(newPls);
+    };
+
     const handleAddCategory = () => {
         const newCategory: PlsCategoryTemplate = {
             id: String(editedPls.length + 1),
@@ -220,6 +379,8 @@ export const PlsEditorModal: React.FC<PlsEditorModalProps> = ({ initialPlsData,
         return { categoryTotals, projectTotal };
     }, [editedPls]);
 
+    const issues = useMemo(() => validatePls(editedPls), [editedPls]);
+
     const totalColorClass = () => {
         const total = calculatedTotals.projectTotal;
         if (total > 99.9 && total < 100.1) return 'text-emerald-600 dark:text-emerald-400';
@@ -229,15 +390,40 @@ export const PlsEditorModal: React.FC<PlsEditorModalProps> = ({ initialPlsData,
 
 
     const handleSaveChanges = () => {
-        // Simple validation
-        if (calculatedTotals.projectTotal < 99.9 || calculatedTotals.projectTotal > 100.1) {
-            if (!window.confirm(`O total das incidências (${calculatedTotals.projectTotal.toFixed(2)}%) não está em 100%. Deseja salvar mesmo assim?`)) {
+        if (hasPlsErrors(issues)) {
+            window.alert("Corrija os erros indicados na PLS antes de salvar.");
+            return;
+        }
+        if (issues.length > 0) {
+            if (!window.confirm(`A PLS possui avisos:\n- ${issues.map(issue => issue.message).join('\n- ')}\n\nDeseja salvar mesmo assim?`)) {
                 return;
             }
         }
+        if (recordAsChangeOrder) {
+            setChangeOrderInput({ ...changeOrderInput, itemMapping: suggestItemMapping(initialPlsData, editedPls) });
+            setStep('changeOrder');
+            return;
+        }
+        const newIds = new Set(editedPls.flatMap(cat => cat.subItems.map(item => item.id)));
+        const discarded = initialPlsData.flatMap(cat => cat.subItems)
+            .filter(item => !newIds.has(item.id) && Object.values<number>(progress[item.id] || {}).some(value => value > 0));
+        if (discarded.length > 0 && !window.confirm(
+            `O progresso já lançado em ${discarded.length} serviço(s) removido(s) ou com ID alterado (${discarded.map(item => item.id).join(', ')}) será descartado. ` +
+            `Para preservá-lo, registre a alteração como aditivo. Deseja salvar mesmo assim?`
+        )) {
+            return;
+        }
         onSave(editedPls);
     }
 
+    const handleSaveChangeOrder = () => {
+        if (!changeOrderInput.reason.trim()) {
+            window.alert("Informe o motivo do aditivo.");
+            return;
+        }
+        onSaveChangeOrder(editedPls, changeOrderInput);
+    };
+
     return (
         <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
             <div className="w-full max-w-4xl bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
@@ -248,19 +434,37 @@ export const PlsEditorModal: React.FC<PlsEditorModalProps> = ({ initialPlsData,
                         </div>
                         <div>
                             <h2 className="text-xl font-bold text-gray-900 dark:text-slate-100">
-                                Editor da PLS
+                                {step === 'edit' ? 'Editor da PLS' : `Registrar Aditivo ${changeOrders.length + 1}`}
                             </h2>
                             <p className="mt-1 text-sm text-gray-600 dark:text-slate-400">
-                                Adicione, remova e edite as etapas e serviços do projeto.
+                                {step === 'edit'
+                                    ? `Adicione, remova e edite as etapas e serviços do projeto. Versão em vigor: ${currentVersion}.`
+                                    : 'Informe os dados da revisão do orçamento.'}
                             </p>
                         </div>
                     </div>
-                     <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400">
+                     <button type="button" onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400">
                         <CloseIcon />
                     </button>
                 </header>
 
                 <main className="flex-grow p-6 overflow-y-auto">
+                    {step === 'changeOrder' ? (
+                        <ChangeOrderForm
+                            oldPls={initialPlsData}
+                            newPls={editedPls}
+                            nextVersion={currentVersion + 1}
+                            changeOrders={changeOrders}
+                            input={changeOrderInput}
+                            onChange={setChangeOrderInput}
+                        />
+                    ) : (
+                    <>
+                    {issues.length > 0 && (
+                        <div className="mb-4">
+                            <PlsValidationPanel pls={editedPls} issues={issues} onApplyRebalance={setEditedPls} />
+                        </div>
+                    )}
                     <div className="space-y-4">
                         {editedPls.map((cat, index) => (
                             <CategoryEditor
@@ -269,17 +473,21 @@ export const PlsEditorModal: React.FC<PlsEditorModalProps> = ({ initialPlsData,
                                 categoryIndex={index}
                                 onCategoryChange={handleCategoryChange}
                                 onItemChange={handleItemChange}
+                                onScopeChange={handleScopeChange}
                                 onAddItem={handleAddItem}
                                 onRemoveItem={handleRemoveItem}
                                 onRemoveCategory={handleRemoveCategory}
                                 totalIncidence={calculatedTotals.categoryTotals[index]}
+                                issues={issues}
                             />
                         ))}
                     </div>
-                    <button onClick={handleAddCategory} className="mt-6 flex items-center gap-2 px-4 py-2 bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200 rounded-md hover:bg-blue-200 dark:hover:bg-blue-800/50 transition-all duration-200 font-semibold">
+                    <button type="button" onClick={handleAddCategory} className="mt-6 flex items-center gap-2 px-4 py-2 bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200 rounded-md hover:bg-blue-200 dark:hover:bg-blue-800/50 transition-all duration-200 font-semibold">
                         <PlusIcon />
                         Adicionar Etapa
                     </button>
+                    </>
+                    )}
                 </main>
 
                 <footer className="p-4 border-t dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50 rounded-b-2xl flex justify-between items-center">
@@ -289,14 +497,31 @@ export const PlsEditorModal: React.FC<PlsEditorModalProps> = ({ initialPlsData,
                             {calculatedTotals.projectTotal.toFixed(2)}%
                         </span>
                     </div>
-                    <div className="flex gap-4">
+                    {step === 'edit' ? (
+                    <div className="flex items-center gap-4">
+                        {canRecordChangeOrder && (
+                            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                                <input type="checkbox" checked={recordAsChangeOrder} onChange={e => setRecordAsChangeOrder(e.target.checked)} />
+                                Registrar como aditivo
+                            </label>
+                        )}
                         <button type="button" onClick={onClose} className="bg-white dark:bg-slate-700 py-2 px-4 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-slate-200 hover:bg-gray-50 dark:hover:bg-slate-600">
                             Cancelar
                         </button>
                         <button type="button" onClick={handleSaveChanges} className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700">
-                            Salvar Alterações na PLS
+                            {recordAsChangeOrder ? 'Continuar' : 'Salvar Alterações na PLS'}
+                        </button>
+                    </div>
+                    ) : (
+                    <div className="flex gap-4">
+                        <button type="button" onClick={() => setStep('edit')} className="bg-white dark:bg-slate-700 py-2 px-4 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-slate-200 hover:bg-gray-50 dark:hover:bg-slate-600">
+                            Voltar
+                        </button>
+                        <button type="button" onClick={handleSaveChangeOrder} className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700">
+                            Registrar Aditivo
                         </button>
                     </div>
+                    )}
                 </footer>
             </div>
         </div>
@@ -4,8 +4,11 @@
  * para cada serviço em cada unidade, além de filtrar os serviços exibidos.
  */
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { ServiceCategory, ProgressMatrix, ServiceSubItem, HousingUnit, CategoryFinancials } from '../types';
+import { ServiceCategory, ProgressMatrix, ServiceSubItem, HousingUnit, CategoryFinancials, EditingPresence, ProgressLog, UnitTypology, UnitGroup } from '../types';
 import { EditIcon, SearchIcon, ChatBubbleIcon, ChevronRightIcon, ChevronDownIcon } from './Icons';
+import { isItemApplicable } from '../services/typologyService';
+import { COMMON_AREA_UNIT, getCommonAreaProgress, isCommonAreaItem } from '../services/progressService';
+import { getGroupItemProgress, groupUnitsByTower, hasUnitGroups } from '../services/unitGroupService';
 
 /**
  * @typedef {object} PlsTableProps
@@ -13,20 +16,30 @@ import { EditIcon, SearchIcon, ChatBubbleIcon, ChevronRightIcon, ChevronDownIcon
  * @property {HousingUnit[]} housingUnits - A lista de unidades habitacionais.
  * @property {ProgressMatrix} progress - A matriz de progresso atual.
  * @property {(item: ServiceSubItem) => void} onEditItem - Callback para abrir o modal de edição em lote.
- * @property {(itemId: string, unitIndex: number, newProgress: number) => void} onUpdateSingleProgress - Callback para atualizar o progresso de uma única célula.
+ * @property {(itemId: string, unitId: string, newProgress: number) => void} onUpdateSingleProgress - Callback para atualizar o progresso de uma única célula.
  * @property {(categoryId: string, itemId: string, newName: string) => void} onUpdateItemName - Callback para atualizar o nome de um item de serviço.
  * @property {CategoryFinancials[]} categoryFinancials - Dados financeiros calculados por categoria.
  * @property {() => void} onOpenTextAssistant - Callback para abrir o assistente de texto.
+ * @property {Record<string, EditingPresence[]>} [editorsByItem] - Outros usuários editando cada serviço no momento.
+ * @property {(itemId: string | null) => void} [onEditingItemChange] - Callback chamado ao iniciar/terminar a edição em linha de um serviço.
+ * @property {boolean} [readOnly] - Se `true`, a tabela apenas exibe o progresso, sem permitir edição (ex: papel de visualizador).
+ * @property {Record<string, Record<string, ProgressLog>>} [pendingProgress] - Alterações aguardando aprovação, por serviço e unidade.
+ * @property {UnitTypology[]} [typologies] - As tipologias do projeto, exibidas no cabeçalho de cada unidade.
  */
 interface PlsTableProps {
   plsData: ServiceCategory[];
   housingUnits: HousingUnit[];
   progress: ProgressMatrix;
   onEditItem: (item: ServiceSubItem) => void;
-  onUpdateSingleProgress: (itemId: string, unitIndex: number, newProgress: number) => void;
+  onUpdateSingleProgress: (itemId: string, unitId: string, newProgress: number) => void;
   onUpdateItemName: (categoryId: string, itemId: string, newName: string) => void;
   categoryFinancials: CategoryFinancials[];
   onOpenTextAssistant: () => void;
+  editorsByItem?: Record<string, EditingPresence[]>;
+  onEditingItemChange?: (itemId: string | null) => void;
+  readOnly?: boolean;
+  pendingProgress?: Record<string, Record<string, ProgressLog>>;
+  typologies?: UnitTypology[];
 }
 
 /**
@@ -58,6 +71,11 @@ const Highlight: React.FC<{ text: string; highlight: string }> = ({ text, highli
     );
 };
 
+/**
+ * Uma coluna da matriz: uma unidade ou, com a torre recolhida, a média da torre.
+ */
+type MatrixColumn = { kind: 'unit'; unit: HousingUnit } | { kind: 'tower'; tower: UnitGroup };
+
 /**
  * Componente para edição de um valor numérico diretamente na célula da tabela.
  * Aparece quando o usuário clica em uma célula de progresso.
@@ -122,9 +140,33 @@ const InlineEditInput: React.FC<{
  * @param {PlsTableProps} props As propriedades do componente.
  * @returns {React.ReactElement} A tabela de PLS renderizada.
  */
-export const PlsTable: React.FC<PlsTableProps> = ({ plsData, housingUnits, progress, onEditItem, onOpenTextAssistant, onUpdateSingleProgress }) => {
+export const PlsTable: React.FC<PlsTableProps> = ({ plsData, housingUnits, progress, onEditItem, onOpenTextAssistant, onUpdateSingleProgress, editorsByItem = {}, onEditingItemChange, readOnly = false, pendingProgress = {}, typologies = [] }) => {
   const [searchQuery, setSearchQuery] = useState('');
-  const [editingCell, setEditingCell] = useState<{ itemId: string, unitIndex: number } | null>(null);
+  const [editingCell, setEditingCell] = useState<{ itemId: string, unitId: string } | null>(null);
+  const [collapsedTowers, setCollapsedTowers] = useState<Set<string>>(new Set());
+  const editingItemId = editingCell?.itemId ?? null;
+
+  // Em empreendimentos verticais, as colunas são agrupadas por torre e andar
+  const towers = useMemo(() => hasUnitGroups(housingUnits) ? groupUnitsByTower(housingUnits) : null, [housingUnits]);
+
+  const columns = useMemo((): MatrixColumn[] => {
+    if (!towers) return housingUnits.map(unit => ({ kind: 'unit', unit }));
+    return towers.flatMap((tower): MatrixColumn[] => collapsedTowers.has(tower.id)
+      ? [{ kind: 'tower', tower }]
+      : tower.floors!.flatMap(floor => floor.units.map(unit => ({ kind: 'unit' as const, unit }))));
+  }, [towers, housingUnits, collapsedTowers]);
+
+  const toggleTower = (towerId: string) => {
+    setCollapsedTowers(prev => {
+      const next = new Set(prev);
+      if (next.has(towerId)) next.delete(towerId); else next.add(towerId);
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    onEditingItemChange?.(editingItemId);
+  }, [editingItemId, onEditingItemChange]);
 
   const filteredPlsData = useMemo(() => {
     if (!searchQuery.trim()) {
@@ -181,11 +223,53 @@ export const PlsTable: React.FC<PlsTableProps> = ({ plsData, housingUnits, progr
             <table className="w-full border-collapse text-sm text-center bg-white dark:bg-slate-800">
                 <thead className="z-20">
                   <tr className="bg-slate-100 dark:bg-slate-700">
-                      <th rowSpan={2} className="sticky top-0 left-0 z-30 bg-slate-100 dark:bg-slate-700 p-2 border-b border-r dark:border-slate-600 font-semibold text-slate-700 dark:text-slate-200">Serviço</th>
-                      <th colSpan={housingUnits.length} className="p-1 border-b dark:border-slate-600 font-semibold text-slate-700 dark:text-slate-200">Casa</th>
+                      <th rowSpan={towers ? 3 : 2} className="sticky top-0 left-0 z-30 bg-slate-100 dark:bg-slate-700 p-2 border-b border-r dark:border-slate-600 font-semibold text-slate-700 dark:text-slate-200">Serviço</th>
+                      {towers ? towers.map(tower => {
+                        const isCollapsed = collapsedTowers.has(tower.id);
+                        return (
+                          <th key={tower.id} colSpan={isCollapsed ? 1 : tower.units.length} className="p-1 border-b border-l dark:border-slate-600 font-semibold text-slate-700 dark:text-slate-200">
+                            <button
+                              onClick={() => toggleTower(tower.id)}
+                              className="inline-flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400"
+                              title={isCollapsed ? `Expandir ${tower.name}` : `Recolher ${tower.name}`}
+                              aria-expanded={!isCollapsed}
+                            >
+                              {isCollapsed ? <ChevronRightIcon className="h-4 w-4" /> : <ChevronDownIcon className="h-4 w-4" />}
+                              {tower.name}
+                            </button>
+                          </th>
+                        );
+                      }) : (
+                        <th colSpan={housingUnits.length} className="p-1 border-b dark:border-slate-600 font-semibold text-slate-700 dark:text-slate-200">Casa</th>
+                      )}
                   </tr>
+                  {towers && (
+                    <tr className="bg-slate-100 dark:bg-slate-700">
+                      {towers.map(tower => collapsedTowers.has(tower.id) ? (
+                        <th key={tower.id} rowSpan={2} className="sticky top-0 z-10 p-1 min-w-[3rem] border-b border-l dark:border-slate-600 text-xs font-semibold text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-700" title={`Média das ${tower.units.length} unidades de ${tower.name}`}>
+                          Média
+                        </th>
+                      ) : tower.floors!.map(floor => (
+                        <th key={floor.id} colSpan={floor.units.length} className="p-1 border-b border-l dark:border-slate-600 text-xs font-medium text-slate-600 dark:text-slate-300 whitespace-nowrap">
+                          {floor.name}
+                        </th>
+                      )))}
+                    </tr>
+                  )}
                   <tr className="bg-slate-100 dark:bg-slate-700">
-                    {housingUnits.map((unit, index) => {
+                    {columns.map((column, index) => {
+                      if (column.kind === 'tower') return null;
+                      const unit = column.unit;
+                      const typology = typologies.find(t => t.id === unit.typologyId);
+                      const title = typology ? `${unit.name} - ${typology.name}` : unit.name;
+                      if (towers) {
+                        // Agrupadas, as unidades são identificadas pelo nome (ex: 101, 102)
+                        return (
+                          <th key={unit.id} title={title} className="sticky top-0 z-10 p-1 min-w-[3rem] border-b dark:border-slate-600 font-mono text-xs text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-700 whitespace-nowrap">
+                            {unit.name.replace(unit.tower ? `${unit.tower} - ` : '', '')}
+                          </th>
+                        );
+                      }
                       const unitNumber = index + 1;
                        let finalTop: string;
                        let finalBottom: string;
@@ -197,7 +281,7 @@ export const PlsTable: React.FC<PlsTableProps> = ({ plsData, housingUnits, progr
                            finalBottom = String(unitNumber % 10);
                        }
                       return (
-                        <th key={unit.id} className="sticky top-0 z-10 p-1 min-w-[3rem] border-b dark:border-slate-600 font-mono text-xs text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-700">
+                        <th key={unit.id} title={title} className="sticky top-0 z-10 p-1 min-w-[3rem] border-b dark:border-slate-600 font-mono text-xs text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-700">
                           <div className="-space-y-1">
                             <div>{finalTop}</div>
                             <div className="font-bold">{finalBottom}</div>
@@ -209,62 +293,110 @@ export const PlsTable: React.FC<PlsTableProps> = ({ plsData, housingUnits, progr
                 </thead>
                 <tbody>
                   {serviceItems.length > 0 ? serviceItems.map(item => {
-                    const progressRow = progress[item.id] || [];
+                    const progressRow = progress[item.id] || {};
+                    const otherEditors = editorsByItem[item.id] || [];
+                    // Célula editável do progresso de uma unidade (ou, com `colSpan`, da área comum em toda a largura da matriz)
+                    const renderProgressCell = (unit: HousingUnit, unitProgress: number, colSpan?: number) => {
+                      const isEditing = editingCell?.itemId === item.id && editingCell.unitId === unit.id;
+                      const pending = pendingProgress[item.id]?.[unit.id];
+                      return (
+                        <td 
+                          key={unit.id}
+                          colSpan={colSpan}
+                          className={`p-0 border-b dark:border-slate-600 font-mono ${readOnly ? '' : 'cursor-pointer'}`}
+                          onClick={() => {
+                              if (!readOnly && !isEditing) {
+                                  setEditingCell({ itemId: item.id, unitId: unit.id });
+                              }
+                          }}
+                          title={pending
+                            ? `Aguardando aprovação: ${pending.newProgress}% (enviado por ${pending.submittedBy})`
+                            : readOnly ? `${item.name} - ${unit.name}` : `Editar ${item.name} para ${unit.name}`}
+                        >
+                          {isEditing ? (
+                            <InlineEditInput
+                                value={unitProgress}
+                                onSave={(newValue) => {
+                                    onUpdateSingleProgress(item.id, unit.id, newValue);
+                                    setEditingCell(null);
+                                }}
+                                onCancel={() => setEditingCell(null)}
+                            />
+                           ) : (
+                            <div
+                              className={`w-full h-full p-2 flex items-center justify-center gap-1 font-semibold ${
+                                unitProgress === 100
+                                  ? 'bg-emerald-500 text-white'
+                                  : 'text-slate-700 dark:text-slate-300'
+                              } ${pending ? 'outline-dashed outline-2 -outline-offset-2 outline-amber-500' : ''}`}
+                            >
+                              {colSpan !== undefined && <span className="text-xs font-normal opacity-75 mr-1">{unit.name}:</span>}
+                              {unitProgress === 100 ? 'X' : unitProgress}
+                              {pending && (
+                                <span className="text-xs font-bold px-1 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/60 dark:text-amber-300">
+                                  →{pending.newProgress}
+                                </span>
+                              )}
+                            </div>
+                           )}
+                        </td>
+                      );
+                    };
                     return (
-                      <tr key={item.id} className="group hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                      <tr key={item.id} className={`group hover:bg-slate-50 dark:hover:bg-slate-700/50 ${otherEditors.length > 0 ? 'bg-amber-50 dark:bg-amber-900/20' : ''}`}>
                         <td className="sticky left-0 p-2 border-b border-r dark:border-slate-600 text-left whitespace-nowrap bg-white dark:bg-slate-800 group-hover:bg-slate-50 dark:group-hover:bg-slate-700/50 z-10">
                           <span className="text-slate-500 dark:text-slate-400 mr-2 font-mono">{item.id}</span>
                           <button 
                             onClick={() => onEditItem(item)} 
-                            className="font-medium text-slate-800 dark:text-slate-200 text-left hover:text-blue-600 dark:hover:text-blue-400 focus:outline-none focus:ring-1 focus:ring-blue-500 rounded-sm"
-                            title={`Edição em lote para "${item.name}"`}
+                            disabled={readOnly}
+                            className="font-medium text-slate-800 dark:text-slate-200 text-left enabled:hover:text-blue-600 dark:enabled:hover:text-blue-400 focus:outline-none focus:ring-1 focus:ring-blue-500 rounded-sm"
+                            title={readOnly ? item.name : `Edição em lote para "${item.name}"`}
                           >
                             <Highlight text={item.name} highlight={searchQuery} />
                           </button>
-                        </td>
-                        {housingUnits.map((unit, unitIndex) => {
-                          const unitProgress = progressRow[unitIndex] ?? 0;
-                          const isEditing = editingCell?.itemId === item.id && editingCell.unitIndex === unitIndex;
-                          
-                          return (
-                            <td 
-                              key={unit.id}
-                              className="p-0 border-b dark:border-slate-600 cursor-pointer font-mono"
-                              onClick={() => {
-                                  if (!isEditing) {
-                                      setEditingCell({ itemId: item.id, unitIndex });
-                                  }
-                              }}
-                              title={`Editar ${item.name} para ${unit.name}`}
+                          {otherEditors.length > 0 && (
+                            <span
+                              className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300"
+                              title={`Em edição por ${otherEditors.map(e => e.userEmail).join(', ')}`}
                             >
-                              {isEditing ? (
-                                <InlineEditInput
-                                    value={unitProgress}
-                                    onSave={(newValue) => {
-                                        onUpdateSingleProgress(item.id, unitIndex, newValue);
-                                        setEditingCell(null);
-                                    }}
-                                    onCancel={() => setEditingCell(null)}
-                                />
-                               ) : (
-                                <div
-                                  className={`w-full h-full p-2 flex items-center justify-center font-semibold ${
-                                    unitProgress === 100
-                                      ? 'bg-emerald-500 text-white'
-                                      : 'text-slate-700 dark:text-slate-300'
-                                  }`}
-                                >
-                                  {unitProgress === 100 ? 'X' : unitProgress}
-                                </div>
-                               )}
-                            </td>
-                          );
+                              <span className="h-2 w-2 rounded-full bg-amber-500 animate-pulse"></span>
+                              {otherEditors[0].userEmail.split('@')[0]}{otherEditors.length > 1 ? ` +${otherEditors.length - 1}` : ''} editando
+                            </span>
+                          )}
+                        </td>
+                        {isCommonAreaItem(item) ? renderProgressCell(COMMON_AREA_UNIT, getCommonAreaProgress(progress[item.id], housingUnits), columns.length) : columns.map(column => {
+                          if (column.kind === 'tower') {
+                            const groupProgress = getGroupItemProgress(item, progress, column.tower.units);
+                            return (
+                              <td
+                                key={column.tower.id}
+                                className={`p-2 border-b border-l dark:border-slate-600 font-mono text-xs bg-slate-50 dark:bg-slate-900/40 ${groupProgress === 100 ? 'text-emerald-600 dark:text-emerald-400 font-bold' : 'text-slate-600 dark:text-slate-300'} ${readOnly || groupProgress === null ? '' : 'cursor-pointer'}`}
+                                onClick={() => { if (!readOnly && groupProgress !== null) onEditItem(item); }}
+                                title={groupProgress === null ? `${item.name} não se aplica a ${column.tower.name}` : `Média de ${column.tower.name}`}
+                              >
+                                {groupProgress === null ? '—' : `${Math.round(groupProgress)}%`}
+                              </td>
+                            );
+                          }
+                          const unit = column.unit;
+                          const unitProgress = progressRow[unit.id] ?? 0;
+
+                          // O serviço não faz parte da PLS da tipologia desta unidade
+                          if (!isItemApplicable(item, unit.id)) {
+                            return (
+                              <td key={unit.id} className="p-2 border-b dark:border-slate-600 font-mono text-slate-300 dark:text-slate-600 bg-slate-50 dark:bg-slate-900/40" title={`${item.name} não se aplica a ${unit.name}`}>
+                                —
+                              </td>
+                            );
+                          }
+
+                          return renderProgressCell(unit, unitProgress);
                         })}
                       </tr>
                     );
                   }) : (
                       <tr>
-                          <td colSpan={housingUnits.length + 1} className="text-center py-16">
+                          <td colSpan={columns.length + 1} className="text-center py-16">
                                 <p className="font-semibold text-slate-700 dark:text-slate-200">Nenhum resultado encontrado</p>
                                 <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Tente ajustar seus termos de pesquisa.</p>
                           </td>
@@ -275,6 +407,7 @@ export const PlsTable: React.FC<PlsTableProps> = ({ plsData, housingUnits, progr
           </div>
 
       </div>
+      {!readOnly && (
       <div className="fixed bottom-8 right-8 z-30">
           <button
               onClick={onOpenTextAssistant}
@@ -285,6 +418,7 @@ export const PlsTable: React.FC<PlsTableProps> = ({ plsData, housingUnits, progr
               <ChatBubbleIcon className="w-8 h-8" />
           </button>
       </div>
+      )}
     </>
   );
 };
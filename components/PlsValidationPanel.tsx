@@ -0,0 +1,92 @@
+/**
+ * @file Componente `PlsValidationPanel`, que lista os erros e avisos de uma estrutura da PLS e
+ * oferece o rebalanceamento proporcional das incidências, com uma prévia antes de aplicar.
+ */
+import React, { useMemo, useState } from 'react';
+import { PlsCategoryTemplate, PlsIssue } from '../types';
+import { getTotalIncidence, INCIDENCE_TOLERANCE, rebalanceIncidences } from '../services/plsValidationService';
+
+interface PlsValidationPanelProps {
+    /** A estrutura da PLS validada. */
+    pls: PlsCategoryTemplate[];
+    /** Os problemas encontrados por `validatePls`. */
+    issues: PlsIssue[];
+    /** Aplica a estrutura rebalanceada. Sem este callback, o rebalanceamento não é oferecido. */
+    onApplyRebalance?: (rebalanced: PlsCategoryTemplate[]) => void;
+}
+
+/**
+ * Painel de validação da PLS.
+ * @param {PlsValidationPanelProps} props As propriedades do componente.
+ * @returns {React.ReactElement | null} O painel, ou `null` se não houver problemas.
+ */
+export const PlsValidationPanel: React.FC<PlsValidationPanelProps> = ({ pls, issues, onApplyRebalance }) => {
+    const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+
+    const total = getTotalIncidence(pls);
+    const canRebalance = !!onApplyRebalance && total > 0 && Math.abs(total - 100) > INCIDENCE_TOLERANCE;
+
+    const preview = useMemo(() => {
+        if (!isPreviewOpen) return [];
+        const currentItems = pls.flatMap(category => category.subItems);
+        return rebalanceIncidences(pls).flatMap(category => category.subItems)
+            .map((item, index) => ({ id: item.id, name: item.name, current: currentItems[index].incidence, rebalanced: item.incidence }))
+            .filter(row => row.current !== row.rebalanced);
+    }, [pls, isPreviewOpen]);
+
+    if (issues.length === 0) return null;
+
+    const handleApply = () => {
+        onApplyRebalance?.(rebalanceIncidences(pls));
+        setIsPreviewOpen(false);
+    };
+
+    return (
+        <div className="p-3 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 space-y-2">
+            <ul className="space-y-1 text-sm">
+                {issues.map((issue, index) => (
+                    <li key={index} className={issue.severity === 'error' ? 'text-rose-700 dark:text-rose-300 font-medium' : 'text-amber-800 dark:text-amber-200'}>
+                        {issue.severity === 'error' ? 'Erro: ' : 'Aviso: '}{issue.message}
+                    </li>
+                ))}
+            </ul>
+
+            {canRebalance && (
+                <button type="button" onClick={() => setIsPreviewOpen(open => !open)} className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+                    {isPreviewOpen ? 'Ocultar prévia do rebalanceamento' : 'Rebalancear incidências para 100%'}
+                </button>
+            )}
+
+            {canRebalance && isPreviewOpen && (
+                <div className="space-y-2">
+                    <p className="text-xs text-slate-600 dark:text-slate-400">
+                        As incidências são ajustadas proporcionalmente de {total.toFixed(2)}% para 100%. Serviços alterados:
+                    </p>
+                    <div className="max-h-48 overflow-y-auto">
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-left text-slate-500">
+                                    <th className="py-1 pr-2">Serviço</th>
+                                    <th className="py-1 px-2 text-right">Atual</th>
+                                    <th className="py-1 pl-2 text-right">Rebalanceada</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {preview.map((row, index) => (
+                                    <tr key={`${row.id}-${index}`} className="border-t border-amber-200 dark:border-amber-800">
+                                        <td className="py-1 pr-2 truncate max-w-xs">{row.id} - {row.name}</td>
+                                        <td className="py-1 px-2 text-right">{row.current.toFixed(2)}%</td>
+                                        <td className="py-1 pl-2 text-right font-semibold">{row.rebalanced.toFixed(2)}%</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <button type="button" onClick={handleApply} className="px-3 py-1.5 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700">
+                        Aplicar Rebalanceamento
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,48 +1,71 @@
-import React, { useState, useEffect } from 'react';
-import { ServiceSubItem, HousingUnit } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ServiceSubItem, HousingUnit, EditingPresence, UnitGroup } from '../types';
 import { CloseIcon, CheckCircleIcon } from './Icons';
+import { groupUnitsByTower, hasUnitGroups } from '../services/unitGroupService';
 
 interface ProgressUpdateModalProps {
   item: ServiceSubItem;
   housingUnits: HousingUnit[];
-  initialProgress: number[];
-  onUpdate: (itemId: string, newProgress: number[]) => void;
+  initialProgress: Record<string, number>;
+  onUpdate: (itemId: string, newProgress: Record<string, number>) => void;
   onClose: () => void;
+  otherEditors?: EditingPresence[];
 }
 
-export const ProgressUpdateModal: React.FC<ProgressUpdateModalProps> = ({ item, housingUnits, initialProgress, onUpdate, onClose }) => {
-  const [progress, setProgress] = useState<number[]>(initialProgress);
-  const [selectedUnits, setSelectedUnits] = useState<number[]>([]);
+export const ProgressUpdateModal: React.FC<ProgressUpdateModalProps> = ({ item, housingUnits, initialProgress, onUpdate, onClose, otherEditors = [] }) => {
+  const [progress, setProgress] = useState<Record<string, number>>(initialProgress);
+  const [selectedUnits, setSelectedUnits] = useState<string[]>([]);
   const [bulkValue, setBulkValue] = useState(100);
-  const units = housingUnits.length;
 
-  useEffect(() => {
-    // Ensure progress array has the correct length, padding with 0 if necessary
-    const currentProgress = Array.from({ length: units }, (_, i) => initialProgress[i] || 0);
-    setProgress(currentProgress);
-  }, [initialProgress, units]);
+  const lastInitialProgress = useRef<Record<string, number>>(initialProgress);
+
+  // In vertical projects units are shown and can be selected by tower and floor
+  const towers = useMemo(() => hasUnitGroups(housingUnits) ? groupUnitsByTower(housingUnits) : null, [housingUnits]);
+  const unitSections = useMemo((): UnitGroup[] => towers
+    ? towers.flatMap(tower => tower.floors!.map(floor => ({ ...floor, name: `${tower.name} - ${floor.name}` })))
+    : [{ id: '', name: '', units: housingUnits }], [towers, housingUnits]);
 
-  const toggleUnitSelection = (unitIndex: number) => {
+  useEffect(() => {
+    // Ensure every current unit has a value, filling missing ones with 0.
+    // Values saved meanwhile by other users replace only the units this user has not changed yet.
+    const previousInitial = lastInitialProgress.current;
+    lastInitialProgress.current = initialProgress;
+    setProgress(prev => Object.fromEntries(housingUnits.map(unit => {
+      const untouched = prev[unit.id] === undefined || prev[unit.id] === (previousInitial[unit.id] || 0);
+      return [unit.id, untouched ? initialProgress[unit.id] || 0 : prev[unit.id]];
+    })));
+  }, [initialProgress, housingUnits]);
+
+  const toggleUnitSelection = (unitId: string) => {
     setSelectedUnits(prev =>
-      prev.includes(unitIndex) ? prev.filter(i => i !== unitIndex) : [...prev, unitIndex]
+      prev.includes(unitId) ? prev.filter(id => id !== unitId) : [...prev, unitId]
     );
   };
 
   const handleSelectAll = () => {
-    setSelectedUnits(Array.from({ length: units }, (_, i) => i));
+    setSelectedUnits(housingUnits.map(unit => unit.id));
   };
   
   const handleClearSelection = () => {
     setSelectedUnits([]);
   };
 
+  const isGroupSelected = (group: UnitGroup) => group.units.every(unit => selectedUnits.includes(unit.id));
+
+  const toggleGroupSelection = (group: UnitGroup) => {
+    const groupIds = group.units.map(unit => unit.id);
+    setSelectedUnits(prev => isGroupSelected(group)
+      ? prev.filter(id => !groupIds.includes(id))
+      : [...prev, ...groupIds.filter(id => !prev.includes(id))]);
+  };
+
   const applyValueToSelected = (value: number) => {
     if (selectedUnits.length === 0) {
         return;
     }
-    const newProgress = [...progress];
-    selectedUnits.forEach(index => {
-        newProgress[index] = value;
+    const newProgress = { ...progress };
+    selectedUnits.forEach(unitId => {
+        newProgress[unitId] = value;
     });
     setProgress(newProgress);
   };
@@ -51,11 +74,9 @@ export const ProgressUpdateModal: React.FC<ProgressUpdateModalProps> = ({ item,
     applyValueToSelected(bulkValue);
   };
 
-  const handleUnitProgressChange = (unitIndex: number, value: number) => {
-    const newProgress = [...progress];
+  const handleUnitProgressChange = (unitId: string, value: number) => {
     const clampedValue = Math.max(0, Math.min(100, value));
-    newProgress[unitIndex] = Math.round(clampedValue);
-    setProgress(newProgress);
+    setProgress(prev => ({ ...prev, [unitId]: Math.round(clampedValue) }));
   }
 
   const handleSave = () => {
@@ -64,7 +85,7 @@ export const ProgressUpdateModal: React.FC<ProgressUpdateModalProps> = ({ item,
 
   const handleBarMouseDown = (
     downEvent: React.MouseEvent<HTMLDivElement>,
-    unitIndex: number
+    unitId: string
   ) => {
     downEvent.preventDefault();
     downEvent.stopPropagation();
@@ -75,7 +96,7 @@ export const ProgressUpdateModal: React.FC<ProgressUpdateModalProps> = ({ item,
     const updateProgressFromEvent = (moveEvent: MouseEvent) => {
         const offsetX = moveEvent.clientX - rect.left;
         const newPercentage = (offsetX / rect.width) * 100;
-        handleUnitProgressChange(unitIndex, newPercentage);
+        handleUnitProgressChange(unitId, newPercentage);
     };
 
     updateProgressFromEvent(downEvent.nativeEvent);
@@ -108,6 +129,11 @@ export const ProgressUpdateModal: React.FC<ProgressUpdateModalProps> = ({ item,
         </header>
 
         <main className="p-6 overflow-y-auto">
+          {otherEditors.length > 0 && (
+            <div className="mb-4 p-3 rounded-lg border border-amber-300 bg-amber-50 text-sm text-amber-800 dark:border-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+              <strong>{otherEditors.map(e => e.userEmail).join(', ')}</strong> também está editando este serviço. Apenas as unidades que você alterar serão gravadas; as demais mantêm os valores salvos pelos colegas.
+            </div>
+          )}
           <div className="bg-slate-50 dark:bg-slate-700/50 p-4 rounded-lg border dark:border-slate-200 dark:border-slate-600">
             <h3 className="text-base font-semibold mb-3 text-slate-800 dark:text-slate-100">Ações em Lote</h3>
             <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
@@ -134,54 +160,83 @@ export const ProgressUpdateModal: React.FC<ProgressUpdateModalProps> = ({ item,
                 <button onClick={handleSelectAll} className="text-blue-600 dark:text-blue-400 hover:underline">Selecionar Todos</button>
                 <button onClick={handleClearSelection} className="text-blue-600 dark:text-blue-400 hover:underline">Limpar Seleção</button>
             </div>
+            {towers && (
+              <div className="mt-4 space-y-2">
+                <span className="block text-sm font-medium text-slate-600 dark:text-slate-300">Selecionar por torre e andar:</span>
+                {towers.map(tower => (
+                  <div key={tower.id} className="flex items-center gap-2 flex-wrap">
+                    <button
+                      onClick={() => toggleGroupSelection(tower)}
+                      className={`px-3 py-1 text-sm rounded-full font-semibold ${isGroupSelected(tower) ? 'bg-blue-600 text-white' : 'bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500'}`}
+                    >
+                      {tower.name} ({tower.units.length})
+                    </button>
+                    {tower.floors!.map(floor => (
+                      <button
+                        key={floor.id}
+                        onClick={() => toggleGroupSelection(floor)}
+                        className={`px-2 py-0.5 text-xs rounded-full font-medium ${isGroupSelected(floor) ? 'bg-blue-600 text-white' : 'bg-white dark:bg-slate-800 border dark:border-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+                      >
+                        {floor.name}
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
           
-          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4 mt-6">
-            {housingUnits.map((unit, i) => {
-              const isSelected = selectedUnits.includes(i);
-              const progressValue = progress[i] === undefined ? 0 : progress[i];
-
-              return (
-              <div
-                key={unit.id}
-                onClick={() => toggleUnitSelection(i)}
-                className={`relative p-3 border-2 rounded-lg cursor-pointer transition-all text-center flex flex-col justify-between h-32 ${
-                    isSelected 
-                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/50 shadow-lg' 
-                    : 'border-slate-200 dark:border-slate-600 hover:border-slate-400 dark:hover:border-slate-500'
-                }`}
-              >
-                {isSelected && (
-                    <div className="absolute top-1 right-1 text-blue-500">
-                        <CheckCircleIcon className="h-6 w-6" />
+          {unitSections.map(section => (
+            <div key={section.id}>
+              {section.name && <h4 className="mt-6 text-sm font-semibold text-slate-600 dark:text-slate-300">{section.name}</h4>}
+              <div className={`grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4 ${section.name ? 'mt-2' : 'mt-6'}`}>
+                {section.units.map(unit => {
+                  const isSelected = selectedUnits.includes(unit.id);
+                  const progressValue = progress[unit.id] === undefined ? 0 : progress[unit.id];
+
+                  return (
+                  <div
+                    key={unit.id}
+                    onClick={() => toggleUnitSelection(unit.id)}
+                    className={`relative p-3 border-2 rounded-lg cursor-pointer transition-all text-center flex flex-col justify-between h-32 ${
+                        isSelected 
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/50 shadow-lg' 
+                        : 'border-slate-200 dark:border-slate-600 hover:border-slate-400 dark:hover:border-slate-500'
+                    }`}
+                  >
+                    {isSelected && (
+                        <div className="absolute top-1 right-1 text-blue-500">
+                            <CheckCircleIcon className="h-6 w-6" />
+                        </div>
+                    )}
+                    <span className="font-bold text-sm text-slate-800 dark:text-slate-200">{unit.name}</span>
+                     <div 
+                        className="w-full bg-slate-200 dark:bg-slate-600 rounded-full h-2 my-1 cursor-ew-resize touch-none"
+                        onMouseDown={(e) => handleBarMouseDown(e, unit.id)}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div
+                            className="bg-blue-600 h-2 rounded-full pointer-events-none"
+                            style={{ width: `${progressValue}%` }}
+                        ></div>
                     </div>
-                )}
-                <span className="font-bold text-sm text-slate-800 dark:text-slate-200">{unit.name}</span>
-                 <div 
-                    className="w-full bg-slate-200 dark:bg-slate-600 rounded-full h-2 my-1 cursor-ew-resize touch-none"
-                    onMouseDown={(e) => handleBarMouseDown(e, i)}
-                    onClick={(e) => e.stopPropagation()}
-                >
-                    <div
-                        className="bg-blue-600 h-2 rounded-full pointer-events-none"
-                        style={{ width: `${progressValue}%` }}
-                    ></div>
-                </div>
-                <div className="relative">
-                    <input
-                        type="number"
-                        min="0"
-                        max="100"
-                        value={progressValue}
-                        onChange={(e) => handleUnitProgressChange(i, parseInt(e.target.value, 10) || 0)}
-                        onClick={e => e.stopPropagation()}
-                        className="w-full p-1 pr-6 border-0 rounded-md text-center text-xl font-bold bg-transparent text-slate-700 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:bg-white dark:focus:bg-slate-700 appearance-none [-moz-appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                    />
-                    <span className="absolute inset-y-0 right-2 flex items-center text-xl font-bold text-slate-400 dark:text-slate-500 pointer-events-none">%</span>
-                </div>
+                    <div className="relative">
+                        <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={progressValue}
+                            onChange={(e) => handleUnitProgressChange(unit.id, parseInt(e.target.value, 10) || 0)}
+                            onClick={e => e.stopPropagation()}
+                            className="w-full p-1 pr-6 border-0 rounded-md text-center text-xl font-bold bg-transparent text-slate-700 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:bg-white dark:focus:bg-slate-700 appearance-none [-moz-appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                        />
+                        <span className="absolute inset-y-0 right-2 flex items-center text-xl font-bold text-slate-400 dark:text-slate-500 pointer-events-none">%</span>
+                    </div>
+                  </div>
+                )})}
               </div>
-            )})}
-          </div>
+            </div>
+          ))}
         </main>
         
         <footer className="flex justify-end gap-4 p-4 border-t bg-slate-50 dark:bg-slate-800/50 dark:border-slate-700">
@@ -1,57 +1,32 @@
-import React, { useMemo } from 'react';
-import { Project, UserProfile } from '../types';
-import { BuildingIcon, PlusIcon, SignOutIcon, CircleStackIcon, ArrowUpTrayIcon } from './Icons';
-import { PLS_TEMPLATE } from '../constants';
+import React, { useMemo, useState } from 'react';
+import { Organization, Project, UserProfile } from '../types';
+import { BuildingIcon, PlusIcon, SignOutIcon, CircleStackIcon, ArrowUpTrayIcon, TableCellsIcon, SettingsIcon } from './Icons';
 import { ThemeToggle } from './ThemeToggle';
 import { auth } from '../firebase/config';
 import { useProject } from '../contexts/ProjectContext';
+import { calculateProjectFinancials } from '../services/financialService';
+import { TemplateLibraryModal } from './TemplateLibraryModal';
+import { OrganizationSettingsModal } from './OrganizationSettingsModal';
+import { filterProjectsByOrganization } from '../services/organizationService';
 
 interface ProjectDashboardProps {
   onSelectProject: (id: string) => void;
   onCreateProject: () => void;
   user: UserProfile | null;
   onOpenBackupRestore: () => void;
+  /** As organizações do usuário. */
+  organizations: Organization[];
+  /** A organização selecionada, ou `null` para os projetos sem organização. */
+  activeOrganization: Organization | null;
+  onSelectOrganization: (id: string | null) => void;
+  /** Recarrega as organizações após criar, alterar ou excluir uma delas. */
+  onOrganizationsChanged: () => Promise<void>;
 }
 
-const calculateProjectProgress = (project: Project): number => {
-    // Guard against incomplete project data that might come from a backup
-    if (!project || !Array.isArray(project.housing_units) || typeof project.progress !== 'object' || !project.progress) {
-        return 0;
-    }
-
-    const unitCount = project.housing_units.length;
-    if (unitCount === 0) {
-        return 0;
-    }
-
-    let totalWeightedProgress = 0;
-    const template = project.pls_data || PLS_TEMPLATE;
-
-    template.forEach(category => {
-        if (category && Array.isArray(category.subItems)) {
-            let categoryMeasuredSum = 0;
-            let categoryTotalIncidence = 0;
-
-            category.subItems.forEach(item => {
-                const incidence = typeof item.incidence === 'number' ? item.incidence : 0;
-                categoryTotalIncidence += incidence;
-
-                const itemProgress = project.progress[item.id] || [];
-                // Ensure itemProgress is an array of numbers
-                const validProgress = Array.from({ length: unitCount }, (_, i) => typeof itemProgress[i] === 'number' ? itemProgress[i] : 0);
-                const averageProgress = validProgress.reduce((a, b) => a + b, 0) / unitCount;
-
-                categoryMeasuredSum += (averageProgress / 100) * incidence;
-            });
-
-            // New logic: Sum of Subitems * Global Incidence (decimal) * 10
-            const measuredIncidence = categoryMeasuredSum * (categoryTotalIncidence / 100) * 10;
-            totalWeightedProgress += measuredIncidence;
-        }
-    });
-
-    return isNaN(totalWeightedProgress) ? 0 : totalWeightedProgress;
-}
+/**
+ * Valor do seletor de organizações que abre a criação de uma nova organização.
+ */
+const NEW_ORGANIZATION_OPTION = '__new__';
 
 const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -69,6 +44,9 @@ const ProjectCard: React.FC<{ project: Project; progress: number; onSelect: () =
                 </div>
                 <p className="text-sm text-slate-500 dark:text-slate-400">{project?.housing_units.length} unidades</p>
                 <p className="text-sm text-slate-500 dark:text-slate-400">Construtora: {project?.construction_company?.name || 'N/A'}</p>
+                {project?.template && (
+                    <p className="text-sm text-slate-500 dark:text-slate-400">Modelo: {project.template.templateName} v{project.template.version}</p>
+                )}
                 <p className="text-sm font-semibold text-slate-600 dark:text-slate-300 mt-2">{formatCurrency(project?.cost_of_works)}</p>
             </div>
             <div className="p-6 bg-slate-50 dark:bg-slate-800/50 border-t dark:border-slate-700 rounded-b-lg">
@@ -84,13 +62,37 @@ const ProjectCard: React.FC<{ project: Project; progress: number; onSelect: () =
     );
 });
 
-export const ProjectDashboard: React.FC<ProjectDashboardProps> = ({ onSelectProject, onCreateProject, user, onOpenBackupRestore }) => {
+export const ProjectDashboard: React.FC<ProjectDashboardProps> = ({
+  onSelectProject, onCreateProject, user, onOpenBackupRestore, organizations, activeOrganization, onSelectOrganization, onOrganizationsChanged
+}) => {
   const { projects } = useProject();
+  const [isTemplateLibraryOpen, setIsTemplateLibraryOpen] = useState(false);
+  // `null` cria uma nova organização; `undefined` mantém o modal fechado.
+  const [editingOrganization, setEditingOrganization] = useState<Organization | null | undefined>(undefined);
+
+  const visibleProjects = useMemo(
+    () => filterProjectsByOrganization(projects, activeOrganization?.id || null, organizations),
+    [projects, activeOrganization, organizations]
+  );
+  const title = activeOrganization?.name || (organizations.length > 0 ? 'Outros Projetos' : 'Meus Projetos');
+
+  const handleOrganizationChange = (value: string) => {
+    if (value === NEW_ORGANIZATION_OPTION) {
+      setEditingOrganization(null);
+      return;
+    }
+    onSelectOrganization(value || null);
+  };
+
+  const handleOrganizationSaved = async (organization: Organization) => {
+    await onOrganizationsChanged();
+    onSelectOrganization(organization.id);
+  };
   
   const progressMap = useMemo(() => {
     const map = new Map<string, number>();
     projects.forEach(project => {
-        map.set(project.id, calculateProjectProgress(project));
+        map.set(project.id, calculateProjectFinancials(project).totalProgress);
     });
     return map;
   }, [projects]);
@@ -100,7 +102,35 @@ export const ProjectDashboard: React.FC<ProjectDashboardProps> = ({ onSelectProj
       <header className="bg-white dark:bg-slate-800 shadow-sm sticky top-0 z-10">
         <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
           <div className="flex items-center gap-4">
-            <h1 className="text-xl sm:text-2xl font-bold text-slate-600 dark:text-slate-100">Construtora Cataratas</h1>
+            {activeOrganization?.branding?.logo_url && (
+              <img src={activeOrganization.branding.logo_url} alt={activeOrganization.name} className="h-10 w-auto max-w-[8rem] object-contain" />
+            )}
+            <h1
+              className="text-xl sm:text-2xl font-bold text-slate-600 dark:text-slate-100"
+              style={activeOrganization?.branding?.primary_color ? { color: activeOrganization.branding.primary_color } : undefined}
+            >
+              {title}
+            </h1>
+            <select
+              value={activeOrganization?.id || ''}
+              onChange={(e) => handleOrganizationChange(e.target.value)}
+              className="px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-md"
+              aria-label="Organização"
+            >
+              {organizations.map(organization => <option key={organization.id} value={organization.id}>{organization.name}</option>)}
+              <option value="">{organizations.length > 0 ? 'Outros projetos' : 'Meus projetos'}</option>
+              <option value={NEW_ORGANIZATION_OPTION}>+ Nova organização...</option>
+            </select>
+            {activeOrganization && (
+              <button
+                onClick={() => setEditingOrganization(activeOrganization)}
+                className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300"
+                aria-label="Configurações da organização"
+                title="Configurações da organização"
+              >
+                <SettingsIcon />
+              </button>
+            )}
           </div>
           <div className="flex items-center gap-2">
             <span className="text-sm text-slate-600 dark:text-slate-400 hidden sm:block">{user?.email}</span>
@@ -112,6 +142,14 @@ export const ProjectDashboard: React.FC<ProjectDashboardProps> = ({ onSelectProj
             >
                 <CircleStackIcon className="h-6 w-6" />
             </button>
+            <button
+                onClick={() => setIsTemplateLibraryOpen(true)}
+                className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300"
+                aria-label="Modelos de PLS"
+                title="Modelos de PLS"
+            >
+                <TableCellsIcon />
+            </button>
             <ThemeToggle />
              <button onClick={() => auth.signOut()} className="p-2 rounded-full hover:bg-rose-100 dark:hover:bg-rose-900/50 text-rose-600 dark:text-rose-400" aria-label="Sair">
                 <SignOutIcon />
@@ -124,12 +162,14 @@ export const ProjectDashboard: React.FC<ProjectDashboardProps> = ({ onSelectProj
         </div>
       </header>
       <main className="container mx-auto p-4 sm:p-6 lg:p-8">
-        {projects.length === 0 ? (
+        {visibleProjects.length === 0 ? (
           <div className="text-center py-24 bg-white dark:bg-slate-800 rounded-lg shadow-sm">
              <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-slate-100 dark:bg-slate-700">
                 <BuildingIcon />
             </div>
-            <h2 className="mt-6 text-xl font-semibold text-slate-700 dark:text-slate-200">Nenhum projeto encontrado.</h2>
+            <h2 className="mt-6 text-xl font-semibold text-slate-700 dark:text-slate-200">
+              {activeOrganization ? `Nenhum projeto em ${activeOrganization.name}.` : 'Nenhum projeto encontrado.'}
+            </h2>
             <p className="text-slate-500 dark:text-slate-400 mt-2">Os seus projetos agora são salvos na nuvem. Clique em "Novo Projeto" para começar.</p>
             <div className="mt-6 border-t dark:border-slate-700 pt-6 max-w-md mx-auto">
                 <p className="text-sm text-slate-500 dark:text-slate-400">Ou, se você tem um arquivo de backup:</p>
@@ -144,7 +184,7 @@ export const ProjectDashboard: React.FC<ProjectDashboardProps> = ({ onSelectProj
           </div>
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {projects.map(project => (
+            {visibleProjects.map(project => (
               <ProjectCard 
                 key={project.id} 
                 project={project}
@@ -155,6 +195,18 @@ export const ProjectDashboard: React.FC<ProjectDashboardProps> = ({ onSelectProj
           </div>
         )}
       </main>
+      {editingOrganization !== undefined && user && (
+        <OrganizationSettingsModal
+          organization={editingOrganization}
+          user={user}
+          onSaved={handleOrganizationSaved}
+          onDeleted={onOrganizationsChanged}
+          onClose={() => setEditingOrganization(undefined)}
+        />
+      )}
+      {isTemplateLibraryOpen && (
+        <TemplateLibraryModal projects={projects} user={user} organizationId={activeOrganization?.id} onClose={() => setIsTemplateLibraryOpen(false)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,12 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { SettingsIcon, CloseIcon, DocumentMagnifyingGlassIcon, CircleStackIcon, UserGroupIcon } from './Icons';
+import { SettingsIcon, CloseIcon, DocumentMagnifyingGlassIcon, CircleStackIcon, UserGroupIcon, TableCellsIcon } from './Icons';
 import { Project, UserProfile } from '../types';
 import toast from 'react-hot-toast';
 import { DocumentsSettings } from './DocumentsSettings';
 import { GeneralSettings } from './GeneralSettings';
 import { BackupSettings } from './BackupSettings';
 import { MembersSettings } from './MembersSettings';
+import { TemplateSettings } from './TemplateSettings';
 import { useAuth } from '../hooks/useAuth';
+import { hasPermission } from '../services/permissionService';
 
 interface ProjectSettingsProps {
   project: Project;
@@ -15,13 +17,16 @@ interface ProjectSettingsProps {
   onDelete: (id: string) => void;
 }
 
-type SettingsTab = 'general' | 'documents' | 'members' | 'backup';
+type SettingsTab = 'general' | 'documents' | 'members' | 'templates' | 'backup';
 
 
 export const ProjectSettings: React.FC<ProjectSettingsProps> = ({ project, onSave, onCancel, onDelete }) => {
-  const [formData, setFormData] = useState<Project>(project);
-  const [activeTab, setActiveTab] = useState<SettingsTab>('general');
   const { user } = useAuth();
+  // Abas de edição só aparecem para quem pode alterá-las; o backup fica disponível a todos os membros.
+  const canEditSettings = !!user && hasPermission(project, user.uid, 'edit_settings');
+  const canManageMembers = !!user && hasPermission(project, user.uid, 'manage_members');
+  const [formData, setFormData] = useState<Project>(project);
+  const [activeTab, setActiveTab] = useState<SettingsTab>(canEditSettings ? 'general' : 'backup');
 
   useEffect(() => {
     setFormData(project);
@@ -47,8 +52,6 @@ export const ProjectSettings: React.FC<ProjectSettingsProps> = ({ project, onSav
     }
   };
 
-  const isOwner = user?.uid === project.ownerId;
-
   return (
     <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onCancel}>
       <div className="w-full max-w-3xl bg-white dark:bg-slate-800 rounded-2xl shadow-xl relative max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
@@ -72,19 +75,23 @@ export const ProjectSettings: React.FC<ProjectSettingsProps> = ({ project, onSav
                 </button>
             </div>
             <nav className="mt-4 -mb-px flex space-x-8">
-                <button
-                    onClick={() => setActiveTab('general')}
-                    className={`flex items-center gap-2 whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${activeTab === 'general' ? 'border-blue-500 text-blue-600 dark:text-blue-400' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-slate-400 dark:hover:text-slate-200 dark:hover:border-slate-600'}`}
-                >
-                    <SettingsIcon /> Geral
-                </button>
-                <button
-                    onClick={() => setActiveTab('documents')}
-                    className={`flex items-center gap-2 whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${activeTab === 'documents' ? 'border-blue-500 text-blue-600 dark:text-blue-400' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-slate-400 dark:hover:text-slate-200 dark:hover:border-slate-600'}`}
-                >
-                    <DocumentMagnifyingGlassIcon /> Documentos
-                </button>
-                {isOwner && (
+                {canEditSettings && (
+                    <button
+                        onClick={() => setActiveTab('general')}
+                        className={`flex items-center gap-2 whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${activeTab === 'general' ? 'border-blue-500 text-blue-600 dark:text-blue-400' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-slate-400 dark:hover:text-slate-200 dark:hover:border-slate-600'}`}
+                    >
+                        <SettingsIcon /> Geral
+                    </button>
+                )}
+                {canEditSettings && (
+                    <button
+                        onClick={() => setActiveTab('documents')}
+                        className={`flex items-center gap-2 whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${activeTab === 'documents' ? 'border-blue-500 text-blue-600 dark:text-blue-400' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-slate-400 dark:hover:text-slate-200 dark:hover:border-slate-600'}`}
+                    >
+                        <DocumentMagnifyingGlassIcon /> Documentos
+                    </button>
+                )}
+                {canManageMembers && (
                     <button
                         onClick={() => setActiveTab('members')}
                         className={`flex items-center gap-2 whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${activeTab === 'members' ? 'border-blue-500 text-blue-600 dark:text-blue-400' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-slate-400 dark:hover:text-slate-200 dark:hover:border-slate-600'}`}
@@ -92,6 +99,14 @@ export const ProjectSettings: React.FC<ProjectSettingsProps> = ({ project, onSav
                         <UserGroupIcon /> Membros
                     </button>
                 )}
+                {canEditSettings && (
+                    <button
+                        onClick={() => setActiveTab('templates')}
+                        className={`flex items-center gap-2 whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${activeTab === 'templates' ? 'border-blue-500 text-blue-600 dark:text-blue-400' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-slate-400 dark:hover:text-slate-200 dark:hover:border-slate-600'}`}
+                    >
+                        <TableCellsIcon /> Modelos
+                    </button>
+                )}
                 <button
                     onClick={() => setActiveTab('backup')}
                     className={`flex items-center gap-2 whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${activeTab === 'backup' ? 'border-blue-500 text-blue-600 dark:text-blue-400' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-slate-400 dark:hover:text-slate-200 dark:hover:border-slate-600'}`}
@@ -103,9 +118,10 @@ export const ProjectSettings: React.FC<ProjectSettingsProps> = ({ project, onSav
         
         <form className="overflow-y-auto" onSubmit={handleSubmit}>
             <div className="p-6">
-                {activeTab === 'general' && <GeneralSettings formData={formData} setFormData={setFormData} onDelete={handleDeleteClick} />}
-                {activeTab === 'documents' && <DocumentsSettings project={formData} onSave={onSave} />}
-                {activeTab === 'members' && isOwner && user && <MembersSettings project={formData} user={user} />}
+                {activeTab === 'general' && canEditSettings && <GeneralSettings formData={formData} setFormData={setFormData} onDelete={handleDeleteClick} />}
+                {activeTab === 'documents' && canEditSettings && <DocumentsSettings project={formData} onSave={onSave} />}
+                {activeTab === 'members' && canManageMembers && user && <MembersSettings project={formData} user={user} />}
+                {activeTab === 'templates' && canEditSettings && user && <TemplateSettings project={project} user={user} onSave={onSave} />}
                 {activeTab === 'backup' && <BackupSettings project={formData} />}
             </div>
             <footer className="p-4 border-t dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50 rounded-b-2xl">
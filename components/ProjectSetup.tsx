@@ -1,8 +1,13 @@
 import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { BuildingIcon, CloseIcon, PlusIcon, SparklesIcon, TrashIcon, DocumentArrowUpIcon, SpinnerIcon, MapPinIcon, CheckCircleIcon, SpinnerIconSmall, GpsFixedIcon } from './Icons';
-import { Project, HousingUnit, PlsCategoryTemplate, ScheduleStage, ImportMetadata } from '../types';
+import { Project, HousingUnit, PlsCategoryTemplate, ScheduleStage, ImportMetadata, Organization } from '../types';
 import { extractDataFromFRE, ExtractedFreData, extractPlsFromBudgetFile, extractDataFromScheduleFile } from '../services/geminiService';
 import toast from 'react-hot-toast';
+import { hasPlsErrors, validatePls } from '../services/plsValidationService';
+import { PlsValidationPanel } from './PlsValidationPanel';
+import { useTemplates } from '../hooks/useTemplates';
+import { useAuth } from '../hooks/useAuth';
+import { getLatestTemplateVersion, getTemplateRef } from '../services/templateService';
 
 
 type ProjectCreationData = Omit<Project, 'id' | 'progress' | 'created_at' | 'ownerId' | 'members'>;
@@ -10,9 +15,11 @@ type ProjectCreationData = Omit<Project, 'id' | 'progress' | 'created_at' | 'own
 interface ProjectSetupProps {
   onSetup: (data: ProjectCreationData) => void;
   onCancel: () => void;
+  /** A organização do novo projeto, que define a construtora e o modelo de PLS sugeridos. */
+  organization?: Organization | null;
 }
 
-const initialFormData: Omit<ProjectCreationData, 'pls_data' | 'history' | 'schedule' | 'duration_months' | 'import_metadata'> & { history: [] } = {
+const initialFormData: Omit<ProjectCreationData, 'pls_data' | 'schedule' | 'duration_months' | 'import_metadata'> = {
   name: '',
   housing_units: [],
   cost_of_works: 0,
@@ -39,7 +46,6 @@ const initialFormData: Omit<ProjectCreationData, 'pls_data' | 'history' | 'sched
     crea: '',
     email: '',
   },
-  history: [],
 };
 
 const FormInput: React.FC<{label: string, id: string, value: string | number, onChange: (e: React.ChangeEvent<HTMLInputElement>) => void, type?: string, required?: boolean, min?: number, step?: string | number}> = 
@@ -101,18 +107,26 @@ function useDebounce<T>(value: T, delay: number): T {
 }
 
 
-export const ProjectSetup: React.FC<ProjectSetupProps> = ({ onSetup, onCancel }) => {
-  const [formData, setFormData] = useState<Omit<ProjectCreationData, 'pls_data' | 'schedule' | 'duration_months' | 'import_metadata'>>(initialFormData);
+export const ProjectSetup: React.FC<ProjectSetupProps> = ({ onSetup, onCancel, organization }) => {
+  const [formData, setFormData] = useState<Omit<ProjectCreationData, 'pls_data' | 'schedule' | 'duration_months' | 'import_metadata'>>(() => organization ? {
+      ...initialFormData,
+      construction_company: { name: organization.name, cnpj: organization.cnpj || '' },
+  } : initialFormData);
   const [customPlsData, setCustomPlsData] = useState<PlsCategoryTemplate[] | null>(null);
   const [scheduleData, setScheduleData] = useState<{ schedule: ScheduleStage[], duration_months: number } | null>(null);
   const [quickGen, setQuickGen] = useState({ prefix: 'Casa', start: 1, end: 64 });
   const [importMetadata, setImportMetadata] = useState<ImportMetadata>({});
+  const { user } = useAuth();
+  const { templates } = useTemplates(user?.uid, organization?.id);
+  // Modelo da biblioteca usado como PLS do projeto ('' para a PLS padrão ou a importada do orçamento)
+  const [selectedTemplateId, setSelectedTemplateId] = useState(organization?.default_template_id || '');
   
   const [isImportingFre, setIsImportingFre] = useState(false);
   const [isImportingBudget, setIsImportingBudget] = useState(false);
   const [isImportingSchedule, setIsImportingSchedule] = useState(false);
 
   const [budgetImportSuccess, setBudgetImportSuccess] = useState(false);
+  const plsIssues = useMemo(() => customPlsData ? validatePls(customPlsData) : [], [customPlsData]);
   const [scheduleImportSuccess, setScheduleImportSuccess] = useState(false);
   
   const freFileInputRef = useRef<HTMLInputElement>(null);
@@ -211,10 +225,20 @@ export const ProjectSetup: React.FC<ProjectSetupProps> = ({ onSetup, onCancel })
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (hasPlsErrors(plsIssues)) {
+        toast.error("A PLS importada do orçamento possui erros. Corrija o arquivo e importe novamente.");
+        return;
+    }
     if (formData.name && formData.housing_units.length > 0 && formData.cost_of_works > 0) {
+      const template = templates.find(t => t.id === selectedTemplateId);
+      const templateVersion = template && getLatestTemplateVersion(template);
       onSetup({
           ...formData,
-          pls_data: customPlsData,
+          ...(template && templateVersion ? {
+              template: getTemplateRef(template, templateVersion),
+              ...(templateVersion.layouts ? { layouts: templateVersion.layouts } : {}),
+          } : {}),
+          pls_data: templateVersion ? templateVersion.pls_data : customPlsData,
           schedule: scheduleData?.schedule,
           duration_months: scheduleData?.duration_months,
           import_metadata: importMetadata,
@@ -346,6 +370,7 @@ export const ProjectSetup: React.FC<ProjectSetupProps> = ({ onSetup, onCancel })
           success: (plsData) => {
               if (plsData && plsData.length > 0) {
                   setCustomPlsData(plsData);
+                  setSelectedTemplateId('');
                   setBudgetImportSuccess(true);
                   setImportMetadata(prev => ({ ...prev, pls_imported_at: new Date().toISOString() }));
                   return 'Orçamento importado e PLS criada!';
@@ -462,6 +487,7 @@ export const ProjectSetup: React.FC<ProjectSetupProps> = ({ onSetup, onCancel })
                     </h2>
                     <p className="mt-1 text-sm text-gray-600 dark:text-slate-400">
                         Insira os detalhes do empreendimento para iniciar a PLS.
+                        {organization && <> O projeto será criado em <strong>{organization.name}</strong>.</>}
                     </p>
                 </div>
             </div>
@@ -522,6 +548,35 @@ export const ProjectSetup: React.FC<ProjectSetupProps> = ({ onSetup, onCancel })
                     </button>
                 </div>
                 
+                {templates.length > 0 && (
+                  <div className="mb-6">
+                      <label htmlFor="pls_template" className="block text-sm font-medium text-gray-700 dark:text-slate-300">Estrutura da PLS</label>
+                      <select
+                          id="pls_template"
+                          value={selectedTemplateId}
+                          onChange={(e) => {
+                              setSelectedTemplateId(e.target.value);
+                              // O modelo escolhido substitui a PLS importada do orçamento
+                              if (e.target.value) {
+                                  setCustomPlsData(null);
+                                  setBudgetImportSuccess(false);
+                              }
+                          }}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md shadow-sm focus:outline-none focus:ring-amber-500 focus:border-amber-500 sm:text-sm"
+                      >
+                          <option value="">{customPlsData ? 'PLS importada do orçamento' : 'PLS padrão'}</option>
+                          {templates.map(template => (
+                              <option key={template.id} value={template.id}>
+                                  {template.name} (versão {getLatestTemplateVersion(template)?.version ?? 1})
+                              </option>
+                          ))}
+                      </select>
+                      <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                          {templates.find(t => t.id === selectedTemplateId)?.description || 'Os modelos da biblioteca trazem a PLS e os layouts de relatório de projetos anteriores.'}
+                      </p>
+                  </div>
+                )}
+
                  {budgetImportSuccess && (
                   <div className="my-4 p-3 bg-emerald-50 dark:bg-emerald-900/50 border-l-4 border-emerald-400 dark:border-emerald-600 flex items-center gap-3" role="alert">
                       <CheckCircleIcon className="h-6 w-6 text-emerald-600 dark:text-emerald-400" />
@@ -529,6 +584,12 @@ export const ProjectSetup: React.FC<ProjectSetupProps> = ({ onSetup, onCancel })
                   </div>
                 )}
 
+                {customPlsData && plsIssues.length > 0 && (
+                  <div className="my-4">
+                      <PlsValidationPanel pls={customPlsData} issues={plsIssues} onApplyRebalance={setCustomPlsData} />
+                  </div>
+                )}
+
                  {scheduleImportSuccess && (
                   <div className="my-4 p-3 bg-emerald-50 dark:bg-emerald-900/50 border-l-4 border-emerald-400 dark:border-emerald-600 flex items-center gap-3" role="alert">
                       <CheckCircleIcon className="h-6 w-6 text-emerald-600 dark:text-emerald-400" />
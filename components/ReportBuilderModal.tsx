@@ -3,6 +3,8 @@ import { Project, ServiceCategory, Financials, ArchivedReport, ReportOptions, La
 import { CloseIcon, ChartPieIcon, SpinnerIconSmall, SparklesIcon, PaintBrushIcon } from './Icons';
 import { exportToPDF, exportToXLSX, exportToJSON } from '../services/exportService';
 import { generateReportSummary } from '../services/geminiService';
+import { getOpenMeasurement, getNextMeasurementNumber } from '../services/measurementService';
+import { getUnitProgress } from '../services/progressService';
 import toast from 'react-hot-toast';
 
 interface ReportBuilderModalProps {
@@ -12,6 +14,8 @@ interface ReportBuilderModalProps {
     onClose: () => void;
     onArchiveReport: (report: Omit<ArchivedReport, 'id'>) => void;
     onManageLayouts: () => void;
+    /** Data (`AAAA-MM-DD`) da posição passada em `project` e `financials`, quando o relatório não é da posição atual. */
+    asOfDate?: string | null;
 }
 
 const formatCurrency = (value: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
@@ -26,6 +30,7 @@ const initialOptions = (allCategoryIds: string[]): Omit<ReportOptions, 'layout'>
     aiSummary: null,
     orientation: 'l',
     measurementNumber: 1,
+    includeScheduleCurve: false,
 });
 
 const parseServiceName = (name: string): { mainName: string; description: string | null } => {
@@ -36,15 +41,26 @@ const parseServiceName = (name: string): { mainName: string; description: string
 };
 
 
-export const ReportBuilderModal: React.FC<ReportBuilderModalProps> = ({ project, plsData, financials, onClose, onArchiveReport, onManageLayouts }) => {
+export const ReportBuilderModal: React.FC<ReportBuilderModalProps> = ({ project, plsData, financials, onClose, onArchiveReport, onManageLayouts, asOfDate = null }) => {
     const allCategoryIds = useMemo(() => plsData.map(c => c.id), [plsData]);
-    const [options, setOptions] = useState(() => initialOptions(allCategoryIds));
+    const asOfLabel = asOfDate ? new Date(`${asOfDate}T12:00:00`).toLocaleDateString('pt-BR') : null;
+    const [options, setOptions] = useState(() => {
+        const defaults = initialOptions(allCategoryIds);
+        return asOfLabel ? { ...defaults, title: `${defaults.title} - Posição em ${asOfLabel}` } : defaults;
+    });
     const [outputFormat, setOutputFormat] = useState<'pdf' | 'xlsx' | 'json'>('pdf');
     const [isExporting, setIsExporting] = useState(false);
     const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
     const [expandedItemId, setExpandedItemId] = useState<string | null>(null);
     const [archiveAndSave, setArchiveAndSave] = useState(false);
-    const [measurementNumber, setMeasurementNumber] = useState((project.archived_reports?.length || 0) + 1);
+    const [measurementNumber, setMeasurementNumber] = useState(() => {
+        const measurements = project.measurements || [];
+        if (measurements.length === 0) return (project.report_summaries?.length || 0) + 1;
+        return getOpenMeasurement(measurements)?.number || getNextMeasurementNumber(measurements);
+    });
+    // Na posição de uma data passada, o relatório usa o progresso reconstruído, e não os valores congelados da medição.
+    const closedMeasurement = asOfDate ? undefined : (project.measurements || []).find(m => m.number === measurementNumber && m.status === 'closed');
+    const hasSchedule = (project.schedule?.length || 0) > 0;
 
     const defaultLayout: LayoutTemplate = useMemo(() => ({
         id: 'default',
@@ -69,10 +85,10 @@ export const ReportBuilderModal: React.FC<ReportBuilderModalProps> = ({ project,
 
 
     const unitsWithProgressPreview = useMemo(() => {
-        return project.housing_units.map((unit, unitIndex) => {
+        return project.housing_units.map(unit => {
             const servicesWithProgress = plsData.flatMap(category => 
                 category.subItems
-                    .map(item => ({ name: item.name, progress: project.progress[item.id]?.[unitIndex] || 0 }))
+                    .map(item => ({ name: item.name, progress: getUnitProgress(project.progress, item.id, unit.id) }))
                     .filter(item => item.progress > 0)
             );
             return { unitName: unit.name, hasProgress: servicesWithProgress.length > 0, services: servicesWithProgress };
@@ -135,6 +151,10 @@ export const ReportBuilderModal: React.FC<ReportBuilderModalProps> = ({ project,
         const selectedLayout = availableLayouts.find(l => l.id === selectedLayoutId) || defaultLayout;
         const finalOptions: ReportOptions = { ...options, layout: selectedLayout, measurementNumber };
 
+        // Para medições fechadas, o relatório usa os valores congelados no fechamento.
+        const reportProject = closedMeasurement?.progressSnapshot ? { ...project, progress: closedMeasurement.progressSnapshot } : project;
+        const reportFinancials = closedMeasurement?.financialsSnapshot || financials;
+
         try {
             if (archiveAndSave) {
                 onArchiveReport({
@@ -142,18 +162,18 @@ export const ReportBuilderModal: React.FC<ReportBuilderModalProps> = ({ project,
                     generatedAt: new Date().toISOString(),
                     format: outputFormat,
                     options: finalOptions,
-                    financialsSnapshot: financials,
-                    progressSnapshot: project.progress,
+                    financialsSnapshot: reportFinancials,
+                    progressSnapshot: reportProject.progress,
                     plsDataSnapshot: plsData,
                 });
             }
 
             if (outputFormat === 'pdf') {
-                await exportToPDF(project, plsData, financials, finalOptions);
+                await exportToPDF(reportProject, plsData, reportFinancials, finalOptions);
             } else if (outputFormat === 'xlsx') {
-                exportToXLSX(project, plsData, financials, finalOptions);
+                exportToXLSX(reportProject, plsData, reportFinancials, finalOptions);
             } else {
-                exportToJSON(project, plsData, financials, finalOptions);
+                exportToJSON(reportProject, plsData, reportFinancials, finalOptions);
             }
             toast.success('Relatório gerado com sucesso!');
         } catch (error) {
@@ -165,7 +185,7 @@ export const ReportBuilderModal: React.FC<ReportBuilderModalProps> = ({ project,
         }
     };
 
-    const isExportDisabled = isExporting || (!options.includeProjectDetails && !options.includeFinancialSummary && !options.includeProgressTable && !options.includeUnitDetails);
+    const isExportDisabled = isExporting || (!options.includeProjectDetails && !options.includeFinancialSummary && !options.includeProgressTable && !options.includeUnitDetails && !options.includeScheduleCurve);
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-30 p-4" onClick={onClose}>
@@ -175,7 +195,9 @@ export const ReportBuilderModal: React.FC<ReportBuilderModalProps> = ({ project,
                         <ChartPieIcon />
                         <div>
                             <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100">Construtor de Relatório</h2>
-                            <p className="text-sm text-slate-500 dark:text-slate-400">Personalize e visualize seu relatório antes de exportar.</p>
+                            <p className="text-sm text-slate-500 dark:text-slate-400">
+                                {asOfLabel ? `Relatório com a posição do fim de ${asOfLabel}, reconstruída pelo histórico.` : 'Personalize e visualize seu relatório antes de exportar.'}
+                            </p>
                         </div>
                     </div>
                     <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700">
@@ -205,6 +227,7 @@ export const ReportBuilderModal: React.FC<ReportBuilderModalProps> = ({ project,
                                         ))}
                                     </select>
                                     {!(project.duration_months) && <p className="text-xs text-slate-500 mt-1">Duração não definida. Padrão: 18 meses.</p>}
+                                    {closedMeasurement && <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">Medição fechada: serão usados os valores congelados.</p>}
                                 </div>
                             </div>
                              <div>
@@ -265,7 +288,7 @@ export const ReportBuilderModal: React.FC<ReportBuilderModalProps> = ({ project,
                             <fieldset>
                                 <legend className="text-base font-medium text-gray-900 dark:text-slate-200">Seções do Relatório</legend>
                                 <div className="mt-2 space-y-2">
-                                    {[['includeProjectDetails', 'Detalhes do Projeto'], ['includeFinancialSummary', 'Resumo Financeiro'], ['includeProgressTable', 'Tabela de Progresso'], ['includeUnitDetails', 'Detalhamento por Casas']].map(([key, label]) => (
+                                    {[['includeProjectDetails', 'Detalhes do Projeto'], ['includeFinancialSummary', 'Resumo Financeiro'], ['includeProgressTable', 'Tabela de Progresso'], ['includeUnitDetails', 'Detalhamento por Casas'], ...(hasSchedule ? [['includeScheduleCurve', 'Curva S (Previsto x Realizado)']] : [])].map(([key, label]) => (
                                         <div key={key} className="relative flex items-start">
                                             <div className="flex h-5 items-center">
                                                 <input id={key} name={key} type="checkbox" checked={options[key as keyof typeof options] as boolean} onChange={e => handleOptionChange(key as keyof ReportOptions, e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
@@ -316,20 +339,22 @@ export const ReportBuilderModal: React.FC<ReportBuilderModalProps> = ({ project,
                                 </div>
                             </fieldset>
 
-                             <fieldset>
-                                <legend className="text-base font-medium text-gray-900 dark:text-slate-200">Ações Finais</legend>
-                                <div className="mt-2 space-y-2">
-                                     <div className="relative flex items-start p-3 bg-amber-50 dark:bg-amber-900/50 rounded-lg border border-amber-200 dark:border-amber-700">
-                                        <div className="flex h-5 items-center">
-                                            <input id="archive" name="archive" type="checkbox" checked={archiveAndSave} onChange={e => setArchiveAndSave(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
-                                        </div>
-                                        <div className="ml-3 text-sm">
-                                            <label htmlFor="archive" className="font-bold text-amber-800 dark:text-amber-200">Marcar como enviado à CEF e arquivar</label>
-                                            <p className="text-xs text-amber-700 dark:text-amber-300">Salva uma cópia permanente deste relatório no histórico do projeto.</p>
+                            {!asOfDate && (
+                                 <fieldset>
+                                    <legend className="text-base font-medium text-gray-900 dark:text-slate-200">Ações Finais</legend>
+                                    <div className="mt-2 space-y-2">
+                                         <div className="relative flex items-start p-3 bg-amber-50 dark:bg-amber-900/50 rounded-lg border border-amber-200 dark:border-amber-700">
+                                            <div className="flex h-5 items-center">
+                                                <input id="archive" name="archive" type="checkbox" checked={archiveAndSave} onChange={e => setArchiveAndSave(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                                            </div>
+                                            <div className="ml-3 text-sm">
+                                                <label htmlFor="archive" className="font-bold text-amber-800 dark:text-amber-200">Marcar como enviado à CEF e arquivar</label>
+                                                <p className="text-xs text-amber-700 dark:text-amber-300">Salva uma cópia permanente deste relatório no histórico do projeto.</p>
+                                            </div>
                                         </div>
                                     </div>
-                                </div>
-                            </fieldset>
+                                </fieldset>
+                            )}
                         </div>
                     </aside>
 
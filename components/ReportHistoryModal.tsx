@@ -1,16 +1,26 @@
-import React from 'react';
+import React, { useCallback } from 'react';
 import { Project, ArchivedReport } from '../types';
-import { CloseIcon, ArchiveBoxIcon, DocumentArrowDownIcon } from './Icons';
+import { CloseIcon, ArchiveBoxIcon, DocumentArrowDownIcon, SpinnerIconSmall } from './Icons';
 import { exportToPDF, exportToXLSX, exportToJSON } from '../services/exportService';
+import { flushPendingWrites, loadArchivedReportsPage } from '../services/projectService';
+import { getCurrentPlsVersion, getPlsForVersion } from '../services/changeOrderService';
+import { usePagedCollection } from '../hooks/usePagedCollection';
 import toast from 'react-hot-toast';
 
+const REPORTS_PAGE_SIZE = 20;
+
 interface ReportHistoryModalProps {
   project: Project;
   onClose: () => void;
 }
 
 export const ReportHistoryModal: React.FC<ReportHistoryModalProps> = ({ project, onClose }) => {
-    const reports = [...(project.archived_reports || [])].sort((a, b) => new Date(b.generatedAt).getTime() - new Date(a.generatedAt).getTime());
+    const loadPage = useCallback(async (cursor: unknown) => {
+        // Grava antes um relatório recém-arquivado que ainda esteja pendente.
+        if (!cursor) await flushPendingWrites(project.id);
+        return loadArchivedReportsPage(project.id, REPORTS_PAGE_SIZE, cursor);
+    }, [project.id]);
+    const { items: reports, isLoading, hasMore, loadMore } = usePagedCollection(loadPage, 'Falha ao carregar os relatórios arquivados.');
 
     const handleDownload = async (report: ArchivedReport) => {
         try {
@@ -19,6 +29,11 @@ export const ReportHistoryModal: React.FC<ReportHistoryModalProps> = ({ project,
                 ...project, // Use current project for static details like name, developer etc.
                 progress: report.progressSnapshot, // Override progress with the snapshot.
             };
+            // Relatórios anteriores a um aditivo foram medidos contra uma versão anterior da PLS
+            if (report.plsVersion && report.plsVersion !== getCurrentPlsVersion(project)) {
+                historicalProject.pls_version = report.plsVersion;
+                historicalProject.pls_data = getPlsForVersion(project, report.plsVersion);
+            }
 
             // Call the correct export function with the snapshotted data
             if (report.format === 'pdf') {
@@ -68,6 +83,12 @@ export const ReportHistoryModal: React.FC<ReportHistoryModalProps> = ({ project,
                                             Gerado em: {new Date(report.generatedAt).toLocaleString('pt-BR')}
                                             <span className="mx-2">|</span>
                                             Formato: <span className="uppercase font-medium">{report.format}</span>
+                                            {report.plsVersion && (project.change_orders?.length || 0) > 0 && (
+                                                <>
+                                                    <span className="mx-2">|</span>
+                                                    PLS versão {report.plsVersion}
+                                                </>
+                                            )}
                                         </p>
                                     </div>
                                     <button
@@ -80,6 +101,10 @@ export const ReportHistoryModal: React.FC<ReportHistoryModalProps> = ({ project,
                                 </li>
                             ))}
                         </ul>
+                    ) : isLoading ? (
+                        <div className="flex justify-center py-16 text-slate-500">
+                            <SpinnerIconSmall />
+                        </div>
                     ) : (
                          <div className="text-center py-16">
                             <ArchiveBoxIcon className="mx-auto h-12 w-12 text-slate-400" />
@@ -91,6 +116,18 @@ export const ReportHistoryModal: React.FC<ReportHistoryModalProps> = ({ project,
                             </p>
                         </div>
                     )}
+                    {hasMore && reports.length > 0 && (
+                        <div className="flex justify-center pt-6">
+                            <button
+                                onClick={loadMore}
+                                disabled={isLoading}
+                                className="flex items-center gap-2 px-4 py-2 text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-500 text-slate-700 dark:text-slate-200 rounded-md hover:bg-slate-100 dark:hover:bg-slate-600 font-semibold disabled:opacity-50"
+                            >
+                                {isLoading && <SpinnerIconSmall />}
+                                Carregar mais
+                            </button>
+                        </div>
+                    )}
                 </main>
                  <footer className="flex justify-end gap-4 p-4 border-t bg-slate-50 dark:bg-slate-800/50 dark:border-slate-700 rounded-b-2xl">
                     <button onClick={onClose} className="px-6 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-md hover:bg-slate-100 dark:hover:bg-slate-600 font-semibold">
@@ -0,0 +1,121 @@
+/**
+ * @file Componente `ScheduleCurve` que exibe a curva S do projeto, comparando o cronograma
+ * físico-financeiro importado com o progresso efetivamente medido em cada etapa.
+ */
+import React, { useMemo } from 'react';
+import { Project, Financials, ScheduleCurvePoint } from '../types';
+import { buildScheduleCurve, getMeasuredProgressByStage } from '../services/scheduleService';
+import { PresentationChartLineIcon } from './Icons';
+
+/**
+ * @typedef {object} ScheduleCurveProps
+ * @property {Project} project - O objeto do projeto ativo, que deve conter o cronograma.
+ * @property {Financials} financials - Os dados financeiros calculados para o projeto.
+ */
+interface ScheduleCurveProps {
+    project: Project;
+    financials: Financials;
+}
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 260;
+const PADDING = { top: 10, right: 15, bottom: 30, left: 40 };
+
+/**
+ * Calcula a coordenada X de uma etapa no gráfico.
+ */
+const getX = (index: number, count: number) => {
+    const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+    return PADDING.left + (count > 1 ? (index / (count - 1)) * plotWidth : plotWidth / 2);
+};
+
+/**
+ * Calcula a coordenada Y de um percentual no gráfico, limitado entre 0 e 100.
+ */
+const getY = (value: number) => {
+    const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+    return PADDING.top + (1 - Math.min(Math.max(value, 0), 100) / 100) * plotHeight;
+};
+
+/**
+ * Converte uma série de valores da curva em pontos de uma polyline SVG.
+ * @param {ScheduleCurvePoint[]} curve Os pontos da curva.
+ * @param {(point: ScheduleCurvePoint) => number | null} getValue Função que extrai o valor (%) de cada ponto.
+ * @returns {string} A string de pontos no formato "x,y x,y ...".
+ */
+const toPolylinePoints = (curve: ScheduleCurvePoint[], getValue: (point: ScheduleCurvePoint) => number | null): string => {
+    return curve
+        .map((point, index) => ({ value: getValue(point), index }))
+        .filter((p): p is { value: number; index: number } => p.value !== null)
+        .map(p => `${getX(p.index, curve.length)},${getY(p.value)}`)
+        .join(' ');
+};
+
+/**
+ * Renderiza a curva S (previsto x realizado) e a lista de etapas em atraso.
+ * @param {ScheduleCurveProps} props - As propriedades do componente.
+ * @returns {React.ReactElement} O painel da curva S.
+ */
+export const ScheduleCurve: React.FC<ScheduleCurveProps> = ({ project, financials }) => {
+    const curve = useMemo(() => {
+        const measured = getMeasuredProgressByStage(project.report_summaries || [], financials.totalProgress, project.measurements);
+        return buildScheduleCurve(project.schedule || [], measured);
+    }, [project.schedule, project.report_summaries, project.measurements, financials.totalProgress]);
+
+    const behindStages = curve.filter(p => p.isBehind);
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-md border dark:border-slate-700">
+            <h2 className="text-xl font-bold mb-4 text-slate-800 dark:text-slate-100 flex items-center gap-3">
+                <PresentationChartLineIcon />
+                Curva S - Previsto x Realizado
+            </h2>
+
+            <div className="flex flex-wrap gap-4 mb-3 text-xs font-medium text-slate-600 dark:text-slate-300">
+                <span className="flex items-center gap-2"><span className="w-4 h-0.5 bg-sky-600"></span>Físico previsto</span>
+                <span className="flex items-center gap-2"><span className="w-4 h-0.5 bg-slate-400"></span>Financeiro previsto</span>
+                <span className="flex items-center gap-2"><span className="w-4 h-0.5 bg-amber-500"></span>Medido</span>
+                <span className="flex items-center gap-2"><span className="w-2.5 h-2.5 rounded-full bg-rose-500"></span>Etapa em atraso</span>
+            </div>
+
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto text-slate-400 dark:text-slate-500">
+                {[0, 25, 50, 75, 100].map(tick => (
+                    <g key={tick}>
+                        <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={getY(tick)} y2={getY(tick)} stroke="currentColor" strokeOpacity={0.3} strokeDasharray="2 3" />
+                        <text x={PADDING.left - 6} y={getY(tick) + 3} textAnchor="end" fontSize="10" fill="currentColor">{tick}%</text>
+                    </g>
+                ))}
+                {curve.map((point, index) => (
+                    <text key={point.stage} x={getX(index, curve.length)} y={CHART_HEIGHT - PADDING.bottom + 15} textAnchor="middle" fontSize="10" fill="currentColor">
+                        {point.stage}
+                    </text>
+                ))}
+                <polyline points={toPolylinePoints(curve, p => p.plannedFinancial)} fill="none" stroke="#94a3b8" strokeWidth={2} strokeDasharray="5 4" />
+                <polyline points={toPolylinePoints(curve, p => p.plannedPhysical)} fill="none" stroke="#0284c7" strokeWidth={2} />
+                <polyline points={toPolylinePoints(curve, p => p.actualProgress)} fill="none" stroke="#f59e0b" strokeWidth={2.5} />
+                {curve.map((point, index) => point.actualProgress !== null && (
+                    <circle key={point.stage} cx={getX(index, curve.length)} cy={getY(point.actualProgress)} r={point.isBehind ? 4.5 : 3} fill={point.isBehind ? '#f43f5e' : '#f59e0b'}>
+                        <title>{`Etapa ${point.stage}: medido ${point.actualProgress.toFixed(2)}% / previsto ${point.plannedPhysical.toFixed(2)}%`}</title>
+                    </circle>
+                ))}
+            </svg>
+
+            <div className="mt-4">
+                {behindStages.length > 0 ? (
+                    <div className="p-3 bg-rose-50 dark:bg-rose-900/30 border border-rose-200 dark:border-rose-800 rounded-md">
+                        <p className="text-sm font-semibold text-rose-700 dark:text-rose-300 mb-2">Etapas em atraso em relação ao cronograma</p>
+                        <ul className="text-sm text-rose-700 dark:text-rose-300 space-y-1">
+                            {behindStages.map(point => (
+                                <li key={point.stage}>
+                                    Etapa {point.stage}: medido {point.actualProgress?.toFixed(2)}% / previsto {point.plannedPhysical.toFixed(2)}% ({point.deviation?.toFixed(2)} p.p.)
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ) : (
+                    <p className="text-sm text-emerald-600 dark:text-emerald-400 font-medium">Nenhuma etapa medida está abaixo do previsto no cronograma.</p>
+                )}
+            </div>
+        </div>
+    );
+};
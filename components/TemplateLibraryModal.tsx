@@ -0,0 +1,124 @@
+/**
+ * @file Componente `TemplateLibraryModal`, a biblioteca de modelos de PLS da construtora.
+ * Lista os modelos com as suas versões e os projetos que usam cada um.
+ */
+import React, { useMemo } from 'react';
+import toast from 'react-hot-toast';
+import { PlsTemplate, Project, UserProfile } from '../types';
+import { CloseIcon, TableCellsIcon, TrashIcon, SpinnerIconSmall } from './Icons';
+import * as projectService from '../services/projectService';
+import { getLatestTemplateVersion, getTemplateUsage } from '../services/templateService';
+import { useTemplates } from '../hooks/useTemplates';
+
+interface TemplateLibraryModalProps {
+    projects: Project[];
+    user: UserProfile | null;
+    /** A organização ativa, cuja biblioteca é listada (sem ela, os modelos pessoais do usuário). */
+    organizationId?: string | null;
+    onClose: () => void;
+}
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('pt-BR');
+
+/**
+ * Renderiza a biblioteca de modelos.
+ * @param {TemplateLibraryModalProps} props As propriedades do componente.
+ * @returns {React.ReactElement} O modal da biblioteca.
+ */
+export const TemplateLibraryModal: React.FC<TemplateLibraryModalProps> = ({ projects, user, organizationId, onClose }) => {
+    const { templates, isLoading, reload } = useTemplates(user?.uid, organizationId);
+    const usage = useMemo(() => getTemplateUsage(projects), [projects]);
+
+    const handleDelete = async (template: PlsTemplate) => {
+        const inUse = usage[template.id]?.length || 0;
+        const message = inUse > 0
+            ? `Excluir o modelo "${template.name}"? Os ${inUse} projeto(s) criados a partir dele mantêm a sua PLS.`
+            : `Excluir o modelo "${template.name}"?`;
+        if (!window.confirm(message)) return;
+        try {
+            await toast.promise(projectService.deleteTemplate(template.id), {
+                loading: 'Excluindo modelo...',
+                success: 'Modelo excluído.',
+                error: 'Falha ao excluir o modelo.',
+            });
+            await reload();
+        } catch (error) {
+            console.error("Failed to delete template", error);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="w-full max-w-3xl bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center">
+                    <div className="flex items-center gap-4">
+                        <div className="flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-slate-100 dark:bg-slate-700">
+                            <TableCellsIcon />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-slate-100">Modelos de PLS</h2>
+                            <p className="mt-1 text-sm text-gray-600 dark:text-slate-400">
+                                Para criar um modelo, abra as configurações de um projeto na aba "Modelos".
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400">
+                        <CloseIcon />
+                    </button>
+                </header>
+
+                <main className="p-4 overflow-y-auto space-y-4">
+                    {isLoading ? (
+                        <div className="flex justify-center py-8"><SpinnerIconSmall /></div>
+                    ) : templates.length === 0 ? (
+                        <p className="text-center text-sm text-gray-500 dark:text-slate-400 py-8">Nenhum modelo salvo na biblioteca.</p>
+                    ) : templates.map(template => {
+                        const latest = getLatestTemplateVersion(template);
+                        const templateProjects = usage[template.id] || [];
+                        return (
+                            <section key={template.id} className="p-4 rounded-lg border dark:border-slate-700">
+                                <div className="flex justify-between items-start gap-4">
+                                    <div>
+                                        <h3 className="font-semibold text-gray-900 dark:text-slate-100">{template.name} <span className="text-sm font-normal text-gray-500 dark:text-slate-400">v{latest?.version}</span></h3>
+                                        {template.description && <p className="text-sm text-gray-600 dark:text-slate-400">{template.description}</p>}
+                                    </div>
+                                    {template.ownerId === user?.uid && (
+                                        <button onClick={() => handleDelete(template)} className="text-rose-500 hover:text-rose-700 p-2 rounded-full hover:bg-rose-100 dark:hover:bg-rose-900/50" title="Excluir modelo">
+                                            <TrashIcon />
+                                        </button>
+                                    )}
+                                </div>
+
+                                <h4 className="mt-3 text-xs font-semibold uppercase text-gray-500 dark:text-slate-400">Versões</h4>
+                                <ul className="mt-1 space-y-1 text-sm text-gray-700 dark:text-slate-300">
+                                    {[...template.versions].reverse().map(version => (
+                                        <li key={version.version}>
+                                            <strong>v{version.version}</strong> · {formatDate(version.publishedAt)} · {version.publishedBy}
+                                            {version.notes && <span className="text-gray-500 dark:text-slate-400"> — {version.notes}</span>}
+                                        </li>
+                                    ))}
+                                </ul>
+
+                                <h4 className="mt-3 text-xs font-semibold uppercase text-gray-500 dark:text-slate-400">Projetos ({templateProjects.length})</h4>
+                                {templateProjects.length === 0 ? (
+                                    <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">Nenhum projeto usa este modelo.</p>
+                                ) : (
+                                    <ul className="mt-1 space-y-1 text-sm text-gray-700 dark:text-slate-300">
+                                        {templateProjects.map(project => (
+                                            <li key={project.id}>
+                                                {project.name} · v{project.template!.version}
+                                                {latest && latest.version > project.template!.version && (
+                                                    <span className="ml-2 text-xs font-medium text-amber-600 dark:text-amber-400">versão anterior</span>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </section>
+                        );
+                    })}
+                </main>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,132 @@
+/**
+ * @file Componente `TemplateSettings`, a aba "Modelos" das configurações do projeto.
+ * Salva a PLS e os layouts do projeto como um modelo da biblioteca da construtora, ou como uma nova
+ * versão do modelo de onde o projeto veio.
+ */
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { Project, UserProfile } from '../types';
+import * as projectService from '../services/projectService';
+import { addTemplateVersion, createTemplateFromProject, getLatestTemplateVersion, getTemplateRef } from '../services/templateService';
+import { useTemplates } from '../hooks/useTemplates';
+import { SpinnerIconSmall } from './Icons';
+
+interface TemplateSettingsProps {
+    project: Project;
+    user: UserProfile;
+    /** Grava o projeto com a referência ao modelo salvo. */
+    onSave: (data: Project) => void;
+}
+
+const inputClassName = "appearance-none block w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md shadow-sm placeholder-gray-400 dark:placeholder-slate-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+
+/**
+ * Renderiza a aba de modelos do projeto.
+ * @param {TemplateSettingsProps} props As propriedades do componente.
+ * @returns {React.ReactElement} A aba de modelos.
+ */
+export const TemplateSettings: React.FC<TemplateSettingsProps> = ({ project, user, onSave }) => {
+    const { templates, isLoading, reload } = useTemplates(user.uid, project.organizationId);
+    const [name, setName] = useState(project.name);
+    const [description, setDescription] = useState('');
+    const [notes, setNotes] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const linkedTemplate = project.template ? templates.find(t => t.id === project.template!.templateId) : undefined;
+    const latestVersion = linkedTemplate ? getLatestTemplateVersion(linkedTemplate) : undefined;
+    const canPublishVersion = !!linkedTemplate && linkedTemplate.ownerId === user.uid;
+
+    const handleCreateTemplate = async () => {
+        if (!name.trim()) {
+            toast.error("Informe o nome do modelo.");
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const promise = projectService.createTemplate(createTemplateFromProject(project, name, description, user));
+            const created = await toast.promise(promise, {
+                loading: 'Salvando modelo...',
+                success: 'Modelo salvo na biblioteca!',
+                error: 'Falha ao salvar o modelo.',
+            });
+            onSave({ ...project, template: getTemplateRef(created, created.versions[0]) });
+            setDescription('');
+            await reload();
+        } catch (error) {
+            console.error("Failed to create template", error);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handlePublishVersion = async () => {
+        if (!linkedTemplate) return;
+        setIsSaving(true);
+        try {
+            const updated = addTemplateVersion(linkedTemplate, project, user.email || user.uid, notes);
+            await toast.promise(projectService.saveTemplate(updated), {
+                loading: 'Publicando versão...',
+                success: 'Nova versão publicada!',
+                error: 'Falha ao publicar a versão.',
+            });
+            onSave({ ...project, template: getTemplateRef(updated, getLatestTemplateVersion(updated)!) });
+            setNotes('');
+            await reload();
+        } catch (error) {
+            console.error("Failed to publish template version", error);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-8">
+            <section>
+                <h3 className="text-lg font-medium text-gray-900 dark:text-slate-200">Modelo de origem</h3>
+                {isLoading ? (
+                    <div className="mt-2 flex items-center gap-2 text-sm text-gray-500"><SpinnerIconSmall /> Carregando a biblioteca...</div>
+                ) : project.template ? (
+                    <p className="mt-1 text-sm text-gray-600 dark:text-slate-400">
+                        A PLS deste projeto veio do modelo <strong>{project.template.templateName}</strong>, versão {project.template.version}.
+                        {!linkedTemplate && ' O modelo foi excluído da biblioteca.'}
+                        {latestVersion && latestVersion.version > project.template.version && ` A versão mais recente é a ${latestVersion.version}.`}
+                    </p>
+                ) : (
+                    <p className="mt-1 text-sm text-gray-600 dark:text-slate-400">Este projeto não foi criado a partir de um modelo da biblioteca.</p>
+                )}
+            </section>
+
+            {canPublishVersion && (
+                <section className="space-y-3">
+                    <h3 className="text-lg font-medium text-gray-900 dark:text-slate-200">Publicar nova versão de "{linkedTemplate!.name}"</h3>
+                    <p className="text-sm text-gray-600 dark:text-slate-400">
+                        A PLS e os layouts atuais deste projeto passam a ser a versão {(latestVersion?.version ?? 0) + 1} do modelo.
+                        Os projetos já criados continuam com a versão que usaram.
+                    </p>
+                    <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={2} placeholder="O que mudou nesta versão?" className={inputClassName} />
+                    <button type="button" onClick={handlePublishVersion} disabled={isSaving} className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50">
+                        Publicar Versão
+                    </button>
+                </section>
+            )}
+
+            <section className="space-y-3">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-slate-200">Salvar como novo modelo</h3>
+                <p className="text-sm text-gray-600 dark:text-slate-400">
+                    Salva a PLS e os layouts de relatório deste projeto na biblioteca, para serem usados na criação de novos projetos.
+                </p>
+                <div>
+                    <label htmlFor="template_name" className="block text-sm font-medium text-gray-700 dark:text-slate-300">Nome do modelo</label>
+                    <input id="template_name" type="text" value={name} onChange={e => setName(e.target.value)} className={`mt-1 ${inputClassName}`} />
+                </div>
+                <div>
+                    <label htmlFor="template_description" className="block text-sm font-medium text-gray-700 dark:text-slate-300">Descrição</label>
+                    <input id="template_description" type="text" value={description} onChange={e => setDescription(e.target.value)} placeholder="Ex: Casas térreas de 2 quartos" className={`mt-1 ${inputClassName}`} />
+                </div>
+                <button type="button" onClick={handleCreateTemplate} disabled={isSaving} className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50">
+                    Salvar Modelo
+                </button>
+            </section>
+        </div>
+    );
+};
@@ -0,0 +1,207 @@
+/**
+ * @file Componente `TypologySettings`, a seção "Tipologias" da aba "Geral" das configurações do projeto.
+ * Permite cadastrar as tipologias das unidades, com o peso de cada uma no custo das obras e a sua PLS
+ * (própria ou a do projeto com multiplicadores de incidência por etapa).
+ */
+import React, { useMemo, useState } from 'react';
+import { Project, UnitTypology, PlsCategoryTemplate } from '../types';
+import { PlusIcon, TrashIcon } from './Icons';
+import { PlsEditorModal } from './PlsEditorModal';
+import { PLS_TEMPLATE } from '../constants';
+import { getUnitCostShares } from '../services/typologyService';
+
+interface TypologySettingsProps {
+    formData: Project;
+    setFormData: React.Dispatch<React.SetStateAction<Project>>;
+}
+
+const inputClassName = "appearance-none block w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md shadow-sm placeholder-gray-400 dark:placeholder-slate-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+
+const formatCurrency = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+/**
+ * Renderiza o cadastro das tipologias das unidades.
+ * @param {TypologySettingsProps} props As propriedades do componente.
+ * @returns {React.ReactElement} A seção de tipologias.
+ */
+export const TypologySettings: React.FC<TypologySettingsProps> = ({ formData, setFormData }) => {
+    const [editingPlsId, setEditingPlsId] = useState<string | null>(null);
+    const typologies = formData.typologies || [];
+    const projectPls = formData.pls_data || PLS_TEMPLATE;
+
+    // Parcela do custo das obras de cada tipologia (soma das parcelas das suas unidades)
+    const costByTypology = useMemo(() => {
+        const shares = getUnitCostShares(formData);
+        const totals: Record<string, { units: number; cost: number }> = {};
+        formData.housing_units.forEach(unit => {
+            const key = unit.typologyId && typologies.some(t => t.id === unit.typologyId) ? unit.typologyId : '';
+            totals[key] = totals[key] || { units: 0, cost: 0 };
+            totals[key].units += 1;
+            totals[key].cost += (shares[unit.id] || 0) * (formData.cost_of_works || 0);
+        });
+        return totals;
+    }, [formData, typologies]);
+
+    const updateTypology = (id: string, changes: Partial<UnitTypology>) => {
+        setFormData(prev => ({
+            ...prev,
+            typologies: (prev.typologies || []).map(typology => typology.id === id ? { ...typology, ...changes } : typology),
+        }));
+    };
+
+    const handleAddTypology = () => {
+        setFormData(prev => ({
+            ...prev,
+            typologies: [...(prev.typologies || []), { id: `typology_${Date.now()}`, name: `Tipologia ${(prev.typologies || []).length + 1}`, costWeight: 1 }],
+        }));
+    };
+
+    const handleRemoveTypology = (id: string) => {
+        setFormData(prev => ({
+            ...prev,
+            typologies: (prev.typologies || []).filter(typology => typology.id !== id),
+            // As unidades da tipologia removida voltam a usar a PLS do projeto
+            housing_units: prev.housing_units.map(unit => {
+                if (unit.typologyId !== id) return unit;
+                const { typologyId: _removed, ...rest } = unit;
+                return rest;
+            }),
+        }));
+    };
+
+    const handleToggleOwnPls = (id: string, useOwnPls: boolean) => {
+        setFormData(prev => ({
+            ...prev,
+            typologies: (prev.typologies || []).map(typology => {
+                if (typology.id !== id) return typology;
+                // Sem campos `undefined`, que o Firestore não aceita dentro de listas
+                const { pls_data, ...rest } = typology;
+                return useOwnPls ? { ...rest, pls_data: JSON.parse(JSON.stringify(projectPls)) } : rest;
+            }),
+        }));
+    };
+
+    const handleMultiplierChange = (typology: UnitTypology, categoryId: string, value: string) => {
+        const multipliers = { ...(typology.incidence_multipliers || {}) };
+        const multiplier = parseFloat(value.replace(',', '.'));
+        if (Number.isFinite(multiplier) && multiplier >= 0 && multiplier !== 1) {
+            multipliers[categoryId] = multiplier;
+        } else {
+            delete multipliers[categoryId];
+        }
+        updateTypology(typology.id, { incidence_multipliers: multipliers });
+    };
+
+    const handleSaveTypologyPls = (newPls: PlsCategoryTemplate[]) => {
+        if (editingPlsId) updateTypology(editingPlsId, { pls_data: newPls });
+        setEditingPlsId(null);
+    };
+
+    const editingTypology = typologies.find(typology => typology.id === editingPlsId);
+
+    return (
+        <fieldset className="col-span-full">
+            <legend className="text-lg font-medium text-gray-900 dark:text-slate-200">Tipologias</legend>
+            <p className="text-sm text-gray-600 dark:text-slate-400 mb-3">
+                Cadastre os tipos de unidade com orçamentos diferentes. Cada tipologia recebe uma parcela do custo das obras
+                proporcional ao seu peso e usa a PLS do projeto (com multiplicadores de incidência) ou uma PLS própria.
+            </p>
+
+            <div className="space-y-4">
+                {typologies.map(typology => (
+                    <div key={typology.id} className="p-3 rounded-lg border dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 space-y-3">
+                        <div className="flex items-end gap-3">
+                            <div className="flex-grow">
+                                <label className="block text-xs font-medium text-gray-700 dark:text-slate-300">Nome</label>
+                                <input type="text" value={typology.name} onChange={(e) => updateTypology(typology.id, { name: e.target.value })} className={`mt-1 ${inputClassName}`} />
+                            </div>
+                            <div className="w-32">
+                                <label className="block text-xs font-medium text-gray-700 dark:text-slate-300">Peso no custo</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step="0.01"
+                                    value={typology.costWeight}
+                                    onChange={(e) => updateTypology(typology.id, { costWeight: parseFloat(e.target.value) || 0 })}
+                                    className={`mt-1 ${inputClassName}`}
+                                />
+                            </div>
+                            <button type="button" onClick={() => handleRemoveTypology(typology.id)} className="text-rose-500 hover:text-rose-700 p-2 rounded-full hover:bg-rose-100 dark:hover:bg-rose-900/50">
+                                <TrashIcon />
+                            </button>
+                        </div>
+
+                        <p className="text-xs text-gray-500 dark:text-slate-400">
+                            {costByTypology[typology.id]
+                                ? `${costByTypology[typology.id].units} unidade(s) · ${formatCurrency(costByTypology[typology.id].cost)} do custo das obras`
+                                : 'Nenhuma unidade associada.'}
+                        </p>
+
+                        <div className="flex flex-wrap items-center gap-3 text-sm">
+                            <label className="flex items-center gap-2 text-gray-700 dark:text-slate-300">
+                                <input
+                                    type="checkbox"
+                                    checked={!!typology.pls_data}
+                                    onChange={(e) => handleToggleOwnPls(typology.id, e.target.checked)}
+                                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                PLS própria
+                            </label>
+                            {typology.pls_data && (
+                                <button type="button" onClick={() => setEditingPlsId(typology.id)} className="font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300">
+                                    Editar PLS da tipologia
+                                </button>
+                            )}
+                        </div>
+
+                        {!typology.pls_data && (
+                            <div>
+                                <p className="text-xs font-medium text-gray-700 dark:text-slate-300 mb-2">
+                                    Multiplicadores de incidência por etapa (as incidências são reescaladas para manter a soma)
+                                </p>
+                                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                                    {projectPls.map(category => (
+                                        <label key={category.id} className="flex items-center justify-between gap-2 text-xs text-gray-600 dark:text-slate-400">
+                                            <span className="truncate" title={category.name}>{category.id}. {category.name}</span>
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                step="0.05"
+                                                value={typology.incidence_multipliers?.[category.id] ?? 1}
+                                                onChange={(e) => handleMultiplierChange(typology, category.id, e.target.value)}
+                                                className="w-20 px-2 py-1 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-200 rounded-md text-xs"
+                                            />
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                ))}
+                {typologies.length > 0 && costByTypology[''] && (
+                    <p className="text-xs text-gray-500 dark:text-slate-400">
+                        Sem tipologia: {costByTypology[''].units} unidade(s) · {formatCurrency(costByTypology[''].cost)} do custo das obras (peso 1).
+                    </p>
+                )}
+            </div>
+
+            <button type="button" onClick={handleAddTypology} className="mt-3 flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300">
+                <PlusIcon />
+                Adicionar Tipologia
+            </button>
+
+            {editingTypology?.pls_data && (
+                <PlsEditorModal
+                    initialPlsData={editingTypology.pls_data}
+                    progress={{}}
+                    currentVersion={1}
+                    changeOrders={[]}
+                    canRecordChangeOrder={false}
+                    onSave={handleSaveTypologyPls}
+                    onSaveChangeOrder={handleSaveTypologyPls}
+                    onClose={() => setEditingPlsId(null)}
+                />
+            )}
+        </fieldset>
+    );
+};
@@ -2,10 +2,14 @@
  * @file Componente `UnitProgressSummary` que exibe uma lista de todas as unidades habitacionais
  * e seu progresso geral ponderado. Permite expandir cada unidade para ver os serviços em
  * andamento e oferece uma ação para exportar um relatório detalhado daquela unidade.
+ * Em empreendimentos verticais, também consolida o progresso por torre e por andar.
  */
 import React, { useState, useMemo } from 'react';
-import { Project, ServiceCategory, UnitFinancials, HousingUnit } from '../types';
+import { Project, ServiceCategory, UnitFinancials, HousingUnit, UnitGroupProgress } from '../types';
 import { TableCellsIcon, DocumentArrowDownIcon, ChevronDownIcon, ChevronRightIcon } from './Icons';
+import { getUnitProgress } from '../services/progressService';
+import { calculateUnitFinancials, getFinancialRule } from '../services/financialService';
+import { calculateProjectGroupProgress, hasUnitGroups } from '../services/unitGroupService';
 
 /**
  * @typedef {object} UnitProgressSummaryProps
@@ -28,48 +32,26 @@ interface UnitProgressSummaryProps {
 export const UnitProgressSummary: React.FC<UnitProgressSummaryProps> = ({ project, plsData, onExportUnit }) => {
     const [isCollapsed, setIsCollapsed] = useState(true); // Começa recolhido por padrão
     const [expandedUnitId, setExpandedUnitId] = useState<string | null>(null);
+    const [expandedTowerId, setExpandedTowerId] = useState<string | null>(null);
 
     const unitFinancials = useMemo((): UnitFinancials[] => {
         if (!project) return [];
-        
-        const { housing_units, progress } = project;
-        
-        return housing_units.map((unit, unitIndex) => {
-            let totalWeightedProgress = 0;
-            
-            plsData.forEach(category => {
-                let categoryUnitMeasuredSum = 0;
-
-                category.subItems.forEach(item => {
-                    const itemProgressArray = progress[item.id] || [];
-                    const unitProgress = itemProgressArray[unitIndex] || 0;
-                    
-                    categoryUnitMeasuredSum += (unitProgress / 100) * item.incidence;
-                });
+        return calculateUnitFinancials(plsData, project.progress, project.housing_units, getFinancialRule(project));
+    }, [project, plsData]);
 
-                // Apply new logic: Sum of Subitems * Global Incidence (decimal) * 10
-                // category.totalIncidence comes pre-calculated in dynamicPlsData
-                const categoryUnitMeasuredIncidence = categoryUnitMeasuredSum * (category.totalIncidence / 100) * 10;
-                totalWeightedProgress += categoryUnitMeasuredIncidence;
-            });
-            
-            return {
-                id: unit.id,
-                name: unit.name,
-                progress: totalWeightedProgress,
-            };
-        });
+    const groupProgress = useMemo((): UnitGroupProgress[] => {
+        if (!project || !hasUnitGroups(project.housing_units)) return [];
+        return calculateProjectGroupProgress(project, plsData);
     }, [project, plsData]);
 
     const getProgressedItemsForUnit = (unitId: string) => {
-        const unitIndex = project.housing_units.findIndex(u => u.id === unitId);
-        if (unitIndex === -1) return [];
+        if (!project.housing_units.some(u => u.id === unitId)) return [];
 
         const progressedItems: { id: string; name: string; progress: number }[] = [];
 
         plsData.forEach(category => {
             category.subItems.forEach(item => {
-                const itemProgress = project.progress[item.id]?.[unitIndex] || 0;
+                const itemProgress = getUnitProgress(project.progress, item.id, unitId);
                 if (itemProgress > 0) {
                     progressedItems.push({
                         id: item.id,
@@ -100,8 +82,54 @@ export const UnitProgressSummary: React.FC<UnitProgressSummaryProps> = ({ projec
                 {isCollapsed ? <ChevronRightIcon className="h-5 w-5" /> : <ChevronDownIcon className="h-5 w-5" />}
             </button>
 
+            {!isCollapsed && groupProgress.length > 0 && (
+                <div className="mt-4 space-y-2">
+                    <h3 className="text-sm font-semibold text-slate-600 dark:text-slate-300">Por torre e andar</h3>
+                    {groupProgress.map(tower => {
+                        const isExpanded = expandedTowerId === tower.id;
+                        return (
+                            <div key={tower.id} className="p-3 rounded-md bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-900/50">
+                                <div className="cursor-pointer" onClick={() => setExpandedTowerId(isExpanded ? null : tower.id)}>
+                                    <div className="flex justify-between items-center mb-1 text-sm">
+                                        <span className="font-bold text-slate-700 dark:text-slate-200 flex items-center gap-2">
+                                            {isExpanded ? <ChevronDownIcon className="h-4 w-4" /> : <ChevronRightIcon className="h-4 w-4" />}
+                                            {tower.name}
+                                            <span className="font-normal text-xs text-slate-500 dark:text-slate-400">
+                                                {tower.completedUnits}/{tower.unitCount} unidades concluídas
+                                            </span>
+                                        </span>
+                                        <span className="font-semibold text-blue-600 dark:text-blue-400">{tower.progress.toFixed(2)}%</span>
+                                    </div>
+                                    <div className="w-full bg-slate-200 dark:bg-slate-600 rounded-full h-2.5">
+                                        <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${Math.min(tower.progress, 100)}%` }}></div>
+                                    </div>
+                                </div>
+                                {isExpanded && (
+                                    <div className="mt-3 pt-3 border-t dark:border-slate-600 pl-2 sm:pl-4 space-y-2">
+                                        {tower.floors?.map(floor => (
+                                            <div key={floor.id} className="text-xs">
+                                                <div className="flex justify-between items-center mb-1">
+                                                    <span className="text-slate-600 dark:text-slate-300">
+                                                        {floor.name} <span className="text-slate-400">({floor.completedUnits}/{floor.unitCount})</span>
+                                                    </span>
+                                                    <span className="font-semibold text-slate-700 dark:text-slate-200">{floor.progress.toFixed(2)}%</span>
+                                                </div>
+                                                <div className="w-full bg-slate-200 dark:bg-slate-600 rounded-full h-1.5">
+                                                    <div className="bg-blue-400 h-1.5 rounded-full" style={{ width: `${Math.min(floor.progress, 100)}%` }}></div>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
             {!isCollapsed && (
                 <div className="mt-4 space-y-2">
+                    {groupProgress.length > 0 && <h3 className="text-sm font-semibold text-slate-600 dark:text-slate-300">Por unidade</h3>}
                     {unitFinancials.map(unit => {
                          const isExpanded = expandedUnitId === unit.id;
                         return (
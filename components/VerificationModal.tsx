@@ -3,10 +3,12 @@
  * entre os dados atuais do projeto e os novos dados extraídos de um documento.
  * Permite que o usuário revise as alterações antes de confirmar a atualização.
  */
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { CloseIcon } from './Icons';
 import { Project, PlsCategoryTemplate, ScheduleStage } from '../types';
 import { ExtractedFreData, ExtractedScheduleData } from '../services/geminiService';
+import { hasPlsErrors, validatePls } from '../services/plsValidationService';
+import { PlsValidationPanel } from './PlsValidationPanel';
 
 /**
  * @typedef {object} VerificationData
@@ -147,15 +149,23 @@ const ScheduleVerifier: React.FC<{ oldData: Project; newData: ExtractedScheduleD
  * @returns {React.ReactElement} O modal de verificação.
  */
 export const VerificationModal: React.FC<VerificationModalProps> = ({ project, data, onClose, onConfirm }) => {
+    // A PLS importada pode ser rebalanceada antes da confirmação
+    const [newData, setNewData] = useState(data.newData);
+    const plsIssues = useMemo(() => data.type === 'pls' ? validatePls(newData as PlsCategoryTemplate[]) : [], [data.type, newData]);
 
     const renderVerificationContent = () => {
         switch (data.type) {
             case 'fre':
-                return <FreVerifier oldData={project} newData={data.newData as ExtractedFreData} />;
+                return <FreVerifier oldData={project} newData={newData as ExtractedFreData} />;
             case 'pls':
-                return <PlsVerifier oldData={project.pls_data} newData={data.newData as PlsCategoryTemplate[]} />;
+                return (
+                    <div className="space-y-4">
+                        <PlsValidationPanel pls={newData as PlsCategoryTemplate[]} issues={plsIssues} onApplyRebalance={setNewData} />
+                        <PlsVerifier oldData={project.pls_data} newData={newData as PlsCategoryTemplate[]} />
+                    </div>
+                );
             case 'schedule':
-                 return <ScheduleVerifier oldData={project} newData={data.newData as ExtractedScheduleData} />;
+                 return <ScheduleVerifier oldData={project} newData={newData as ExtractedScheduleData} />;
             default:
                 return <p>Tipo de verificação não reconhecido.</p>;
         }
@@ -186,7 +196,13 @@ export const VerificationModal: React.FC<VerificationModalProps> = ({ project, d
                     <button type="button" onClick={onClose} className="bg-white dark:bg-slate-700 py-2 px-4 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-slate-200 hover:bg-gray-50 dark:hover:bg-slate-600">
                         Cancelar
                     </button>
-                    <button type="button" onClick={() => onConfirm(data.newData)} className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-emerald-600 hover:bg-emerald-700">
+                    <button
+                        type="button"
+                        onClick={() => onConfirm(newData)}
+                        disabled={hasPlsErrors(plsIssues)}
+                        title={hasPlsErrors(plsIssues) ? 'Corrija os erros da PLS importada antes de confirmar.' : undefined}
+                        className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
                         Confirmar Atualização
                     </button>
                 </footer>
@@ -7,22 +7,23 @@ import { PlsCategoryTemplate } from './types';
  * Template padrão da Planilha de Levantamento de Serviços (PLS).
  * Este modelo é utilizado quando um novo projeto é criado sem a importação de um
  * arquivo de orçamento personalizado. Os valores de incidência são baseados no
- * documento "Orçamento Sintético - Habitação" de referência.
+ * documento "Orçamento Sintético - Habitação" de referência. Os serviços preliminares gerais e os de
+ * infraestrutura e urbanização pertencem à área comum e são medidos uma única vez por empreendimento.
  */
 export const PLS_TEMPLATE: PlsCategoryTemplate[] = [
   {
     id: '1',
     name: 'SERVIÇOS PRELIMINARES GERAIS',
     subItems: [
-      { id: '1.1', name: 'serviços técnicos (projetos, orçamentos, levant. topog., sondagem, licenças e PCMAT)', incidence: 0.57, unit: 'vb' },
-      { id: '1.2', name: 'instalações e canteiros (barracão, cercamento e placa da obra)', incidence: 0.69, unit: 'vb' },
-      { id: '1.3', name: 'ligações provisórias (água, energia, telefone e esgoto)', incidence: 0.04, unit: 'vb' },
-      { id: '1.4', name: 'manutenção canteiro/consumo', incidence: 1.25, unit: 'mes' },
-      { id: '1.5', name: 'transportes máquinas e equipamentos', incidence: 0.89, unit: 'vb' },
-      { id: '1.6', name: 'controle tecnológico', incidence: 0.08, unit: 'vb' },
-      { id: '1.7', name: 'gestão de resíduos', incidence: 0.05, unit: 'vb' },
-      { id: '1.8', name: 'gestão da qualidade', incidence: 0.05, unit: 'vb' },
-      { id: '1.10', name: 'administração local (engenheiros, mestres, etc.)', incidence: 2.84, unit: 'mes' },
+      { id: '1.1', name: 'serviços técnicos (projetos, orçamentos, levant. topog., sondagem, licenças e PCMAT)', incidence: 0.57, unit: 'vb', scope: 'global' },
+      { id: '1.2', name: 'instalações e canteiros (barracão, cercamento e placa da obra)', incidence: 0.69, unit: 'vb', scope: 'global' },
+      { id: '1.3', name: 'ligações provisórias (água, energia, telefone e esgoto)', incidence: 0.04, unit: 'vb', scope: 'global' },
+      { id: '1.4', name: 'manutenção canteiro/consumo', incidence: 1.25, unit: 'mes', scope: 'global' },
+      { id: '1.5', name: 'transportes máquinas e equipamentos', incidence: 0.89, unit: 'vb', scope: 'global' },
+      { id: '1.6', name: 'controle tecnológico', incidence: 0.08, unit: 'vb', scope: 'global' },
+      { id: '1.7', name: 'gestão de resíduos', incidence: 0.05, unit: 'vb', scope: 'global' },
+      { id: '1.8', name: 'gestão da qualidade', incidence: 0.05, unit: 'vb', scope: 'global' },
+      { id: '1.10', name: 'administração local (engenheiros, mestres, etc.)', incidence: 2.84, unit: 'mes', scope: 'global' },
     ],
   },
   {
@@ -98,11 +99,11 @@ export const PLS_TEMPLATE: PlsCategoryTemplate[] = [
     id: '10',
     name: 'INFRAESTRUTURA E URBANIZAÇÃO',
     subItems: [
-      { id: '10.1', name: 'terraplenagem', incidence: 0.99, unit: 'etapa' },
-      { id: '10.5', name: 'pavimentação', incidence: 1.18, unit: 'etapa' },
-      { id: '10.6', name: 'energia e iluminação', incidence: 0.25, unit: 'etapa' },
-      { id: '10.9', name: 'obras especiais', incidence: 0.79, unit: 'etapa' },
-      { id: '10.10', name: 'paisagismo, equipamentos e ambientação', incidence: 0.79, unit: 'etapa' },
+      { id: '10.1', name: 'terraplenagem', incidence: 0.99, unit: 'etapa', scope: 'global' },
+      { id: '10.5', name: 'pavimentação', incidence: 1.18, unit: 'etapa', scope: 'global' },
+      { id: '10.6', name: 'energia e iluminação', incidence: 0.25, unit: 'etapa', scope: 'global' },
+      { id: '10.9', name: 'obras especiais', incidence: 0.79, unit: 'etapa', scope: 'global' },
+      { id: '10.10', name: 'paisagismo, equipamentos e ambientação', incidence: 0.79, unit: 'etapa', scope: 'global' },
     ],
   },
 ];
@@ -5,12 +5,24 @@
  * Este provedor encapsula toda a lógica de negócio para carregar, criar, atualizar e
  * excluir projetos, bem como para calcular dados derivados como o resumo financeiro.
  */
-import React, { createContext, useContext, useReducer, useEffect, useMemo, useCallback } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useMemo, useCallback, useRef, useState } from 'react';
 import toast from 'react-hot-toast';
 import * as projectService from '../services/projectService';
+import * as measurementService from '../services/measurementService';
+import { COMMON_AREA_UNIT_ID, createEmptyProgressRow, getItemProgressRow, getItemProgressUnits } from '../services/progressService';
+import { applyProjectPatch, getActiveEditorsByItem, mergeProjectChanges, PRESENCE_HEARTBEAT_MS } from '../services/collaborationService';
+import { toReportSummary } from '../services/archiveService';
+import * as undoService from '../services/undoService';
+import * as permissionService from '../services/permissionService';
+import * as approvalService from '../services/approvalService';
+import * as financialService from '../services/financialService';
+import * as changeOrderService from '../services/changeOrderService';
+import * as auditService from '../services/auditService';
+import * as historyService from '../services/historyService';
 import { 
-    Project, ServiceCategory, ProgressMatrix, Financials, CategoryFinancials, 
-    PlsCategoryTemplate, ProgressLog, AssistantProgressUpdate, ArchivedReport, LayoutTemplate
+    Project, ServiceCategory, ProgressMatrix, Financials, 
+    PlsCategoryTemplate, ProgressLog, ProgressLogSource, ServiceSubItem, AssistantProgressUpdate, ArchivedReport, LayoutTemplate, AuditAction, AuditEntry, ChangeOrderInput,
+    EditingPresence, ProjectArchiveAdditions, UndoEntry, ProjectPatch, ProjectRole, ProjectPermission, Organization
 } from '../types';
 import { PLS_TEMPLATE } from '../constants';
 import { useAuth } from '../hooks/useAuth';
@@ -27,6 +39,8 @@ interface ProjectState {
     activeProjectId: string | null;
     /** Sinalizador que indica se os projetos estão sendo carregados do Firestore. */
     isLoadingProjects: boolean;
+    /** Presenças de edição dos colaboradores no projeto ativo. */
+    editingPresence: EditingPresence[];
 }
 
 /**
@@ -38,7 +52,8 @@ type Action =
     | { type: 'SET_ACTIVE_PROJECT_ID'; payload: string | null }
     | { type: 'ADD_PROJECT'; payload: Project }
     | { type: 'UPDATE_PROJECT'; payload: Project }
-    | { type: 'DELETE_PROJECT'; payload: string };
+    | { type: 'DELETE_PROJECT'; payload: string }
+    | { type: 'SET_PRESENCE'; payload: EditingPresence[] };
 
 /**
  * A forma completa do valor fornecido pelo `ProjectContext`.
@@ -51,28 +66,54 @@ interface ProjectContextType extends ProjectState {
     dynamicPlsData: ServiceCategory[];
     /** O resumo financeiro calculado para o projeto ativo. */
     projectFinancials: Financials;
+    /** Outros usuários editando cada serviço do projeto ativo no momento, indexados pelo ID do serviço. */
+    editorsByItem: Record<string, EditingPresence[]>;
+    /** Informa aos colaboradores qual serviço o usuário está editando (ou `null` ao terminar). */
+    setEditingItem: (itemId: string | null) => void;
+    /** O papel do usuário no projeto ativo (`null` se não houver projeto ativo). */
+    currentRole: ProjectRole | null;
+    /** Indica se o papel do usuário no projeto ativo permite uma ação. */
+    can: (permission: ProjectPermission) => boolean;
+    /** Indica se o navegador está com conexão. */
+    isOnline: boolean;
+    /** Número de alterações feitas sem conexão que ainda aguardam sincronização. */
+    pendingSyncCount: number;
+    /** Desfaz a última edição de progresso ou da PLS no projeto ativo (Ctrl+Z). */
+    undo: () => void;
+    /** Refaz a última ação desfeita (Ctrl+Y). */
+    redo: () => void;
     /** Define o projeto ativo pelo seu ID. */
     setActiveProjectId: (id: string | null) => void;
-    /** Cria um novo projeto. */
-    createProject: (projectData: Omit<Project, 'id' | 'progress' | 'created_at' | 'ownerId' | 'members'>) => void;
+    /** Cria um novo projeto, opcionalmente dentro de uma organização (cujos membros são adicionados ao projeto). */
+    createProject: (projectData: Omit<Project, 'id' | 'progress' | 'created_at' | 'ownerId' | 'members'>, organization?: Organization) => void;
     /** Atualiza um projeto existente. */
     updateProject: (updatedProject: Project) => void;
     /** Exclui um projeto. */
     deleteProject: (id: string) => void;
-    /** Atualiza o progresso de um serviço em todas as unidades (edição em lote). */
-    updateProgress: (itemId: string, newProgress: number[]) => void;
+    /** Atualiza o progresso de um serviço em todas as unidades (edição em lote), indexado pelo ID da unidade. */
+    updateProgress: (itemId: string, newProgress: Record<string, number>) => void;
     /** Atualiza o progresso de um serviço em uma única unidade. */
-    updateSingleProgress: (itemId: string, unitIndex: number, newProgress: number) => void;
+    updateSingleProgress: (itemId: string, unitId: string, newProgress: number) => void;
     /** Processa e aplica atualizações de progresso solicitadas pelo assistente de IA. */
     updateProgressFromAssistant: (updates: AssistantProgressUpdate[]) => string;
     /** Salva uma nova estrutura de PLS personalizada para o projeto. */
     savePls: (newPlsData: PlsCategoryTemplate[]) => void;
+    /** Registra um aditivo, mantendo a PLS atual como versão anterior e passando a usar a nova estrutura. */
+    applyChangeOrder: (newPlsData: PlsCategoryTemplate[], input: ChangeOrderInput) => void;
     /** Salva os layouts de relatório personalizados. */
     saveLayouts: (layouts: LayoutTemplate[]) => void;
     /** Atualiza o nome de um item de serviço. */
     updateItemName: (categoryId: string, itemId: string, newName: string) => void;
     /** Arquiva um novo relatório no histórico do projeto. */
     archiveReport: (reportData: Omit<ArchivedReport, 'id'>) => void;
+    /** Abre uma nova medição para o período informado. */
+    openMeasurement: (periodStart: string, periodEnd: string) => void;
+    /** Fecha a medição aberta, congelando o progresso e os dados financeiros atuais. */
+    closeMeasurement: () => void;
+    /** Reabre a última medição fechada, registrando a justificativa na trilha de auditoria. */
+    reopenMeasurement: (measurementId: string, reason: string) => void;
+    /** Aprova ou rejeita alterações de progresso pendentes. */
+    reviewPendingProgress: (ids: string[], decision: 'approved' | 'rejected') => void;
     /** Substitui todos os projetos por um novo conjunto de um backup. */
     overwriteProjects: (projects: Project[]) => Promise<void>;
     /** Adiciona projetos de um backup à lista existente. */
@@ -120,11 +161,14 @@ const projectReducer = (state: ProjectState, action: Action): ProjectState => {
         case 'SET_ACTIVE_PROJECT_ID':
             return { ...state, activeProjectId: action.payload };
         case 'ADD_PROJECT':
-            return { ...state, projects: [action.payload, ...state.projects] };
+            // O projeto pode já ter chegado pela assinatura em tempo real.
+            return { ...state, projects: [action.payload, ...state.projects.filter(p => p.id !== action.payload.id)] };
         case 'UPDATE_PROJECT':
             return { ...state, projects: state.projects.map(p => p.id === action.payload.id ? action.payload : p) };
         case 'DELETE_PROJECT':
             return { ...state, projects: state.projects.filter(p => p.id !== action.payload) };
+        case 'SET_PRESENCE':
+            return { ...state, editingPresence: action.payload };
         default:
             return state;
     }
@@ -151,35 +195,150 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         projects: [],
         activeProjectId: null,
         isLoadingProjects: true,
+        editingPresence: [],
     };
 
     const [state, dispatch] = useReducer(projectReducer, initialState);
 
+    /**
+     * Alterações locais já aplicadas na tela, mas ainda não confirmadas pelo servidor.
+     * São reaplicadas sobre cada versão recebida em tempo real, para que a tela não "volte" enquanto a gravação não termina.
+     */
+    const pendingChangesRef = useRef<{ base: Project; local: Project }[]>([]);
+
+    const applyPendingChanges = (projects: Project[]): Project[] => {
+        return projects.map(project => pendingChangesRef.current
+            .filter(change => change.local.id === project.id)
+            .reduce((merged, change) => mergeProjectChanges(change.base, change.local, merged), project));
+    };
+
     useEffect(() => {
-        const fetchProjects = async () => {
-            if (user) {
-                dispatch({ type: 'SET_LOADING', payload: true });
-                try {
-                    const fetchedProjects = await projectService.loadProjects(user.uid);
-                    dispatch({ type: 'SET_PROJECTS', payload: fetchedProjects });
-                } catch (error) {
-                    toast.error(handleFirestoreError(error, "Falha ao carregar projetos"));
-                    dispatch({ type: 'SET_PROJECTS', payload: [] });
-                } finally {
-                    dispatch({ type: 'SET_LOADING', payload: false });
-                }
-            } else if (!isAuthInitializing) {
-                // Usuário deslogado, limpa o estado
-                dispatch({ type: 'SET_PROJECTS', payload: [] });
-                dispatch({ type: 'SET_ACTIVE_PROJECT_ID', payload: null });
+        if (isAuthInitializing) return;
+        if (!user) {
+            // Usuário deslogado, limpa o estado
+            dispatch({ type: 'SET_PROJECTS', payload: [] });
+            dispatch({ type: 'SET_ACTIVE_PROJECT_ID', payload: null });
+            dispatch({ type: 'SET_LOADING', payload: false });
+            return;
+        }
+
+        dispatch({ type: 'SET_LOADING', payload: true });
+        let hasServerProjects = false;
+
+        // Exibe a cópia local enquanto o servidor não responde (ou indefinidamente, sem conexão).
+        projectService.loadOfflineProjects(user.uid).then(cachedProjects => {
+            if (hasServerProjects || (cachedProjects.length === 0 && navigator.onLine)) return;
+            dispatch({ type: 'SET_PROJECTS', payload: applyPendingChanges(cachedProjects) });
+            dispatch({ type: 'SET_LOADING', payload: false });
+        });
+
+        const unsubscribe = projectService.subscribeToProjects(
+            user.uid,
+            projects => {
+                hasServerProjects = true;
+                dispatch({ type: 'SET_PROJECTS', payload: applyPendingChanges(projects) });
                 dispatch({ type: 'SET_LOADING', payload: false });
+            },
+            error => {
+                dispatch({ type: 'SET_LOADING', payload: false });
+                // Sem conexão, mantém os projetos da cópia local.
+                if (!navigator.onLine) return;
+                toast.error(handleFirestoreError(error, "Falha ao carregar projetos"));
+                dispatch({ type: 'SET_PROJECTS', payload: [] });
             }
-        };
-        if (!isAuthInitializing) {
-            fetchProjects();
-        }
+        );
+        return () => unsubscribe();
     }, [user, isAuthInitializing]);
 
+    useEffect(() => {
+        // Grava imediatamente as edições ainda agrupadas quando a página é ocultada ou fechada.
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') projectService.flushPendingWrites();
+        };
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }, []);
+
+    // --- MODO OFFLINE ---
+
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+    const [pendingSyncCount, setPendingSyncCount] = useState(0);
+
+    useEffect(() => {
+        return projectService.subscribeToOfflineQueue(setPendingSyncCount);
+    }, []);
+
+    useEffect(() => {
+        if (!user) return;
+        const syncOfflineChanges = () => {
+            projectService.syncOfflineQueue().then(({ synced, failed }) => {
+                if (synced > 0) toast.success(`${synced} alteração(ões) feita(s) sem conexão sincronizada(s).`);
+                if (failed > 0) toast.error(`${failed} alteração(ões) feita(s) sem conexão foram recusadas pelo servidor e descartadas.`);
+            });
+        };
+        const handleOnline = () => {
+            setIsOnline(true);
+            syncOfflineChanges();
+        };
+        const handleOffline = () => setIsOnline(false);
+
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        // Reenvia alterações que ficaram na fila em uma sessão anterior.
+        if (navigator.onLine) syncOfflineChanges();
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [user]);
+
+    // --- PRESENÇA DE EDIÇÃO ---
+
+    const [editingItemId, setEditingItemId] = useState<string | null>(null);
+    const [presenceClock, setPresenceClock] = useState(() => Date.now());
+
+    useEffect(() => {
+        dispatch({ type: 'SET_PRESENCE', payload: [] });
+        if (!state.activeProjectId) return;
+        return projectService.subscribeToPresence(state.activeProjectId, presence => {
+            dispatch({ type: 'SET_PRESENCE', payload: presence });
+        });
+    }, [state.activeProjectId]);
+
+    useEffect(() => {
+        // Renova a própria presença e reavalia as dos outros para descartar as expiradas.
+        const interval = setInterval(() => setPresenceClock(Date.now()), PRESENCE_HEARTBEAT_MS);
+        return () => clearInterval(interval);
+    }, []);
+
+    useEffect(() => {
+        const projectId = state.activeProjectId;
+        if (!projectId || !user || !editingItemId) return;
+        projectService.setEditingPresence(projectId, {
+            userId: user.uid,
+            userEmail: user.email || '',
+            itemId: editingItemId,
+            updatedAt: new Date().toISOString(),
+        }).catch(error => console.warn("Failed to update editing presence", error));
+    }, [state.activeProjectId, user, editingItemId, presenceClock]);
+
+    useEffect(() => {
+        const projectId = state.activeProjectId;
+        if (!projectId || !user || !editingItemId) return;
+        return () => {
+            projectService.clearEditingPresence(projectId, user.uid)
+                .catch(error => console.warn("Failed to clear editing presence", error));
+        };
+    }, [state.activeProjectId, user, editingItemId]);
+
+    const editorsByItem = useMemo(() => {
+        return user ? getActiveEditorsByItem(state.editingPresence, user.uid, presenceClock) : {};
+    }, [state.editingPresence, user, presenceClock]);
+
+    const setEditingItem = useCallback((itemId: string | null) => {
+        setEditingItemId(itemId);
+    }, []);
+
 
     // --- ESTADO DERIVADO (MEMOS) ---
 
@@ -187,104 +346,67 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         return state.projects.find(p => p.id === state.activeProjectId) || null;
     }, [state.projects, state.activeProjectId]);
 
+    const currentRole = useMemo(() => {
+        return activeProject && user ? permissionService.getMemberRole(activeProject, user.uid) : null;
+    }, [activeProject, user]);
+
+    const can = useCallback((permission: ProjectPermission) => {
+        return !!activeProject && !!user && permissionService.hasPermission(activeProject, user.uid, permission, user.email);
+    }, [activeProject, user]);
+
     const dynamicPlsData = useMemo((): ServiceCategory[] => {
         if (!activeProject) return [];
-        const template = activeProject.pls_data || PLS_TEMPLATE;
-        let accumulated = 0;
-        return template.map(category => {
-            const totalIncidence = category.subItems.reduce((sum, item) => sum + (item.incidence || 0), 0);
-            accumulated += totalIncidence;
-            return {
-                ...category,
-                totalIncidence,
-                accumulatedPercentage: accumulated,
-                totalCost: (totalIncidence / 100) * activeProject.cost_of_works,
-                subItems: category.subItems.map(item => ({
-                    ...item,
-                    cost: (item.incidence / 100) * activeProject.cost_of_works
-                }))
-            };
-        });
+        return financialService.getProjectServiceCategories(activeProject);
     }, [activeProject]);
 
     const projectFinancials = useMemo((): Financials => {
         if (!activeProject) return { totalProgress: 0, totalReleased: 0, categoryTotals: [], balanceToMeasure: 0 };
-        
         const costOfWorks = typeof activeProject.cost_of_works === 'number' ? activeProject.cost_of_works : 0;
-        if (!Array.isArray(activeProject.housing_units) || typeof activeProject.progress !== 'object' || !activeProject.progress) {
-            return { totalProgress: 0, totalReleased: 0, categoryTotals: [], balanceToMeasure: costOfWorks };
-        }
-    
-        const unitCount = activeProject.housing_units.length;
-        if (unitCount === 0) {
-            return { totalProgress: 0, totalReleased: 0, categoryTotals: [], balanceToMeasure: costOfWorks };
-        }
-        
-        let totalWeightedProgress = 0;
-        const categoryTotals: CategoryFinancials[] = [];
-        dynamicPlsData.forEach(category => {
-            let categoryWeightedProgress = 0;
-            category.subItems.forEach(item => {
-                const itemProgressArray = activeProject.progress[item.id] || [];
-                const validProgress = Array.from({ length: unitCount }, (_, i) => typeof itemProgressArray[i] === 'number' ? itemProgressArray[i] : 0);
-                const averageItemProgress = validProgress.reduce((a, b) => a + b, 0) / unitCount;
-                if(typeof item.incidence === 'number') {
-                    categoryWeightedProgress += (averageItemProgress / 100) * item.incidence;
-                }
-            });
-            
-            // New logic: Sum of Subitems * Global Incidence (decimal) * 10
-            // categoryWeightedProgress corresponds to Sum of Subitems (in percentage points of the total project)
-            // category.totalIncidence corresponds to Global Incidence (in percentage e.g. 6.46)
-            // We divide category.totalIncidence by 100 to get decimal, then multiply by 10 as requested.
-            const measuredIncidence = categoryWeightedProgress * (category.totalIncidence / 100) * 10;
-
-            totalWeightedProgress += measuredIncidence;
-            
-            // Released value based on the new measured incidence
-            const categoryReleased = (measuredIncidence / 100) * costOfWorks;
-            
-            // Progress of the category itself based on the new measured incidence
-            // If measuredIncidence is the % of the total project, we divide by totalIncidence to get % of category
-            const categoryProgress = category.totalIncidence > 0 ? (measuredIncidence / category.totalIncidence) * 100 : 0;
-            
-            categoryTotals.push({ 
-                id: category.id, 
-                name: category.name, 
-                released: categoryReleased, 
-                progress: categoryProgress, 
-                totalCost: category.totalCost, 
-                totalIncidence: category.totalIncidence,
-                measuredIncidence: measuredIncidence // Expose the calculated value
-            });
-        });
-        
-        const totalReleased = (totalWeightedProgress / 100) * costOfWorks;
-        
-        const finalProgress = isNaN(totalWeightedProgress) ? 0 : totalWeightedProgress;
-        const finalReleased = isNaN(totalReleased) ? 0 : totalReleased;
-    
-        return { 
-            totalProgress: finalProgress, 
-            totalReleased: finalReleased, 
-            categoryTotals, 
-            balanceToMeasure: costOfWorks - finalReleased 
-        };
+        return financialService.calculateFinancials(
+            dynamicPlsData,
+            activeProject.progress,
+            activeProject.housing_units,
+            costOfWorks,
+            financialService.getFinancialRule(activeProject)
+        );
     }, [activeProject, dynamicPlsData]);
 
 
     // --- AÇÕES ---
 
+    /**
+     * Verifica se o papel do usuário no projeto ativo permite uma ação, avisando-o caso não permita.
+     */
+    const requirePermission = (permission: ProjectPermission): boolean => {
+        if (can(permission)) return true;
+        toast.error(permissionService.PERMISSION_DENIED_MESSAGES[permission]);
+        return false;
+    };
+
+    /**
+     * Cria um evento da trilha de auditoria em nome do usuário atual. As ações só o chamam depois de verificar que há um usuário.
+     */
+    const auditEntry = (action: AuditAction, description: string, details?: Pick<AuditEntry, 'targetId' | 'reason' | 'changes'>): AuditEntry => {
+        return auditService.createAuditEntry(action, description, user!, details);
+    };
+
+    /**
+     * Monta a autoria dos registros de histórico em nome do usuário atual, com a origem da alteração.
+     */
+    const logAuthor = (source: ProgressLogSource): Pick<ProgressLog, 'userId' | 'userEmail' | 'source'> => {
+        return historyService.getProgressLogAuthor(user!, source);
+    };
+
     const setActiveProjectId = useCallback((id: string | null) => {
         dispatch({ type: 'SET_ACTIVE_PROJECT_ID', payload: id });
     }, []);
 
-    const createProject = useCallback(async (projectData: Omit<Project, 'id' | 'progress' | 'created_at' | 'ownerId' | 'members'>) => {
+    const createProject = useCallback(async (projectData: Omit<Project, 'id' | 'progress' | 'created_at' | 'ownerId' | 'members'>, organization?: Organization) => {
         if (!user) {
             toast.error("Você precisa estar logado para criar um projeto.");
             return;
         }
-        const promise = projectService.addProject(projectData, user.uid);
+        const promise = projectService.addProject(projectData, user, organization);
         toast.promise(promise, {
             loading: 'Criando projeto...',
             success: (newProject) => {
@@ -296,7 +418,25 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         });
     }, [user, setActiveProjectId]);
 
-    const updateProject = useCallback(async (updatedData: Project) => {
+    /**
+     * Grava campo a campo as alterações locais (agrupadas com as edições seguintes pelo serviço).
+     * Enquanto a gravação não termina, as alterações ficam pendentes e são reaplicadas sobre as versões recebidas em tempo real.
+     * Novos registros de histórico e relatórios arquivados (`additions`) vão direto para as subcoleções do projeto.
+     */
+    const saveProjectChanges = async (base: Project, local: Project, additions?: ProjectArchiveAdditions): Promise<void> => {
+        const change = { base, local };
+        pendingChangesRef.current.push(change);
+        try {
+            await projectService.saveProjectChanges(base, local, additions);
+        } finally {
+            pendingChangesRef.current = pendingChangesRef.current.filter(c => c !== change);
+        }
+    };
+
+    /**
+     * Grava uma nova versão do projeto com notificação de progresso. Usada pelas ações, que verificam antes a permissão necessária.
+     */
+    const saveProject = useCallback(async (updatedData: Project, additions?: ProjectArchiveAdditions) => {
         if (!activeProject) return;
         
         const oldProject = state.projects.find(p => p.id === updatedData.id);
@@ -306,7 +446,12 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         
         dispatch({ type: 'UPDATE_PROJECT', payload: processedProject });
 
-        const promise = projectService.updateProject(processedProject);
+        const promise = saveProjectChanges(oldProject, processedProject, additions);
+        if (!navigator.onLine) {
+            toast.success('Alterações salvas neste dispositivo. Serão sincronizadas quando a conexão voltar.');
+            promise.catch(err => toast.error(handleFirestoreError(err, 'Falha ao salvar as alterações')));
+            return;
+        }
         toast.promise(promise, {
             loading: 'Salvando alterações na nuvem...',
             success: 'Projeto atualizado com sucesso!',
@@ -314,9 +459,18 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         });
     }, [activeProject, state.projects]);
 
+    const updateProject = useCallback((updatedData: Project) => {
+        if (!activeProject || !user || !requirePermission('edit_settings')) return;
+        saveProject(updatedData, { audit: auditService.getProjectUpdateAuditEntries(activeProject, updatedData, user) });
+    }, [activeProject, saveProject, user, can]);
+
     const deleteProject = useCallback(async (id: string) => {
         const projectToDelete = state.projects.find(p => p.id === id);
-        if (!projectToDelete) return;
+        if (!projectToDelete || !user) return;
+        if (!permissionService.hasPermission(projectToDelete, user.uid, 'edit_settings')) {
+            toast.error(permissionService.PERMISSION_DENIED_MESSAGES.edit_settings);
+            return;
+        }
         
         dispatch({ type: 'DELETE_PROJECT', payload: id });
         if (state.activeProjectId === id) {
@@ -332,30 +486,159 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
                 return handleFirestoreError(err, `Falha ao excluir o projeto`);
             }
         });
-    }, [state.projects, state.activeProjectId, setActiveProjectId]);
+    }, [state.projects, state.activeProjectId, setActiveProjectId, user]);
 
-    const updateProjectProperty = (updatedProject: Project) => {
+    const updateProjectProperty = (updatedProject: Project, additions?: ProjectArchiveAdditions) => {
+        const oldProject = state.projects.find(p => p.id === updatedProject.id) || updatedProject;
         dispatch({ type: 'UPDATE_PROJECT', payload: updatedProject });
-        projectService.updateProject(updatedProject).catch(err => {
+        saveProjectChanges(oldProject, updatedProject, additions).catch(err => {
             toast.error(handleFirestoreError(err, "Falha ao sincronizar com a nuvem"));
         });
     };
 
-    const updateSingleProgress = useCallback((itemId: string, unitIndex: number, newProgressValue: number) => {
-        if (!activeProject) return;
-        const newProgress = Math.max(0, Math.min(100, Math.round(newProgressValue)));
-        const oldProgress = (activeProject.progress[itemId] || [])[unitIndex] || 0;
+    // --- DESFAZER / REFAZER ---
 
-        if (oldProgress === newProgress) return;
+    const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+    const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+    const undoRef = useRef<() => void>(() => {});
+
+    useEffect(() => {
+        // As pilhas valem apenas para o projeto aberto.
+        setUndoStack([]);
+        setRedoStack([]);
+    }, [state.activeProjectId]);
+
+    /**
+     * Registra uma ação para que possa ser desfeita e oferece o atalho "Desfazer" em uma notificação.
+     */
+    const recordUndo = (label: string, before: Project, after: Project) => {
+        const entry = undoService.createUndoEntry(label, before, after);
+        if (!entry) return;
+        setUndoStack(stack => undoService.pushUndoEntry(stack, entry));
+        setRedoStack([]);
+        toast(t => (
+            <span className="flex items-center gap-3">
+                <span>Alterado: {label}</span>
+                <button
+                    onClick={() => {
+                        toast.dismiss(t.id);
+                        undoRef.current();
+                    }}
+                    className="px-2 py-1 text-sm font-semibold text-blue-600 dark:text-blue-400 rounded hover:bg-blue-50 dark:hover:bg-slate-700"
+                >
+                    Desfazer
+                </button>
+            </span>
+        ), { id: 'undo' });
+    };
+
+    /**
+     * Aplica ao projeto ativo as alterações de uma entrada de desfazer/refazer, registrando o histórico
+     * das células de progresso afetadas e, se a PLS mudar, um evento na trilha de auditoria.
+     * Respeita o bloqueio das medições fechadas e, como as alterações enviadas para aprovação, não altera
+     * o progresso de quem precisa de aprovação.
+     */
+    const applyUndoPatch = (patch: ProjectPatch, description: string): boolean => {
+        if (!activeProject || !user) return false;
+        if (!permissionService.getPatchPermissions(patch).every(requirePermission)) return false;
+        if (patch.progressCells.length > 0 && approvalService.requiresApproval(activeProject, user.uid, user.email)) {
+            toast.error("Este projeto exige aprovação do progresso: envie uma nova alteração em vez de desfazer.");
+            return false;
+        }
+        const lockMessage = measurementService.getClosedPeriodViolation(changeOrderService.getMeasurementsInCurrentVersion(activeProject), undoService.getPatchProgressChanges(patch), activeProject.housing_units);
+        if (lockMessage) {
+            toast.error(lockMessage);
+            return false;
+        }
+        const updatedProject = applyProjectPatch(activeProject, patch);
+        const logs = undoService.buildPatchProgressLogs(activeProject, patch, updatedProject.pls_data || PLS_TEMPLATE)
+            .map(log => ({ ...log, ...logAuthor('undo') }));
+        const changes = auditService.getFieldChanges(activeProject, updatedProject);
+        const audit = changes.length > 0 ? [auditEntry('pls_updated', description, { changes })] : [];
+        updateProjectProperty(updatedProject, { history: logs, audit });
+        return true;
+    };
+
+    const undo = useCallback(() => {
+        const entry = undoStack[undoStack.length - 1];
+        if (!entry || entry.projectId !== activeProject?.id) return;
+        if (!applyUndoPatch(entry.undoPatch, `Desfeito: ${entry.label}.`)) return;
+        setUndoStack(stack => stack.slice(0, -1));
+        setRedoStack(stack => undoService.pushUndoEntry(stack, entry));
+        toast.success(`Desfeito: ${entry.label}`, { id: 'undo' });
+    }, [undoStack, activeProject, user]);
+
+    const redo = useCallback(() => {
+        const entry = redoStack[redoStack.length - 1];
+        if (!entry || entry.projectId !== activeProject?.id) return;
+        if (!applyUndoPatch(entry.redoPatch, `Refeito: ${entry.label}.`)) return;
+        setRedoStack(stack => stack.slice(0, -1));
+        setUndoStack(stack => undoService.pushUndoEntry(stack, entry));
+        toast.success(`Refeito: ${entry.label}`, { id: 'undo' });
+    }, [redoStack, activeProject, user]);
+
+    undoRef.current = undo;
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey)) return;
+            // Em campos de texto, mantém o desfazer nativo do navegador.
+            const target = event.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                undo();
+            } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+                event.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
+    /**
+     * Grava alterações de progresso já validadas. Se o projeto exigir aprovação para o usuário, as alterações
+     * vão para a fila de aprovação em vez de entrar no progresso (e não podem ser desfeitas).
+     * @returns {boolean} `true` se as alterações ficaram pendentes de aprovação.
+     */
+    const commitProgressChanges = (updatedProject: Project, logs: ProgressLog[], undoLabel: string): boolean => {
+        if (!activeProject || !user) return false;
+        if (approvalService.requiresApproval(activeProject, user.uid, user.email)) {
+            const pending_progress = approvalService.submitPendingChanges(activeProject.pending_progress, logs, user.email || user.uid);
+            updateProjectProperty({ ...activeProject, pending_progress });
+            toast.success(`${logs.length} alteração(ões) enviada(s) para aprovação do responsável técnico.`);
+            return true;
+        }
+        updateProjectProperty(updatedProject, { history: logs });
+        recordUndo(undoLabel, activeProject, updatedProject);
+        return false;
+    };
+
+    const updateSingleProgress = useCallback((itemId: string, unitId: string, newProgressValue: number) => {
+        if (!activeProject || !user || !requirePermission('edit_progress')) return;
+        const newProgress = Math.max(0, Math.min(100, Math.round(newProgressValue)));
 
         const itemDetails = dynamicPlsData.flatMap(cat => cat.subItems).find(item => item.id === itemId);
-        const unit = activeProject.housing_units[unitIndex];
+        // Serviços da área comum são medidos na pseudo-unidade da área comum
+        const unit = itemDetails && getItemProgressUnits(itemDetails, activeProject.housing_units).find(u => u.id === unitId);
 
         if (!itemDetails || !unit) {
             toast.error("Não foi possível encontrar o serviço ou a unidade para atualizar.");
             return;
         }
 
+        const oldProgress = getItemProgressRow(itemDetails, activeProject.progress, activeProject.housing_units)[unitId] || 0;
+        if (oldProgress === newProgress) return;
+
+        const lockMessage = measurementService.getClosedPeriodViolation(changeOrderService.getMeasurementsInCurrentVersion(activeProject), [{ itemId, unitId, newProgress }], activeProject.housing_units);
+        if (lockMessage) {
+            toast.error(lockMessage);
+            return;
+        }
+
         const newLog: ProgressLog = {
             id: `log_${Date.now()}_${itemId}_${unit.id}`,
             timestamp: new Date().toISOString(),
@@ -365,65 +648,79 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
             unitName: unit.name,
             oldProgress: oldProgress,
             newProgress: newProgress,
+            ...logAuthor('table'),
         };
         
-        const newProgressArray = [...(activeProject.progress[itemId] || Array(activeProject.housing_units.length).fill(0))];
-        newProgressArray[unitIndex] = newProgress;
-
         const updatedProject = {
             ...activeProject,
-            progress: { ...activeProject.progress, [itemId]: newProgressArray },
-            history: [newLog, ...(activeProject.history || [])],
+            progress: { ...activeProject.progress, [itemId]: { ...activeProject.progress[itemId], [unitId]: newProgress } },
         };
         
-        updateProjectProperty(updatedProject);
-    }, [activeProject, dynamicPlsData]);
+        commitProgressChanges(updatedProject, [newLog], `Progresso de ${itemDetails.name} (${unit.name})`);
+    }, [activeProject, dynamicPlsData, can, user]);
 
 
-    const updateProgress = useCallback((itemId: string, newProgress: number[]) => {
-        if (!activeProject) return;
+    const updateProgress = useCallback((itemId: string, newProgress: Record<string, number>) => {
+        if (!activeProject || !user || !requirePermission('edit_progress')) return;
         
-        const oldProgressArray = activeProject.progress[itemId] || [];
         const newLogs: ProgressLog[] = [];
         const itemDetails = dynamicPlsData.flatMap(cat => cat.subItems).find(item => item.id === itemId);
+        const units = itemDetails ? getItemProgressUnits(itemDetails, activeProject.housing_units) : activeProject.housing_units;
+        const currentRow = itemDetails ? getItemProgressRow(itemDetails, activeProject.progress, activeProject.housing_units) : activeProject.progress[itemId] || {};
+
+        const changes = units
+            .map(unit => ({ itemId, unitId: unit.id, newProgress: newProgress[unit.id] || 0 }))
+            .filter(change => (currentRow[change.unitId] || 0) !== change.newProgress);
+        const lockMessage = measurementService.getClosedPeriodViolation(changeOrderService.getMeasurementsInCurrentVersion(activeProject), changes, activeProject.housing_units);
+        if (lockMessage) {
+            toast.error(lockMessage);
+            return;
+        }
 
-        activeProject.housing_units.forEach((unit, index) => {
-            if ((oldProgressArray[index] || 0) !== (newProgress[index] || 0)) {
+        units.forEach(unit => {
+            const oldValue = currentRow[unit.id] || 0;
+            if (oldValue !== (newProgress[unit.id] || 0)) {
                 newLogs.push({
                     id: `log_${Date.now()}_${itemId}_${unit.id}`,
                     timestamp: new Date().toISOString(),
                     itemId: itemId, itemName: itemDetails?.name || 'Serviço Desconhecido',
                     unitId: unit.id, unitName: unit.name,
-                    oldProgress: oldProgressArray[index] || 0,
-                    newProgress: newProgress[index] || 0,
+                    oldProgress: oldValue,
+                    newProgress: newProgress[unit.id] || 0,
+                    ...logAuthor('bulk'),
                 });
             }
         });
 
         const updatedProject = {
             ...activeProject,
-            progress: { ...activeProject.progress, [itemId]: newProgress },
-            history: [...newLogs, ...(activeProject.history || [])],
+            progress: {
+                ...activeProject.progress,
+                [itemId]: { ...activeProject.progress[itemId], ...Object.fromEntries(units.map(unit => [unit.id, newProgress[unit.id] || 0])) },
+            },
         };
         
-        updateProjectProperty(updatedProject);
-        toast.success('Progresso atualizado!');
+        if (newLogs.length === 0) return;
+        commitProgressChanges(updatedProject, newLogs, `Progresso de ${itemDetails?.name || 'Serviço Desconhecido'}`);
 
-    }, [activeProject, dynamicPlsData]);
+    }, [activeProject, dynamicPlsData, can, user]);
     
     const updateProgressFromAssistant = useCallback((updates: AssistantProgressUpdate[]): string => {
         if (!activeProject) return "Erro: Projeto não está ativo.";
+        if (!user) return "Erro: Usuário não autenticado.";
+        if (!can('edit_progress')) return permissionService.PERMISSION_DENIED_MESSAGES.edit_progress;
         
-        const allUnitNames = activeProject.housing_units.map(u => u.name);
-        const allUnitIndices = Array.from({ length: allUnitNames.length }, (_, i) => i);
-        const allItemsMap = new Map<string, { id: string }>();
-        dynamicPlsData.forEach(cat => cat.subItems.forEach(item => allItemsMap.set(item.name.toLowerCase(), { id: item.id })));
+        const allItemsMap = new Map<string, ServiceSubItem>();
+        dynamicPlsData.forEach(cat => cat.subItems.forEach(item => allItemsMap.set(item.name.toLowerCase(), item)));
         
         let successfulUpdates = 0;
         const errorMessages: string[] = [];
         let modified = false;
+        let isPending = false;
 
-        const updatedProject = JSON.parse(JSON.stringify(activeProject));
+        const updatedProject: Project = JSON.parse(JSON.stringify(activeProject));
+        const changes: measurementService.ProgressChange[] = [];
+        const newLogs: ProgressLog[] = [];
 
         updates.forEach(update => {
             const itemDetails = allItemsMap.get(update.serviceName.toLowerCase());
@@ -432,32 +729,36 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
                 return;
             }
 
-            const targetUnitIndices = update.unitNames[0]?.toLowerCase() === 'all'
-                ? allUnitIndices
-                : update.unitNames.map(name => allUnitNames.findIndex(unitName => unitName.toLowerCase() === name.toLowerCase())).filter(index => index !== -1);
+            // Serviços da área comum têm um único valor, qualquer que seja a unidade citada
+            const itemUnits = getItemProgressUnits(itemDetails, activeProject.housing_units);
+            const targetUnits = update.unitNames[0]?.toLowerCase() === 'all' || itemUnits[0]?.id === COMMON_AREA_UNIT_ID
+                ? itemUnits
+                : itemUnits.filter(unit => update.unitNames.some(name => unit.name.toLowerCase() === name.toLowerCase()));
 
-            if (targetUnitIndices.length === 0) {
+            if (targetUnits.length === 0) {
                  errorMessages.push(`Nenhuma unidade correspondente encontrada para "${update.unitNames.join(', ')}".`);
                  return;
             }
             
-            const oldProgressArray = updatedProject.progress[itemDetails.id] || [];
-            const newProgress = [...oldProgressArray];
+            const newProgress = { ...updatedProject.progress[itemDetails.id] };
+            const currentRow = getItemProgressRow(itemDetails, updatedProject.progress, activeProject.housing_units);
             
-            targetUnitIndices.forEach(index => {
+            targetUnits.forEach(unit => {
                 const newValue = Math.max(0, Math.min(100, update.progress));
-                 if ((newProgress[index] || 0) !== newValue) {
-                    const unit = activeProject.housing_units[index];
+                const oldValue = currentRow[unit.id] || 0;
+                 if (oldValue !== newValue) {
                     const newLog: ProgressLog = {
                         id: `log_${Date.now()}_${itemDetails.id}_${unit.id}`,
                         timestamp: new Date().toISOString(),
                         itemId: itemDetails.id, itemName: update.serviceName,
                         unitId: unit.id, unitName: unit.name,
-                        oldProgress: newProgress[index] || 0,
+                        oldProgress: oldValue,
                         newProgress: newValue,
+                        ...logAuthor('assistant'),
                     };
-                    updatedProject.history.unshift(newLog);
-                    newProgress[index] = newValue;
+                    newLogs.unshift(newLog);
+                    newProgress[unit.id] = newValue;
+                    changes.push({ itemId: itemDetails.id, unitId: unit.id, newProgress: newValue });
                     modified = true;
                  }
             });
@@ -467,51 +768,150 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         });
 
         if (modified) {
-            updateProjectProperty(updatedProject);
+            const lockMessage = measurementService.getClosedPeriodViolation(changeOrderService.getMeasurementsInCurrentVersion(activeProject), changes, activeProject.housing_units);
+            if (lockMessage) {
+                return `Nenhuma alteração foi aplicada. ${lockMessage}`;
+            }
+            isPending = commitProgressChanges(updatedProject, newLogs, 'Progresso pelo assistente');
         }
 
-        let confirmationMessage = successfulUpdates > 0 ? `${successfulUpdates} serviço(s) foram atualizados.` : '';
+        let confirmationMessage = successfulUpdates > 0
+            ? (isPending ? `${successfulUpdates} serviço(s) foram enviados para aprovação.` : `${successfulUpdates} serviço(s) foram atualizados.`)
+            : '';
         if (errorMessages.length > 0) confirmationMessage += ` Falhas: ${errorMessages.join(', ')}.`;
         return confirmationMessage.trim() || "Nenhuma ação foi realizada.";
-    }, [activeProject, dynamicPlsData]);
+    }, [activeProject, dynamicPlsData, can, user]);
+
+    const reviewPendingProgress = useCallback((ids: string[], decision: 'approved' | 'rejected') => {
+        if (!activeProject || !user || !requirePermission('approve_progress')) return;
+        const { project: updatedProject, logs } = approvalService.reviewPendingChanges(activeProject, ids, decision, user.email || user.uid);
+        if (logs.length === 0) return;
+
+        if (decision === 'approved') {
+            const changes = logs.map(log => ({ itemId: log.itemId, unitId: log.unitId, newProgress: log.newProgress }));
+            const lockMessage = measurementService.getClosedPeriodViolation(changeOrderService.getMeasurementsInCurrentVersion(activeProject), changes, activeProject.housing_units);
+            if (lockMessage) {
+                toast.error(lockMessage);
+                return;
+            }
+        }
+
+        updateProjectProperty(updatedProject, { history: logs });
+        toast.success(decision === 'approved'
+            ? `${logs.length} alteração(ões) aprovada(s).`
+            : `${logs.length} alteração(ões) rejeitada(s).`);
+    }, [activeProject, user, can]);
 
     const savePls = useCallback((newPlsData: PlsCategoryTemplate[]) => {
-        if (!activeProject) return;
+        if (!activeProject || !user || !requirePermission('edit_pls')) return;
+        // Com a aprovação obrigatória, quem não aprova não grava progresso: os serviços novos ficam sem linha (0%)
+        // e apenas as linhas dos serviços removidos são excluídas.
+        const createsRows = !approvalService.requiresApproval(activeProject, user.uid, user.email);
         const newProgress: ProgressMatrix = {};
-        const unitCount = activeProject.housing_units.length;
         newPlsData.forEach(cat => cat.subItems.forEach(item => {
-            newProgress[item.id] = activeProject.progress[item.id] || Array(unitCount).fill(0);
+            const row = activeProject.progress[item.id] || (createsRows ? createEmptyProgressRow(activeProject.housing_units) : undefined);
+            if (row) newProgress[item.id] = row;
         }));
         const updatedProject = { ...activeProject, pls_data: newPlsData, progress: newProgress };
-        updateProject(updatedProject);
-    }, [activeProject, updateProject]);
+        const entry = auditEntry('pls_updated', auditService.describePlsChanges(activeProject.pls_data, newPlsData), {
+            changes: auditService.getFieldChanges(activeProject, updatedProject),
+        });
+        saveProject(updatedProject, { audit: [entry] });
+        recordUndo('Estrutura da PLS', activeProject, updatedProject);
+    }, [activeProject, saveProject, user, can]);
+
+    const applyChangeOrder = useCallback((newPlsData: PlsCategoryTemplate[], input: ChangeOrderInput) => {
+        if (!activeProject || !user || !requirePermission('edit_settings')) return;
+        try {
+            const updatedProject = changeOrderService.applyChangeOrder(activeProject, newPlsData, input, user.email || user.uid);
+            const number = updatedProject.change_orders!.length;
+            const entry = auditEntry('change_order_applied', `Aditivo ${number} registrado. ${auditService.describePlsChanges(activeProject.pls_data, newPlsData)}`, {
+                reason: input.reason,
+                changes: auditService.getFieldChanges(activeProject, updatedProject),
+            });
+            saveProject(updatedProject, { audit: [entry] });
+            recordUndo(`Aditivo ${number}`, activeProject, updatedProject);
+        } catch (error: any) {
+            toast.error(error.message);
+        }
+    }, [activeProject, saveProject, user, can]);
 
     const saveLayouts = useCallback((layouts: LayoutTemplate[]) => {
-        if (!activeProject) return;
-        updateProject({ ...activeProject, layouts });
-    }, [activeProject, updateProject]);
+        if (!activeProject || !user || !requirePermission('manage_reports')) return;
+        const updatedProject = { ...activeProject, layouts };
+        const changes = auditService.getFieldChanges(activeProject, updatedProject);
+        saveProject(updatedProject, changes.length > 0 ? { audit: [auditEntry('layouts_updated', 'Layouts de relatório alterados.', { changes })] } : undefined);
+    }, [activeProject, saveProject, user, can]);
 
     const updateItemName = useCallback((categoryId: string, itemId: string, newName: string) => {
-        if (!activeProject) return;
+        if (!activeProject || !user || !requirePermission('edit_pls')) return;
         const plsTemplate = activeProject.pls_data || PLS_TEMPLATE;
         const newPlsData = JSON.parse(JSON.stringify(plsTemplate));
         const category = newPlsData.find((cat: PlsCategoryTemplate) => cat.id === categoryId);
-        if (category) {
-            const item = category.subItems.find((i: any) => i.id === itemId);
-            if (item) item.name = newName;
-        }
-        updateProject({ ...activeProject, pls_data: newPlsData });
-    }, [activeProject, updateProject]);
+        const item = category?.subItems.find((i: any) => i.id === itemId);
+        const oldName: string | null = item?.name ?? null;
+        if (item) item.name = newName;
+        const updatedProject = { ...activeProject, pls_data: newPlsData };
+        const entry = auditEntry('item_renamed', `Serviço "${oldName ?? itemId}" renomeado para "${newName}".`, {
+            targetId: itemId,
+            changes: [{ field: 'pls_data', label: 'Nome do serviço', before: oldName, after: newName }],
+        });
+        saveProject(updatedProject, { audit: [entry] });
+        recordUndo(`Nome do serviço "${newName}"`, activeProject, updatedProject);
+    }, [activeProject, saveProject, user, can]);
 
     const archiveReport = useCallback((reportData: Omit<ArchivedReport, 'id'>) => {
-        if (!activeProject) return;
-        const newReport: ArchivedReport = { ...reportData, id: `report_${Date.now()}` };
+        if (!activeProject || !user || !requirePermission('manage_reports')) return;
+        const newReport: ArchivedReport = { ...reportData, id: `report_${Date.now()}`, plsVersion: changeOrderService.getCurrentPlsVersion(activeProject) };
         const updatedProject = {
             ...activeProject,
-            archived_reports: [...(activeProject.archived_reports || []), newReport]
+            report_summaries: [...(activeProject.report_summaries || []), toReportSummary(newReport)]
         };
-        updateProject(updatedProject);
-    }, [activeProject, updateProject]);
+        const entry = auditEntry('report_archived', `Relatório "${newReport.title}" arquivado.`, { targetId: newReport.id });
+        saveProject(updatedProject, { reports: [newReport], audit: [entry] });
+    }, [activeProject, saveProject, user, can]);
+
+    const openMeasurement = useCallback((periodStart: string, periodEnd: string) => {
+        if (!activeProject || !user || !requirePermission('manage_measurements')) return;
+        const measurements = activeProject.measurements || [];
+        try {
+            const newMeasurement = measurementService.createMeasurement(measurements, periodStart, periodEnd);
+            const entry = auditEntry('measurement_opened', `Medição ${newMeasurement.number} aberta (${periodStart} a ${periodEnd}).`, { targetId: newMeasurement.id });
+            saveProject({ ...activeProject, measurements: [...measurements, newMeasurement] }, { audit: [entry] });
+        } catch (error: any) {
+            toast.error(error.message);
+        }
+    }, [activeProject, saveProject, user, can]);
+
+    const closeMeasurement = useCallback(() => {
+        if (!activeProject || !user || !requirePermission('manage_measurements')) return;
+        const measurements = activeProject.measurements || [];
+        const openMeasurement = measurementService.getOpenMeasurement(measurements);
+        if (!openMeasurement) {
+            toast.error("Não há medição aberta para fechar.");
+            return;
+        }
+        const closed = measurementService.closeMeasurement(openMeasurement, activeProject.progress, projectFinancials, changeOrderService.getCurrentPlsVersion(activeProject));
+        const entry = auditEntry('measurement_closed', `Medição ${closed.number} fechada.`, { targetId: closed.id });
+        saveProject({ ...activeProject, measurements: measurements.map(m => m.id === closed.id ? closed : m) }, { audit: [entry] });
+    }, [activeProject, projectFinancials, saveProject, user, can]);
+
+    const reopenMeasurement = useCallback((measurementId: string, reason: string) => {
+        if (!activeProject || !user || !requirePermission('manage_measurements')) return;
+        if (!reason.trim()) {
+            toast.error("Informe o motivo da reabertura.");
+            return;
+        }
+        const measurements = activeProject.measurements || [];
+        try {
+            const updatedMeasurements = measurementService.reopenMeasurement(measurements, measurementId);
+            const measurement = measurements.find(m => m.id === measurementId)!;
+            const entry = auditEntry('measurement_reopened', `Medição ${measurement.number} reaberta.`, { targetId: measurementId, reason: reason.trim() });
+            saveProject({ ...activeProject, measurements: updatedMeasurements }, { audit: [entry] });
+        } catch (error: any) {
+            toast.error(error.message);
+        }
+    }, [activeProject, saveProject, user, can]);
 
     const overwriteProjects = useCallback(async (projectsToRestore: Project[]) => {
         if (!user) {
@@ -545,6 +945,14 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         activeProject,
         dynamicPlsData,
         projectFinancials,
+        editorsByItem,
+        setEditingItem,
+        currentRole,
+        can,
+        isOnline,
+        pendingSyncCount,
+        undo,
+        redo,
         setActiveProjectId,
         createProject,
         updateProject,
@@ -553,9 +961,14 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         updateSingleProgress,
         updateProgressFromAssistant,
         savePls,
+        applyChangeOrder,
         saveLayouts,
         updateItemName,
         archiveReport,
+        openMeasurement,
+        closeMeasurement,
+        reopenMeasurement,
+        reviewPendingProgress,
         overwriteProjects,
         importProjects,
     };
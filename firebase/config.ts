@@ -2,12 +2,30 @@
  * @file Arquivo de configuração e inicialização do Firebase.
  * Este módulo configura e exporta as instâncias do Firebase App, Auth e Firestore,
  * alternando entre configurações de desenvolvimento e produção com base na variável de ambiente.
+ * `VITE_FIREBASE_ENV` escolhe o projeto do Firebase (produção, se não for definida) e
+ * `VITE_STORAGE_BACKEND` escolhe onde os dados são gravados (veja `StorageBackend`).
  */
 import { initializeApp, getApps, getApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { StorageBackend } from '../types';
 
-const ENVIRONMENT: 'development' | 'production' = 'production'; 
+const ENVIRONMENT: 'development' | 'production' = import.meta.env.VITE_FIREBASE_ENV === 'development' ? 'development' : 'production';
+
+/**
+ * Onde os dados da aplicação são gravados. Por padrão, no Firestore do projeto configurado.
+ * @type {StorageBackend}
+ */
+export const STORAGE_BACKEND: StorageBackend = (['firestore', 'emulator', 'local', 'supabase'] as StorageBackend[])
+  .find(backend => backend === import.meta.env.VITE_STORAGE_BACKEND) || 'firestore';
+
+/**
+ * Endereço dos emuladores do Firebase, usado quando `STORAGE_BACKEND` é `emulator`.
+ * As portas são as definidas em `firebase.json`.
+ */
+const EMULATOR_HOST = import.meta.env.VITE_FIREBASE_EMULATOR_HOST || 'localhost';
+const FIRESTORE_EMULATOR_PORT = 8080;
+const AUTH_EMULATOR_PORT = 9099;
 
 const configs = {
   development: {
@@ -53,3 +71,8 @@ export const auth = getAuth(app);
  * @type {import('firebase/firestore').Firestore}
  */
 export const db = getFirestore(app);
+
+if (STORAGE_BACKEND === 'emulator') {
+  connectAuthEmulator(auth, `http://${EMULATOR_HOST}:${AUTH_EMULATOR_PORT}`, { disableWarnings: true });
+  connectFirestoreEmulator(db, EMULATOR_HOST, FIRESTORE_EMULATOR_PORT);
+}
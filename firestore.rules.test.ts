@@ -0,0 +1,203 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import { assertFails, assertSucceeds, initializeTestEnvironment, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { deleteDoc, deleteField, doc, FieldPath, getDoc, setDoc, Timestamp, updateDoc, writeBatch } from 'firebase/firestore';
+
+// Executado com `npm run test:rules`, que inicia o emulador do Firestore.
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('firestore.rules', () => {
+    let env: RulesTestEnvironment;
+
+    const db = (userId: string) => env.authenticatedContext(userId).firestore();
+
+    beforeAll(async () => {
+        env = await initializeTestEnvironment({
+            projectId: 'cataratas-pls-rules-test',
+            firestore: { rules: readFileSync(new URL('./firestore.rules', import.meta.url), 'utf8') },
+        });
+    });
+
+    beforeEach(async () => {
+        await env.clearFirestore();
+        await env.withSecurityRulesDisabled(async context => {
+            await setDoc(doc(context.firestore(), 'projects/p1'), {
+                name: 'Residencial Teste',
+                ownerId: 'owner',
+                members: ['owner', 'viewer', 'editor', 'approver', 'legacy'],
+                roles: { owner: 'owner', viewer: 'viewer', editor: 'editor', approver: 'approver' },
+                progress: {},
+                pls_data: [],
+                measurements: [],
+            });
+        });
+    });
+
+    afterAll(async () => {
+        await env.cleanup();
+    });
+
+    it('should let members read the project and deny everyone else', async () => {
+        await assertSucceeds(getDoc(doc(db('viewer'), 'projects/p1')));
+        await assertFails(getDoc(doc(db('stranger'), 'projects/p1')));
+    });
+
+    it('should not let a viewer update progress', async () => {
+        await assertFails(updateDoc(doc(db('viewer'), 'projects/p1'), { 'progress.1_1.u1': 50 }));
+    });
+
+    it('should let an editor update progress and the PLS but not measurements or settings', async () => {
+        await assertSucceeds(updateDoc(doc(db('editor'), 'projects/p1'), { 'progress.1_1.u1': 50 }));
+        await assertSucceeds(updateDoc(doc(db('editor'), 'projects/p1'), { pls_data: [] }));
+        await assertFails(updateDoc(doc(db('editor'), 'projects/p1'), { measurements: [{ id: 'm1' }] }));
+        await assertFails(updateDoc(doc(db('editor'), 'projects/p1'), { name: 'Outro nome' }));
+    });
+
+    it('should treat members without a stored role as editors', async () => {
+        await assertSucceeds(updateDoc(doc(db('legacy'), 'projects/p1'), { 'progress.1_1.u1': 50 }));
+        await assertFails(updateDoc(doc(db('legacy'), 'projects/p1'), { name: 'Outro nome' }));
+    });
+
+    it('should let an approver update measurements but not the PLS', async () => {
+        await assertSucceeds(updateDoc(doc(db('approver'), 'projects/p1'), { measurements: [{ id: 'm1' }] }));
+        await assertFails(updateDoc(doc(db('approver'), 'projects/p1'), { pls_data: [] }));
+    });
+
+    it('should only let editors submit pending changes when the project requires approval', async () => {
+        await env.withSecurityRulesDisabled(async context => {
+            await updateDoc(doc(context.firestore(), 'projects/p1'), {
+                require_progress_approval: true,
+                responsible_engineer: { name: 'Eng. Ana', crea: '123', email: 'ana@example.com' },
+            });
+        });
+        await assertFails(updateDoc(doc(db('editor'), 'projects/p1'), { 'progress.1_1.u1': 50 }));
+        await assertSucceeds(updateDoc(doc(db('editor'), 'projects/p1'), new FieldPath('pending_progress', 'log_1'), { id: 'log_1', newProgress: 50 }));
+        // Um segundo envio grava apenas a sua entrada e preserva a do primeiro.
+        await assertSucceeds(updateDoc(doc(db('legacy'), 'projects/p1'), new FieldPath('pending_progress', 'log_2'), { id: 'log_2', newProgress: 30 }));
+        const pending = (await getDoc(doc(db('editor'), 'projects/p1'))).data()?.pending_progress;
+        expect(Object.keys(pending).sort()).toEqual(['log_1', 'log_2']);
+        const engineer = env.authenticatedContext('legacy', { email: 'ana@example.com' }).firestore();
+        await assertSucceeds(updateDoc(doc(engineer, 'projects/p1'), new FieldPath('progress', '1_1', 'u1'), 50, new FieldPath('pending_progress', 'log_1'), deleteField()));
+        // O editor ainda remove da PLS serviços e as suas linhas de progresso.
+        await assertSucceeds(updateDoc(doc(db('editor'), 'projects/p1'), { pls_data: [], progress: {} }));
+    });
+
+    it('should only let approvers change progress while approving pending changes', async () => {
+        await assertFails(updateDoc(doc(db('approver'), 'projects/p1'), new FieldPath('progress', '1_1', 'u1'), 50));
+        await env.withSecurityRulesDisabled(async context => {
+            await updateDoc(doc(context.firestore(), 'projects/p1'), new FieldPath('pending_progress', 'log_1'), { id: 'log_1', newProgress: 50 });
+        });
+        await assertSucceeds(updateDoc(doc(db('approver'), 'projects/p1'), new FieldPath('progress', '1_1', 'u1'), 50, new FieldPath('pending_progress', 'log_1'), deleteField()));
+    });
+
+    it('should only let the owner change roles and delete the project', async () => {
+        await assertFails(updateDoc(doc(db('editor'), 'projects/p1'), { 'roles.viewer': 'editor' }));
+        await assertSucceeds(updateDoc(doc(db('owner'), 'projects/p1'), { 'roles.viewer': 'editor' }));
+        await assertFails(updateDoc(doc(db('owner'), 'projects/p1'), { ownerId: 'editor' }));
+        await assertFails(deleteDoc(doc(db('editor'), 'projects/p1')));
+        await assertSucceeds(deleteDoc(doc(db('owner'), 'projects/p1')));
+    });
+
+    it('should only create projects owned by the current user', async () => {
+        await assertSucceeds(setDoc(doc(db('editor'), 'projects/p2'), { ownerId: 'editor', members: ['editor'], roles: { editor: 'owner' } }));
+        await assertFails(setDoc(doc(db('editor'), 'projects/p3'), { ownerId: 'editor', members: ['editor', 'viewer'], roles: { editor: 'owner', viewer: 'owner' } }));
+    });
+
+    it('should only create projects in organizations the user belongs to', async () => {
+        await env.withSecurityRulesDisabled(async context => {
+            await setDoc(doc(context.firestore(), 'organizations/o1'), { name: 'Construtora', ownerId: 'owner', members: ['owner', 'editor'], roles: { owner: 'admin' } });
+        });
+        await assertSucceeds(setDoc(doc(db('editor'), 'projects/p2'), { ownerId: 'editor', members: ['editor'], roles: { editor: 'owner' }, organizationId: 'o1' }));
+        await assertFails(setDoc(doc(db('viewer'), 'projects/p3'), { ownerId: 'viewer', members: ['viewer'], roles: { viewer: 'owner' }, organizationId: 'o1' }));
+    });
+
+    it('should only let organization admins change its members', async () => {
+        await env.withSecurityRulesDisabled(async context => {
+            await setDoc(doc(context.firestore(), 'organizations/o1'), { name: 'Construtora', ownerId: 'owner', members: ['owner', 'editor'], roles: { owner: 'admin' } });
+        });
+        await assertSucceeds(getDoc(doc(db('editor'), 'organizations/o1')));
+        await assertFails(getDoc(doc(db('stranger'), 'organizations/o1')));
+        await assertFails(updateDoc(doc(db('editor'), 'organizations/o1'), { members: ['owner', 'editor', 'viewer'] }));
+        await assertSucceeds(updateDoc(doc(db('owner'), 'organizations/o1'), { members: ['owner', 'editor', 'viewer'] }));
+        await assertFails(updateDoc(doc(db('owner'), 'organizations/o1'), { members: ['editor'] }));
+    });
+
+    it('should only share templates with the members of their organization', async () => {
+        await env.withSecurityRulesDisabled(async context => {
+            await setDoc(doc(context.firestore(), 'organizations/o1'), { name: 'Construtora', ownerId: 'owner', members: ['owner', 'editor'], roles: { owner: 'admin' } });
+        });
+        const template = { name: 'Padrão', ownerId: 'editor', created_at: '2025-01-01T10:00:00.000Z', versions: [] };
+        await assertSucceeds(setDoc(doc(db('editor'), 'templates/t1'), { ...template, organizationId: 'o1' }));
+        await assertSucceeds(setDoc(doc(db('editor'), 'templates/t2'), template));
+        await assertFails(setDoc(doc(db('viewer'), 'templates/t3'), { ...template, ownerId: 'viewer', organizationId: 'o1' }));
+        await assertSucceeds(getDoc(doc(db('owner'), 'templates/t1')));
+        await assertFails(getDoc(doc(db('viewer'), 'templates/t1')));
+        await assertFails(getDoc(doc(db('owner'), 'templates/t2')));
+        await assertFails(updateDoc(doc(db('editor'), 'templates/t2'), { organizationId: 'o1' }));
+    });
+
+    it('should only let members record audit events in their own name', async () => {
+        const entry = { id: 'audit_1', timestamp: '2025-01-01T10:00:00.000Z', action: 'pls_updated', description: 'Estrutura da PLS alterada.' };
+        await assertSucceeds(setDoc(doc(db('editor'), 'projects/p1/audit/audit_1'), { ...entry, userId: 'editor' }));
+        await assertFails(setDoc(doc(db('editor'), 'projects/p1/audit/audit_2'), { ...entry, id: 'audit_2', userId: 'owner' }));
+        await assertFails(setDoc(doc(db('viewer'), 'projects/p1/audit/audit_3'), { ...entry, id: 'audit_3', userId: 'viewer' }));
+        await assertSucceeds(getDoc(doc(db('viewer'), 'projects/p1/audit/audit_1')));
+        await assertFails(updateDoc(doc(db('editor'), 'projects/p1/audit/audit_1'), { description: 'Outra descrição.' }));
+    });
+
+    it('should only let the invited email join the project with the invitation role', async () => {
+        const invitation = { email: 'new@example.com', role: 'editor', invitedBy: 'owner', invitedByEmail: null, createdAt: '2025-01-01T00:00:00.000Z', expiresAt: Timestamp.fromMillis(Date.now() + 86400000) };
+        await env.withSecurityRulesDisabled(async context => {
+            await updateDoc(doc(context.firestore(), 'projects/p1'), { invitations: { 'new@example.com': invitation }, invited_emails: ['new@example.com'] });
+        });
+        const invitee = (verified: boolean) => env.authenticatedContext('new', { email: 'new@example.com', email_verified: verified }).firestore();
+        const acceptance = {
+            members: ['owner', 'viewer', 'editor', 'approver', 'legacy', 'new'],
+            'roles.new': 'editor',
+            invitations: {},
+            invited_emails: [],
+        };
+
+        await assertFails(getDoc(doc(invitee(false), 'projects/p1')));
+        await assertFails(updateDoc(doc(invitee(false), 'projects/p1'), acceptance));
+        await assertFails(updateDoc(doc(invitee(true), 'projects/p1'), { ...acceptance, 'roles.new': 'owner' }));
+        await assertFails(updateDoc(doc(invitee(true), 'projects/p1'), { ...acceptance, name: 'Outro nome' }));
+        await assertSucceeds(getDoc(doc(invitee(true), 'projects/p1')));
+        await assertSucceeds(updateDoc(doc(invitee(true), 'projects/p1'), acceptance));
+    });
+
+    it('should only queue mail for an invitation the owner writes in the same batch', async () => {
+        const invitation = { email: 'new@example.com', role: 'editor', invitedBy: 'owner', invitedByEmail: null, createdAt: '2025-01-01T00:00:00.000Z', expiresAt: Timestamp.fromMillis(Date.now() + 86400000) };
+        const mail = (to: string) => ({ to, message: { subject: 'Convite', text: 'Entre no projeto.' }, projectId: 'p1' });
+        const invite = (userId: string, to: string) => {
+            const batch = writeBatch(db(userId));
+            batch.update(doc(db(userId), 'projects/p1'), new FieldPath('invitations', invitation.email), invitation);
+            batch.set(doc(db(userId), 'mail/m1'), mail(to));
+            return batch.commit();
+        };
+
+        await assertFails(setDoc(doc(db('owner'), 'mail/m1'), mail('new@example.com')));
+        await assertFails(setDoc(doc(db('stranger'), 'mail/m1'), mail('anyone@example.com')));
+        await assertFails(invite('owner', 'anyone@example.com'));
+        await assertFails(invite('editor', 'new@example.com'));
+        await assertSucceeds(invite('owner', 'new@example.com'));
+    });
+
+    it('should not let the invited email join the project after the invitation expires', async () => {
+        const invitation = { email: 'new@example.com', role: 'editor', invitedBy: 'owner', invitedByEmail: null, createdAt: '2025-01-01T00:00:00.000Z', expiresAt: Timestamp.fromMillis(Date.now() - 1000) };
+        await env.withSecurityRulesDisabled(async context => {
+            await updateDoc(doc(context.firestore(), 'projects/p1'), { invitations: { 'new@example.com': invitation }, invited_emails: ['new@example.com'] });
+        });
+        const invitee = env.authenticatedContext('new', { email: 'new@example.com', email_verified: true }).firestore();
+
+        await assertFails(updateDoc(doc(invitee, 'projects/p1'), {
+            members: ['owner', 'viewer', 'editor', 'approver', 'legacy', 'new'],
+            'roles.new': 'editor',
+            invitations: {},
+            invited_emails: [],
+        }));
+    });
+
+    it('should let editors, but not viewers, add history entries', async () => {
+        await assertSucceeds(setDoc(doc(db('editor'), 'projects/p1/history/log_1'), { timestamp: '2025-01-01T10:00:00.000Z' }));
+        await assertFails(setDoc(doc(db('viewer'), 'projects/p1/history/log_2'), { timestamp: '2025-01-01T10:00:00.000Z' }));
+    });
+});
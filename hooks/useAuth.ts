@@ -3,15 +3,52 @@
  */
 import { useState, useEffect } from 'react';
 import { onAuthStateChanged, User } from 'firebase/auth';
-import { auth, db } from '../firebase/config';
+import toast from 'react-hot-toast';
+import { auth, STORAGE_BACKEND } from '../firebase/config';
 import * as userService from '../services/userService';
-import { doc, getDoc } from 'firebase/firestore';
+import * as projectService from '../services/projectService';
 import { UserProfile } from '../types';
 
+/**
+ * Usuários cujos convites já foram (ou estão sendo) verificados nesta sessão com o e-mail confirmado
+ * (o hook é usado em mais de um componente).
+ */
+const checkedInvitations = new Set<string>();
+
+/**
+ * Converte em participação os convites pendentes para o e-mail do usuário.
+ * Exige o e-mail verificado (exceto no modo `local`), pois qualquer pessoa poderia se cadastrar com o e-mail convidado.
+ * @param {User} currentUser O usuário do Firebase Auth.
+ * @returns {Promise<void>}
+ */
+const acceptPendingInvitations = async (currentUser: User): Promise<void> => {
+  if (!currentUser.email || checkedInvitations.has(currentUser.uid)) return;
+  checkedInvitations.add(currentUser.uid);
+  try {
+    if (!currentUser.emailVerified && STORAGE_BACKEND !== 'local') {
+      // O e-mail pode ter sido verificado depois do último login; o token precisa ser renovado para trazer a verificação.
+      await currentUser.reload();
+      if (!currentUser.emailVerified) {
+        // Tenta de novo no próximo login, quando o e-mail já pode ter sido verificado.
+        checkedInvitations.delete(currentUser.uid);
+        return;
+      }
+      await currentUser.getIdToken(true);
+    }
+    const projectNames = await projectService.acceptPendingInvitations(currentUser.uid, currentUser.email);
+    if (projectNames.length > 0) {
+      toast.success(`Convite aceito: você agora participa de ${projectNames.join(', ')}.`, { duration: 6000 });
+    }
+  } catch (error) {
+    console.error("Failed to accept pending invitations", error);
+    checkedInvitations.delete(currentUser.uid);
+  }
+};
+
 /**
  * Hook `useAuth` que monitora o estado de autenticação do Firebase em tempo real.
- * Ele gerencia o perfil do usuário, garante que um perfil correspondente exista no Firestore
- * e fornece um sinalizador de inicialização para aguardar a primeira verificação de autenticação.
+ * Ele gerencia o perfil do usuário, garante que um perfil correspondente exista no banco de dados,
+ * converte em participação os convites pendentes para o seu e-mail e fornece um sinalizador de inicialização para aguardar a primeira verificação de autenticação.
  *
  * @returns {{
  *   user: UserProfile | null;
@@ -29,12 +66,8 @@ export function useAuth() {
       if (currentUser) {
         // Lógica de fallback para garantir que um perfil de usuário sempre exista,
         // especialmente útil para logins sociais ou casos de borda.
-        const userRef = doc(db, 'users', currentUser.uid);
-        const userDoc = await getDoc(userRef);
-        if (!userDoc.exists()) {
-          // Cria o perfil no Firestore se ele não existir
-          await userService.createUserProfile(currentUser);
-        }
+        await userService.createUserProfile(currentUser);
+        await acceptPendingInvitations(currentUser);
         // Armazena um objeto simples e serializável no estado em vez do objeto complexo do Firebase User.
         setUser({
           uid: currentUser.uid,
@@ -0,0 +1,57 @@
+/**
+ * @file Hook personalizado para carregar as organizações do usuário e a organização selecionada no painel.
+ */
+import { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { Organization, UserProfile } from '../types';
+import * as projectService from '../services/projectService';
+
+/**
+ * Hook `useOrganizations` que carrega as organizações das quais o usuário é membro.
+ * A primeira organização é selecionada ao carregar; `null` seleciona os projetos sem organização.
+ *
+ * @param {UserProfile | null} user O usuário autenticado.
+ * @returns {{
+ *   organizations: Organization[];
+ *   activeOrganization: Organization | null;
+ *   setActiveOrganizationId: (id: string | null) => void;
+ *   isLoading: boolean;
+ *   reload: () => Promise<void>;
+ * }} As organizações, a organização selecionada, a função para trocá-la, o estado do carregamento
+ * e a função para recarregá-las (ex: após alterar uma organização).
+ */
+export function useOrganizations(user: UserProfile | null) {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  // `undefined` até o primeiro carregamento; `null` seleciona os projetos sem organização.
+  const [activeOrganizationId, setActiveOrganizationId] = useState<string | null | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    if (!user) {
+      setOrganizations([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const loaded = await projectService.loadOrganizations(user.uid);
+      setOrganizations(loaded);
+      // Mantém a seleção, a menos que a organização selecionada tenha sido excluída; no primeiro carregamento, seleciona a primeira.
+      setActiveOrganizationId(current => current === null || loaded.some(o => o.id === current) ? current : loaded[0]?.id || null);
+    } catch (error) {
+      console.error("Failed to load organizations", error);
+      toast.error("Falha ao carregar as organizações.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const activeOrganization = organizations.find(o => o.id === activeOrganizationId) || null;
+  const selectOrganization = useCallback((id: string | null) => setActiveOrganizationId(id), []);
+
+  return { organizations, activeOrganization, setActiveOrganizationId: selectOrganization, isLoading, reload };
+}
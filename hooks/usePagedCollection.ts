@@ -0,0 +1,54 @@
+/**
+ * @file Hook personalizado para carregar sob demanda, página a página, uma subcoleção do projeto.
+ */
+import { useState, useEffect, useCallback, useRef } from 'react';
+import toast from 'react-hot-toast';
+import { Page } from '../types';
+
+/** A posição após a última página carregada (`null` antes da primeira). */
+type PageCursor = unknown;
+
+/**
+ * Hook `usePagedCollection` que carrega a primeira página ao montar e as seguintes quando solicitado.
+ *
+ * @param {(cursor: PageCursor) => Promise<Page<T>>} loadPage Função que carrega a página seguinte ao cursor informado.
+ * @param {string} errorMessage Mensagem exibida se o carregamento falhar.
+ * @returns {{
+ *   items: T[];
+ *   isLoading: boolean;
+ *   hasMore: boolean;
+ *   loadMore: () => void;
+ * }} Os itens já carregados, o estado do carregamento e a função para carregar a próxima página.
+ */
+export function usePagedCollection<T>(loadPage: (cursor: PageCursor) => Promise<Page<T>>, errorMessage: string) {
+  const [items, setItems] = useState<T[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const cursorRef = useRef<PageCursor>(null);
+  const isLoadingRef = useRef(false);
+
+  const loadMore = useCallback(async () => {
+    if (isLoadingRef.current) return;
+    isLoadingRef.current = true;
+    setIsLoading(true);
+    try {
+      const page = await loadPage(cursorRef.current);
+      cursorRef.current = page.cursor;
+      setItems(prev => [...prev, ...page.items]);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error(errorMessage, error);
+      toast.error(errorMessage);
+    } finally {
+      isLoadingRef.current = false;
+      setIsLoading(false);
+    }
+  }, [loadPage, errorMessage]);
+
+  useEffect(() => {
+    // Carrega apenas a primeira página; as demais dependem do usuário.
+    loadMore();
+  }, []);
+
+  return { items, isLoading, hasMore, loadMore };
+}
@@ -0,0 +1,58 @@
+/**
+ * @file Hook personalizado para visualizar o projeto como estava em uma data passada.
+ */
+import { useState, useEffect, useMemo } from 'react';
+import toast from 'react-hot-toast';
+import { Financials, ProgressLog, ProgressMatrix, Project } from '../types';
+import * as projectService from '../services/projectService';
+import { calculateProjectFinancials } from '../services/financialService';
+import { getEndOfDay, getProgressAsOf } from '../services/historyService';
+
+/**
+ * Hook `useProgressAsOf` que carrega o histórico completo do projeto quando uma data é escolhida
+ * e reconstrói o progresso e os valores financeiros no fim desse dia.
+ * O histórico é reconstruído a partir do progresso do momento em que foi carregado, para que
+ * alterações feitas depois (por colaboradores) não desalinhem a reconstrução. Esse progresso inclui as
+ * alterações ainda na fila offline, cujos registros também são carregados.
+ *
+ * @param {Project | null} project O projeto ativo.
+ * @param {string | null} asOfDate A data (`AAAA-MM-DD`), ou `null` para a posição atual.
+ * @returns {{
+ *   project: Project | null;
+ *   financials: Financials | null;
+ *   isLoading: boolean;
+ * }} O projeto e os valores financeiros na data (ou `null` sem data ou durante o carregamento).
+ */
+export function useProgressAsOf(project: Project | null, asOfDate: string | null) {
+  const [base, setBase] = useState<{ projectId: string; progress: ProgressMatrix; history: ProgressLog[] } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const projectId = project?.id ?? null;
+  const isActive = !!asOfDate;
+
+  useEffect(() => {
+    if (!project || !isActive) {
+      setBase(null);
+      return;
+    }
+    let cancelled = false;
+    const progress = project.progress;
+    setIsLoading(true);
+    projectService.loadFullHistory(project.id)
+      .then(history => { if (!cancelled) setBase({ projectId: project.id, progress, history }); })
+      .catch(error => {
+        console.error("Failed to load project history", error);
+        if (!cancelled) toast.error("Falha ao carregar o histórico para reconstruir a data escolhida.");
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [projectId, isActive]);
+
+  const historicalProject = useMemo((): Project | null => {
+    if (!project || !asOfDate || !base || base.projectId !== project.id) return null;
+    return { ...project, progress: getProgressAsOf(base.progress, base.history, getEndOfDay(asOfDate)) };
+  }, [project, asOfDate, base]);
+
+  const financials = useMemo(() => historicalProject ? calculateProjectFinancials(historicalProject) : null, [historicalProject]);
+
+  return { project: historicalProject, financials, isLoading };
+}
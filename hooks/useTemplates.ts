@@ -0,0 +1,47 @@
+/**
+ * @file Hook personalizado para carregar a biblioteca de modelos da construtora.
+ */
+import { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { PlsTemplate } from '../types';
+import * as projectService from '../services/projectService';
+
+/**
+ * Hook `useTemplates` que carrega os modelos da biblioteca ao montar.
+ *
+ * @param {string | null | undefined} userId O ID do usuário; sem ele, nenhum modelo é carregado.
+ * @param {string | null | undefined} organizationId A organização ativa, cuja biblioteca é carregada.
+ *   Sem organização, são carregados apenas os modelos pessoais do usuário.
+ * @returns {{
+ *   templates: PlsTemplate[];
+ *   isLoading: boolean;
+ *   reload: () => Promise<void>;
+ * }} Os modelos, o estado do carregamento e a função para recarregá-los (ex: após publicar uma versão).
+ */
+export function useTemplates(userId: string | null | undefined, organizationId: string | null | undefined) {
+  const [templates, setTemplates] = useState<PlsTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    if (!userId) {
+      setTemplates([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setTemplates(await projectService.loadTemplates(userId, organizationId || null));
+    } catch (error) {
+      console.error("Failed to load templates", error);
+      toast.error("Falha ao carregar a biblioteca de modelos.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, organizationId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { templates, isLoading, reload };
+}
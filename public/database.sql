@@ -1 +1,568 @@
-��,���*mr�ߊ�h
\ No newline at end of file
+-- Esquema do banco Postgres (Supabase) usado quando VITE_STORAGE_BACKEND=supabase.
+-- Equivale aos documentos e subcoleções do Firestore, em um modelo relacional:
+-- projetos, membros, unidades, etapas e serviços da PLS, células de progresso,
+-- histórico, relatórios arquivados, trilha de auditoria, presenças de edição, convites, a biblioteca de modelos e as organizações.
+-- Os demais campos do projeto (medições, cronograma, layouts, etc.) ficam na coluna `data`.
+--
+-- O login continua no Firebase Auth (autenticação de terceiros do Supabase): o `sub` do token
+-- é o UID do Firebase, por isso os IDs de usuário são `text` e não se usa `auth.uid()`.
+-- As permissões espelham `firestore.rules` e `services/permissionService.ts`.
+-- Todas as gravações de conteúdo passam por `create_project` e `apply_project_patch`,
+-- que validam os campos alterados conforme o papel do usuário.
+
+create extension if not exists pgcrypto;
+
+-- ---------------------------------------------------------------------------
+-- Tabelas
+-- ---------------------------------------------------------------------------
+
+create table if not exists profiles (
+  id text primary key,
+  email text unique
+);
+
+create table if not exists projects (
+  id uuid primary key default gen_random_uuid(),
+  name text not null default '',
+  owner_id text not null,
+  created_at timestamptz not null default now(),
+  -- `false` quando o projeto usa o modelo padrão da PLS (`pls_data` nulo).
+  pls_customized boolean not null default false,
+  data jsonb not null default '{}'::jsonb
+);
+
+create table if not exists project_members (
+  project_id uuid not null references projects (id) on delete cascade,
+  user_id text not null,
+  -- Nulo em membros sem papel gravado, tratados como editores.
+  role text check (role in ('viewer', 'editor', 'approver', 'owner')),
+  added_at timestamptz not null default now(),
+  primary key (project_id, user_id)
+);
+create index if not exists project_members_user_idx on project_members (user_id);
+
+-- Convites para quem ainda não tem conta, aceitos por `accept_project_invitations` ao entrar com o e-mail convidado.
+create table if not exists project_invitations (
+  project_id uuid not null references projects (id) on delete cascade,
+  -- Em minúsculas (veja `normalizeEmail` em `services/invitationService.ts`).
+  email text not null,
+  role text not null check (role in ('viewer', 'editor', 'approver')),
+  invited_by text not null,
+  invited_by_email text,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  primary key (project_id, email)
+);
+create index if not exists project_invitations_email_idx on project_invitations (email);
+
+create table if not exists housing_units (
+  project_id uuid not null references projects (id) on delete cascade,
+  id text not null,
+  position integer not null,
+  name text not null,
+  typology_id text,
+  tower text,
+  floor text,
+  primary key (project_id, id)
+);
+alter table housing_units add column if not exists typology_id text;
+alter table housing_units add column if not exists tower text;
+alter table housing_units add column if not exists floor text;
+
+create table if not exists pls_categories (
+  project_id uuid not null references projects (id) on delete cascade,
+  id text not null,
+  position integer not null,
+  name text not null,
+  primary key (project_id, id)
+);
+
+create table if not exists pls_services (
+  project_id uuid not null,
+  id text not null,
+  category_id text not null,
+  position integer not null,
+  name text not null,
+  incidence numeric not null default 0,
+  unit text not null default '',
+  scope text not null default 'unit' check (scope in ('unit', 'global')),
+  primary key (project_id, id),
+  foreign key (project_id, category_id) references pls_categories (project_id, id) on delete cascade
+);
+alter table pls_services add column if not exists scope text not null default 'unit';
+
+-- Sem chaves estrangeiras para serviços e unidades: projetos com a PLS padrão não têm linhas em `pls_services`.
+create table if not exists progress_cells (
+  project_id uuid not null references projects (id) on delete cascade,
+  item_id text not null,
+  unit_id text not null,
+  value numeric not null check (value >= 0 and value <= 100),
+  primary key (project_id, item_id, unit_id)
+);
+
+create table if not exists progress_logs (
+  project_id uuid not null references projects (id) on delete cascade,
+  id text not null,
+  "timestamp" timestamptz not null,
+  item_id text not null,
+  unit_id text not null,
+  old_progress numeric,
+  new_progress numeric,
+  -- O registro completo (`ProgressLog`), com os nomes e os dados de aprovação.
+  data jsonb not null,
+  primary key (project_id, id)
+);
+create index if not exists progress_logs_timestamp_idx on progress_logs (project_id, "timestamp" desc);
+
+create table if not exists archived_reports (
+  project_id uuid not null references projects (id) on delete cascade,
+  id text not null,
+  generated_at timestamptz not null,
+  data jsonb not null,
+  primary key (project_id, id)
+);
+create index if not exists archived_reports_generated_idx on archived_reports (project_id, generated_at desc);
+
+create table if not exists audit_events (
+  project_id uuid not null references projects (id) on delete cascade,
+  id text not null,
+  "timestamp" timestamptz not null,
+  action text not null,
+  user_id text,
+  -- O evento completo (`AuditEntry`), com a descrição e os valores antes e depois.
+  data jsonb not null,
+  primary key (project_id, id)
+);
+create index if not exists audit_events_timestamp_idx on audit_events (project_id, "timestamp" desc);
+
+create table if not exists editing_presence (
+  project_id uuid not null references projects (id) on delete cascade,
+  user_id text not null,
+  user_email text not null,
+  item_id text,
+  updated_at timestamptz not null,
+  primary key (project_id, user_id)
+);
+
+-- Biblioteca de modelos da construtora. As versões publicadas (PLS e layouts) ficam em `versions`.
+create table if not exists pls_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  owner_id text not null,
+  created_at timestamptz not null default now(),
+  versions jsonb not null default '[]'::jsonb
+);
+
+-- Organizações (construtoras e SPEs). O projeto guarda a sua organização em `data ->> 'organizationId'`.
+create table if not exists organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  cnpj text,
+  owner_id text not null,
+  members text[] not null default '{}',
+  -- Papel de cada membro ('admin' ou 'member'), indexado pelo ID do usuário.
+  roles jsonb not null default '{}'::jsonb,
+  branding jsonb,
+  default_template_id uuid references pls_templates (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- Organização cuja biblioteca contém o modelo; nula nos modelos pessoais, visíveis apenas ao autor.
+alter table pls_templates add column if not exists organization_id uuid references organizations (id) on delete cascade;
+
+-- Caixa de saída de e-mails (ex: convites), entregue por uma função agendada ou webhook do banco.
+-- Os clientes não escrevem nela: os convites são enfileirados por `invite_project_member`.
+create table if not exists outbox (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid references projects (id) on delete cascade,
+  to_email text not null,
+  subject text not null,
+  text text not null,
+  created_by text not null default (auth.jwt() ->> 'sub'),
+  created_at timestamptz not null default now(),
+  sent_at timestamptz
+);
+alter table outbox add column if not exists project_id uuid references projects (id) on delete cascade;
+
+-- ---------------------------------------------------------------------------
+-- Papéis
+-- ---------------------------------------------------------------------------
+
+create or replace function current_uid() returns text
+language sql stable as $$
+  select auth.jwt() ->> 'sub'
+$$;
+
+create or replace function is_service_role() returns boolean
+language sql stable as $$
+  select coalesce(auth.jwt() ->> 'role', '') = 'service_role'
+$$;
+
+-- Papel do usuário autenticado em um projeto, ou nulo se ele não for membro.
+-- Um papel `owner` gravado para quem não é o proprietário vale como editor.
+create or replace function project_role(p_project_id uuid) returns text
+language sql stable security definer set search_path = public as $$
+  select case
+    when is_service_role() then 'owner'
+    when p.owner_id = current_uid() then 'owner'
+    when m.user_id is null then null
+    when coalesce(m.role, 'editor') = 'owner' then 'editor'
+    else coalesce(m.role, 'editor')
+  end
+  from projects p
+  left join project_members m on m.project_id = p.id and m.user_id = current_uid()
+  where p.id = p_project_id
+$$;
+
+-- Com a aprovação obrigatória, editores só enviam alterações para `pending_progress`;
+-- o responsável técnico (identificado pelo e-mail) pode alterar o progresso se for editor.
+create or replace function can_change_progress(p_project projects) returns boolean
+language sql stable as $$
+  select not coalesce((p_project.data ->> 'require_progress_approval')::boolean, false)
+    or lower(auth.jwt() ->> 'email') = lower(p_project.data -> 'responsible_engineer' ->> 'email')
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Gravação (funções internas)
+-- ---------------------------------------------------------------------------
+
+create or replace function replace_housing_units(p_project_id uuid, p_units jsonb) returns void
+language sql as $$
+  delete from housing_units where project_id = p_project_id;
+  insert into housing_units (project_id, id, position, name, typology_id, tower, floor)
+  select p_project_id, u.value ->> 'id', u.ordinality, u.value ->> 'name', u.value ->> 'typologyId',
+    u.value ->> 'tower', u.value ->> 'floor'
+  from jsonb_array_elements(coalesce(p_units, '[]'::jsonb)) with ordinality as u;
+$$;
+
+create or replace function replace_pls(p_project_id uuid, p_categories jsonb, p_services jsonb) returns void
+language sql as $$
+  delete from pls_categories where project_id = p_project_id;
+  insert into pls_categories (project_id, id, position, name)
+  select p_project_id, c.value ->> 'id', c.ordinality, c.value ->> 'name'
+  from jsonb_array_elements(coalesce(p_categories, '[]'::jsonb)) with ordinality as c;
+  insert into pls_services (project_id, id, category_id, position, name, incidence, unit, scope)
+  select p_project_id, s.value ->> 'id', s.value ->> 'category_id', s.ordinality, s.value ->> 'name',
+    coalesce((s.value ->> 'incidence')::numeric, 0), coalesce(s.value ->> 'unit', ''), coalesce(s.value ->> 'scope', 'unit')
+  from jsonb_array_elements(coalesce(p_services, '[]'::jsonb)) with ordinality as s;
+$$;
+
+create or replace function insert_archives(p_project_id uuid, p_history jsonb, p_reports jsonb) returns void
+language sql as $$
+  insert into progress_logs (project_id, id, "timestamp", item_id, unit_id, old_progress, new_progress, data)
+  select p_project_id, x.id, x."timestamp", x.item_id, x.unit_id, x.old_progress, x.new_progress, x.data
+  from jsonb_to_recordset(coalesce(p_history, '[]'::jsonb))
+    as x(id text, "timestamp" timestamptz, item_id text, unit_id text, old_progress numeric, new_progress numeric, data jsonb)
+  on conflict (project_id, id) do nothing;
+  insert into archived_reports (project_id, id, generated_at, data)
+  select p_project_id, x.id, x.generated_at, x.data
+  from jsonb_to_recordset(coalesce(p_reports, '[]'::jsonb)) as x(id text, generated_at timestamptz, data jsonb)
+  on conflict (project_id, id) do nothing;
+$$;
+
+revoke execute on function replace_housing_units(uuid, jsonb) from public, anon, authenticated;
+revoke execute on function replace_pls(uuid, jsonb, jsonb) from public, anon, authenticated;
+revoke execute on function insert_archives(uuid, jsonb, jsonb) from public, anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Gravação (chamadas pela aplicação)
+-- ---------------------------------------------------------------------------
+
+-- Papel do usuário autenticado em uma organização, ou nulo se ele não for membro.
+create or replace function organization_role(p_organization_id uuid) returns text
+language sql stable security definer set search_path = public as $$
+  select case
+    when o.owner_id = current_uid() then 'admin'
+    when not (current_uid() = any(o.members)) then null
+    else coalesce(o.roles ->> current_uid(), 'member')
+  end
+  from organizations o
+  where o.id = p_organization_id
+$$;
+
+-- Um projeto só pode ser colocado em uma organização da qual o usuário é membro.
+create or replace function can_use_organization(p_data jsonb) returns boolean
+language sql stable as $$
+  select is_service_role()
+    or p_data ->> 'organizationId' is null
+    or organization_role((p_data ->> 'organizationId')::uuid) is not null
+$$;
+
+-- Cria um projeto com a sua estrutura, progresso, histórico e relatórios.
+-- O proprietário é o único membro, como nas regras do Firestore.
+drop function if exists create_project(jsonb, jsonb, jsonb);
+create or replace function create_project(
+  p_project jsonb, p_history jsonb default '[]', p_reports jsonb default '[]', p_audit jsonb default '[]'
+)
+returns jsonb
+language plpgsql security definer set search_path = public as $$
+declare
+  v_owner text := p_project ->> 'owner_id';
+  v_id uuid;
+  v_created_at timestamptz;
+begin
+  if v_owner is null or (not is_service_role() and v_owner is distinct from current_uid())
+    or not can_use_organization(p_project -> 'data') then
+    raise exception 'Permissão negada.' using errcode = '42501';
+  end if;
+
+  insert into projects (name, owner_id, pls_customized, data)
+  values (
+    coalesce(p_project ->> 'name', ''),
+    v_owner,
+    coalesce((p_project ->> 'pls_customized')::boolean, false),
+    coalesce(p_project -> 'data', '{}'::jsonb)
+  )
+  returning id, created_at into v_id, v_created_at;
+
+  insert into project_members (project_id, user_id, role) values (v_id, v_owner, 'owner');
+  perform replace_housing_units(v_id, p_project -> 'housing_units');
+  perform replace_pls(v_id, p_project -> 'pls_categories', p_project -> 'pls_services');
+  insert into progress_cells (project_id, item_id, unit_id, value)
+  select v_id, x.item_id, x.unit_id, x.value
+  from jsonb_to_recordset(coalesce(p_project -> 'progress_cells', '[]'::jsonb)) as x(item_id text, unit_id text, value numeric);
+  perform insert_archives(v_id, p_history, p_reports);
+  -- Como em `apply_project_patch`, os eventos de auditoria são gravados em nome de quem cria o projeto.
+  insert into audit_events (project_id, id, "timestamp", action, user_id, data)
+  select v_id, x.id, x."timestamp", x.action, v_owner, x.data
+  from jsonb_to_recordset(coalesce(p_audit, '[]'::jsonb)) as x(id text, "timestamp" timestamptz, action text, data jsonb);
+
+  return jsonb_build_object('id', v_id, 'created_at', v_created_at);
+end;
+$$;
+
+-- Grava uma alteração do projeto (veja `toPatchPayload` em `services/repositories/supabaseRepository.ts`)
+-- em uma única transação. Os campos que cada papel pode alterar são os mesmos de `firestore.rules`.
+create or replace function apply_project_patch(p_project_id uuid, p_patch jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_role text := project_role(p_project_id);
+  v_project projects;
+  v_fields text[];
+  v_allowed text[];
+begin
+  select * into v_project from projects where id = p_project_id for update;
+  if not found then
+    raise exception 'Projeto % não encontrado.', p_project_id using errcode = 'P0002';
+  end if;
+  if v_role is null or v_role = 'viewer' then
+    raise exception 'Permissão negada.' using errcode = '42501';
+  end if;
+
+  v_fields := array(select jsonb_object_keys(coalesce(p_patch -> 'data_set', '{}'::jsonb)))
+    || array(select jsonb_array_elements_text(coalesce(p_patch -> 'data_unset', '[]'::jsonb)));
+  if p_patch ? 'name' then v_fields := v_fields || 'name'; end if;
+  if p_patch ? 'housing_units' then v_fields := v_fields || 'housing_units'; end if;
+  if p_patch ? 'pls' then v_fields := v_fields || 'pls_data'; end if;
+  if jsonb_array_length(coalesce(p_patch -> 'cells', '[]'::jsonb)) > 0
+    or jsonb_array_length(coalesce(p_patch -> 'removed_items', '[]'::jsonb)) > 0 then
+    v_fields := v_fields || 'progress';
+  end if;
+  if jsonb_array_length(coalesce(p_patch -> 'pending', '[]'::jsonb)) > 0 then
+    v_fields := v_fields || 'pending_progress';
+  end if;
+
+  v_allowed := case v_role
+    when 'editor' then array['progress', 'pending_progress', 'pls_data', 'layouts', 'report_summaries']
+    when 'approver' then array['progress', 'pending_progress', 'measurements', 'audit_log', 'layouts', 'report_summaries']
+  end;
+  if v_allowed is not null and not (v_fields <@ v_allowed) then
+    raise exception 'Permissão negada.' using errcode = '42501';
+  end if;
+  -- Remover as linhas dos serviços excluídos da PLS não altera nenhum valor medido.
+  if v_role = 'editor' and jsonb_array_length(coalesce(p_patch -> 'cells', '[]'::jsonb)) > 0 and not can_change_progress(v_project) then
+    raise exception 'Permissão negada.' using errcode = '42501';
+  end if;
+  -- Os aprovadores só alteram o progresso ao aprovar alterações pendentes.
+  if v_role = 'approver' and 'progress' = any(v_fields) and not 'pending_progress' = any(v_fields) then
+    raise exception 'Permissão negada.' using errcode = '42501';
+  end if;
+  if p_patch -> 'data_set' ? 'organizationId' and not can_use_organization(p_patch -> 'data_set') then
+    raise exception 'Permissão negada.' using errcode = '42501';
+  end if;
+
+  delete from progress_cells
+  where project_id = p_project_id
+    and item_id in (select jsonb_array_elements_text(coalesce(p_patch -> 'removed_items', '[]'::jsonb)));
+  delete from progress_cells c
+  using jsonb_to_recordset(coalesce(p_patch -> 'cells', '[]'::jsonb)) as x(item_id text, unit_id text, value numeric)
+  where c.project_id = p_project_id and c.item_id = x.item_id and c.unit_id = x.unit_id and x.value is null;
+  insert into progress_cells (project_id, item_id, unit_id, value)
+  select p_project_id, x.item_id, x.unit_id, x.value
+  from jsonb_to_recordset(coalesce(p_patch -> 'cells', '[]'::jsonb)) as x(item_id text, unit_id text, value numeric)
+  where x.value is not null
+  on conflict (project_id, item_id, unit_id) do update set value = excluded.value;
+
+  if p_patch ? 'housing_units' then
+    perform replace_housing_units(p_project_id, p_patch -> 'housing_units');
+  end if;
+  if p_patch ? 'pls' then
+    update projects set pls_customized = coalesce((p_patch -> 'pls' ->> 'customized')::boolean, false) where id = p_project_id;
+    perform replace_pls(p_project_id, p_patch -> 'pls' -> 'categories', p_patch -> 'pls' -> 'services');
+  end if;
+
+  update projects set
+    name = coalesce(p_patch ->> 'name', name),
+    data = (data || coalesce(p_patch -> 'data_set', '{}'::jsonb))
+      - array(select jsonb_array_elements_text(coalesce(p_patch -> 'data_unset', '[]'::jsonb)))
+  where id = p_project_id;
+
+  -- Cada alteração pendente de aprovação é incluída ou removida individualmente (`log` nulo),
+  -- para que envios e revisões simultâneos não regravem a fila inteira.
+  if jsonb_array_length(coalesce(p_patch -> 'pending', '[]'::jsonb)) > 0 then
+    update projects set data = jsonb_set(data, '{pending_progress}',
+      (case when jsonb_typeof(data -> 'pending_progress') = 'object' then data -> 'pending_progress' else '{}'::jsonb end
+        - array(select x ->> 'id' from jsonb_array_elements(p_patch -> 'pending') x))
+      || coalesce((select jsonb_object_agg(x ->> 'id', x -> 'log') from jsonb_array_elements(p_patch -> 'pending') x
+                   where jsonb_typeof(x -> 'log') = 'object'), '{}'::jsonb))
+    where id = p_project_id;
+  end if;
+
+  perform insert_archives(p_project_id, p_patch -> 'history', p_patch -> 'reports');
+
+  -- Os eventos de auditoria são sempre gravados em nome do usuário autenticado.
+  insert into audit_events (project_id, id, "timestamp", action, user_id, data)
+  select p_project_id, x.id, x."timestamp", x.action, current_uid(), x.data
+  from jsonb_to_recordset(coalesce(p_patch -> 'audit', '[]'::jsonb))
+    as x(id text, "timestamp" timestamptz, action text, data jsonb)
+  on conflict (project_id, id) do nothing;
+end;
+$$;
+
+-- Grava um convite (substituindo um anterior para o mesmo e-mail) e coloca a mensagem para o convidado na caixa de saída.
+-- Apenas o proprietário do projeto convida, e a mensagem só pode ir para o e-mail convidado.
+create or replace function invite_project_member(p_project_id uuid, p_invitation jsonb, p_message jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if project_role(p_project_id) is distinct from 'owner' then
+    raise exception 'Apenas o proprietário do projeto pode convidar membros.' using errcode = '42501';
+  end if;
+  if p_message ->> 'to_email' is distinct from p_invitation ->> 'email' then
+    raise exception 'A mensagem do convite deve ser enviada ao e-mail convidado.' using errcode = '22023';
+  end if;
+
+  insert into project_invitations (project_id, email, role, invited_by, invited_by_email, created_at, expires_at)
+  values (p_project_id, p_invitation ->> 'email', p_invitation ->> 'role', current_uid(), p_invitation ->> 'invited_by_email',
+    (p_invitation ->> 'created_at')::timestamptz, (p_invitation ->> 'expires_at')::timestamptz)
+  on conflict (project_id, email) do update set
+    role = excluded.role, invited_by = excluded.invited_by, invited_by_email = excluded.invited_by_email,
+    created_at = excluded.created_at, expires_at = excluded.expires_at;
+
+  insert into outbox (project_id, to_email, subject, text, created_by)
+  values (p_project_id, p_message ->> 'to_email', p_message ->> 'subject', p_message ->> 'text', current_uid());
+end;
+$$;
+
+-- Aceita os convites válidos para o e-mail confirmado do usuário autenticado e retorna os nomes dos projetos.
+-- Os convites expirados continuam gravados até serem reenviados ou revogados.
+create or replace function accept_project_invitations() returns text[]
+language plpgsql security definer set search_path = public as $$
+declare
+  v_email text := lower(auth.jwt() ->> 'email');
+  v_names text[];
+begin
+  if current_uid() is null or v_email is null or not coalesce((auth.jwt() ->> 'email_verified')::boolean, false) then
+    return '{}';
+  end if;
+
+  with accepted as (
+    delete from project_invitations i
+    where i.email = v_email and i.expires_at > now()
+    returning i.project_id, i.role
+  ), joined as (
+    insert into project_members (project_id, user_id, role)
+    select a.project_id, current_uid(), a.role from accepted a
+    on conflict (project_id, user_id) do nothing
+    returning project_id
+  )
+  select coalesce(array_agg(p.name order by p.name), '{}') into v_names
+  from accepted a join projects p on p.id = a.project_id;
+
+  return v_names;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Políticas de acesso (RLS)
+-- ---------------------------------------------------------------------------
+
+alter table profiles enable row level security;
+alter table projects enable row level security;
+alter table project_members enable row level security;
+alter table housing_units enable row level security;
+alter table pls_categories enable row level security;
+alter table pls_services enable row level security;
+alter table progress_cells enable row level security;
+alter table progress_logs enable row level security;
+alter table archived_reports enable row level security;
+alter table audit_events enable row level security;
+alter table editing_presence enable row level security;
+alter table pls_templates enable row level security;
+alter table organizations enable row level security;
+alter table project_invitations enable row level security;
+alter table outbox enable row level security;
+
+create policy profiles_read on profiles for select to authenticated using (true);
+create policy profiles_insert on profiles for insert to authenticated with check (id = current_uid());
+create policy profiles_update on profiles for update to authenticated using (id = current_uid()) with check (id = current_uid());
+
+create policy projects_read on projects for select using (project_role(id) is not null);
+create policy projects_delete on projects for delete using (project_role(id) = 'owner');
+
+create policy members_read on project_members for select using (project_role(project_id) is not null);
+create policy members_insert on project_members for insert with check (project_role(project_id) = 'owner');
+create policy members_update on project_members for update using (project_role(project_id) = 'owner');
+create policy members_delete on project_members for delete using (project_role(project_id) = 'owner');
+
+-- Convites: os membros consultam; apenas o proprietário convida e revoga. O aceite passa por `accept_project_invitations`.
+create policy invitations_read on project_invitations for select using (project_role(project_id) is not null);
+create policy invitations_insert on project_invitations for insert with check (project_role(project_id) = 'owner');
+create policy invitations_update on project_invitations for update using (project_role(project_id) = 'owner');
+create policy invitations_delete on project_invitations for delete using (project_role(project_id) = 'owner');
+
+-- Os clientes apenas enfileiram mensagens; a entrega usa a chave de serviço.
+-- Sem políticas em `outbox`: os clientes não leem nem escrevem mensagens (bancos anteriores tinham `outbox_insert`).
+drop policy if exists outbox_insert on outbox;
+
+create policy units_read on housing_units for select using (project_role(project_id) is not null);
+create policy categories_read on pls_categories for select using (project_role(project_id) is not null);
+create policy services_read on pls_services for select using (project_role(project_id) is not null);
+create policy cells_read on progress_cells for select using (project_role(project_id) is not null);
+create policy logs_read on progress_logs for select using (project_role(project_id) is not null);
+create policy reports_read on archived_reports for select using (project_role(project_id) is not null);
+create policy audit_read on audit_events for select using (project_role(project_id) is not null);
+
+create policy presence_read on editing_presence for select using (project_role(project_id) is not null);
+create policy presence_write on editing_presence for all
+  using (user_id = current_uid() and project_role(project_id) is not null)
+  with check (user_id = current_uid() and project_role(project_id) is not null);
+
+-- Os membros da organização do modelo (ou, num modelo pessoal, apenas o autor) consultam a biblioteca;
+-- apenas o autor, enquanto membro da organização, altera ou exclui o modelo, sem trocá-lo de organização.
+create policy templates_read on pls_templates for select to authenticated
+  using (owner_id = current_uid() or organization_role(organization_id) is not null);
+create policy templates_insert on pls_templates for insert to authenticated
+  with check (owner_id = current_uid() and (organization_id is null or organization_role(organization_id) is not null));
+create policy templates_update on pls_templates for update to authenticated
+  using (owner_id = current_uid() and (organization_id is null or organization_role(organization_id) is not null))
+  with check (owner_id = current_uid()
+    and organization_id is not distinct from (select t.organization_id from pls_templates t where t.id = pls_templates.id));
+create policy templates_delete on pls_templates for delete to authenticated
+  using (owner_id = current_uid() and (organization_id is null or organization_role(organization_id) is not null));
+
+-- Os membros consultam a organização; os administradores alteram dados e membros; apenas o proprietário exclui.
+create policy organizations_read on organizations for select to authenticated using (current_uid() = any(members));
+create policy organizations_insert on organizations for insert to authenticated
+  with check (owner_id = current_uid() and members = array[current_uid()]);
+create policy organizations_update on organizations for update to authenticated
+  using (organization_role(id) = 'admin')
+  with check (owner_id = (select o.owner_id from organizations o where o.id = organizations.id) and owner_id = any(members));
+create policy organizations_delete on organizations for delete to authenticated using (owner_id = current_uid());
+
+-- ---------------------------------------------------------------------------
+-- Tempo real
+-- ---------------------------------------------------------------------------
+
+alter publication supabase_realtime add table
+  projects, project_members, housing_units, pls_categories, pls_services, progress_cells, editing_presence;
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { groupPendingChanges, requiresApproval, reviewPendingChanges, submitPendingChanges } from './approvalService';
+import { COMMON_AREA_UNIT_ID } from './progressService';
+import { ProgressLog, Project } from '../types';
+
+const log = (id: string, itemId: string, unitId: string, newProgress: number): ProgressLog => ({
+    id,
+    timestamp: '2025-01-01T10:00:00.000Z',
+    itemId,
+    itemName: `Serviço ${itemId}`,
+    unitId,
+    unitName: `Casa ${unitId}`,
+    oldProgress: 0,
+    newProgress,
+});
+
+const project = {
+    id: 'p1',
+    ownerId: 'owner',
+    members: ['owner', 'editor', 'engineer'],
+    responsible_engineer: { name: 'Ana', crea: '123', email: 'ana@example.com' },
+    require_progress_approval: true,
+    progress: { '1.1': { '01': 20 } },
+    pending_progress: { a: log('a', '1.1', '01', 60), b: log('b', '1.1', '02', 40) },
+} as unknown as Project;
+
+describe('requiresApproval', () => {
+    it('should require approval only from members who cannot approve', () => {
+        expect(requiresApproval(project, 'editor', 'editor@example.com')).toBe(true);
+        expect(requiresApproval(project, 'engineer', 'ANA@example.com')).toBe(false);
+        expect(requiresApproval(project, 'owner', 'owner@example.com')).toBe(false);
+        expect(requiresApproval({ ...project, require_progress_approval: false }, 'editor', null)).toBe(false);
+    });
+});
+
+describe('submitPendingChanges', () => {
+    it('should replace the pending change of the same cell', () => {
+        const pending = submitPendingChanges(project.pending_progress, [log('c', '1.1', '01', 80)], 'editor@example.com');
+        expect(Object.keys(pending)).toEqual(['b', 'c']);
+        expect(pending.c).toMatchObject({ status: 'pending', submittedBy: 'editor@example.com' });
+    });
+});
+
+describe('groupPendingChanges', () => {
+    it('should group the changes by service and sort them by unit', () => {
+        const groups = groupPendingChanges({ x: log('x', '2.1', '10', 10), y: log('y', '1.1', '02', 10), z: log('z', '1.1', '01', 10) });
+        expect(groups.map(g => g.itemId)).toEqual(['1.1', '2.1']);
+        expect(groups[0].changes.map(c => c.id)).toEqual(['z', 'y']);
+    });
+});
+
+describe('reviewPendingChanges', () => {
+    it('should apply approved changes and log the current value as the old progress', () => {
+        const result = reviewPendingChanges(project, ['a'], 'approved', 'ana@example.com');
+        expect(result.project.progress['1.1']['01']).toBe(60);
+        expect(Object.keys(result.project.pending_progress || {})).toEqual(['b']);
+        expect(result.logs[0]).toMatchObject({ oldProgress: 20, newProgress: 60, status: 'approved', reviewedBy: 'ana@example.com' });
+    });
+
+    it('should log the unit average as the old progress of common-area rows without the common area', () => {
+        const legacy = {
+            ...project,
+            housing_units: [{ id: '01', name: 'Casa 01' }, { id: '02', name: 'Casa 02' }],
+            progress: { '1.1': { '01': 20, '02': 40 } },
+            pending_progress: { c: log('c', '1.1', COMMON_AREA_UNIT_ID, 70) },
+        } as Project;
+        const result = reviewPendingChanges(legacy, ['c'], 'approved', 'ana@example.com');
+        expect(result.logs[0]).toMatchObject({ oldProgress: 30, newProgress: 70 });
+    });
+
+    it('should keep the progress when changes are rejected', () => {
+        const result = reviewPendingChanges(project, ['a', 'b'], 'rejected', 'ana@example.com');
+        expect(result.project.progress).toEqual(project.progress);
+        expect(result.project.pending_progress).toEqual({});
+        expect(result.logs.map(l => l.status)).toEqual(['rejected', 'rejected']);
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * @file Serviço com funções puras para o fluxo de aprovação das alterações de progresso.
+ * Quando o projeto exige aprovação, as alterações de quem não pode aprová-las ficam em `pending_progress`
+ * e só entram na matriz de progresso (e nos cálculos financeiros) depois de aprovadas.
+ */
+import { ProgressApprovalStatus, ProgressLog, Project } from '../types';
+import { hasPermission } from './permissionService';
+import { getCellProgress } from './progressService';
+
+/**
+ * Alterações pendentes de um serviço, para a fila de aprovação.
+ */
+export interface PendingProgressGroup {
+    itemId: string;
+    itemName: string;
+    changes: ProgressLog[];
+}
+
+/**
+ * Indica se as alterações de progresso de um usuário precisam de aprovação.
+ * @param {Project} project O projeto.
+ * @param {string} userId O ID do usuário.
+ * @param {string | null} [userEmail] O e-mail do usuário, para identificar o responsável técnico.
+ * @returns {boolean} `true` se o projeto exige aprovação e o usuário não pode aprovar.
+ */
+export const requiresApproval = (project: Project, userId: string, userEmail?: string | null): boolean => {
+    return !!project.require_progress_approval && !hasPermission(project, userId, 'approve_progress', userEmail);
+};
+
+/**
+ * Adiciona alterações à fila de aprovação. Uma nova alteração de uma célula substitui a pendente anterior.
+ * @param {Record<string, ProgressLog>} pending As alterações já pendentes.
+ * @param {ProgressLog[]} logs As novas alterações.
+ * @param {string} submittedBy O e-mail de quem envia as alterações.
+ * @returns {Record<string, ProgressLog>} A nova fila de aprovação.
+ */
+export const submitPendingChanges = (pending: Record<string, ProgressLog> = {}, logs: ProgressLog[], submittedBy: string): Record<string, ProgressLog> => {
+    const submittedAt = new Date().toISOString();
+    const cellKey = (log: ProgressLog) => `${log.itemId}|${log.unitId}`;
+    const replaced = new Set(logs.map(cellKey));
+    return Object.fromEntries([
+        ...Object.values(pending).filter(log => !replaced.has(cellKey(log))),
+        ...logs.map(log => ({ ...log, status: 'pending' as const, submittedBy, submittedAt })),
+    ].map(log => [log.id, log]));
+};
+
+/**
+ * Indexa as alterações pendentes por serviço e unidade, para exibição na tabela.
+ * @param {Record<string, ProgressLog>} pending As alterações pendentes.
+ * @returns {Record<string, Record<string, ProgressLog>>} As alterações indexadas por `itemId` e `unitId`.
+ */
+export const getPendingByCell = (pending: Record<string, ProgressLog> = {}): Record<string, Record<string, ProgressLog>> => {
+    const byCell: Record<string, Record<string, ProgressLog>> = {};
+    Object.values(pending).forEach(log => {
+        byCell[log.itemId] = { ...byCell[log.itemId], [log.unitId]: log };
+    });
+    return byCell;
+};
+
+/**
+ * Agrupa as alterações pendentes por serviço, ordenadas pelo ID do serviço e, dentro dele, pelo nome da unidade.
+ * @param {Record<string, ProgressLog>} pending As alterações pendentes.
+ * @returns {PendingProgressGroup[]} Os grupos da fila de aprovação.
+ */
+export const groupPendingChanges = (pending: Record<string, ProgressLog> = {}): PendingProgressGroup[] => {
+    const groups = new Map<string, PendingProgressGroup>();
+    Object.values(pending).forEach(log => {
+        const group = groups.get(log.itemId) || { itemId: log.itemId, itemName: log.itemName, changes: [] };
+        group.changes.push(log);
+        groups.set(log.itemId, group);
+    });
+    return Array.from(groups.values())
+        .sort((a, b) => a.itemId.localeCompare(b.itemId, undefined, { numeric: true }))
+        .map(group => ({
+            ...group,
+            changes: group.changes.sort((a, b) => a.unitName.localeCompare(b.unitName, undefined, { numeric: true })),
+        }));
+};
+
+/**
+ * Aprova ou rejeita alterações pendentes. As aprovadas são aplicadas ao progresso; todas saem da fila
+ * e viram registros de histórico com a decisão. O valor anterior é o progresso no momento da decisão.
+ * @param {Project} project O projeto.
+ * @param {string[]} ids Os IDs das alterações pendentes.
+ * @param {'approved' | 'rejected'} decision A decisão.
+ * @param {string} reviewedBy O e-mail de quem decide.
+ * @returns {{ project: Project, logs: ProgressLog[] }} O projeto atualizado e os registros de histórico.
+ */
+export const reviewPendingChanges = (
+    project: Project,
+    ids: string[],
+    decision: Exclude<ProgressApprovalStatus, 'pending'>,
+    reviewedBy: string
+): { project: Project; logs: ProgressLog[] } => {
+    const pending = { ...project.pending_progress };
+    const reviewed = ids.map(id => pending[id]).filter((log): log is ProgressLog => !!log);
+    reviewed.forEach(log => delete pending[log.id]);
+    const timestamp = new Date().toISOString();
+
+    const progress = { ...project.progress };
+    const logs = reviewed.map(log => {
+        const oldProgress = getCellProgress(project.progress, log.itemId, log.unitId, project.housing_units);
+        if (decision === 'approved') {
+            progress[log.itemId] = { ...progress[log.itemId], [log.unitId]: log.newProgress };
+        }
+        return { ...log, timestamp, oldProgress, status: decision, reviewedBy };
+    });
+
+    return {
+        project: {
+            ...project,
+            progress,
+            pending_progress: pending,
+        },
+        logs,
+    };
+};
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { extractEmbeddedArchives, hasEmbeddedArchives, toReportSummary } from './archiveService';
+import { ArchivedReport, Financials, ProgressLog, Project } from '../types';
+
+const report = (id: string, generatedAt: string, measurementNumber?: number): ArchivedReport => ({
+    id,
+    title: `Relatório ${id}`,
+    generatedAt,
+    format: 'pdf',
+    options: {
+        title: `Relatório ${id}`,
+        includeProjectDetails: true,
+        includeFinancialSummary: true,
+        includeProgressTable: true,
+        includeUnitDetails: true,
+        selectedCategoryIds: [],
+        measurementNumber,
+    },
+    financialsSnapshot: { totalProgress: 12, totalReleased: 0, balanceToMeasure: 0, categoryTotals: [] } as Financials,
+    progressSnapshot: {},
+    plsDataSnapshot: [],
+});
+
+const log = { id: 'log_1', timestamp: '2025-01-01T10:00:00.000Z' } as ProgressLog;
+
+describe('toReportSummary', () => {
+    it('should omit the measurement number when the report has none', () => {
+        expect(toReportSummary(report('r1', '2025-01-31T10:00:00.000Z'))).toEqual({
+            id: 'r1',
+            title: 'Relatório r1',
+            generatedAt: '2025-01-31T10:00:00.000Z',
+            totalProgress: 12,
+        });
+    });
+});
+
+describe('extractEmbeddedArchives', () => {
+    it('should move the embedded lists out of the project and keep sorted summaries', () => {
+        const project = {
+            id: 'p1',
+            history: [log],
+            archived_reports: [report('r2', '2025-02-28T10:00:00.000Z', 2)],
+            report_summaries: [toReportSummary(report('r1', '2025-01-31T10:00:00.000Z', 1))],
+        } as Project;
+
+        const result = extractEmbeddedArchives(project);
+
+        expect(result.history).toEqual([log]);
+        expect(result.reports.map(r => r.id)).toEqual(['r2']);
+        expect(hasEmbeddedArchives(result.project)).toBe(false);
+        expect(result.project.report_summaries?.map(s => s.measurementNumber)).toEqual([1, 2]);
+    });
+});
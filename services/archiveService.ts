@@ -0,0 +1,56 @@
+/**
+ * @file Serviço com funções puras para o histórico de progresso e os relatórios arquivados,
+ * que são armazenados em subcoleções do projeto em vez de dentro do documento principal.
+ */
+import { ArchivedReport, ArchivedReportSummary, ProgressLog, Project } from '../types';
+
+/**
+ * Gera o resumo de um relatório arquivado, guardado no documento do projeto.
+ * @param {ArchivedReport} report O relatório arquivado completo.
+ * @returns {ArchivedReportSummary} O resumo do relatório.
+ */
+export const toReportSummary = (report: ArchivedReport): ArchivedReportSummary => {
+    const summary: ArchivedReportSummary = {
+        id: report.id,
+        title: report.title,
+        generatedAt: report.generatedAt,
+        totalProgress: report.financialsSnapshot?.totalProgress || 0,
+    };
+    // O Firestore não aceita campos `undefined`.
+    if (typeof report.options?.measurementNumber === 'number') {
+        summary.measurementNumber = report.options.measurementNumber;
+    }
+    if (typeof report.plsVersion === 'number') {
+        summary.plsVersion = report.plsVersion;
+    }
+    return summary;
+};
+
+/**
+ * Separa o histórico e os relatórios arquivados embutidos em um projeto (documentos antigos ou backups),
+ * para que sejam gravados nas subcoleções. O projeto retornado não contém mais esses campos e passa a
+ * ter os resumos dos relatórios.
+ * @param {Project} project O projeto com as listas embutidas.
+ * @returns {{ project: Project; history: ProgressLog[]; reports: ArchivedReport[] }} O projeto sem as listas e as listas extraídas.
+ */
+export const extractEmbeddedArchives = (project: Project): { project: Project; history: ProgressLog[]; reports: ArchivedReport[] } => {
+    const { history = [], archived_reports: reports = [], ...rest } = project;
+    const summaries = new Map((project.report_summaries || []).map(summary => [summary.id, summary]));
+    reports.forEach(report => summaries.set(report.id, toReportSummary(report)));
+
+    const projectWithoutArchives: Project = { ...rest };
+    if (summaries.size > 0) {
+        projectWithoutArchives.report_summaries = Array.from(summaries.values())
+            .sort((a, b) => a.generatedAt.localeCompare(b.generatedAt));
+    }
+    return { project: projectWithoutArchives, history, reports };
+};
+
+/**
+ * Indica se o projeto ainda possui histórico ou relatórios embutidos no documento.
+ * @param {Project} project O projeto.
+ * @returns {boolean} `true` se houver listas a migrar para as subcoleções.
+ */
+export const hasEmbeddedArchives = (project: Project): boolean => {
+    return Array.isArray(project.history) || Array.isArray(project.archived_reports);
+};
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createAuditEntry, describePlsChanges, filterAuditEntries, getAuditUsers, getFieldChanges, getProjectCreatedAuditEntry,
+    getProjectUpdateAuditEntries
+} from './auditService';
+import { Organization, PlsCategoryTemplate, Project, UserProfile } from '../types';
+
+const user: UserProfile = { uid: 'ana', email: 'ana@construtora.com.br' };
+const now = new Date('2025-03-01T12:00:00.000Z');
+
+const project = (overrides: Partial<Project> = {}): Project => ({
+    id: 'p1',
+    name: 'Residencial Teste',
+    ownerId: 'ana',
+    members: ['ana'],
+    housing_units: [{ id: 'u1', name: 'Apto 101' }, { id: 'u2', name: 'Apto 102' }],
+    progress: {},
+    cost_of_works: 1000,
+    pls_data: null,
+    ...overrides,
+} as Project);
+
+const pls = (items: { id: string; name: string; incidence: number }[]): PlsCategoryTemplate[] => [
+    { id: '1', name: 'Serviços Preliminares', subItems: items.map(item => ({ ...item, unit: '%' })) },
+];
+
+describe('createAuditEntry', () => {
+    it('should record who and when without undefined fields', () => {
+        const entry = createAuditEntry('layouts_updated', 'Layouts de relatório alterados.', user, {}, now);
+        expect(entry.id).toMatch(new RegExp(`^audit_${now.getTime()}_layouts_updated_[a-z0-9]+$`));
+        expect(entry).toEqual({
+            id: entry.id,
+            timestamp: now.toISOString(),
+            action: 'layouts_updated',
+            description: 'Layouts de relatório alterados.',
+            userId: 'ana',
+            userEmail: 'ana@construtora.com.br',
+        });
+        expect(createAuditEntry('layouts_updated', 'Layouts de relatório alterados.', user, {}, now).id).not.toBe(entry.id);
+    });
+});
+
+describe('getFieldChanges', () => {
+    it('should format the values before and after and ignore progress and members', () => {
+        const changes = getFieldChanges(project(), project({ cost_of_works: 2500, progress: { '1.1': { u1: 50 } }, members: ['ana', 'bruno'] }));
+        expect(changes).toHaveLength(1);
+        expect(changes[0].field).toBe('cost_of_works');
+        expect(changes[0].label).toBe('Custo da obra');
+        expect(changes[0].before).toContain('1.000,00');
+        expect(changes[0].after).toContain('2.500,00');
+    });
+});
+
+describe('getProjectCreatedAuditEntry', () => {
+    it('should record the creator, the template and the organization of the project', () => {
+        const template = { templateId: 't1', templateName: 'Casas 2Q', version: 3 };
+        const organization = { id: 'o1', name: 'Construtora Sol' } as Organization;
+
+        const entry = getProjectCreatedAuditEntry(project({ template }), user, organization, now);
+
+        expect(entry).toEqual(expect.objectContaining({
+            action: 'project_created',
+            description: 'Projeto Residencial Teste criado a partir do modelo Casas 2Q (v3) na organização Construtora Sol.',
+            userId: 'ana',
+            userEmail: 'ana@construtora.com.br',
+            timestamp: now.toISOString(),
+        }));
+    });
+
+    it('should describe projects created without a template or organization', () => {
+        expect(getProjectCreatedAuditEntry(project(), user, undefined, now).description).toBe('Projeto Residencial Teste criado.');
+    });
+});
+
+describe('getProjectUpdateAuditEntries', () => {
+    it('should record unit changes apart from the other settings', () => {
+        const after = project({
+            name: 'Residencial Novo',
+            housing_units: [{ id: 'u1', name: 'Apto 101A' }, { id: 'u3', name: 'Apto 103' }],
+        });
+        const [units, settings] = getProjectUpdateAuditEntries(project(), after, user, now);
+        expect(units.action).toBe('units_updated');
+        expect(units.description).toBe('Unidades: 1 adicionada (Apto 103); 1 removida (Apto 102); 1 renomeada (Apto 101 → Apto 101A).');
+        expect(settings.action).toBe('settings_updated');
+        expect(settings.changes).toEqual([{ field: 'name', label: 'Nome', before: 'Residencial Teste', after: 'Residencial Novo' }]);
+    });
+
+    it('should record a document reimport as a single event', () => {
+        const after = project({ cost_of_works: 2000, import_metadata: { fre_imported_at: now.toISOString() } });
+        const entries = getProjectUpdateAuditEntries(project(), after, user, now);
+        expect(entries.map(entry => entry.action)).toEqual(['documents_imported']);
+        expect(entries[0].description).toBe('Documento reimportado: FRE.');
+        expect(entries[0].changes?.map(change => change.field)).toEqual(['cost_of_works']);
+    });
+
+    it('should not record anything when nothing relevant changed', () => {
+        expect(getProjectUpdateAuditEntries(project(), project({ progress: { '1.1': { u1: 10 } } }), user, now)).toEqual([]);
+    });
+});
+
+describe('describePlsChanges', () => {
+    it('should list added and removed services and count incidence changes', () => {
+        const before = pls([{ id: '1.1', name: 'Projetos', incidence: 2 }, { id: '1.2', name: 'Canteiro', incidence: 1 }]);
+        const after = pls([{ id: '1.1', name: 'Projetos', incidence: 3 }, { id: '1.3', name: 'Sondagem', incidence: 1 }]);
+        expect(describePlsChanges(before, after)).toBe(
+            'Estrutura da PLS alterada: 1 serviço adicionado (Sondagem); 1 serviço removido (Canteiro); 1 incidência alterada.'
+        );
+    });
+});
+
+describe('filterAuditEntries', () => {
+    const entries = [
+        createAuditEntry('settings_updated', 'Configurações alteradas: Custo da obra.', user, {
+            changes: [{ field: 'cost_of_works', label: 'Custo da obra', before: 'R$ 1.000,00', after: 'R$ 2.000,00' }],
+        }, now),
+        createAuditEntry('member_removed', 'bruno@construtora.com.br removido do projeto.', { uid: 'carla', email: 'carla@construtora.com.br' }, {}, now),
+    ];
+
+    it('should filter by action, user and text in the values', () => {
+        expect(filterAuditEntries(entries, { action: 'member_removed', userEmail: 'all', search: '' })).toEqual([entries[1]]);
+        expect(filterAuditEntries(entries, { action: 'all', userEmail: 'ana@construtora.com.br', search: '' })).toEqual([entries[0]]);
+        expect(filterAuditEntries(entries, { action: 'all', userEmail: 'all', search: '2.000' })).toEqual([entries[0]]);
+        expect(getAuditUsers(entries)).toEqual(['ana@construtora.com.br', 'carla@construtora.com.br']);
+    });
+});
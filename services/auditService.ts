@@ -0,0 +1,287 @@
+/**
+ * @file Serviço com funções puras para a trilha de auditoria do projeto: criação dos eventos,
+ * descrição dos campos alterados (antes e depois) e filtros do visualizador.
+ */
+import {
+    AuditAction, AuditEntry, AuditFieldChange, AuditFilter, HousingUnit, Organization, PlsCategoryTemplate, Project, UserProfile
+} from '../types';
+import { PLS_TEMPLATE } from '../constants';
+import { FINANCIAL_RULE_LABELS } from './financialService';
+
+/**
+ * Nomes dos tipos de evento exibidos na interface.
+ */
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    project_created: 'Projeto criado',
+    settings_updated: 'Configurações',
+    units_updated: 'Unidades',
+    documents_imported: 'Reimportação de documentos',
+    pls_updated: 'Estrutura da PLS',
+    item_renamed: 'Nome de serviço',
+    change_order_applied: 'Aditivo',
+    layouts_updated: 'Layouts de relatório',
+    report_archived: 'Relatório arquivado',
+    measurement_opened: 'Medição aberta',
+    measurement_closed: 'Medição fechada',
+    measurement_reopened: 'Medição reaberta',
+    member_added: 'Membro adicionado',
+    member_role_changed: 'Papel de membro',
+    member_removed: 'Membro removido',
+    invitation_sent: 'Convite enviado',
+    invitation_revoked: 'Convite revogado',
+};
+
+/**
+ * Nomes dos documentos reimportados, indexados pela chave de `import_metadata`.
+ */
+const IMPORTED_DOCUMENT_LABELS: Record<string, string> = {
+    fre_imported_at: 'FRE',
+    pls_imported_at: 'Orçamento (PLS)',
+    schedule_imported_at: 'Cronograma',
+};
+
+/**
+ * Campos que não são registrados como alterações de configuração: o progresso fica no histórico,
+ * os membros e convites têm eventos próprios, e medições, relatórios e aditivos são registrados pelas suas ações.
+ */
+const IGNORED_FIELDS: string[] = [
+    'id', 'ownerId', 'members', 'roles', 'invitations', 'invited_emails', 'created_at',
+    'progress', 'pending_progress', 'history', 'archived_reports', 'report_summaries', 'measurements', 'audit_log',
+    'pls_version', 'pls_versions', 'change_orders', 'import_metadata',
+];
+
+/**
+ * Campos da unidade (e das tipologias), registrados em um evento à parte das demais configurações.
+ */
+const UNIT_FIELDS: string[] = ['housing_units', 'typologies'];
+
+const formatCurrency = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const formatCount = (count: number, singular: string, plural: string) => `${count} ${count === 1 ? singular : plural}`;
+
+const formatCompany = (company: { name: string; cnpj: string }) => [company.name, company.cnpj].filter(Boolean).join(' · ');
+
+const countServices = (pls: PlsCategoryTemplate[]) => pls.reduce((total, category) => total + category.subItems.length, 0);
+
+/**
+ * Nome e formatação dos campos do projeto exibidos na trilha de auditoria.
+ * Campos sem formatação aqui são exibidos pelo nome, com os valores apenas se forem simples (texto, número ou sim/não).
+ */
+const AUDITED_FIELDS: Partial<Record<keyof Project, { label: string; format: (value: unknown) => string }>> = {
+    name: { label: 'Nome', format: String },
+    cost_of_works: { label: 'Custo da obra', format: formatCurrency },
+    total_enterprise_cost: { label: 'Custo total do empreendimento', format: formatCurrency },
+    vgv: { label: 'VGV', format: formatCurrency },
+    address: {
+        label: 'Endereço',
+        format: (address: Project['address']) => [address.street, [address.city, address.state].filter(Boolean).join('/'), address.zip].filter(Boolean).join(', '),
+    },
+    developer: { label: 'Incorporadora', format: formatCompany },
+    construction_company: { label: 'Construtora', format: formatCompany },
+    responsible_engineer: {
+        label: 'Responsável técnico',
+        format: (engineer: Project['responsible_engineer']) => [engineer.name, engineer.crea && `CREA ${engineer.crea}`, engineer.email].filter(Boolean).join(' · '),
+    },
+    require_progress_approval: { label: 'Aprovação do progresso', format: (required: boolean) => required ? 'Exigida' : 'Não exigida' },
+    financial_rule: { label: 'Regra de cálculo', format: (rule: keyof typeof FINANCIAL_RULE_LABELS) => FINANCIAL_RULE_LABELS[rule] || rule },
+    housing_units: { label: 'Unidades', format: (units: HousingUnit[]) => formatCount(units.length, 'unidade', 'unidades') },
+    typologies: { label: 'Tipologias', format: (typologies: unknown[]) => formatCount(typologies.length, 'tipologia', 'tipologias') },
+    pls_data: {
+        label: 'Estrutura da PLS',
+        format: (pls: PlsCategoryTemplate[]) => `${formatCount(countServices(pls), 'serviço', 'serviços')} em ${formatCount(pls.length, 'etapa', 'etapas')}`,
+    },
+    schedule: { label: 'Cronograma', format: (stages: unknown[]) => formatCount(stages.length, 'etapa', 'etapas') },
+    duration_months: { label: 'Duração da obra', format: (months: number) => formatCount(months, 'mês', 'meses') },
+    layouts: { label: 'Layouts de relatório', format: (layouts: unknown[]) => formatCount(layouts.length, 'layout', 'layouts') },
+    template: { label: 'Modelo da biblioteca', format: (template: NonNullable<Project['template']>) => `${template.templateName} v${template.version}` },
+    organizationId: { label: 'Organização', format: String },
+};
+
+/**
+ * Formata o valor de um campo para a trilha de auditoria.
+ */
+const formatFieldValue = (field: keyof Project, value: unknown): string | null => {
+    if (field === 'pls_data' && value === null) return 'Modelo padrão';
+    if (value === undefined || value === null) return null;
+    const audited = AUDITED_FIELDS[field];
+    if (audited) return audited.format(value);
+    return ['string', 'number', 'boolean'].includes(typeof value) ? String(value) : null;
+};
+
+/**
+ * Cria um evento da trilha de auditoria em nome do usuário.
+ * @param {AuditAction} action O tipo de evento.
+ * @param {string} description A descrição legível do evento.
+ * @param {UserProfile} user Quem realizou a ação.
+ * @param {Pick<AuditEntry, 'targetId' | 'reason' | 'changes'>} [details] O objeto afetado, a justificativa e os campos alterados.
+ * @param {Date} [now] O momento do evento.
+ * @returns {AuditEntry} O evento.
+ */
+export const createAuditEntry = (
+    action: AuditAction,
+    description: string,
+    user: UserProfile,
+    details: Pick<AuditEntry, 'targetId' | 'reason' | 'changes'> = {},
+    now: Date = new Date()
+): AuditEntry => ({
+    id: `audit_${now.getTime()}_${action}_${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: now.toISOString(),
+    action,
+    description,
+    // O Firestore não aceita campos `undefined`.
+    ...(details.targetId ? { targetId: details.targetId } : {}),
+    ...(details.reason ? { reason: details.reason } : {}),
+    ...(details.changes?.length ? { changes: details.changes } : {}),
+    userId: user.uid,
+    userEmail: user.email || '',
+});
+
+/**
+ * Lista os campos alterados entre duas versões do projeto, com os valores antes e depois.
+ * @param {Project} before O projeto antes da alteração.
+ * @param {Project} after O projeto depois da alteração.
+ * @returns {AuditFieldChange[]} Os campos alterados.
+ */
+export const getFieldChanges = (before: Project, after: Project): AuditFieldChange[] => {
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)] as (keyof Project)[]))
+        .filter(field => !IGNORED_FIELDS.includes(field));
+    return fields
+        .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+        .map(field => ({
+            field,
+            label: AUDITED_FIELDS[field]?.label || field,
+            before: formatFieldValue(field, before[field]),
+            after: formatFieldValue(field, after[field]),
+        }));
+};
+
+/**
+ * Descreve as unidades adicionadas, removidas e renomeadas.
+ * @param {HousingUnit[]} before As unidades antes da alteração.
+ * @param {HousingUnit[]} after As unidades depois da alteração.
+ * @returns {string} A descrição (ex: "Unidades: 2 adicionadas (Apto 101, Apto 102).").
+ */
+export const describeUnitChanges = (before: HousingUnit[], after: HousingUnit[]): string => {
+    const beforeById = new Map(before.map(unit => [unit.id, unit]));
+    const afterIds = new Set(after.map(unit => unit.id));
+    const added = after.filter(unit => !beforeById.has(unit.id)).map(unit => unit.name);
+    const removed = before.filter(unit => !afterIds.has(unit.id)).map(unit => unit.name);
+    const renamed = after
+        .filter(unit => beforeById.has(unit.id) && beforeById.get(unit.id)!.name !== unit.name)
+        .map(unit => `${beforeById.get(unit.id)!.name} → ${unit.name}`);
+
+    const parts = [
+        added.length > 0 && `${formatCount(added.length, 'adicionada', 'adicionadas')} (${added.join(', ')})`,
+        removed.length > 0 && `${formatCount(removed.length, 'removida', 'removidas')} (${removed.join(', ')})`,
+        renamed.length > 0 && `${formatCount(renamed.length, 'renomeada', 'renomeadas')} (${renamed.join(', ')})`,
+    ].filter(Boolean);
+    return parts.length > 0 ? `Unidades: ${parts.join('; ')}.` : 'Dados das unidades alterados.';
+};
+
+/**
+ * Descreve os serviços adicionados, removidos e com incidência alterada na PLS.
+ * @param {PlsCategoryTemplate[] | null} before A PLS antes da alteração (`null` para o modelo padrão).
+ * @param {PlsCategoryTemplate[] | null} after A PLS depois da alteração (`null` para o modelo padrão).
+ * @returns {string} A descrição (ex: "Estrutura da PLS alterada: 1 serviço adicionado (Piscina).").
+ */
+export const describePlsChanges = (before: PlsCategoryTemplate[] | null, after: PlsCategoryTemplate[] | null): string => {
+    const beforeItems = new Map((before || PLS_TEMPLATE).flatMap(category => category.subItems).map(item => [item.id, item]));
+    const afterItems = (after || PLS_TEMPLATE).flatMap(category => category.subItems);
+    const afterIds = new Set(afterItems.map(item => item.id));
+    const added = afterItems.filter(item => !beforeItems.has(item.id)).map(item => item.name);
+    const removed = Array.from(beforeItems.values()).filter(item => !afterIds.has(item.id)).map(item => item.name);
+    const reweighted = afterItems.filter(item => beforeItems.has(item.id) && beforeItems.get(item.id)!.incidence !== item.incidence);
+
+    const parts = [
+        added.length > 0 && `${formatCount(added.length, 'serviço adicionado', 'serviços adicionados')} (${added.join(', ')})`,
+        removed.length > 0 && `${formatCount(removed.length, 'serviço removido', 'serviços removidos')} (${removed.join(', ')})`,
+        reweighted.length > 0 && formatCount(reweighted.length, 'incidência alterada', 'incidências alteradas'),
+    ].filter(Boolean);
+    return parts.length > 0 ? `Estrutura da PLS alterada: ${parts.join('; ')}.` : 'Estrutura da PLS alterada.';
+};
+
+/**
+ * Cria os eventos de uma alteração das configurações do projeto (dados gerais, unidades ou reimportação de documentos).
+ * Uma reimportação gera um único evento com todos os campos alterados; nas demais alterações,
+ * as unidades são registradas em um evento à parte.
+ * @param {Project} before O projeto antes da alteração.
+ * @param {Project} after O projeto depois da alteração.
+ * @param {UserProfile} user Quem realizou a alteração.
+ * @param {Date} [now] O momento da alteração.
+ * @returns {AuditEntry[]} Os eventos (vazio se nada relevante mudou).
+ */
+export const getProjectUpdateAuditEntries = (before: Project, after: Project, user: UserProfile, now: Date = new Date()): AuditEntry[] => {
+    const changes = getFieldChanges(before, after);
+    const importedDocuments = Object.keys(IMPORTED_DOCUMENT_LABELS)
+        .filter(key => (after.import_metadata as Record<string, string> | undefined)?.[key] !== (before.import_metadata as Record<string, string> | undefined)?.[key])
+        .map(key => IMPORTED_DOCUMENT_LABELS[key]);
+    if (importedDocuments.length > 0) {
+        return [createAuditEntry('documents_imported', `Documento reimportado: ${importedDocuments.join(', ')}.`, user, { changes }, now)];
+    }
+
+    const entries: AuditEntry[] = [];
+    const unitChanges = changes.filter(change => UNIT_FIELDS.includes(change.field));
+    const settingsChanges = changes.filter(change => !UNIT_FIELDS.includes(change.field));
+    if (unitChanges.length > 0) {
+        const description = unitChanges.some(change => change.field === 'housing_units')
+            ? describeUnitChanges(before.housing_units, after.housing_units)
+            : 'Tipologias alteradas.';
+        entries.push(createAuditEntry('units_updated', description, user, { changes: unitChanges }, now));
+    }
+    if (settingsChanges.length > 0) {
+        const description = `Configurações alteradas: ${settingsChanges.map(change => change.label).join(', ')}.`;
+        entries.push(createAuditEntry('settings_updated', description, user, { changes: settingsChanges }, now));
+    }
+    return entries;
+};
+
+/**
+ * Cria o evento da criação de um projeto, com o modelo de onde veio a sua PLS e a organização em que foi criado.
+ * @param {Pick<Project, 'name' | 'template'>} project O projeto criado.
+ * @param {UserProfile} user Quem criou o projeto.
+ * @param {Organization} [organization] A organização do projeto.
+ * @param {Date} [now] O momento da criação.
+ * @returns {AuditEntry} O evento.
+ */
+export const getProjectCreatedAuditEntry = (
+    project: Pick<Project, 'name' | 'template'>,
+    user: UserProfile,
+    organization?: Organization,
+    now: Date = new Date()
+): AuditEntry => {
+    const details = [
+        project.template ? `a partir do modelo ${project.template.templateName} (v${project.template.version})` : null,
+        organization ? `na organização ${organization.name}` : null,
+    ].filter(Boolean);
+    const description = `Projeto ${project.name} criado${details.length ? ` ${details.join(' ')}` : ''}.`;
+    return createAuditEntry('project_created', description, user, {}, now);
+};
+
+/**
+ * Lista os e-mails de quem aparece na trilha de auditoria, para o filtro por usuário.
+ * @param {AuditEntry[]} entries Os eventos.
+ * @returns {string[]} Os e-mails, em ordem alfabética.
+ */
+export const getAuditUsers = (entries: AuditEntry[]): string[] =>
+    Array.from(new Set(entries.map(entry => entry.userEmail).filter((email): email is string => !!email))).sort();
+
+/**
+ * Filtra os eventos da trilha de auditoria pelo tipo, pelo usuário e por um texto.
+ * @param {AuditEntry[]} entries Os eventos.
+ * @param {AuditFilter} filter Os filtros.
+ * @returns {AuditEntry[]} Os eventos que atendem a todos os filtros.
+ */
+export const filterAuditEntries = (entries: AuditEntry[], filter: AuditFilter): AuditEntry[] => {
+    const search = filter.search.trim().toLowerCase();
+    return entries.filter(entry => {
+        if (filter.action !== 'all' && entry.action !== filter.action) return false;
+        if (filter.userEmail !== 'all' && entry.userEmail !== filter.userEmail) return false;
+        if (!search) return true;
+        const text = [
+            entry.description,
+            entry.reason,
+            ...(entry.changes || []).flatMap(change => [change.label, change.before, change.after]),
+        ].filter(Boolean).join(' ').toLowerCase();
+        return text.includes(search);
+    });
+};
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { applyChangeOrder, getMeasurementsInCurrentVersion, remapProgress, suggestItemMapping } from './changeOrderService';
+import { Measurement, PlsCategoryTemplate, Project } from '../types';
+
+const units = [{ id: 'u1', name: 'Casa 01' }, { id: 'u2', name: 'Casa 02' }];
+
+const oldPls: PlsCategoryTemplate[] = [{
+    id: '1',
+    name: 'Serviços Preliminares',
+    subItems: [
+        { id: '1.1', name: 'Escavação', incidence: 3, unit: 'vb' },
+        { id: '1.2', name: 'Aterro', incidence: 1, unit: 'vb' },
+        { id: '1.3', name: 'Gabarito', incidence: 1, unit: 'vb' },
+    ],
+}];
+
+const newPls: PlsCategoryTemplate[] = [{
+    id: '1',
+    name: 'Serviços Preliminares',
+    subItems: [
+        { id: '1.1', name: 'Movimento de terra', incidence: 4, unit: 'vb' },
+        { id: '1.2', name: 'Gabarito', incidence: 1, unit: 'vb' },
+        { id: '1.3', name: 'Locação', incidence: 1, unit: 'vb' },
+    ],
+}];
+
+const project = (overrides: Partial<Project> = {}): Project => ({
+    id: 'p1',
+    housing_units: units,
+    pls_data: oldPls,
+    progress: { '1.1': { u1: 100, u2: 40 }, '1.2': { u1: 20, u2: 80 }, '1.3': { u1: 100, u2: 0 } },
+    cost_of_works: 1000,
+    ...overrides,
+} as Project);
+
+describe('suggestItemMapping', () => {
+    it('should match items by ID first and then by name', () => {
+        const mapping = suggestItemMapping(oldPls, [{ id: '1', name: 'Etapa', subItems: [
+            { id: '1.1', name: 'Escavação', incidence: 3, unit: 'vb' },
+            { id: '1.5', name: 'aterro ', incidence: 1, unit: 'vb' },
+        ] }]);
+
+        expect(mapping).toEqual({ '1.1': '1.1', '1.2': '1.5', '1.3': null });
+    });
+});
+
+describe('remapProgress', () => {
+    it('should carry, merge by incidence and reset progress according to the mapping', () => {
+        const progress = remapProgress(project().progress, { '1.1': '1.1', '1.2': '1.1', '1.3': '1.2' }, oldPls, newPls, units);
+
+        expect(progress['1.1']).toEqual({ u1: 80, u2: 50 });
+        expect(progress['1.2']).toEqual({ u1: 100, u2: 0 });
+        expect(progress['1.3']).toEqual({ u1: 0, u2: 0 });
+    });
+});
+
+describe('applyChangeOrder', () => {
+    it('should keep the previous version and apply the cost delta', () => {
+        const updated = applyChangeOrder(project(), newPls, { date: '2025-03-01', reason: 'Revisão', costDelta: 250, itemMapping: { '1.1': '1.1', '1.2': null, '1.3': '1.2' } }, 'ana@obra.com');
+
+        expect(updated.pls_version).toBe(2);
+        expect(updated.pls_data).toBe(newPls);
+        expect(updated.pls_versions).toEqual([expect.objectContaining({ number: 1, pls_data: oldPls, cost_of_works: 1000 })]);
+        expect(updated.cost_of_works).toBe(1250);
+        expect(updated.change_orders?.[0]).toEqual(expect.objectContaining({ number: 1, fromVersion: 1, toVersion: 2, costDelta: 250, createdBy: 'ana@obra.com' }));
+        expect(updated.progress['1.2']).toEqual({ u1: 100, u2: 0 });
+    });
+
+    it('should reject a change order without a reason or with a non-positive cost', () => {
+        const input = { date: '2025-03-01', reason: ' ', costDelta: 0, itemMapping: {} };
+        expect(() => applyChangeOrder(project(), newPls, input)).toThrow('motivo');
+        expect(() => applyChangeOrder(project(), newPls, { ...input, reason: 'Corte', costDelta: -1000 })).toThrow('maior que zero');
+    });
+});
+
+describe('getMeasurementsInCurrentVersion', () => {
+    it('should remap snapshots measured against a previous version', () => {
+        const measurement: Measurement = {
+            id: 'm1', number: 1, periodStart: '2025-01-01', periodEnd: '2025-01-31', status: 'closed',
+            progressSnapshot: { '1.1': { u1: 50, u2: 50 }, '1.2': { u1: 0, u2: 0 }, '1.3': { u1: 30, u2: 30 } },
+        };
+        const updated = applyChangeOrder(project({ measurements: [measurement] }), newPls, { date: '2025-03-01', reason: 'Revisão', costDelta: 0, itemMapping: { '1.1': '1.1', '1.2': null, '1.3': '1.2' } });
+
+        const [remapped] = getMeasurementsInCurrentVersion(updated);
+        expect(remapped.plsVersion).toBe(2);
+        expect(remapped.progressSnapshot?.['1.2']).toEqual({ u1: 30, u2: 30 });
+        expect(updated.measurements?.[0].progressSnapshot?.['1.3']).toEqual({ u1: 30, u2: 30 });
+    });
+});
@@ -0,0 +1,177 @@
+/**
+ * @file Serviço com funções puras para os aditivos (revisões do orçamento durante a obra) e as versões
+ * da PLS: registro de uma nova versão, correspondência entre os serviços antigos e os novos e conversão
+ * do progresso medido em uma versão anterior para a versão em vigor.
+ */
+import { ChangeOrder, ChangeOrderInput, HousingUnit, Measurement, PlsCategoryTemplate, ProgressMatrix, Project } from '../types';
+import { PLS_TEMPLATE } from '../constants';
+import { COMMON_AREA_UNIT, COMMON_AREA_UNIT_ID, createEmptyProgressRow } from './progressService';
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+const listItems = (pls: PlsCategoryTemplate[]) => pls.flatMap(category => category.subItems);
+
+/**
+ * Retorna o número da versão da PLS em vigor no projeto.
+ * @param {Project} project O projeto.
+ * @returns {number} A versão atual (1 para projetos sem aditivos).
+ */
+export const getCurrentPlsVersion = (project: Project): number => project.pls_version || 1;
+
+/**
+ * Retorna a estrutura da PLS de uma versão do projeto.
+ * @param {Project} project O projeto.
+ * @param {number} version O número da versão.
+ * @returns {PlsCategoryTemplate[] | null} A estrutura da versão, ou `null` se ela não existir.
+ */
+export const getPlsForVersion = (project: Project, version: number): PlsCategoryTemplate[] | null => {
+    if (version === getCurrentPlsVersion(project)) return project.pls_data || PLS_TEMPLATE;
+    return project.pls_versions?.find(v => v.number === version)?.pls_data || null;
+};
+
+/**
+ * Sugere a correspondência entre os serviços de duas versões da PLS: primeiro pelo mesmo ID,
+ * depois pelo mesmo nome. Serviços sem correspondência são marcados como suprimidos (`null`).
+ * @param {PlsCategoryTemplate[]} oldPls A versão anterior.
+ * @param {PlsCategoryTemplate[]} newPls A nova versão.
+ * @returns {Record<string, string | null>} O ID novo de cada serviço antigo.
+ */
+export const suggestItemMapping = (oldPls: PlsCategoryTemplate[], newPls: PlsCategoryTemplate[]): Record<string, string | null> => {
+    const newItems = listItems(newPls);
+    const newIds = new Set(newItems.map(item => item.id));
+    const idsByName = new Map(newItems.map(item => [normalizeName(item.name), item.id]));
+
+    return Object.fromEntries(listItems(oldPls).map(item => {
+        if (newIds.has(item.id)) return [item.id, item.id];
+        return [item.id, idsByName.get(normalizeName(item.name)) || null];
+    }));
+};
+
+/**
+ * Converte a matriz de progresso de uma versão da PLS para outra.
+ * Um serviço novo que corresponde a um único serviço antigo herda o seu progresso; se corresponder a vários
+ * (serviços agrupados), recebe a média ponderada pela incidência de cada um. Serviços novos sem correspondência
+ * começam zerados.
+ * @param {ProgressMatrix} progress A matriz de progresso na versão anterior.
+ * @param {Record<string, string | null>} itemMapping A correspondência entre os IDs antigos e os novos.
+ * @param {PlsCategoryTemplate[]} oldPls A versão anterior.
+ * @param {PlsCategoryTemplate[]} newPls A nova versão.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais do projeto.
+ * @returns {ProgressMatrix} A matriz de progresso na nova versão.
+ */
+export const remapProgress = (
+    progress: ProgressMatrix,
+    itemMapping: Record<string, string | null>,
+    oldPls: PlsCategoryTemplate[],
+    newPls: PlsCategoryTemplate[],
+    housingUnits: HousingUnit[]
+): ProgressMatrix => {
+    const sourcesByTarget = new Map<string, { id: string; incidence: number }[]>();
+    listItems(oldPls).forEach(item => {
+        const targetId = item.id in itemMapping ? itemMapping[item.id] : item.id;
+        if (!targetId) return;
+        sourcesByTarget.set(targetId, [...(sourcesByTarget.get(targetId) || []), { id: item.id, incidence: item.incidence }]);
+    });
+
+    const remapped: ProgressMatrix = {};
+    listItems(newPls).forEach(item => {
+        const sources = (sourcesByTarget.get(item.id) || []).filter(source => progress[source.id]);
+        if (sources.length === 0) {
+            remapped[item.id] = createEmptyProgressRow(housingUnits);
+            return;
+        }
+        if (sources.length === 1) {
+            remapped[item.id] = { ...progress[sources[0].id] };
+            return;
+        }
+        const totalIncidence = sources.reduce((sum, source) => sum + source.incidence, 0);
+        const weightOf = (source: { incidence: number }) => totalIncidence > 0 ? source.incidence / totalIncidence : 1 / sources.length;
+        // O progresso da área comum é combinado como o de mais uma unidade
+        const units = sources.some(source => COMMON_AREA_UNIT_ID in progress[source.id]) ? [...housingUnits, COMMON_AREA_UNIT] : housingUnits;
+        remapped[item.id] = Object.fromEntries(units.map(unit => [
+            unit.id,
+            Math.round(sources.reduce((sum, source) => sum + (progress[source.id][unit.id] || 0) * weightOf(source), 0)),
+        ]));
+    });
+    return remapped;
+};
+
+/**
+ * Registra um aditivo: guarda a PLS atual como versão anterior, passa a usar a nova estrutura,
+ * aplica a variação ao custo das obras e converte o progresso para os novos serviços.
+ * @param {Project} project O projeto.
+ * @param {PlsCategoryTemplate[]} newPls A nova estrutura da PLS.
+ * @param {ChangeOrderInput} input O motivo, a data, a variação de custo e a correspondência dos serviços.
+ * @param {string} [createdBy] O e-mail de quem registrou o aditivo.
+ * @returns {Project} O projeto atualizado.
+ * @throws {Error} Se o motivo não for informado ou o novo custo das obras não for positivo.
+ */
+export const applyChangeOrder = (project: Project, newPls: PlsCategoryTemplate[], input: ChangeOrderInput, createdBy?: string): Project => {
+    if (!input.reason.trim()) {
+        throw new Error("Informe o motivo do aditivo.");
+    }
+    const costOfWorks = (project.cost_of_works || 0) + (input.costDelta || 0);
+    if (costOfWorks <= 0) {
+        throw new Error("O custo das obras após o aditivo deve ser maior que zero.");
+    }
+
+    const oldPls = project.pls_data || PLS_TEMPLATE;
+    const fromVersion = getCurrentPlsVersion(project);
+    const changeOrders = project.change_orders || [];
+    const now = new Date().toISOString();
+    const changeOrder: ChangeOrder = {
+        id: `change_order_${Date.now()}`,
+        number: changeOrders.length + 1,
+        date: input.date,
+        reason: input.reason.trim(),
+        costDelta: input.costDelta || 0,
+        fromVersion,
+        toVersion: fromVersion + 1,
+        itemMapping: input.itemMapping,
+        createdAt: now,
+    };
+    // O Firestore não aceita campos `undefined`.
+    if (createdBy) changeOrder.createdBy = createdBy;
+
+    return {
+        ...project,
+        pls_data: newPls,
+        pls_version: fromVersion + 1,
+        pls_versions: [...(project.pls_versions || []), { number: fromVersion, pls_data: oldPls, cost_of_works: project.cost_of_works, replacedAt: now }],
+        change_orders: [...changeOrders, changeOrder],
+        cost_of_works: costOfWorks,
+        progress: remapProgress(project.progress, input.itemMapping, oldPls, newPls, project.housing_units),
+    };
+};
+
+/**
+ * Converte o snapshot de progresso de uma medição fechada para a versão da PLS em vigor, aplicando em ordem
+ * a correspondência de cada aditivo posterior. Usado para comparar o que já foi medido com o progresso atual.
+ * @param {Project} project O projeto.
+ * @param {Measurement} measurement A medição.
+ * @returns {Measurement} A medição com o snapshot na versão atual (a própria medição, se já estiver nela).
+ */
+export const toCurrentPlsVersion = (project: Project, measurement: Measurement): Measurement => {
+    const measuredVersion = measurement.plsVersion || 1;
+    if (!measurement.progressSnapshot || measuredVersion >= getCurrentPlsVersion(project)) return measurement;
+
+    let progress = measurement.progressSnapshot;
+    (project.change_orders || [])
+        .filter(order => order.fromVersion >= measuredVersion && order.toVersion <= getCurrentPlsVersion(project))
+        .forEach(order => {
+            const oldPls = getPlsForVersion(project, order.fromVersion);
+            const newPls = getPlsForVersion(project, order.toVersion);
+            if (oldPls && newPls) {
+                progress = remapProgress(progress, order.itemMapping, oldPls, newPls, project.housing_units);
+            }
+        });
+    return { ...measurement, progressSnapshot: progress, plsVersion: getCurrentPlsVersion(project) };
+};
+
+/**
+ * Retorna as medições do projeto com os snapshots convertidos para a versão da PLS em vigor.
+ * @param {Project} project O projeto.
+ * @returns {Measurement[]} As medições.
+ */
+export const getMeasurementsInCurrentVersion = (project: Project): Measurement[] =>
+    (project.measurements || []).map(measurement => toCurrentPlsVersion(project, measurement));
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { applyProjectPatch, combineProjectPatches, diffProjects, getActiveEditorsByItem, isEmptyPatch, mergeProjectChanges, PRESENCE_TTL_MS } from './collaborationService';
+import { submitPendingChanges } from './approvalService';
+import { AuditEntry, EditingPresence, ProgressLog, Project } from '../types';
+
+const log = (id: string): ProgressLog => ({
+    id,
+    timestamp: '2025-01-01T10:00:00.000Z',
+    itemId: '1.1',
+    itemName: 'Escavação',
+    unitId: 'u1',
+    unitName: 'Casa 01',
+    oldProgress: 0,
+    newProgress: 50,
+});
+
+const audit = (id: string): AuditEntry => ({
+    id,
+    timestamp: '2025-01-01T10:00:00.000Z',
+    action: 'measurement_reopened',
+    description: 'Medição 1 reaberta.',
+});
+
+const project = (overrides: Partial<Project>): Project => ({
+    id: 'p1',
+    name: 'Residencial',
+    progress: { '1.1': { u1: 0, u2: 0 } },
+    ...overrides,
+} as Project);
+
+describe('mergeProjectChanges', () => {
+    it('should keep concurrent edits made to different cells', () => {
+        const base = project({});
+        const local = project({ progress: { '1.1': { u1: 50, u2: 0 } }, audit_log: [audit('mine')] });
+        const remote = project({ progress: { '1.1': { u1: 0, u2: 80 } }, audit_log: [audit('theirs')] });
+
+        const merged = mergeProjectChanges(base, local, remote);
+
+        expect(merged.progress['1.1']).toEqual({ u1: 50, u2: 80 });
+        expect(merged.audit_log?.map(h => h.id)).toEqual(['mine', 'theirs']);
+    });
+
+    it('should keep remote values of fields not changed locally', () => {
+        const base = project({ name: 'A', cost_of_works: 100 });
+        const local = project({ name: 'B', cost_of_works: 100 });
+        const remote = project({ name: 'A', cost_of_works: 200 });
+
+        const merged = mergeProjectChanges(base, local, remote);
+
+        expect(merged.name).toBe('B');
+        expect(merged.cost_of_works).toBe(200);
+    });
+
+    it('should drop list items removed locally', () => {
+        const base = project({ audit_log: [audit('a'), audit('b')] });
+        const local = project({ audit_log: [audit('a')] });
+        const remote = project({ audit_log: [audit('c'), audit('a'), audit('b')] });
+
+        expect(mergeProjectChanges(base, local, remote).audit_log?.map(h => h.id)).toEqual(['c', 'a']);
+    });
+});
+
+describe('diffProjects', () => {
+    it('should only include the changed cells', () => {
+        const base = project({});
+        const local = project({ progress: { '1.1': { u1: 50, u2: 0 } } });
+
+        const patch = diffProjects(base, local);
+
+        expect(patch.progressCells).toEqual([{ itemId: '1.1', unitId: 'u1', value: 50 }]);
+        expect(patch.fields).toEqual({});
+    });
+
+    it('should remove cells of deleted units and rewrite other changed fields', () => {
+        const base = project({ audit_log: [audit('a'), audit('b')] });
+        const local = project({ progress: { '1.1': { u1: 0 } }, audit_log: [audit('a')] });
+
+        const patch = diffProjects(base, local);
+
+        expect(patch.progressCells).toEqual([{ itemId: '1.1', unitId: 'u2', value: null }]);
+        expect(patch.fields.audit_log?.map(h => h.id)).toEqual(['a']);
+    });
+
+    it('should never write the legacy embedded lists', () => {
+        const patch = diffProjects(project({ history: [log('a')] }), project({}));
+        expect('history' in patch.fields).toBe(false);
+    });
+
+    it('should return an empty patch when nothing changed', () => {
+        expect(isEmptyPatch(diffProjects(project({}), project({})))).toBe(true);
+    });
+});
+
+describe('combineProjectPatches', () => {
+    it('should keep the latest value of each cell and accumulate new history entries', () => {
+        const base = project({});
+        const first = project({ progress: { '1.1': { u1: 50, u2: 0 } } });
+        const second = project({ progress: { '1.1': { u1: 70, u2: 20 } } });
+
+        const combined = combineProjectPatches(
+            { ...diffProjects(base, first), addedHistory: [log('a')] },
+            { ...diffProjects(first, second), addedHistory: [log('b')] }
+        );
+
+        expect(combined.progressCells).toEqual([
+            { itemId: '1.1', unitId: 'u1', value: 70 },
+            { itemId: '1.1', unitId: 'u2', value: 20 },
+        ]);
+        expect(combined.addedHistory.map(h => h.id)).toEqual(['b', 'a']);
+    });
+});
+
+describe('applyProjectPatch', () => {
+    it('should reproduce the local changes on top of the server version', () => {
+        const base = project({ name: 'A' });
+        const local = project({ name: 'B', progress: { '1.1': { u1: 40 } } });
+        const remote = project({ name: 'A', progress: { '1.1': { u1: 0, u2: 90 } }, cost_of_works: 300 });
+
+        const applied = applyProjectPatch(remote, diffProjects(base, local));
+
+        expect(applied.name).toBe('B');
+        expect(applied.cost_of_works).toBe(300);
+        expect(applied.progress['1.1']).toEqual({ u1: 40 });
+    });
+
+    it('should keep both pending changes submitted concurrently from the same version', () => {
+        const base = project({ pending_progress: {} });
+        const mine = project({ pending_progress: submitPendingChanges(base.pending_progress, [log('a')], 'ana@obra.com') });
+        const theirs = project({ pending_progress: submitPendingChanges(base.pending_progress, [{ ...log('b'), unitId: 'u2' }], 'bia@obra.com') });
+
+        const applied = applyProjectPatch(applyProjectPatch(base, diffProjects(base, mine)), diffProjects(base, theirs));
+
+        expect(Object.keys(applied.pending_progress || {}).sort()).toEqual(['a', 'b']);
+    });
+});
+
+describe('getActiveEditorsByItem', () => {
+    const now = Date.parse('2025-01-01T10:00:00.000Z');
+    const presence = (userId: string, itemId: string | null, ageMs = 0): EditingPresence => ({
+        userId,
+        userEmail: `${userId}@obra.com`,
+        itemId,
+        updatedAt: new Date(now - ageMs).toISOString(),
+    });
+
+    it('should group other users by the item they are editing', () => {
+        const editors = getActiveEditorsByItem([presence('me', '1.1'), presence('ana', '1.1'), presence('bia', null)], 'me', now);
+        expect(Object.keys(editors)).toEqual(['1.1']);
+        expect(editors['1.1'].map(e => e.userId)).toEqual(['ana']);
+    });
+
+    it('should ignore expired presences', () => {
+        expect(getActiveEditorsByItem([presence('ana', '1.1', PRESENCE_TTL_MS + 1)], 'me', now)).toEqual({});
+    });
+});
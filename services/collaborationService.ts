@@ -0,0 +1,288 @@
+/**
+ * @file Serviço com funções puras para a edição colaborativa em tempo real: cálculo das alterações
+ * campo a campo de um projeto, mescla de alterações concorrentes e leitura dos indicadores de quem
+ * está editando cada serviço.
+ */
+import { EditingPresence, Project, ProjectPatch } from '../types';
+
+/**
+ * Tempo após o qual uma presença sem atualização é considerada expirada (ex: aba fechada sem limpeza).
+ */
+export const PRESENCE_TTL_MS = 2 * 60 * 1000;
+
+/**
+ * Intervalo em que a presença do usuário é renovada enquanto ele continua editando um serviço.
+ */
+export const PRESENCE_HEARTBEAT_MS = 30 * 1000;
+
+/**
+ * Campos de lista cujos itens possuem `id` e que são mesclados item a item.
+ * O valor indica se novos itens locais entram no início (listas da mais recente para a mais antiga).
+ */
+const ID_LIST_FIELDS: Partial<Record<keyof Project, { prepend: boolean }>> = {
+    audit_log: { prepend: true },
+    report_summaries: { prepend: false },
+    measurements: { prepend: false },
+};
+
+/**
+ * Campos controlados pelo servidor (ou pela gestão de membros) que nunca são sobrescritos pela cópia local.
+ * `history` e `archived_reports` ficam em subcoleções e só aparecem no documento antes da migração.
+ */
+const SERVER_FIELDS: (keyof Project)[] = ['id', 'created_at', 'ownerId', 'members', 'roles', 'history', 'archived_reports'];
+
+const isSame = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Mescla uma lista de itens com `id`: mantém a versão remota, aplicando apenas o que a cópia local
+ * adicionou, alterou ou removeu em relação à base.
+ */
+const mergeById = <T extends { id: string }>(base: T[] = [], local: T[] = [], remote: T[] = [], prepend: boolean): T[] => {
+    const baseById = new Map(base.map(item => [item.id, item]));
+    const localById = new Map(local.map(item => [item.id, item]));
+
+    const merged = remote
+        .filter(item => !(baseById.has(item.id) && !localById.has(item.id)))
+        .map(item => {
+            const localItem = localById.get(item.id);
+            const changedLocally = localItem && !isSame(localItem, baseById.get(item.id));
+            return changedLocally ? localItem : item;
+        });
+
+    const remoteIds = new Set(remote.map(item => item.id));
+    const added = local.filter(item => !baseById.has(item.id) && !remoteIds.has(item.id));
+    return prepend ? [...added, ...merged] : [...merged, ...added];
+};
+
+/**
+ * Mescla a matriz de progresso célula a célula: apenas as células que a cópia local alterou em
+ * relação à base sobrescrevem a versão remota. Serviços removidos localmente também são removidos.
+ */
+const mergeProgress = (base: Project['progress'] = {}, local: Project['progress'] = {}, remote: Project['progress'] = {}): Project['progress'] => {
+    const merged: Project['progress'] = {};
+    Object.entries(remote).forEach(([itemId, row]) => {
+        if (itemId in base && !(itemId in local)) return;
+        merged[itemId] = { ...row };
+    });
+    Object.entries(local).forEach(([itemId, row]) => {
+        Object.entries(row || {}).forEach(([unitId, value]) => {
+            if (base[itemId]?.[unitId] !== value) {
+                merged[itemId] = { ...merged[itemId], [unitId]: value };
+            }
+        });
+    });
+    return merged;
+};
+
+/**
+ * Mescla a fila de aprovação entrada a entrada: apenas as alterações pendentes que a cópia local incluiu
+ * ou removeu em relação à base são aplicadas sobre a versão remota.
+ */
+const mergePendingProgress = (
+    base: Project['pending_progress'] = {},
+    local: Project['pending_progress'] = {},
+    remote: Project['pending_progress'] = {}
+): Project['pending_progress'] => {
+    const merged = { ...remote };
+    Object.keys(base).forEach(id => {
+        if (!(id in local)) delete merged[id];
+    });
+    Object.entries(local).forEach(([id, log]) => {
+        if (!isSame(log, base[id])) merged[id] = log;
+    });
+    return merged;
+};
+
+/**
+ * Aplica as alterações feitas em uma cópia local de um projeto sobre a versão mais recente do servidor.
+ * Células de progresso, alterações pendentes e itens de listas (histórico, relatórios, medições, auditoria) são mesclados
+ * individualmente; os demais campos usam o valor local apenas se foram alterados localmente.
+ * Assim, edições simultâneas em células ou campos diferentes não se sobrescrevem.
+ * @param {Project} base O projeto como estava quando a edição local começou.
+ * @param {Project} local O projeto com as alterações locais.
+ * @param {Project} remote A versão mais recente do projeto no servidor.
+ * @returns {Project} O projeto mesclado.
+ */
+export const mergeProjectChanges = (base: Project, local: Project, remote: Project): Project => {
+    const merged: Record<string, unknown> = { ...remote };
+    const keys = new Set([...Object.keys(local), ...Object.keys(base)] as (keyof Project)[]);
+
+    keys.forEach(key => {
+        if (SERVER_FIELDS.includes(key) || key === 'progress' || key === 'pending_progress' || ID_LIST_FIELDS[key]) return;
+        if (isSame(local[key], base[key])) return;
+        if (local[key] === undefined) {
+            delete merged[key];
+        } else {
+            merged[key] = local[key];
+        }
+    });
+
+    merged.progress = mergeProgress(base.progress, local.progress, remote.progress);
+    if (base.pending_progress || local.pending_progress || remote.pending_progress) {
+        merged.pending_progress = mergePendingProgress(base.pending_progress, local.pending_progress, remote.pending_progress);
+    }
+    (Object.keys(ID_LIST_FIELDS) as (keyof Project)[]).forEach(key => {
+        if (remote[key] === undefined && local[key] === undefined) return;
+        merged[key] = mergeById(base[key] as any[], local[key] as any[], remote[key] as any[], ID_LIST_FIELDS[key]!.prepend);
+    });
+
+    return merged as unknown as Project;
+};
+
+/**
+ * Calcula as alterações entre duas versões de um projeto, para que sejam gravadas campo a campo.
+ * Células de progresso e alterações pendentes viram caminhos individuais; os demais campos alterados são gravados inteiros.
+ * Novos registros de histórico, relatórios e eventos de auditoria não fazem parte do documento e são informados à parte.
+ * @param {Project} base O projeto antes das alterações locais.
+ * @param {Project} local O projeto com as alterações locais.
+ * @returns {ProjectPatch} As alterações a gravar.
+ */
+export const diffProjects = (base: Project, local: Project): ProjectPatch => {
+    const patch: ProjectPatch = {
+        progressCells: [], removedProgressItems: [], pendingProgress: [], addedHistory: [], addedReports: [], addedAudit: [], fields: {},
+    };
+    const baseProgress = base.progress || {};
+    const localProgress = local.progress || {};
+
+    Object.keys(baseProgress).forEach(itemId => {
+        if (!(itemId in localProgress)) patch.removedProgressItems.push(itemId);
+    });
+    Object.entries(localProgress).forEach(([itemId, row]) => {
+        const baseRow = baseProgress[itemId] || {};
+        Object.entries(row || {}).forEach(([unitId, value]) => {
+            if (baseRow[unitId] !== value) patch.progressCells.push({ itemId, unitId, value });
+        });
+        Object.keys(baseRow).forEach(unitId => {
+            if (!(unitId in (row || {}))) patch.progressCells.push({ itemId, unitId, value: null });
+        });
+    });
+
+    const basePending = base.pending_progress || {};
+    const localPending = local.pending_progress || {};
+    Object.keys(basePending).forEach(id => {
+        if (!(id in localPending)) patch.pendingProgress.push({ id, log: null });
+    });
+    Object.entries(localPending).forEach(([id, log]) => {
+        if (!isSame(log, basePending[id])) patch.pendingProgress.push({ id, log });
+    });
+
+    const keys = new Set([...Object.keys(local), ...Object.keys(base)] as (keyof Project)[]);
+    keys.forEach(key => {
+        if (SERVER_FIELDS.includes(key) || key === 'progress' || key === 'pending_progress') return;
+        if (!isSame(local[key], base[key])) {
+            (patch.fields as Record<string, unknown>)[key] = local[key];
+        }
+    });
+    return patch;
+};
+
+/**
+ * Combina duas alterações consecutivas do mesmo projeto em uma só, para gravá-las de uma vez.
+ * Em caso de conflito, prevalece a mais recente (`later`).
+ * @param {ProjectPatch} earlier A alteração mais antiga.
+ * @param {ProjectPatch} later A alteração mais recente.
+ * @returns {ProjectPatch} A alteração combinada.
+ */
+export const combineProjectPatches = (earlier: ProjectPatch, later: ProjectPatch): ProjectPatch => {
+    const cellKey = (cell: ProjectPatch['progressCells'][number]) => `${cell.itemId}\u0000${cell.unitId}`;
+    const cells = new Map(earlier.progressCells
+        .filter(cell => !later.removedProgressItems.includes(cell.itemId))
+        .map(cell => [cellKey(cell), cell]));
+    later.progressCells.forEach(cell => cells.set(cellKey(cell), cell));
+    const laterItems = new Set(later.progressCells.map(cell => cell.itemId));
+    const pending = new Map(earlier.pendingProgress.map(entry => [entry.id, entry]));
+    later.pendingProgress.forEach(entry => pending.set(entry.id, entry));
+
+    return {
+        progressCells: Array.from(cells.values()),
+        removedProgressItems: Array.from(new Set([
+            ...earlier.removedProgressItems.filter(itemId => !laterItems.has(itemId)),
+            ...later.removedProgressItems,
+        ])),
+        pendingProgress: Array.from(pending.values()),
+        addedHistory: [...later.addedHistory, ...earlier.addedHistory],
+        addedReports: [...earlier.addedReports, ...later.addedReports],
+        addedAudit: [...earlier.addedAudit, ...later.addedAudit],
+        fields: { ...earlier.fields, ...later.fields },
+    };
+};
+
+/**
+ * Aplica uma alteração sobre uma versão do projeto, como o Firestore faria ao gravá-la.
+ * Usada para exibir alterações ainda na fila offline sobre a última versão conhecida do servidor.
+ * Novos registros de histórico e relatórios ficam nas subcoleções e não alteram o documento.
+ * @param {Project} project O projeto.
+ * @param {ProjectPatch} patch A alteração.
+ * @returns {Project} O projeto com a alteração aplicada.
+ */
+export const applyProjectPatch = (project: Project, patch: ProjectPatch): Project => {
+    const progress = { ...project.progress };
+    patch.removedProgressItems.forEach(itemId => delete progress[itemId]);
+    patch.progressCells.forEach(({ itemId, unitId, value }) => {
+        const row = { ...progress[itemId] };
+        if (value === null) {
+            delete row[unitId];
+        } else {
+            row[unitId] = value;
+        }
+        progress[itemId] = row;
+    });
+
+    const updated: Record<string, unknown> = { ...project, progress };
+    if (patch.pendingProgress.length > 0) {
+        const pendingProgress = { ...project.pending_progress };
+        patch.pendingProgress.forEach(({ id, log }) => {
+            if (log === null) {
+                delete pendingProgress[id];
+            } else {
+                pendingProgress[id] = log;
+            }
+        });
+        updated.pending_progress = pendingProgress;
+    }
+    Object.entries(patch.fields).forEach(([key, value]) => {
+        if (value === undefined) {
+            delete updated[key];
+        } else {
+            updated[key] = value;
+        }
+    });
+    return updated as unknown as Project;
+};
+
+/**
+ * Indica se uma alteração não possui nada a gravar.
+ * @param {ProjectPatch} patch A alteração.
+ * @returns {boolean} `true` se estiver vazia.
+ */
+export const isEmptyPatch = (patch: ProjectPatch): boolean => {
+    return patch.progressCells.length === 0
+        && patch.removedProgressItems.length === 0
+        && patch.pendingProgress.length === 0
+        && patch.addedHistory.length === 0
+        && patch.addedReports.length === 0
+        && patch.addedAudit.length === 0
+        && Object.keys(patch.fields).length === 0;
+};
+
+/**
+ * Agrupa por serviço os outros usuários que estão editando no momento, ignorando o usuário atual
+ * e presenças expiradas.
+ * @param {EditingPresence[]} presence As presenças registradas no projeto.
+ * @param {string} currentUserId O ID do usuário atual.
+ * @param {number} [now] O instante de referência em milissegundos.
+ * @returns {Record<string, EditingPresence[]>} As presenças ativas indexadas pelo ID do serviço.
+ */
+export const getActiveEditorsByItem = (
+    presence: EditingPresence[],
+    currentUserId: string,
+    now: number = Date.now()
+): Record<string, EditingPresence[]> => {
+    const editors: Record<string, EditingPresence[]> = {};
+    presence.forEach(entry => {
+        if (!entry.itemId || entry.userId === currentUserId) return;
+        if (now - new Date(entry.updatedAt).getTime() > PRESENCE_TTL_MS) return;
+        editors[entry.itemId] = [...(editors[entry.itemId] || []), entry];
+    });
+    return editors;
+};
@@ -6,7 +6,15 @@
 import * as XLSX from 'xlsx';
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { ServiceCategory, ProgressMatrix, Project, Financials, HousingUnit, ReportOptions, LayoutTemplate } from '../types';
+import { ServiceCategory, ProgressMatrix, Project, Financials, HousingUnit, ReportOptions, LayoutTemplate, ProgressLog } from '../types';
+import { buildScheduleCurve, getMeasuredProgressByStage } from './scheduleService';
+import { buildPeriodSummary, getPreviousClosedMeasurement } from './measurementService';
+import { getCurrentPlsVersion, getMeasurementsInCurrentVersion } from './changeOrderService';
+import { COMMON_AREA_UNIT_ID, getCommonAreaProgress, getUnitProgress, isCommonAreaItem } from './progressService';
+import { calculateServiceFinancials, getFinancialRule, getMeasuredIncidenceFormula } from './financialService';
+import { getUnitTypology, hasTypologies, isItemApplicable } from './typologyService';
+import { calculateProjectGroupProgress, groupUnitsByTower, hasUnitGroups, sortUnitsByGroup } from './unitGroupService';
+import { getHistoryExportRows } from './historyService';
 
 /**
  * Formata um valor numérico como moeda no padrão BRL (Real brasileiro).
@@ -46,17 +54,6 @@ type jsPDFWithAutoTable = jsPDF & {
   };
 };
 
-/**
- * Calcula o progresso médio de um serviço em todas as unidades habitacionais.
- * @param {number[]} progressRow Array com o progresso (0-100) para um único serviço.
- * @param {number} unitCount O número total de unidades habitacionais.
- * @returns {number} O progresso médio percentual.
- */
-const getAverageProgress = (progressRow: number[], unitCount: number): number => {
-    if (unitCount === 0) return 0;
-    return progressRow.reduce((a, b) => a + b, 0) / unitCount;
-}
-
 /**
  * Exporta os dados do relatório selecionado para um arquivo JSON.
  * @param {Project} project O objeto completo do projeto.
@@ -68,6 +65,7 @@ export const exportToJSON = (project: Project, plsData: ServiceCategory[], finan
   const reportData: any = {
     reportTitle: options.title,
     generatedAt: new Date().toISOString(),
+    plsVersion: getCurrentPlsVersion(project),
   };
 
   if (options.aiSummary) {
@@ -91,6 +89,13 @@ export const exportToJSON = (project: Project, plsData: ServiceCategory[], finan
 
   if (options.includeFinancialSummary) {
     reportData.financialSummary = financials;
+    const previousMeasurement = getPreviousClosedMeasurement(getMeasurementsInCurrentVersion(project), options.measurementNumber || 1);
+    reportData.periodSummary = buildPeriodSummary(plsData, project.progress, financials, project.housing_units, previousMeasurement);
+  }
+
+  if (options.includeScheduleCurve && project?.schedule && project.schedule.length > 0) {
+    const measured = getMeasuredProgressByStage(project.report_summaries || [], financials.totalProgress, project.measurements);
+    reportData.scheduleCurve = buildScheduleCurve(project.schedule, measured);
   }
 
   if (options.includeProgressTable) {
@@ -105,21 +110,27 @@ export const exportToJSON = (project: Project, plsData: ServiceCategory[], finan
         name: item.name,
         incidence: item.incidence,
         cost: item.cost,
-        progressPerUnit: project?.progress[item.id] || Array(project?.housing_units.length).fill(0),
-        averageProgress: getAverageProgress(project?.progress[item.id] || [], project?.housing_units.length),
+        scope: item.scope || 'unit',
+        // Common-area services have a single value for the whole development
+        progressPerUnit: isCommonAreaItem(item)
+            ? { [COMMON_AREA_UNIT_ID]: getCommonAreaProgress(project.progress[item.id], project.housing_units) }
+            : Object.fromEntries(project.housing_units
+                .filter(unit => isItemApplicable(item, unit.id))
+                .map(unit => [unit.id, getUnitProgress(project.progress, item.id, unit.id)])),
+        averageProgress: calculateServiceFinancials(item, project.progress, project.housing_units).averageProgress,
       })),
     }));
   }
 
   if (options.includeUnitDetails) {
-    const unitsWithProgress = project?.housing_units.map((unit, unitIndex) => {
+    const unitsWithProgress = project?.housing_units.map(unit => {
         const servicesWithProgress = plsData.flatMap(category => {
             const items = category.subItems
                 .map(item => ({ 
                     category: category.name,
                     id: item.id, 
                     name: item.name, 
-                    progress: project?.progress[item.id]?.[unitIndex] || 0 
+                    progress: getUnitProgress(project.progress, item.id, unit.id)
                 }))
                 .filter(item => item.progress > 0);
             return items;
@@ -127,6 +138,9 @@ export const exportToJSON = (project: Project, plsData: ServiceCategory[], finan
         return { unitName: unit.name, unitId: unit.id, services: servicesWithProgress };
     }).filter(u => u.services.length > 0);
     reportData.detailedProgressByUnit = unitsWithProgress;
+    if (hasUnitGroups(project.housing_units)) {
+      reportData.progressByTower = calculateProjectGroupProgress(project, plsData);
+    }
   }
 
   const jsonString = JSON.stringify(reportData, null, 2);
@@ -148,9 +162,15 @@ export const exportToXLSX = (project: Project, plsData: ServiceCategory[], finan
     const merges: XLSX.Range[] = [];
     
     const numUnits = project.housing_units.length;
-    const baseColsCount = 4; // Item, Discriminação, Incidência Global, Incidência Mensurada
+    const financialRule = getFinancialRule(project);
+    const baseColsCount = 5; // Item, Discriminação, Incidência Global, Incidência Mensurada, Incidência do Período
     const totalCols = baseColsCount + numUnits;
 
+    const measurementNumber = options.measurementNumber || 1;
+    const measurement = (project.measurements || []).find(m => m.number === measurementNumber);
+    const previousMeasurement = getPreviousClosedMeasurement(getMeasurementsInCurrentVersion(project), measurementNumber);
+    const periodSummary = buildPeriodSummary(plsData, project.progress, financials, project.housing_units, previousMeasurement);
+
     let currentRow = 0;
 
     // Helper to add a merged row
@@ -167,6 +187,14 @@ export const exportToXLSX = (project: Project, plsData: ServiceCategory[], finan
 
     // 2. Medição (No empty row before)
     addMergedRow(`Medição: ${options.measurementNumber || '1'}`);
+    if (measurement) {
+        const formatPeriodDate = (date: string) => date.split('-').reverse().join('/');
+        addMergedRow(`Período: ${formatPeriodDate(measurement.periodStart)} a ${formatPeriodDate(measurement.periodEnd)}`);
+    }
+    // Após um aditivo, identifica a versão da PLS contra a qual a medição foi feita
+    if (getCurrentPlsVersion(project) > 1) {
+        addMergedRow(`Versão da PLS: ${getCurrentPlsVersion(project)}`);
+    }
 
     // 3. Data da Medição
     const currentDate = new Date().toLocaleDateString('pt-BR');
@@ -203,6 +231,9 @@ export const exportToXLSX = (project: Project, plsData: ServiceCategory[], finan
     const executedRowIndex = currentRow;
     addMergedRow(`Executado: ${formatCurrency(financials.totalReleased)}`);
 
+    // Executado no período (diferença em relação à medição fechada anterior)
+    addMergedRow(`Executado no Período: ${formatCurrency(periodSummary.totalReleased.period)}`);
+
     // 12. Custo da Obra
     addMergedRow(`Custo da Obra: ${formatCurrency(project.cost_of_works)}`);
 
@@ -215,7 +246,12 @@ export const exportToXLSX = (project: Project, plsData: ServiceCategory[], finan
         'Discriminação do Evento',
         'Incidência Global (%)',
         'Incidência Mensurada (%)',
-        ...project.housing_units.map(u => u.name)
+        'Incidência do Período (%)',
+        // Em projetos com tipologias, cada coluna de unidade indica a sua tipologia
+        ...project.housing_units.map(u => {
+            const typology = hasTypologies(project) ? getUnitTypology(project, u) : undefined;
+            return typology ? `${u.name} (${typology.name})` : u.name;
+        })
     ]);
     
     // Calculate where data starts (current AOA length is the header row, so data starts at length)
@@ -248,11 +284,15 @@ export const exportToXLSX = (project: Project, plsData: ServiceCategory[], finan
             ? `SUM(C${subItemsStartRow}:C${subItemsEndRow})` 
             : undefined;
         
-        // Col D (Measured Inc): Sum of sub-items column D multiplied by Global Incidence * 10
+        // Col D (Measured Inc): Sum of sub-items column D, with the project's calculation rule applied
+        // (e.g. multiplied by Global Incidence * 10)
         const catMeasuredIncFormula = numSubItems > 0
-            ? `SUM(D${subItemsStartRow}:D${subItemsEndRow})*C${categoryExcelRow}*10`
+            ? getMeasuredIncidenceFormula(`SUM(D${subItemsStartRow}:D${subItemsEndRow})`, `C${categoryExcelRow}`, financialRule)
             : undefined;
 
+        // Col E (Period Inc): Measured incidence minus the frozen value of the previous measurement
+        const catPreviousMeasured = periodSummary.categories[category.id].measuredIncidence.previous / 100;
+
         // Category row (macro-item)
         const categoryRowData: any[] = [
             `${category.id}.0`, 
@@ -263,7 +303,8 @@ export const exportToXLSX = (project: Project, plsData: ServiceCategory[], finan
                 : { t: 'n', v: category.totalIncidence / 100, z: '0.00%' },
             catMeasuredIncFormula
                 ? { t: 'n', f: catMeasuredIncFormula, z: '0.00%' }
-                : { t: 'n', v: 0, z: '0.00%' } // Initial value 0 if no items
+                : { t: 'n', v: 0, z: '0.00%' }, // Initial value 0 if no items
+            { t: 'n', f: `D${categoryExcelRow}-${catPreviousMeasured}`, z: '0.00%' }
         ];
 
         // Apply style to each cell in the category row
@@ -282,19 +323,43 @@ export const exportToXLSX = (project: Project, plsData: ServiceCategory[], finan
 
         // Sub-items rows
         category.subItems.forEach((item, index) => {
-            const currentProgressRow = project.progress[item.id] || Array(numUnits).fill(0);
+            const isCommonArea = isCommonAreaItem(item);
+            // Units that don't execute the service (typology without it) get a dash instead of a percentage.
+            // Common-area services have a single value in column F, merged across all unit columns.
+            const currentProgressRow = isCommonArea
+                ? [{ t: 'n', v: getCommonAreaProgress(project.progress[item.id], project.housing_units) / 100, z: '0.00%' }]
+                : project.housing_units.map(unit => isItemApplicable(item, unit.id)
+                    ? { t: 'n', v: getUnitProgress(project.progress, item.id, unit.id) / 100, z: '0.00%' }
+                    : '—');
             
             // FORMULA FOR SUB-ITEM MEASURED INCIDENCE
-            // Col D = Col C (Incidence) * AVERAGE(Col E : Col Last)
+            // Col D = Col C (Incidence) * AVERAGE(Col F : Col Last)
             // Excel Row for this item: categoryExcelRow + 1 + index
             const itemExcelRow = categoryExcelRow + 1 + index;
             
             let itemMeasuredFormula = undefined;
-            if (numUnits > 0) {
-                const firstUnitCol = XLSX.utils.encode_col(4); // Column E (index 4)
-                const lastUnitCol = XLSX.utils.encode_col(4 + numUnits - 1);
-                // Formula: =C{row} * AVERAGE(E{row}:LastUnit{row})
-                itemMeasuredFormula = `C${itemExcelRow}*AVERAGE(${firstUnitCol}${itemExcelRow}:${lastUnitCol}${itemExcelRow})`;
+            if (isCommonArea) {
+                // Formula: =C{row} * F{row}
+                itemMeasuredFormula = `C${itemExcelRow}*F${itemExcelRow}`;
+                if (numUnits > 1) merges.push({ s: { r: itemExcelRow - 1, c: 5 }, e: { r: itemExcelRow - 1, c: 5 + numUnits - 1 } });
+            } else if (numUnits > 0) {
+                const firstUnitCol = XLSX.utils.encode_col(5); // Column F (index 5)
+                const lastUnitCol = XLSX.utils.encode_col(5 + numUnits - 1);
+                const unitRange = `${firstUnitCol}${itemExcelRow}:${lastUnitCol}${itemExcelRow}`;
+                if (item.unitWeights) {
+                    // With typologies the average is weighted by each unit's share of the service
+                    // Formula: =C{row} * SUMPRODUCT(F{row}:LastUnit{row}, {w1,w2,...})
+                    const weights = project.housing_units.map(unit => item.unitWeights![unit.id] || 0);
+                    const applicableCount = project.housing_units.filter(unit => isItemApplicable(item, unit.id)).length;
+                    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+                    const normalized = project.housing_units.map((unit, i) => totalWeight > 0
+                        ? weights[i] / totalWeight
+                        : (isItemApplicable(item, unit.id) && applicableCount > 0 ? 1 / applicableCount : 0));
+                    itemMeasuredFormula = `C${itemExcelRow}*SUMPRODUCT(${unitRange},{${normalized.map(w => Number(w.toFixed(10))).join(',')}})`;
+                } else {
+                    // Formula: =C{row} * AVERAGE(F{row}:LastUnit{row})
+                    itemMeasuredFormula = `C${itemExcelRow}*AVERAGE(${unitRange})`;
+                }
             }
 
             aoa.push([
@@ -304,7 +369,8 @@ export const exportToXLSX = (project: Project, plsData: ServiceCategory[], finan
                 itemMeasuredFormula 
                     ? { t: 'n', f: itemMeasuredFormula, z: '0.00%' } 
                     : { t: 'n', v: 0, z: '0.00%' },
-                ...currentProgressRow.map(p => ({ t: 'n', v: p / 100, z: '0.00%' })),
+                { t: 'n', f: `D${itemExcelRow}-${(item.incidence / 100) * (periodSummary.items[item.id].progress.previous / 100)}`, z: '0.00%' },
+                ...currentProgressRow,
             ]);
         });
     });
@@ -320,6 +386,10 @@ export const exportToXLSX = (project: Project, plsData: ServiceCategory[], finan
         ? `SUM(${categoryRowIndices.map(row => `D${row}`).join('+')})` 
         : '0';
 
+    const periodIncidenceSumFormula = categoryRowIndices.length > 0 
+        ? `SUM(${categoryRowIndices.map(row => `E${row}`).join('+')})` 
+        : '0';
+
     // The total row is the next row index
     const totalRowIndex = aoa.length + 1;
 
@@ -329,6 +399,7 @@ export const exportToXLSX = (project: Project, plsData: ServiceCategory[], finan
         { v: '', s: totalStyle },
         { t: 'n', f: globalIncidenceSumFormula, z: '0.00%', s: totalStyle }, // Col C
         { t: 'n', f: measuredIncidenceSumFormula, z: '0.00%', s: totalStyle }, // Col D
+        { t: 'n', f: periodIncidenceSumFormula, z: '0.00%', s: totalStyle }, // Col E
         // Empty cells for unit columns, but styled
         ...Array(numUnits).fill({ v: '', s: totalStyle })
     ];
@@ -359,12 +430,33 @@ export const exportToXLSX = (project: Project, plsData: ServiceCategory[], finan
         { wch: 50 }, // Discriminação
         { wch: 20 }, // Incidência Global
         { wch: 20 }, // Incidência Mensurada
+        { wch: 20 }, // Incidência do Período
         ...Array(numUnits).fill({ wch: 8 }) // Units
     ];
     ws['!cols'] = wscols;
 
     XLSX.utils.book_append_sheet(wb, ws, 'PLS');
 
+    // Vertical projects get a rollup sheet by tower and floor
+    if (hasUnitGroups(project.housing_units)) {
+        const groupAoa: any[][] = [['Torre', 'Andar', 'Unidades', 'Unidades Concluídas', 'Progresso (%)']];
+        calculateProjectGroupProgress(project, plsData).forEach(tower => {
+            groupAoa.push([
+                { v: tower.name, s: totalStyle },
+                { v: 'Total', s: totalStyle },
+                { v: tower.unitCount, s: totalStyle },
+                { v: tower.completedUnits, s: totalStyle },
+                { t: 'n', v: tower.progress / 100, z: '0.00%', s: totalStyle },
+            ]);
+            (tower.floors || []).forEach(floor => {
+                groupAoa.push([tower.name, floor.name, floor.unitCount, floor.completedUnits, { t: 'n', v: floor.progress / 100, z: '0.00%' }]);
+            });
+        });
+        const groupWs = XLSX.utils.aoa_to_sheet(groupAoa);
+        groupWs['!cols'] = [{ wch: 20 }, { wch: 15 }, { wch: 10 }, { wch: 20 }, { wch: 15 }];
+        XLSX.utils.book_append_sheet(wb, groupWs, 'Torres');
+    }
+
     const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
     const blob = new Blob([wbout], { type: 'application/octet-stream' });
     triggerDownload(blob, `PLS_${project.name.replace(/\s+/g, '_')}_${options.measurementNumber}.xlsx`);
@@ -377,8 +469,7 @@ export const exportToXLSX = (project: Project, plsData: ServiceCategory[], finan
  * @param {HousingUnit} unit A unidade a ser exportada.
  */
 export const exportUnitToJSON = (project: Project, plsData: ServiceCategory[], unit: HousingUnit) => {
-    const unitIndex = project.housing_units.findIndex(u => u.id === unit.id);
-    if (unitIndex === -1) return;
+    if (!project.housing_units.some(u => u.id === unit.id)) return;
 
     const exportData = {
         project: project.name,
@@ -389,7 +480,7 @@ export const exportUnitToJSON = (project: Project, plsData: ServiceCategory[], u
 
     plsData.forEach(category => {
         category.subItems.forEach(item => {
-            const progress = project.progress[item.id]?.[unitIndex] || 0;
+            const progress = getUnitProgress(project.progress, item.id, unit.id);
             if (progress > 0) {
                 exportData.progress.push({
                     category: category.name,
@@ -411,8 +502,7 @@ export const exportUnitToJSON = (project: Project, plsData: ServiceCategory[], u
  * @param {HousingUnit} unit A unidade a ser exportada.
  */
 export const exportUnitToCSV = (project: Project, plsData: ServiceCategory[], unit: HousingUnit) => {
-    const unitIndex = project.housing_units.findIndex(u => u.id === unit.id);
-    if (unitIndex === -1) return;
+    if (!project.housing_units.some(u => u.id === unit.id)) return;
 
     const aoa = [
         ['Projeto', project.name],
@@ -424,7 +514,7 @@ export const exportUnitToCSV = (project: Project, plsData: ServiceCategory[], un
 
     plsData.forEach(category => {
         category.subItems.forEach(item => {
-            const progress = project.progress[item.id]?.[unitIndex] || 0;
+            const progress = getUnitProgress(project.progress, item.id, unit.id);
             if (progress > 0) {
                 aoa.push([category.name, item.name, `${progress}%`]);
             }
@@ -439,6 +529,27 @@ export const exportUnitToCSV = (project: Project, plsData: ServiceCategory[], un
     triggerDownload(blob, `Relatorio_${unit.name.replace(/\s+/g, '_')}.xlsx`);
 };
 
+/**
+ * Exporta o histórico de progresso para um arquivo XLSX (Excel), com o autor e a origem de cada alteração.
+ * @param {string} projectName O nome do projeto.
+ * @param {ProgressLog[]} logs Os registros a exportar.
+ */
+export const exportHistoryToXLSX = (projectName: string, logs: ProgressLog[]) => {
+    const aoa = [
+        ['Projeto', projectName],
+        ['Data', new Date().toLocaleDateString('pt-BR')],
+        [],
+        ...getHistoryExportRows(logs),
+    ];
+
+    const ws = XLSX.utils.aoa_to_sheet(aoa);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Histórico");
+    const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+    const blob = new Blob([wbout], { type: 'application/octet-stream' });
+    triggerDownload(blob, `Historico_${projectName.replace(/\s+/g, '_')}.xlsx`);
+};
+
 /**
  * Exporta os dados do relatório selecionado para um arquivo PDF.
  * @param {Project} project O objeto completo do projeto.
@@ -468,6 +579,10 @@ export const exportToPDF = async (project: Project, plsData: ServiceCategory[],
   const margin = 15;
   let cursorY = margin;
 
+  // Executado no período: diferença em relação à medição fechada anterior
+  const previousMeasurement = getPreviousClosedMeasurement(getMeasurementsInCurrentVersion(project), options.measurementNumber || 1);
+  const periodSummary = buildPeriodSummary(plsData, project.progress, financials, project.housing_units, previousMeasurement);
+
   // --- Helper Functions ---
   const addHeader = () => {
       const currentWidth = doc.internal.pageSize.width;
@@ -536,6 +651,11 @@ export const exportToPDF = async (project: Project, plsData: ServiceCategory[],
   
   doc.text(`Data da medição: ${new Date().toLocaleDateString('pt-BR')}`, metadataX, cursorY);
   cursorY += lineHeight;
+
+  if (getCurrentPlsVersion(project) > 1) {
+    doc.text(`Versão da PLS: ${getCurrentPlsVersion(project)}`, metadataX, cursorY);
+    cursorY += lineHeight;
+  }
   
   doc.text(`Empreendimento: ${project.name}`, metadataX, cursorY);
   cursorY += 15; // Gap before stakeholders
@@ -633,6 +753,7 @@ export const exportToPDF = async (project: Project, plsData: ServiceCategory[],
           `${cat.totalIncidence.toFixed(2)}%`,
           `${cat.measuredIncidence.toFixed(2)}%`,
           '', // Progress Bar column
+          formatCurrency(periodSummary.categories[cat.id]?.released.period || 0),
           formatCurrency(cat.released),
           formatCurrency(cat.totalCost)
       ]);
@@ -644,13 +765,14 @@ export const exportToPDF = async (project: Project, plsData: ServiceCategory[],
       
       autoTable(doc, {
           startY: cursorY,
-          head: [['Etapa', 'Incidência Global', 'Incidência Mensurada', 'Progresso', 'Valor Liberado', 'Custo Total']],
+          head: [['Etapa', 'Incidência Global', 'Incidência Mensurada', 'Progresso', 'Liberado no Período', 'Valor Liberado (Acum.)', 'Custo Total']],
           body: summaryBody,
           foot: [[
               'TOTAL', 
               `${totalGlobalIncidence.toFixed(2)}%`, 
               `${totalMeasuredIncidence.toFixed(2)}%`,
               '',
+              formatCurrency(periodSummary.totalReleased.period),
               formatCurrency(totalReleased), 
               formatCurrency(totalCost)
           ]],
@@ -674,7 +796,8 @@ export const exportToPDF = async (project: Project, plsData: ServiceCategory[],
               2: { halign: 'center' },
               3: { cellWidth: 25 },
               4: { halign: 'right' },
-              5: { halign: 'right' }
+              5: { halign: 'right' },
+              6: { halign: 'right' }
           },
           didDrawCell: (data) => {
               if (data.section === 'body' && data.column.index === 3) {
@@ -722,6 +845,7 @@ export const exportToPDF = async (project: Project, plsData: ServiceCategory[],
       filteredPls.forEach(cat => {
           const categoryMeasuredIncidence = financials.categoryTotals.find(c => c.id === cat.id)?.measuredIncidence || 0;
           const categoryReleased = financials.categoryTotals.find(c => c.id === cat.id)?.released || 0;
+          const categoryPeriod = periodSummary.categories[cat.id];
 
           // Category Header Row - Gray Background
           tableBody.push([
@@ -729,15 +853,16 @@ export const exportToPDF = async (project: Project, plsData: ServiceCategory[],
               { content: `${cat.totalIncidence.toFixed(2)}%`, styles: { fontStyle: 'bold', fillColor: [240, 240, 240], textColor: 0, halign: 'center' } },
               { content: `${categoryMeasuredIncidence.toFixed(2)}%`, styles: { fontStyle: 'bold', fillColor: [240, 240, 240], textColor: 0, halign: 'center' } },
               { content: '', styles: { fillColor: [240, 240, 240] } }, 
+              { content: `${(categoryPeriod?.measuredIncidence.period || 0).toFixed(2)}%`, styles: { fontStyle: 'bold', fillColor: [240, 240, 240], textColor: 0, halign: 'center' } },
+              { content: formatCurrency(categoryPeriod?.released.period || 0), styles: { fontStyle: 'bold', fillColor: [240, 240, 240], textColor: 0, halign: 'right' } },
               { content: formatCurrency(categoryReleased), styles: { fontStyle: 'bold', fillColor: [240, 240, 240], textColor: 0, halign: 'right' } },
               { content: formatCurrency(cat.totalCost), styles: { fontStyle: 'bold', fillColor: [240, 240, 240], textColor: 0, halign: 'right' } }
           ]);
 
           cat.subItems.forEach(item => {
-              const itemProgress = project.progress[item.id] || [];
-              const avgProgress = getAverageProgress(itemProgress, project.housing_units.length);
-              const itemMeasuredIncidence = item.incidence * (avgProgress / 100);
-              const itemReleasedValue = item.cost * (avgProgress / 100);
+              const { averageProgress: avgProgress, measuredIncidence: itemMeasuredIncidence, released: itemReleasedValue } =
+                  calculateServiceFinancials(item, project.progress, project.housing_units);
+              const itemPeriod = periodSummary.items[item.id];
 
               tableBody.push([
                   item.id,
@@ -745,6 +870,8 @@ export const exportToPDF = async (project: Project, plsData: ServiceCategory[],
                   `${item.incidence.toFixed(2)}%`,
                   `${itemMeasuredIncidence.toFixed(2)}%`,
                   `${avgProgress.toFixed(2)}%`, // Hidden by hook
+                  `${(itemPeriod?.progress.period || 0).toFixed(2)}%`,
+                  formatCurrency(itemPeriod?.released.period || 0),
                   formatCurrency(itemReleasedValue),
                   formatCurrency(item.cost)
               ]);
@@ -753,7 +880,7 @@ export const exportToPDF = async (project: Project, plsData: ServiceCategory[],
 
       autoTable(doc, {
           startY: startY,
-          head: [['ID', 'Serviço', 'Incidência Global', 'Incidência Mensurada', 'Prog. Médio', 'Valor Liberado', 'Custo Total']],
+          head: [['ID', 'Serviço', 'Incidência Global', 'Incidência Mensurada', 'Prog. Médio (Acum.)', 'Prog. Período', 'Liberado no Período', 'Valor Liberado (Acum.)', 'Custo Total']],
           body: tableBody,
           theme: 'plain',
           headStyles: { 
@@ -768,9 +895,11 @@ export const exportToPDF = async (project: Project, plsData: ServiceCategory[],
               1: { cellWidth: 'auto' },
               2: { cellWidth: 18, halign: 'center' },
               3: { cellWidth: 18, halign: 'center' },
-              4: { cellWidth: 25, halign: 'center' },
-              5: { cellWidth: 22, halign: 'right' },
+              4: { cellWidth: 20, halign: 'center' },
+              5: { cellWidth: 18, halign: 'center' },
               6: { cellWidth: 22, halign: 'right' },
+              7: { cellWidth: 22, halign: 'right' },
+              8: { cellWidth: 22, halign: 'right' },
           },
           didDrawCell: (data) => {
               // Draw Progress Bar in column 4 (index 4)
@@ -779,6 +908,157 @@ export const exportToPDF = async (project: Project, plsData: ServiceCategory[],
       });
   }
 
+  // --- S-Curve: Planned Schedule vs. Measured Progress ---
+  if (options.includeScheduleCurve && project.schedule && project.schedule.length > 0) {
+      const measured = getMeasuredProgressByStage(project.report_summaries || [], financials.totalProgress, project.measurements);
+      const curve = buildScheduleCurve(project.schedule, measured);
+
+      doc.addPage('a4', 'landscape');
+      addHeader();
+      let startY = 25;
+      const currentWidth = doc.internal.pageSize.width;
+
+      doc.setFontSize(14);
+      doc.setTextColor(0);
+      doc.setFont(fontFamily, 'bold');
+      doc.text("Curva S - Cronograma Previsto x Progresso Medido", margin, startY);
+      startY += 8;
+
+      // Chart area
+      const chartX = margin + 12;
+      const chartWidth = currentWidth - chartX - margin;
+      const chartHeight = 70;
+      const chartTop = startY;
+      const getX = (index: number) => chartX + (curve.length > 1 ? (index / (curve.length - 1)) * chartWidth : chartWidth / 2);
+      const getY = (value: number) => chartTop + (1 - Math.min(Math.max(value, 0), 100) / 100) * chartHeight;
+
+      doc.setFontSize(7);
+      doc.setFont(fontFamily, 'normal');
+      doc.setTextColor(100);
+      doc.setLineWidth(0.1);
+      doc.setDrawColor(200);
+      [0, 25, 50, 75, 100].forEach(tick => {
+          doc.line(chartX, getY(tick), chartX + chartWidth, getY(tick));
+          doc.text(`${tick}%`, chartX - 2, getY(tick) + 1, { align: 'right' });
+      });
+      curve.forEach((point, index) => {
+          doc.text(String(point.stage), getX(index), chartTop + chartHeight + 5, { align: 'center' });
+      });
+
+      const drawSeries = (values: (number | null)[], color: string, width: number, dashed = false) => {
+          doc.setDrawColor(color);
+          doc.setLineWidth(width);
+          doc.setLineDashPattern(dashed ? [1.5, 1.5] : [], 0);
+          let previous: { x: number; y: number } | null = null;
+          values.forEach((value, index) => {
+              if (value === null) return;
+              const current = { x: getX(index), y: getY(value) };
+              if (previous) doc.line(previous.x, previous.y, current.x, current.y);
+              previous = current;
+          });
+          doc.setLineDashPattern([], 0);
+      };
+
+      drawSeries(curve.map(p => p.plannedFinancial), '#969696', 0.4, true);
+      drawSeries(curve.map(p => p.plannedPhysical), primaryColor, 0.6);
+      drawSeries(curve.map(p => p.actualProgress), '#f59e0b', 0.8);
+      curve.forEach((point, index) => {
+          if (point.actualProgress === null) return;
+          if (point.isBehind) {
+              doc.setFillColor(244, 63, 94); // rose-500
+          } else {
+              doc.setFillColor(245, 158, 11); // amber-500
+          }
+          doc.circle(getX(index), getY(point.actualProgress), point.isBehind ? 1.2 : 0.8, 'F');
+      });
+
+      // Legend
+      const legendY = chartTop + chartHeight + 12;
+      const legend: [string, string, boolean][] = [
+          ['Físico previsto', primaryColor, false],
+          ['Financeiro previsto', '#969696', true],
+          ['Medido', '#f59e0b', false],
+      ];
+      let legendX = chartX;
+      doc.setFontSize(8);
+      doc.setTextColor(textColor);
+      legend.forEach(([label, color, dashed]) => {
+          doc.setDrawColor(color);
+          doc.setLineWidth(0.6);
+          doc.setLineDashPattern(dashed ? [1.5, 1.5] : [], 0);
+          doc.line(legendX, legendY - 1, legendX + 8, legendY - 1);
+          doc.setLineDashPattern([], 0);
+          doc.text(label, legendX + 10, legendY);
+          legendX += doc.getTextWidth(label) + 20;
+      });
+      doc.setFillColor(244, 63, 94);
+      doc.circle(legendX + 2, legendY - 1, 1.2, 'F');
+      doc.text('Etapa em atraso', legendX + 5, legendY);
+      doc.setLineWidth(0.2);
+      doc.setDrawColor(0);
+
+      autoTable(doc, {
+          startY: legendY + 6,
+          head: [['Etapa', 'Físico Previsto (Acum.)', 'Financeiro Previsto (Acum.)', 'Progresso Medido', 'Desvio (p.p.)', 'Situação']],
+          body: curve.map(point => [
+              String(point.stage),
+              `${point.plannedPhysical.toFixed(2)}%`,
+              `${point.plannedFinancial.toFixed(2)}%`,
+              point.actualProgress !== null ? `${point.actualProgress.toFixed(2)}%` : '-',
+              point.deviation !== null ? point.deviation.toFixed(2) : '-',
+              point.actualProgress === null ? 'Não medida' : point.isBehind ? 'Em atraso' : 'Em dia',
+          ]),
+          theme: 'grid',
+          headStyles: { fillColor: [44, 62, 80], textColor: 255, fontSize: 8, halign: 'center' },
+          bodyStyles: { fontSize: 8, cellPadding: 1.5, halign: 'center' },
+          didParseCell: (data) => {
+              if (data.section === 'body' && curve[data.row.index]?.isBehind) {
+                  data.cell.styles.fillColor = [255, 228, 230]; // rose-100
+                  data.cell.styles.textColor = [190, 18, 60]; // rose-700
+              }
+          }
+      });
+  }
+
+  // --- Progress by Tower and Floor (vertical projects) ---
+  if (options.includeUnitDetails && hasUnitGroups(project.housing_units)) {
+      let startY = doc.lastAutoTable?.finalY ? doc.lastAutoTable.finalY + 15 : 25;
+      if (startY > doc.internal.pageSize.height - 40) {
+          doc.addPage();
+          addHeader();
+          startY = 25;
+      }
+
+      doc.setFontSize(14);
+      doc.setTextColor(0);
+      doc.setFont(fontFamily, 'bold');
+      doc.text("Progresso por Torre e Andar", margin, startY);
+      startY += 5;
+
+      const groupBody: any[] = [];
+      calculateProjectGroupProgress(project, plsData).forEach(tower => {
+          groupBody.push([
+              { content: tower.name, styles: { fontStyle: 'bold' } },
+              { content: 'Total', styles: { fontStyle: 'bold' } },
+              { content: `${tower.completedUnits}/${tower.unitCount}`, styles: { fontStyle: 'bold' } },
+              { content: `${tower.progress.toFixed(2)}%`, styles: { fontStyle: 'bold' } },
+          ]);
+          (tower.floors || []).forEach(floor => {
+              groupBody.push(['', floor.name, `${floor.completedUnits}/${floor.unitCount}`, `${floor.progress.toFixed(2)}%`]);
+          });
+      });
+
+      autoTable(doc, {
+          startY: startY,
+          head: [['Torre', 'Andar', 'Unidades Concluídas', 'Progresso']],
+          body: groupBody,
+          theme: 'grid',
+          headStyles: { fillColor: [44, 62, 80], textColor: 255, fontSize: 8 },
+          bodyStyles: { fontSize: 8, cellPadding: 1.5 },
+          columnStyles: { 2: { halign: 'center' }, 3: { halign: 'right' } },
+      });
+  }
+
   // --- Matrix of Progress (Page 4-5 Reference) ---
   if (options.includeUnitDetails) {
       doc.addPage('a4', 'landscape'); // Force landscape for Matrix
@@ -805,18 +1085,31 @@ export const exportToPDF = async (project: Project, plsData: ServiceCategory[],
       
       // Limit units displayed if too many to avoid crash, or split tables (advanced). 
       // For this implementation, we will list all units but use very small font.
-      const units = project.housing_units;
+      // Vertical projects: units ordered by tower and floor, with the tower names spanning their columns
+      const grouped = hasUnitGroups(project.housing_units);
+      const units = grouped ? sortUnitsByGroup(project.housing_units) : project.housing_units;
       
-      const head = [['Serviço', ...units.map((u, i) => `${i+1}`)]];
+      const head: any[][] = grouped
+          ? [
+              [{ content: 'Serviço', rowSpan: 2 }, ...groupUnitsByTower(units).map(tower => ({ content: tower.name, colSpan: tower.units.length }))],
+              units.map(u => u.name.replace(u.tower ? `${u.tower} - ` : '', '')),
+            ]
+          : [['Serviço', ...units.map((u, i) => `${i+1}`)]];
       const body: any[] = [];
 
       filteredPls.forEach(cat => {
           cat.subItems.forEach(item => {
-              const progressRow = project.progress[item.id] || [];
+              // Common-area services: a single cell spanning all unit columns
+              if (isCommonAreaItem(item)) {
+                  const val = Math.round(getCommonAreaProgress(project.progress[item.id], project.housing_units));
+                  body.push([item.name, { content: `Área comum: ${val}%`, colSpan: Math.max(1, units.length) }]);
+                  return;
+              }
               const rowData = [
                   item.name,
-                  ...units.map((_, i) => {
-                      const val = progressRow[i] || 0;
+                  ...units.map(unit => {
+                      if (!isItemApplicable(item, unit.id)) return '—';
+                      const val = getUnitProgress(project.progress, item.id, unit.id);
                       return val === 100 ? 'X' : val === 0 ? '' : `${val}`;
                   })
               ];
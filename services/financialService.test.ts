@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildServiceCategories, calculateFinancials, calculateProjectFinancials, calculateUnitFinancials, getMeasuredIncidenceFormula
+} from './financialService';
+import { HousingUnit, PlsCategoryTemplate, ProgressMatrix, Project } from '../types';
+
+const template: PlsCategoryTemplate[] = [{
+    id: '1',
+    name: 'Fundação',
+    subItems: [
+        { id: '1.1', name: 'Escavação', incidence: 8, unit: '%' },
+        { id: '1.2', name: 'Concreto', incidence: 12, unit: '%' },
+    ],
+}];
+
+const units: HousingUnit[] = [{ id: 'u1', name: 'Casa 01' }, { id: 'u2', name: 'Casa 02' }];
+const progress: ProgressMatrix = { '1.1': { u1: 100, u2: 100 }, '1.2': { u1: 50, u2: 0 } };
+const plsData = buildServiceCategories(template, 100000);
+
+describe('buildServiceCategories', () => {
+    it('should compute incidences and costs from the cost of works', () => {
+        expect(plsData[0].totalIncidence).toBe(20);
+        expect(plsData[0].totalCost).toBe(20000);
+        expect(plsData[0].subItems.map(item => item.cost)).toEqual([8000, 12000]);
+    });
+});
+
+describe('calculateFinancials', () => {
+    it('should apply the sum of subitems times global incidence times 10 rule', () => {
+        // Soma dos sub-itens: 8 * 100% + 12 * 25% = 11 pontos; 11 * 0,20 * 10 = 22.
+        const financials = calculateFinancials(plsData, progress, units, 100000, 'global_incidence_x10');
+        expect(financials.totalProgress).toBeCloseTo(22);
+        expect(financials.totalReleased).toBeCloseTo(22000);
+        expect(financials.balanceToMeasure).toBeCloseTo(78000);
+    });
+
+    it('should use the incidence-weighted average with the standard rule', () => {
+        const financials = calculateFinancials(plsData, progress, units, 100000, 'weighted_average');
+        expect(financials.totalProgress).toBeCloseTo(11);
+        expect(financials.categoryTotals[0].progress).toBeCloseTo(55);
+    });
+
+    it('should return the whole cost as balance when there are no units', () => {
+        expect(calculateFinancials(plsData, progress, [], 100000, 'weighted_average')).toEqual({
+            totalProgress: 0, totalReleased: 0, categoryTotals: [], balanceToMeasure: 100000,
+        });
+    });
+});
+
+describe('calculateProjectFinancials', () => {
+    it('should use the project structure and its selected rule', () => {
+        const project = { cost_of_works: 100000, pls_data: template, progress, housing_units: units, financial_rule: 'weighted_average' } as Project;
+        expect(calculateProjectFinancials(project).totalProgress).toBeCloseTo(11);
+        expect(calculateProjectFinancials({ ...project, financial_rule: undefined }).totalProgress).toBeCloseTo(22);
+    });
+});
+
+describe('calculateUnitFinancials', () => {
+    it('should weight each unit progress with the same rule', () => {
+        const [first, second] = calculateUnitFinancials(plsData, progress, units, 'weighted_average');
+        expect(first.progress).toBeCloseTo(14);
+        expect(second.progress).toBeCloseTo(8);
+    });
+});
+
+describe('getMeasuredIncidenceFormula', () => {
+    it('should build the spreadsheet formula for each rule', () => {
+        expect(getMeasuredIncidenceFormula('SUM(D2:D3)', 'C1', 'global_incidence_x10')).toBe('SUM(D2:D3)*C1*10');
+        expect(getMeasuredIncidenceFormula('SUM(D2:D3)', 'C1', 'weighted_average')).toBe('SUM(D2:D3)');
+    });
+});
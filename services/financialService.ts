@@ -0,0 +1,267 @@
+/**
+ * @file Serviço com funções puras para os cálculos financeiros da PLS: estrutura de custos das etapas,
+ * incidência medida e valor liberado do projeto, de cada etapa, de cada serviço e de cada unidade.
+ * É a única implementação das fórmulas, usada pelas telas, pelos relatórios e pelas medições.
+ */
+import {
+    CategoryFinancials, FinancialRule, Financials, HousingUnit, PlsCategoryTemplate, ProgressMatrix,
+    Project, ServiceCategory, ServiceFinancials, ServiceSubItem, UnitFinancials
+} from '../types';
+import { PLS_TEMPLATE } from '../constants';
+import { getAverageItemProgress, getCommonAreaProgress, getUnitProgress, getWeightedItemProgress, isCommonAreaItem } from './progressService';
+import { getTypologyPls, getUnitCostShares, getUnitTypology, hasTypologies, mergePlsStructures } from './typologyService';
+
+/**
+ * Regra usada pelos projetos que não escolheram uma.
+ */
+export const DEFAULT_FINANCIAL_RULE: FinancialRule = 'global_incidence_x10';
+
+/**
+ * Nomes das regras exibidos na interface.
+ */
+export const FINANCIAL_RULE_LABELS: Record<FinancialRule, string> = {
+    global_incidence_x10: 'Soma dos sub-itens × Incidência global × 10',
+    weighted_average: 'Média ponderada pela incidência',
+};
+
+/**
+ * Retorna a regra de cálculo de um projeto.
+ * @param {Pick<Project, 'financial_rule'>} project O projeto.
+ * @returns {FinancialRule} A regra escolhida ou a padrão.
+ */
+export const getFinancialRule = (project: Pick<Project, 'financial_rule'>): FinancialRule => {
+    return project.financial_rule || DEFAULT_FINANCIAL_RULE;
+};
+
+/**
+ * Monta a estrutura de serviços com as incidências totais e os custos de cada etapa e serviço.
+ * @param {PlsCategoryTemplate[]} template A estrutura da PLS.
+ * @param {number} costOfWorks O custo total da obra.
+ * @returns {ServiceCategory[]} As etapas com os valores calculados.
+ */
+export const buildServiceCategories = (template: PlsCategoryTemplate[], costOfWorks: number): ServiceCategory[] => {
+    let accumulated = 0;
+    return template.map(category => {
+        const totalIncidence = category.subItems.reduce((sum, item) => sum + (item.incidence || 0), 0);
+        accumulated += totalIncidence;
+        return {
+            ...category,
+            totalIncidence,
+            accumulatedPercentage: accumulated,
+            totalCost: (totalIncidence / 100) * costOfWorks,
+            subItems: category.subItems.map(item => ({
+                ...item,
+                cost: (item.incidence / 100) * costOfWorks
+            }))
+        };
+    });
+};
+
+/**
+ * Monta a estrutura de serviços de um projeto com tipologias. Reúne os serviços das PLS de todas as tipologias;
+ * a incidência de cada serviço no projeto é a soma das incidências na PLS de cada unidade, ponderadas pela
+ * fração do custo das obras que cabe à unidade.
+ * @param {Project} project O projeto.
+ * @param {PlsCategoryTemplate[]} projectPls A PLS do projeto.
+ * @param {number} costOfWorks O custo total da obra.
+ * @returns {ServiceCategory[]} As etapas com os valores calculados e as parcelas de cada unidade.
+ */
+const buildTypologyServiceCategories = (project: Project, projectPls: PlsCategoryTemplate[], costOfWorks: number): ServiceCategory[] => {
+    const shares = getUnitCostShares(project);
+    const incidencesByUnit = new Map<string, Map<string, number>>();
+    const structures = new Map<string, PlsCategoryTemplate[]>();
+    project.housing_units.forEach(unit => {
+        const typology = getUnitTypology(project, unit);
+        const key = typology?.id || '';
+        if (!structures.has(key)) structures.set(key, getTypologyPls(projectPls, typology));
+        const pls = structures.get(key)!;
+        incidencesByUnit.set(unit.id, new Map(pls.flatMap(category => category.subItems.map(item => [item.id, item.incidence] as const))));
+    });
+
+    const template = mergePlsStructures([projectPls, ...structures.values()]).map(category => ({
+        ...category,
+        subItems: category.subItems.map(item => {
+            const unitIncidences: Record<string, number> = {};
+            const unitWeights: Record<string, number> = {};
+            project.housing_units.forEach(unit => {
+                const incidence = incidencesByUnit.get(unit.id)?.get(item.id);
+                if (incidence === undefined) return;
+                unitIncidences[unit.id] = incidence;
+                unitWeights[unit.id] = shares[unit.id] * incidence;
+            });
+            const incidence = Object.values(unitWeights).reduce((sum, weight) => sum + weight, 0);
+            return { ...item, incidence, unitIncidences, unitWeights };
+        }),
+    }));
+    return buildServiceCategories(template, costOfWorks);
+};
+
+/**
+ * Monta a estrutura de serviços de um projeto (PLS personalizada ou o modelo padrão).
+ * Em projetos com tipologias, combina as PLS das tipologias (ver `buildTypologyServiceCategories`).
+ * @param {Project} project O projeto.
+ * @returns {ServiceCategory[]} As etapas com os valores calculados.
+ */
+export const getProjectServiceCategories = (project: Project): ServiceCategory[] => {
+    const costOfWorks = typeof project.cost_of_works === 'number' ? project.cost_of_works : 0;
+    const projectPls = project.pls_data || PLS_TEMPLATE;
+    if (hasTypologies(project)) return buildTypologyServiceCategories(project, projectPls, costOfWorks);
+    return buildServiceCategories(projectPls, costOfWorks);
+};
+
+/**
+ * Aplica a regra de cálculo à soma das incidências medidas dos serviços de uma etapa.
+ * @param {number} measuredSum A soma das incidências medidas dos serviços (pontos percentuais do projeto).
+ * @param {number} totalIncidence A incidência global da etapa (%).
+ * @param {FinancialRule} rule A regra de cálculo.
+ * @returns {number} A incidência medida da etapa (%).
+ */
+export const applyFinancialRule = (measuredSum: number, totalIncidence: number, rule: FinancialRule): number => {
+    if (rule === 'weighted_average') return measuredSum;
+    // Soma dos sub-itens × incidência global da etapa (em decimal) × 10.
+    return measuredSum * (totalIncidence / 100) * 10;
+};
+
+/**
+ * Monta a fórmula de planilha equivalente a `applyFinancialRule`, para que a PLS exportada recalcule como a aplicação.
+ * @param {string} measuredSum A expressão com a soma das incidências medidas dos serviços (em decimal).
+ * @param {string} totalIncidence A referência à incidência global da etapa (em decimal).
+ * @param {FinancialRule} rule A regra de cálculo.
+ * @returns {string} A fórmula, sem o sinal de igual.
+ */
+export const getMeasuredIncidenceFormula = (measuredSum: string, totalIncidence: string, rule: FinancialRule): string => {
+    return rule === 'weighted_average' ? measuredSum : `${measuredSum}*${totalIncidence}*10`;
+};
+
+/**
+ * Calcula a incidência medida e o valor liberado de um serviço pelo progresso médio das unidades
+ * (ponderado pela parcela de cada unidade, em projetos com tipologias) ou, nos serviços da área comum,
+ * pelo progresso único do empreendimento.
+ * @param {ServiceSubItem} item O serviço.
+ * @param {ProgressMatrix} progress A matriz de progresso.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais.
+ * @returns {ServiceFinancials} Os valores do serviço.
+ */
+export const calculateServiceFinancials = (item: ServiceSubItem, progress: ProgressMatrix, housingUnits: HousingUnit[]): ServiceFinancials => {
+    const averageProgress = isCommonAreaItem(item)
+        ? getCommonAreaProgress(progress[item.id], housingUnits)
+        : item.unitWeights
+            ? getWeightedItemProgress(progress[item.id], item.unitWeights, housingUnits)
+            : getAverageItemProgress(progress[item.id], housingUnits);
+    const incidence = typeof item.incidence === 'number' ? item.incidence : 0;
+    return {
+        id: item.id,
+        averageProgress,
+        measuredIncidence: (averageProgress / 100) * incidence,
+        released: ((item.cost || 0) * averageProgress) / 100,
+    };
+};
+
+/**
+ * Calcula os valores de uma etapa a partir do progresso médio dos seus serviços.
+ * @param {ServiceCategory} category A etapa.
+ * @param {ProgressMatrix} progress A matriz de progresso.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais.
+ * @param {number} costOfWorks O custo total da obra.
+ * @param {FinancialRule} rule A regra de cálculo.
+ * @returns {CategoryFinancials} Os valores da etapa.
+ */
+export const calculateCategoryFinancials = (
+    category: ServiceCategory,
+    progress: ProgressMatrix,
+    housingUnits: HousingUnit[],
+    costOfWorks: number,
+    rule: FinancialRule
+): CategoryFinancials => {
+    const measuredSum = category.subItems
+        .reduce((sum, item) => sum + calculateServiceFinancials(item, progress, housingUnits).measuredIncidence, 0);
+    const measuredIncidence = applyFinancialRule(measuredSum, category.totalIncidence, rule);
+    return {
+        id: category.id,
+        name: category.name,
+        released: (measuredIncidence / 100) * costOfWorks,
+        progress: category.totalIncidence > 0 ? (measuredIncidence / category.totalIncidence) * 100 : 0,
+        totalCost: category.totalCost,
+        totalIncidence: category.totalIncidence,
+        measuredIncidence,
+    };
+};
+
+/**
+ * Calcula o resumo financeiro do projeto: progresso ponderado, valor liberado, saldo e valores por etapa.
+ * @param {ServiceCategory[]} plsData A estrutura de serviços calculada.
+ * @param {ProgressMatrix} progress A matriz de progresso.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais.
+ * @param {number} costOfWorks O custo total da obra.
+ * @param {FinancialRule} rule A regra de cálculo.
+ * @returns {Financials} O resumo financeiro.
+ */
+export const calculateFinancials = (
+    plsData: ServiceCategory[],
+    progress: ProgressMatrix,
+    housingUnits: HousingUnit[],
+    costOfWorks: number,
+    rule: FinancialRule
+): Financials => {
+    // Protege contra dados incompletos (ex: vindos de um backup antigo).
+    if (!Array.isArray(housingUnits) || housingUnits.length === 0 || typeof progress !== 'object' || !progress) {
+        return { totalProgress: 0, totalReleased: 0, categoryTotals: [], balanceToMeasure: costOfWorks };
+    }
+
+    const categoryTotals = plsData.map(category => calculateCategoryFinancials(category, progress, housingUnits, costOfWorks, rule));
+    const totalProgress = categoryTotals.reduce((sum, category) => sum + category.measuredIncidence, 0);
+    const totalReleased = (totalProgress / 100) * costOfWorks;
+
+    const finalProgress = isNaN(totalProgress) ? 0 : totalProgress;
+    const finalReleased = isNaN(totalReleased) ? 0 : totalReleased;
+    return {
+        totalProgress: finalProgress,
+        totalReleased: finalReleased,
+        categoryTotals,
+        balanceToMeasure: costOfWorks - finalReleased,
+    };
+};
+
+/**
+ * Calcula o resumo financeiro de um projeto com a sua estrutura de serviços e a sua regra de cálculo.
+ * @param {Project} project O projeto.
+ * @returns {Financials} O resumo financeiro.
+ */
+export const calculateProjectFinancials = (project: Project): Financials => {
+    const costOfWorks = typeof project.cost_of_works === 'number' ? project.cost_of_works : 0;
+    return calculateFinancials(getProjectServiceCategories(project), project.progress, project.housing_units, costOfWorks, getFinancialRule(project));
+};
+
+/**
+ * Calcula o progresso ponderado de cada unidade habitacional, com a mesma regra das etapas.
+ * Em projetos com tipologias, cada unidade é medida contra a PLS da sua tipologia.
+ * Os serviços da área comum contam para todas as unidades com o progresso do empreendimento.
+ * @param {ServiceCategory[]} plsData A estrutura de serviços calculada.
+ * @param {ProgressMatrix} progress A matriz de progresso.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais.
+ * @param {FinancialRule} rule A regra de cálculo.
+ * @returns {UnitFinancials[]} O progresso de cada unidade.
+ */
+export const calculateUnitFinancials = (
+    plsData: ServiceCategory[],
+    progress: ProgressMatrix,
+    housingUnits: HousingUnit[],
+    rule: FinancialRule
+): UnitFinancials[] => {
+    return housingUnits.map(unit => ({
+        id: unit.id,
+        name: unit.name,
+        progress: plsData.reduce((total, category) => {
+            const incidenceFor = (item: ServiceSubItem) => item.unitIncidences ? item.unitIncidences[unit.id] || 0 : item.incidence;
+            const progressOf = (item: ServiceSubItem) => isCommonAreaItem(item)
+                ? getCommonAreaProgress(progress[item.id], housingUnits)
+                : getUnitProgress(progress, item.id, unit.id);
+            const measuredSum = category.subItems
+                .reduce((sum, item) => sum + (progressOf(item) / 100) * incidenceFor(item), 0);
+            const totalIncidence = category.subItems.some(item => item.unitIncidences)
+                ? category.subItems.reduce((sum, item) => sum + incidenceFor(item), 0)
+                : category.totalIncidence;
+            return total + applyFinancialRule(measuredSum, totalIncidence, rule);
+        }, 0),
+    }));
+};
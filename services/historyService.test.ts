@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+    filterProgressLogs, getHistoryAuthors, getHistoryExportRows, getProgressAsOf, getProgressLogAuthor, getProgressLogAuthorEmail, markImportedHistory
+} from './historyService';
+import { ProgressLog } from '../types';
+
+const log = (id: string, overrides: Partial<ProgressLog> = {}): ProgressLog => ({
+    id,
+    timestamp: '2025-01-01T10:00:00.000Z',
+    itemId: '1.1',
+    itemName: 'Alvenaria',
+    unitId: 'u1',
+    unitName: 'Casa 1',
+    oldProgress: 0,
+    newProgress: 50,
+    ...overrides,
+});
+
+describe('getProgressLogAuthor', () => {
+    it('should record the user and the source without undefined fields', () => {
+        expect(getProgressLogAuthor({ uid: 'ana', email: 'ana@example.com' }, 'table'))
+            .toEqual({ userId: 'ana', userEmail: 'ana@example.com', source: 'table' });
+        expect(getProgressLogAuthor({ uid: 'ana', email: null }, 'bulk')).toEqual({ userId: 'ana', source: 'bulk' });
+    });
+});
+
+describe('getProgressLogAuthorEmail', () => {
+    it('should fall back to who submitted older logs for approval', () => {
+        expect(getProgressLogAuthorEmail(log('1', { userEmail: 'ana@example.com', submittedBy: 'bruno@example.com' }))).toBe('ana@example.com');
+        expect(getProgressLogAuthorEmail(log('2', { submittedBy: 'bruno@example.com' }))).toBe('bruno@example.com');
+        expect(getProgressLogAuthorEmail(log('3'))).toBeUndefined();
+    });
+});
+
+describe('filterProgressLogs', () => {
+    const logs = [
+        log('1', { userEmail: 'ana@example.com', source: 'table' }),
+        log('2', { userEmail: 'bruno@example.com', source: 'assistant', itemName: 'Pintura' }),
+        log('3', { unitName: 'Casa 2' }),
+    ];
+
+    it('should filter by source, author and service or unit', () => {
+        expect(filterProgressLogs(logs, { source: 'assistant', userEmail: 'all', search: '' }).map(l => l.id)).toEqual(['2']);
+        expect(filterProgressLogs(logs, { source: 'all', userEmail: 'ana@example.com', search: '' }).map(l => l.id)).toEqual(['1']);
+        expect(filterProgressLogs(logs, { source: 'all', userEmail: 'all', search: 'casa 2' }).map(l => l.id)).toEqual(['3']);
+        expect(getHistoryAuthors(logs)).toEqual(['ana@example.com', 'bruno@example.com']);
+    });
+});
+
+describe('markImportedHistory', () => {
+    it('should mark only the logs without a source and keep their author', () => {
+        const [older, recent] = markImportedHistory([log('1', { userEmail: 'ana@example.com' }), log('2', { source: 'bulk' })]);
+        expect(older).toEqual(log('1', { userEmail: 'ana@example.com', source: 'import' }));
+        expect(recent.source).toBe('bulk');
+    });
+});
+
+describe('getHistoryExportRows', () => {
+    it('should include the author, the source and the approval of each change', () => {
+        const rows = getHistoryExportRows([log('1', { userEmail: 'ana@example.com', source: 'bulk', status: 'approved', reviewedBy: 'eng@example.com' })]);
+        expect(rows[0]).toContain('Autor');
+        expect(rows[1].slice(1)).toEqual(['Alvenaria', 'Casa 1', 0, 50, 'ana@example.com', 'Edição em lote', 'Aprovada', 'eng@example.com']);
+    });
+});
+
+describe('getProgressAsOf', () => {
+    const history = [
+        log('1', { timestamp: '2025-01-10T10:00:00.000Z', oldProgress: 0, newProgress: 30 }),
+        log('2', { timestamp: '2025-02-10T10:00:00.000Z', oldProgress: 30, newProgress: 60 }),
+        log('3', { timestamp: '2025-02-12T10:00:00.000Z', unitId: 'u2', oldProgress: 0, newProgress: 100 }),
+        log('4', { timestamp: '2025-03-01T10:00:00.000Z', oldProgress: 60, newProgress: 90, status: 'approved' }),
+        log('5', { timestamp: '2025-03-05T10:00:00.000Z', oldProgress: 90, newProgress: 10, status: 'rejected' }),
+    ];
+    const progress = { '1.1': { u1: 90, u2: 100 }, '1.2': { u1: 40 } };
+
+    it('should undo the changes made after the date, newest first', () => {
+        expect(getProgressAsOf(progress, history, '2025-02-11T00:00:00.000Z')).toEqual({ '1.1': { u1: 60, u2: 0 }, '1.2': { u1: 40 } });
+        expect(getProgressAsOf(progress, [...history].reverse(), '2025-01-01T00:00:00.000Z')).toEqual({ '1.1': { u1: 0, u2: 0 }, '1.2': { u1: 40 } });
+    });
+
+    it('should keep the current progress when nothing changed after the date', () => {
+        expect(getProgressAsOf(progress, history, '2025-04-01T00:00:00.000Z')).toEqual(progress);
+        expect(progress['1.1']).toEqual({ u1: 90, u2: 100 });
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * @file Serviço com funções puras para o histórico de progresso: autoria e origem dos registros,
+ * filtros do histórico, linhas da exportação e reconstrução do progresso em uma data passada.
+ */
+import { HistoryFilter, ProgressLog, ProgressLogSource, ProgressMatrix, UserProfile } from '../types';
+
+/**
+ * Nomes das origens das alterações exibidos na interface.
+ */
+export const PROGRESS_LOG_SOURCE_LABELS: Record<ProgressLogSource, string> = {
+    table: 'Tabela',
+    bulk: 'Edição em lote',
+    assistant: 'Assistente de texto',
+    import: 'Importação',
+    undo: 'Desfazer/refazer',
+};
+
+/**
+ * Monta os campos de autoria de um registro de histórico.
+ * @param {UserProfile} user Quem fez a alteração.
+ * @param {ProgressLogSource} source Por onde a alteração foi feita.
+ * @returns {Pick<ProgressLog, 'userId' | 'userEmail' | 'source'>} Os campos, sem valores indefinidos.
+ */
+export const getProgressLogAuthor = (user: UserProfile, source: ProgressLogSource): Pick<ProgressLog, 'userId' | 'userEmail' | 'source'> => ({
+    userId: user.uid,
+    ...(user.email ? { userEmail: user.email } : {}),
+    source,
+});
+
+/**
+ * Retorna o e-mail de quem fez a alteração. Nos registros anteriores à autoria, usa quem a enviou
+ * para aprovação, quando houver.
+ * @param {ProgressLog} log O registro.
+ * @returns {string | undefined} O e-mail (ou o UID, se o autor não tiver e-mail).
+ */
+export const getProgressLogAuthorEmail = (log: ProgressLog): string | undefined => log.userEmail || log.submittedBy || log.userId;
+
+/**
+ * Lista, sem repetições e em ordem alfabética, os autores dos registros.
+ * @param {ProgressLog[]} logs Os registros.
+ * @returns {string[]} Os e-mails dos autores.
+ */
+export const getHistoryAuthors = (logs: ProgressLog[]): string[] =>
+    Array.from(new Set(logs.map(getProgressLogAuthorEmail).filter((email): email is string => !!email))).sort();
+
+/**
+ * Filtra o histórico pela origem, pelo autor e por um texto buscado no serviço e na unidade.
+ * @param {ProgressLog[]} logs Os registros.
+ * @param {HistoryFilter} filter Os filtros.
+ * @returns {ProgressLog[]} Os registros que atendem a todos os filtros.
+ */
+export const filterProgressLogs = (logs: ProgressLog[], filter: HistoryFilter): ProgressLog[] => {
+    const search = filter.search.trim().toLowerCase();
+    return logs.filter(log => {
+        if (filter.source !== 'all' && log.source !== filter.source) return false;
+        if (filter.userEmail !== 'all' && getProgressLogAuthorEmail(log) !== filter.userEmail) return false;
+        return !search || log.itemName.toLowerCase().includes(search) || log.unitName.toLowerCase().includes(search);
+    });
+};
+
+/**
+ * Marca como importados os registros de um backup que ainda não têm origem, mantendo a autoria original.
+ * @param {ProgressLog[]} history O histórico do backup.
+ * @returns {ProgressLog[]} O histórico com a origem preenchida.
+ */
+export const markImportedHistory = (history: ProgressLog[]): ProgressLog[] =>
+    history.map(log => log.source ? log : { ...log, source: 'import' });
+
+/**
+ * Monta as linhas da exportação do histórico, com cabeçalho.
+ * @param {ProgressLog[]} logs Os registros, na ordem em que serão exportados.
+ * @returns {(string | number)[][]} As linhas da planilha.
+ */
+export const getHistoryExportRows = (logs: ProgressLog[]): (string | number)[][] => [
+    ['Data', 'Serviço', 'Unidade', 'Progresso anterior (%)', 'Novo progresso (%)', 'Autor', 'Origem', 'Aprovação', 'Revisado por'],
+    ...logs.map(log => [
+        new Date(log.timestamp).toLocaleString('pt-BR'),
+        log.itemName,
+        log.unitName,
+        log.oldProgress,
+        log.newProgress,
+        getProgressLogAuthorEmail(log) || '',
+        log.source ? PROGRESS_LOG_SOURCE_LABELS[log.source] : '',
+        log.status === 'approved' ? 'Aprovada' : log.status === 'rejected' ? 'Rejeitada' : '',
+        log.reviewedBy || '',
+    ]),
+];
+
+/**
+ * Converte uma data (`AAAA-MM-DD`, como a de um `<input type="date">`) no último instante desse dia no fuso local.
+ * @param {string} date A data.
+ * @returns {string} O instante em formato ISO.
+ */
+export const getEndOfDay = (date: string): string => new Date(`${date}T23:59:59.999`).toISOString();
+
+/**
+ * Reconstrói a matriz de progresso em um instante passado, desfazendo do mais recente para o mais antigo
+ * os registros do histórico posteriores a ele. Alterações rejeitadas não mudaram o progresso e são ignoradas.
+ * A estrutura da PLS e as unidades não são reconstruídas: a matriz mantém as células atuais.
+ * @param {ProgressMatrix} progress A matriz de progresso atual.
+ * @param {ProgressLog[]} history O histórico completo do projeto, em qualquer ordem.
+ * @param {string} asOf O instante em formato ISO.
+ * @returns {ProgressMatrix} A matriz de progresso como estava no instante.
+ */
+export const getProgressAsOf = (progress: ProgressMatrix, history: ProgressLog[], asOf: string): ProgressMatrix => {
+    const result: ProgressMatrix = Object.fromEntries(Object.entries(progress).map(([itemId, row]) => [itemId, { ...row }]));
+    history
+        .filter(log => log.timestamp > asOf && log.status !== 'rejected' && log.status !== 'pending')
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .forEach(log => {
+            result[log.itemId] = { ...result[log.itemId], [log.unitId]: log.oldProgress };
+        });
+    return result;
+};
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { buildInvitationMessage, createInvitation, getAcceptableInvitation, getInvitations, isInvitationExpired } from './invitationService';
+import { Project, UserProfile } from '../types';
+
+const inviter: UserProfile = { uid: 'owner', email: 'dono@construtora.com.br' };
+const now = new Date('2025-03-01T12:00:00.000Z');
+
+describe('project invitations', () => {
+    it('should normalize the email and expire after the validity period', () => {
+        const invitation = createInvitation('  Novo@Exemplo.com ', 'editor', inviter, now);
+        expect(invitation.email).toBe('novo@exemplo.com');
+        expect(invitation.invitedBy).toBe('owner');
+        expect(invitation.expiresAt).toBe('2025-03-15T12:00:00.000Z');
+        expect(isInvitationExpired(invitation, new Date('2025-03-15T11:59:59.000Z'))).toBe(false);
+        expect(isInvitationExpired(invitation, new Date('2025-03-15T12:00:00.000Z'))).toBe(true);
+    });
+
+    it('should only accept valid invitations for the same email', () => {
+        const invitation = createInvitation('novo@exemplo.com', 'approver', inviter, now);
+        const older = createInvitation('antigo@exemplo.com', 'viewer', inviter, new Date('2025-01-01T00:00:00.000Z'));
+        const project = { name: 'Residencial', invitations: { [invitation.email]: invitation, [older.email]: older } } as unknown as Project;
+
+        expect(getInvitations(project).map(i => i.email)).toEqual(['novo@exemplo.com', 'antigo@exemplo.com']);
+        expect(getAcceptableInvitation(project, 'NOVO@exemplo.com', now)).toBe(invitation);
+        expect(getAcceptableInvitation(project, 'antigo@exemplo.com', now)).toBeNull();
+        expect(getAcceptableInvitation(project, 'outro@exemplo.com', now)).toBeNull();
+    });
+
+    it('should address the message to the invited email with the role and the app link', () => {
+        const invitation = createInvitation('novo@exemplo.com', 'viewer', inviter, now);
+        const message = buildInvitationMessage({ name: 'Residencial' } as Project, invitation, 'https://app.exemplo.com');
+        expect(message.to).toBe('novo@exemplo.com');
+        expect(message.subject).toContain('Residencial');
+        expect(message.text).toContain('dono@construtora.com.br');
+        expect(message.text).toContain('https://app.exemplo.com');
+    });
+});
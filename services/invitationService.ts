@@ -0,0 +1,85 @@
+/**
+ * @file Serviço com funções puras para os convites de participação em projetos: criação, validade
+ * e a mensagem enviada ao convidado.
+ */
+import { OutboxMessage, Project, ProjectInvitation, ProjectRole, UserProfile } from '../types';
+import { ROLE_LABELS } from './permissionService';
+
+/**
+ * Número de dias em que um convite pode ser aceito.
+ */
+export const INVITATION_VALIDITY_DAYS = 14;
+
+/**
+ * Normaliza um e-mail para comparação e para indexar os convites.
+ * @param {string} email O e-mail.
+ * @returns {string} O e-mail sem espaços e em minúsculas.
+ */
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Cria um convite válido por `INVITATION_VALIDITY_DAYS` dias.
+ * @param {string} email O e-mail convidado.
+ * @param {ProjectRole} role O papel que o convidado recebe ao entrar.
+ * @param {UserProfile} inviter Quem está convidando.
+ * @param {Date} [now] O momento do envio.
+ * @returns {ProjectInvitation} O convite.
+ */
+export const createInvitation = (email: string, role: ProjectRole, inviter: UserProfile, now: Date = new Date()): ProjectInvitation => {
+    const expiresAt = new Date(now);
+    expiresAt.setDate(expiresAt.getDate() + INVITATION_VALIDITY_DAYS);
+    return {
+        email: normalizeEmail(email),
+        role,
+        invitedBy: inviter.uid,
+        invitedByEmail: inviter.email,
+        createdAt: now.toISOString(),
+        expiresAt: expiresAt.toISOString(),
+    };
+};
+
+/**
+ * Indica se um convite expirou.
+ * @param {ProjectInvitation} invitation O convite.
+ * @param {Date} [now] O momento da verificação.
+ * @returns {boolean} `true` se o convite não puder mais ser aceito.
+ */
+export const isInvitationExpired = (invitation: ProjectInvitation, now: Date = new Date()): boolean =>
+    new Date(invitation.expiresAt).getTime() <= now.getTime();
+
+/**
+ * Lista os convites de um projeto, do mais recente para o mais antigo.
+ * @param {Project} project O projeto.
+ * @returns {ProjectInvitation[]} Os convites, incluindo os expirados (que podem ser reenviados ou revogados).
+ */
+export const getInvitations = (project: Project): ProjectInvitation[] =>
+    Object.values(project.invitations || {}).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+/**
+ * Obtém o convite de um projeto que pode ser aceito com um e-mail.
+ * @param {Project} project O projeto.
+ * @param {string} email O e-mail de quem está entrando.
+ * @param {Date} [now] O momento da aceitação.
+ * @returns {ProjectInvitation | null} O convite, ou `null` se não houver convite válido.
+ */
+export const getAcceptableInvitation = (project: Project, email: string, now: Date = new Date()): ProjectInvitation | null => {
+    const invitation = project.invitations?.[normalizeEmail(email)];
+    return invitation && !isInvitationExpired(invitation, now) ? invitation : null;
+};
+
+/**
+ * Monta o e-mail enviado ao convidado.
+ * @param {Project} project O projeto.
+ * @param {ProjectInvitation} invitation O convite.
+ * @param {string} appUrl O endereço da aplicação.
+ * @returns {OutboxMessage} A mensagem.
+ */
+export const buildInvitationMessage = (project: Project, invitation: ProjectInvitation, appUrl: string): OutboxMessage => ({
+    to: invitation.email,
+    subject: `Convite para o projeto ${project.name}`,
+    text: [
+        `${invitation.invitedByEmail || 'Um membro da equipe'} convidou você para participar do projeto "${project.name}" como ${ROLE_LABELS[invitation.role]}.`,
+        `Para aceitar, entre ou cadastre-se com este e-mail (${invitation.email}) em ${appUrl}.`,
+        `O convite é válido até ${new Date(invitation.expiresAt).toLocaleDateString('pt-BR')}.`,
+    ].join('\n\n'),
+});
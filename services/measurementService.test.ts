@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { buildPeriodSummary, closeMeasurement, createMeasurement, getClosedPeriodViolation, getPreviousClosedMeasurement, reopenMeasurement } from './measurementService';
+import { COMMON_AREA_UNIT_ID } from './progressService';
+import { Financials, HousingUnit, Measurement, ProgressMatrix, ServiceCategory } from '../types';
+
+const plsData: ServiceCategory[] = [{
+    id: '1',
+    name: 'Fundação',
+    totalIncidence: 10,
+    totalCost: 10000,
+    accumulatedPercentage: 10,
+    subItems: [
+        { id: '1.1', name: 'Escavação', incidence: 4, cost: 4000, unit: '%' },
+        { id: '1.2', name: 'Concreto', incidence: 6, cost: 6000, unit: '%' },
+    ],
+}];
+
+const units: HousingUnit[] = [{ id: 'u1', name: 'Casa 01' }, { id: 'u2', name: 'Casa 02' }];
+
+const financials = (measuredIncidence: number, released: number): Financials => ({
+    totalProgress: measuredIncidence,
+    totalReleased: released,
+    balanceToMeasure: 100000 - released,
+    categoryTotals: [{ id: '1', name: 'Fundação', released, progress: 0, totalCost: 10000, totalIncidence: 10, measuredIncidence }],
+});
+
+const closed = (number: number, progress: ProgressMatrix, fin: Financials): Measurement => ({
+    id: `m${number}`,
+    number,
+    periodStart: '2025-01-01',
+    periodEnd: '2025-01-31',
+    status: 'closed',
+    progressSnapshot: progress,
+    financialsSnapshot: fin,
+});
+
+describe('createMeasurement', () => {
+    it('should number measurements sequentially', () => {
+        const measurement = createMeasurement([closed(1, {}, financials(0, 0))], '2025-02-01', '2025-02-28');
+        expect(measurement.number).toBe(2);
+        expect(measurement.status).toBe('open');
+    });
+
+    it('should refuse to open a second measurement while one is open', () => {
+        const open = createMeasurement([], '2025-01-01', '2025-01-31');
+        expect(() => createMeasurement([open], '2025-02-01', '2025-02-28')).toThrow();
+    });
+
+    it('should refuse a period that ends before it starts', () => {
+        expect(() => createMeasurement([], '2025-02-01', '2025-01-31')).toThrow();
+    });
+});
+
+describe('closeMeasurement', () => {
+    it('should freeze a copy of the progress and financials', () => {
+        const progress: ProgressMatrix = { '1.1': { u1: 50, u2: 50 } };
+        const measurement = closeMeasurement(createMeasurement([], '2025-01-01', '2025-01-31'), progress, financials(2, 2000));
+        progress['1.1'].u1 = 100;
+
+        expect(measurement.status).toBe('closed');
+        expect(measurement.progressSnapshot?.['1.1']).toEqual({ u1: 50, u2: 50 });
+        expect(measurement.financialsSnapshot?.totalReleased).toBe(2000);
+    });
+});
+
+describe('getPreviousClosedMeasurement', () => {
+    it('should return the latest closed measurement before the given number', () => {
+        const measurements = [closed(1, {}, financials(0, 0)), closed(2, {}, financials(0, 0)), closed(4, {}, financials(0, 0))];
+        expect(getPreviousClosedMeasurement(measurements, 4)?.number).toBe(2);
+        expect(getPreviousClosedMeasurement(measurements, 1)).toBeUndefined();
+    });
+});
+
+describe('buildPeriodSummary', () => {
+    it('should treat everything as executed in the period when there is no previous measurement', () => {
+        const summary = buildPeriodSummary(plsData, { '1.1': { u1: 100, u2: 0 } }, financials(2, 2000), units);
+
+        expect(summary.items['1.1'].progress).toEqual({ previous: 0, accumulated: 50, period: 50 });
+        expect(summary.items['1.1'].released.period).toBe(2000);
+        expect(summary.totalReleased.period).toBe(2000);
+    });
+
+    it('should subtract the frozen values of the previous measurement', () => {
+        const previous = closed(1, { '1.1': { u1: 50, u2: 0 }, '1.2': { u1: 0, u2: 0 } }, financials(1, 1000));
+        const summary = buildPeriodSummary(plsData, { '1.1': { u1: 100, u2: 0 }, '1.2': { u1: 50, u2: 50 } }, financials(5, 5000), units, previous);
+
+        expect(summary.items['1.1'].progress).toEqual({ previous: 25, accumulated: 50, period: 25 });
+        expect(summary.items['1.2'].progress.period).toBe(50);
+        expect(summary.categories['1'].measuredIncidence).toEqual({ previous: 1, accumulated: 5, period: 4 });
+        expect(summary.categories['1'].released.period).toBe(4000);
+        expect(summary.totalProgress.period).toBe(4);
+    });
+});
+
+describe('getClosedPeriodViolation', () => {
+    const first = closed(1, { '1.1': { u1: 50, u2: 0 } }, financials(1, 1000));
+    const open: Measurement = { id: 'm2', number: 2, periodStart: '2025-02-01', periodEnd: '2025-02-28', status: 'open' };
+
+    it('should not lock projects without measurements', () => {
+        expect(getClosedPeriodViolation([], [{ itemId: '1.1', unitId: 'u1', newProgress: 0 }], units)).toBeNull();
+    });
+
+    it('should reject any change when the last measurement is closed and none is open', () => {
+        expect(getClosedPeriodViolation([first], [{ itemId: '1.1', unitId: 'u2', newProgress: 10 }], units)).toContain('Medição 1');
+    });
+
+    it('should allow increases but reject reductions below the frozen value', () => {
+        expect(getClosedPeriodViolation([first, open], [{ itemId: '1.1', unitId: 'u1', newProgress: 80 }], units)).toBeNull();
+        expect(getClosedPeriodViolation([first, open], [{ itemId: '1.1', unitId: 'u1', newProgress: 40 }], units)).toContain('50%');
+    });
+
+    it('should compare common-area changes with the unit average of snapshots taken before the common area', () => {
+        const legacy = closed(1, { '1.1': { u1: 60, u2: 20 } }, financials(1, 1000));
+        expect(getClosedPeriodViolation([legacy, open], [{ itemId: '1.1', unitId: COMMON_AREA_UNIT_ID, newProgress: 30 }], units)).toContain('40%');
+        expect(getClosedPeriodViolation([legacy, open], [{ itemId: '1.1', unitId: COMMON_AREA_UNIT_ID, newProgress: 40 }], units)).toBeNull();
+    });
+});
+
+describe('reopenMeasurement', () => {
+    it('should reopen the last closed measurement and drop its snapshots', () => {
+        const [reopened] = reopenMeasurement([closed(1, { '1.1': { u1: 50 } }, financials(1, 1000))], 'm1');
+
+        expect(reopened.status).toBe('open');
+        expect(reopened.progressSnapshot).toBeUndefined();
+        expect('closedAt' in reopened).toBe(false);
+    });
+
+    it('should discard a later open measurement', () => {
+        const open: Measurement = { id: 'm2', number: 2, periodStart: '2025-02-01', periodEnd: '2025-02-28', status: 'open' };
+        expect(reopenMeasurement([closed(1, {}, financials(0, 0)), open], 'm1').map(m => m.id)).toEqual(['m1']);
+    });
+
+    it('should only reopen the last closed measurement', () => {
+        expect(() => reopenMeasurement([closed(1, {}, financials(0, 0)), closed(2, {}, financials(0, 0))], 'm1')).toThrow();
+    });
+});
@@ -0,0 +1,203 @@
+/**
+ * @file Serviço com funções puras para o ciclo de vida das medições (abertura, fechamento)
+ * e para o cálculo do executado no período em relação ao acumulado.
+ */
+import { Financials, HousingUnit, Measurement, MeasurementPeriodSummary, PeriodValues, ProgressMatrix, ServiceCategory } from '../types';
+import { getCellProgress } from './progressService';
+import { calculateServiceFinancials } from './financialService';
+
+/**
+ * Retorna a medição atualmente aberta, se houver.
+ * @param {Measurement[]} measurements As medições do projeto.
+ * @returns {Measurement | undefined} A medição aberta.
+ */
+export const getOpenMeasurement = (measurements: Measurement[]): Measurement | undefined => {
+    return measurements.find(m => m.status === 'open');
+};
+
+/**
+ * Retorna a última medição fechada com número anterior ao informado, que serve de base para o período.
+ * @param {Measurement[]} measurements As medições do projeto.
+ * @param {number} number O número da medição de referência.
+ * @returns {Measurement | undefined} A medição fechada anterior, ou `undefined` se for a primeira.
+ */
+export const getPreviousClosedMeasurement = (measurements: Measurement[], number: number): Measurement | undefined => {
+    return measurements
+        .filter(m => m.status === 'closed' && m.number < number)
+        .sort((a, b) => b.number - a.number)[0];
+};
+
+/**
+ * Retorna o número da próxima medição a ser aberta.
+ * @param {Measurement[]} measurements As medições do projeto.
+ * @returns {number} O número da próxima medição.
+ */
+export const getNextMeasurementNumber = (measurements: Measurement[]): number => {
+    return measurements.reduce((max, m) => Math.max(max, m.number), 0) + 1;
+};
+
+/**
+ * Cria uma nova medição aberta para o período informado.
+ * @param {Measurement[]} measurements As medições existentes do projeto.
+ * @param {string} periodStart Data de início do período (AAAA-MM-DD).
+ * @param {string} periodEnd Data de término do período (AAAA-MM-DD).
+ * @returns {Measurement} A nova medição.
+ * @throws {Error} Se já existir uma medição aberta ou se o período for inválido.
+ */
+export const createMeasurement = (measurements: Measurement[], periodStart: string, periodEnd: string): Measurement => {
+    if (getOpenMeasurement(measurements)) {
+        throw new Error("Já existe uma medição aberta. Feche-a antes de abrir uma nova.");
+    }
+    if (!periodStart || !periodEnd || periodEnd < periodStart) {
+        throw new Error("Período da medição inválido.");
+    }
+    return {
+        id: `measurement_${Date.now()}`,
+        number: getNextMeasurementNumber(measurements),
+        periodStart,
+        periodEnd,
+        status: 'open',
+    };
+};
+
+/**
+ * Fecha uma medição, congelando a matriz de progresso e os dados financeiros atuais.
+ * @param {Measurement} measurement A medição a ser fechada.
+ * @param {ProgressMatrix} progress A matriz de progresso atual do projeto.
+ * @param {Financials} financials Os dados financeiros atuais do projeto.
+ * @param {number} [plsVersion=1] A versão da PLS em vigor, à qual se referem os IDs de serviço do snapshot.
+ * @returns {Measurement} A medição fechada.
+ */
+export const closeMeasurement = (measurement: Measurement, progress: ProgressMatrix, financials: Financials, plsVersion = 1): Measurement => ({
+    ...measurement,
+    status: 'closed',
+    closedAt: new Date().toISOString(),
+    progressSnapshot: JSON.parse(JSON.stringify(progress)),
+    financialsSnapshot: JSON.parse(JSON.stringify(financials)),
+    plsVersion,
+});
+
+/**
+ * Monta um `PeriodValues` a partir do valor anterior e do acumulado.
+ */
+const toPeriodValues = (previous: number, accumulated: number): PeriodValues => ({
+    previous,
+    accumulated,
+    period: accumulated - previous,
+});
+
+/**
+ * Calcula o executado no período e o acumulado por serviço, por etapa e no total do projeto.
+ * O "anterior" vem dos snapshots congelados da medição fechada anterior; sem ela, considera-se zero.
+ * @param {ServiceCategory[]} plsData A estrutura de serviços calculada.
+ * @param {ProgressMatrix} progress A matriz de progresso acumulada da medição atual.
+ * @param {Financials} financials Os dados financeiros acumulados da medição atual.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais do projeto.
+ * @param {Measurement} [previous] A medição fechada anterior.
+ * @returns {MeasurementPeriodSummary} O resumo do período.
+ */
+export const buildPeriodSummary = (
+    plsData: ServiceCategory[],
+    progress: ProgressMatrix,
+    financials: Financials,
+    housingUnits: HousingUnit[],
+    previous?: Measurement
+): MeasurementPeriodSummary => {
+    const previousProgress = previous?.progressSnapshot || {};
+    const previousFinancials = previous?.financialsSnapshot;
+
+    const items: MeasurementPeriodSummary['items'] = {};
+    const categories: MeasurementPeriodSummary['categories'] = {};
+
+    plsData.forEach(category => {
+        category.subItems.forEach(item => {
+            const accumulated = calculateServiceFinancials(item, progress, housingUnits);
+            const before = calculateServiceFinancials(item, previousProgress, housingUnits);
+            items[item.id] = {
+                progress: toPeriodValues(before.averageProgress, accumulated.averageProgress),
+                released: toPeriodValues(before.released, accumulated.released),
+            };
+        });
+
+        const current = financials.categoryTotals.find(c => c.id === category.id);
+        const before = previousFinancials?.categoryTotals.find(c => c.id === category.id);
+        categories[category.id] = {
+            measuredIncidence: toPeriodValues(before?.measuredIncidence || 0, current?.measuredIncidence || 0),
+            released: toPeriodValues(before?.released || 0, current?.released || 0),
+        };
+    });
+
+    return {
+        items,
+        categories,
+        totalProgress: toPeriodValues(previousFinancials?.totalProgress || 0, financials.totalProgress),
+        totalReleased: toPeriodValues(previousFinancials?.totalReleased || 0, financials.totalReleased),
+    };
+};
+
+/**
+ * Uma alteração de progresso proposta para uma célula da matriz.
+ */
+export interface ProgressChange {
+    /** ID do serviço. */
+    itemId: string;
+    /** ID da unidade habitacional. */
+    unitId: string;
+    /** Novo valor de progresso (0-100). */
+    newProgress: number;
+}
+
+/**
+ * Verifica se um conjunto de alterações de progresso modificaria uma medição fechada.
+ * Projetos sem medições não são bloqueados. Se não houver medição aberta, qualquer alteração cairia
+ * em um período já fechado; com uma medição aberta, apenas reduções abaixo do valor congelado na
+ * última medição fechada alterariam o que já foi medido.
+ * @param {Measurement[]} measurements As medições do projeto.
+ * @param {ProgressChange[]} changes As alterações propostas.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais do projeto.
+ * @returns {string | null} A mensagem explicando o bloqueio, ou `null` se as alterações forem permitidas.
+ */
+export const getClosedPeriodViolation = (measurements: Measurement[], changes: ProgressChange[], housingUnits: HousingUnit[]): string | null => {
+    if (measurements.length === 0 || changes.length === 0) return null;
+
+    const open = getOpenMeasurement(measurements);
+    const lastClosed = getPreviousClosedMeasurement(measurements, open ? open.number : Infinity);
+    if (!lastClosed) return null;
+
+    if (!open) {
+        return `A Medição ${lastClosed.number} está fechada. Abra uma nova medição ou reabra a Medição ${lastClosed.number} informando o motivo.`;
+    }
+
+    const snapshot = lastClosed.progressSnapshot || {};
+    // Medições fechadas antes de o serviço passar à área comum não têm o valor da área comum, apenas o das unidades.
+    const getFrozenValue = (change: ProgressChange) => getCellProgress(snapshot, change.itemId, change.unitId, housingUnits);
+    const reduced = changes.find(change => change.newProgress < getFrozenValue(change));
+    if (reduced) {
+        const frozenValue = getFrozenValue(reduced);
+        return `O serviço ${reduced.itemId} já foi medido com ${frozenValue}% na Medição ${lastClosed.number} (fechada). Reabra a medição informando o motivo para reduzir este valor.`;
+    }
+    return null;
+};
+
+/**
+ * Reabre a última medição fechada, descartando os valores congelados.
+ * Uma medição aberta posterior (que ainda não possui snapshot) é removida, pois o período volta a ser o reaberto.
+ * @param {Measurement[]} measurements As medições do projeto.
+ * @param {string} measurementId O ID da medição a reabrir.
+ * @returns {Measurement[]} A nova lista de medições.
+ * @throws {Error} Se a medição não existir, não estiver fechada ou não for a última fechada.
+ */
+export const reopenMeasurement = (measurements: Measurement[], measurementId: string): Measurement[] => {
+    const target = measurements.find(m => m.id === measurementId);
+    if (!target || target.status !== 'closed') {
+        throw new Error("Apenas medições fechadas podem ser reabertas.");
+    }
+    if (measurements.some(m => m.status === 'closed' && m.number > target.number)) {
+        throw new Error("Apenas a última medição fechada pode ser reaberta.");
+    }
+    const { closedAt, progressSnapshot, financialsSnapshot, plsVersion, ...rest } = target;
+    const reopened: Measurement = { ...rest, status: 'open' };
+    return measurements
+        .filter(m => !(m.status === 'open' && m.number > target.number))
+        .map(m => m.id === measurementId ? reopened : m);
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ProjectPatch } from '../types';
+
+// Sem IndexedDB (como no Node), a fila é mantida apenas em memória.
+let offlineService: typeof import('./offlineService');
+
+const patch = (value: number): ProjectPatch => ({
+    progressCells: [{ itemId: '1.1', unitId: 'u1', value }],
+    removedProgressItems: [],
+    pendingProgress: [],
+    addedHistory: [],
+    addedReports: [],
+    addedAudit: [],
+    fields: {},
+});
+
+beforeEach(async () => {
+    vi.resetModules();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    offlineService = await import('./offlineService');
+});
+
+describe('offline queue', () => {
+    it('should keep enqueued changes in the order they were made', async () => {
+        await offlineService.enqueueProjectPatch('p1', patch(10));
+        await offlineService.enqueueProjectPatch('p2', patch(20));
+        await offlineService.enqueueProjectPatch('p1', patch(30));
+
+        expect(offlineService.getQueuedPatches().map(entry => [entry.projectId, entry.patch.progressCells[0].value])).toEqual([
+            ['p1', 10], ['p2', 20], ['p1', 30],
+        ]);
+        expect(offlineService.getQueuedPatches('p1').map(entry => entry.patch.progressCells[0].value)).toEqual([10, 30]);
+    });
+
+    it('should notify the queue size when changes are added and removed', async () => {
+        await offlineService.loadOfflineQueue();
+        const sizes: number[] = [];
+        offlineService.subscribeToQueueSize(size => sizes.push(size));
+
+        await offlineService.enqueueProjectPatch('p1', patch(10));
+        await offlineService.enqueueProjectPatch('p1', patch(20));
+        await offlineService.removeQueuedPatch(offlineService.getQueuedPatches()[0]);
+
+        expect(sizes).toEqual([0, 1, 2, 1]);
+        expect(offlineService.getQueuedPatches().map(entry => entry.patch.progressCells[0].value)).toEqual([20]);
+    });
+});
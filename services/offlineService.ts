@@ -0,0 +1,179 @@
+/**
+ * @file Serviço de persistência local (IndexedDB) para o modo offline.
+ * Guarda a última versão conhecida dos projetos, para que a aplicação abra sem conexão, e uma fila
+ * de alterações feitas offline, reenviadas ao Firestore quando a conexão voltar.
+ * Se o IndexedDB não estiver disponível (ex: navegação privada), a fila é mantida apenas em memória.
+ */
+import { Project, ProjectPatch, QueuedProjectPatch } from '../types';
+
+const DB_NAME = 'cataratas-pls-offline';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const QUEUE_STORE = 'queue';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Cópia em memória da fila, na ordem de reenvio, para consultas síncronas (ex: ao receber uma versão em tempo real).
+ */
+let queue: QueuedProjectPatch[] = [];
+let queueLoaded: Promise<void> | null = null;
+let nextMemoryId = -1;
+const queueListeners = new Set<(size: number) => void>();
+
+/**
+ * Abre (e cria, na primeira vez) o banco local.
+ * @returns {Promise<IDBDatabase>} O banco aberto.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB indisponível.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const database = request.result;
+                if (!database.objectStoreNames.contains(PROJECTS_STORE)) {
+                    database.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+                }
+                if (!database.objectStoreNames.contains(QUEUE_STORE)) {
+                    database.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+    return databasePromise;
+};
+
+/**
+ * Executa uma operação em um store do banco local, resolvendo quando a transação for concluída.
+ */
+const withStore = async <T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+    const database = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = database.transaction(storeName, mode);
+        const request = operation(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request ? request.result : undefined);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+const notifyQueueListeners = () => {
+    queueListeners.forEach(listener => listener(queue.length));
+};
+
+/**
+ * Carrega para a memória a fila gravada no banco local (alterações offline de sessões anteriores).
+ * Pode ser chamada várias vezes; o carregamento acontece apenas uma vez.
+ * @returns {Promise<void>}
+ */
+export const loadOfflineQueue = (): Promise<void> => {
+    if (!queueLoaded) {
+        queueLoaded = (async () => {
+            try {
+                const stored = await withStore(QUEUE_STORE, 'readonly', store => store.getAll() as IDBRequest<QueuedProjectPatch[]>);
+                queue = (stored || []).sort((a, b) => a.id! - b.id!);
+            } catch (error) {
+                console.warn('Failed to load the offline queue', error);
+            }
+            notifyQueueListeners();
+        })();
+    }
+    return queueLoaded;
+};
+
+/**
+ * Adiciona uma alteração ao fim da fila offline.
+ * @param {string} projectId O ID do projeto alterado.
+ * @param {ProjectPatch} patch As alterações a gravar.
+ * @returns {Promise<void>}
+ */
+export const enqueueProjectPatch = async (projectId: string, patch: ProjectPatch): Promise<void> => {
+    await loadOfflineQueue();
+    const entry: QueuedProjectPatch = { projectId, patch, queuedAt: new Date().toISOString() };
+    try {
+        const id = await withStore(QUEUE_STORE, 'readwrite', store => store.add(entry));
+        entry.id = id as number;
+    } catch (error) {
+        console.warn('Failed to persist an offline change; it will be kept only in memory', error);
+        entry.id = nextMemoryId--;
+    }
+    queue = [...queue, entry];
+    notifyQueueListeners();
+};
+
+/**
+ * Remove da fila uma alteração já reenviada (ou descartada).
+ * @param {QueuedProjectPatch} entry A alteração.
+ * @returns {Promise<void>}
+ */
+export const removeQueuedPatch = async (entry: QueuedProjectPatch): Promise<void> => {
+    queue = queue.filter(queued => queued !== entry);
+    notifyQueueListeners();
+    if (typeof entry.id !== 'number' || entry.id < 0) return;
+    try {
+        await withStore(QUEUE_STORE, 'readwrite', store => store.delete(entry.id!));
+    } catch (error) {
+        console.warn('Failed to remove a synced change from the offline queue', error);
+    }
+};
+
+/**
+ * Retorna as alterações da fila offline, na ordem em que devem ser reenviadas.
+ * @param {string} [projectId] Se informado, retorna apenas as alterações deste projeto.
+ * @returns {QueuedProjectPatch[]} As alterações enfileiradas.
+ */
+export const getQueuedPatches = (projectId?: string): QueuedProjectPatch[] => {
+    return projectId ? queue.filter(entry => entry.projectId === projectId) : [...queue];
+};
+
+/**
+ * Observa o número de alterações aguardando sincronização.
+ * @param {(size: number) => void} onChange Callback chamado com o tamanho atual da fila e a cada mudança.
+ * @returns {() => void} Função para cancelar a observação.
+ */
+export const subscribeToQueueSize = (onChange: (size: number) => void): (() => void) => {
+    queueListeners.add(onChange);
+    onChange(queue.length);
+    return () => {
+        queueListeners.delete(onChange);
+    };
+};
+
+/**
+ * Guarda a última versão dos projetos recebida do servidor, substituindo a cópia anterior.
+ * @param {Project[]} projects Os projetos do usuário.
+ * @returns {Promise<void>}
+ */
+export const cacheProjects = async (projects: Project[]): Promise<void> => {
+    try {
+        await withStore(PROJECTS_STORE, 'readwrite', store => {
+            store.clear();
+            projects.forEach(project => store.put(project));
+        });
+    } catch (error) {
+        console.warn('Failed to cache projects for offline use', error);
+    }
+};
+
+/**
+ * Lê os projetos guardados localmente dos quais o usuário é membro.
+ * @param {string} userId O ID do usuário.
+ * @returns {Promise<Project[]>} Os projetos guardados (vazio se não houver cópia local).
+ */
+export const loadCachedProjects = async (userId: string): Promise<Project[]> => {
+    try {
+        const projects = await withStore(PROJECTS_STORE, 'readonly', store => store.getAll() as IDBRequest<Project[]>);
+        return (projects || [])
+            .filter(project => project.members?.includes(userId))
+            .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    } catch (error) {
+        console.warn('Failed to read cached projects', error);
+        return [];
+    }
+};
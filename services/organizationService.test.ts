@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+    canManageOrganization, filterProjectsByOrganization, getOrganizationProjectMembers, getOrganizationRole,
+    removeOrganizationMember, setOrganizationMember
+} from './organizationService';
+import { Organization, Project } from '../types';
+
+const organization: Organization = {
+    id: 'o1',
+    name: 'Construtora Cataratas',
+    ownerId: 'owner',
+    members: ['owner', 'admin', 'member'],
+    roles: { owner: 'admin', admin: 'admin' },
+    created_at: '2025-01-01T00:00:00.000Z',
+};
+
+describe('organization roles', () => {
+    it('should treat the owner as admin and members without a role as members', () => {
+        expect(getOrganizationRole({ ...organization, roles: {} }, 'owner')).toBe('admin');
+        expect(getOrganizationRole(organization, 'member')).toBe('member');
+        expect(getOrganizationRole(organization, 'stranger')).toBeNull();
+        expect(canManageOrganization(organization, 'admin')).toBe(true);
+        expect(canManageOrganization(organization, 'member')).toBe(false);
+    });
+
+    it('should add, promote and remove members but never the owner', () => {
+        const withNewMember = setOrganizationMember(organization, 'new', 'member');
+        expect(withNewMember.members).toEqual(['owner', 'admin', 'member', 'new']);
+
+        const promoted = setOrganizationMember(withNewMember, 'new', 'admin');
+        expect(promoted.members).toHaveLength(4);
+        expect(getOrganizationRole(promoted, 'new')).toBe('admin');
+
+        const removed = removeOrganizationMember(promoted, 'new');
+        expect(removed.members).toEqual(organization.members);
+        expect(removed.roles.new).toBeUndefined();
+        expect(removeOrganizationMember(organization, 'owner')).toBe(organization);
+    });
+});
+
+describe('organization projects', () => {
+    const projects = [
+        { id: 'p1', organizationId: 'o1' },
+        { id: 'p2' },
+        { id: 'p3', organizationId: 'partner' },
+    ] as Project[];
+
+    it('should show projects of other organizations with the projects without one', () => {
+        expect(filterProjectsByOrganization(projects, 'o1', [organization]).map(p => p.id)).toEqual(['p1']);
+        expect(filterProjectsByOrganization(projects, null, [organization]).map(p => p.id)).toEqual(['p2', 'p3']);
+    });
+
+    it('should add the other organization members to new projects', () => {
+        expect(getOrganizationProjectMembers(organization, 'admin')).toEqual([
+            { userId: 'owner', role: 'editor' },
+            { userId: 'member', role: 'viewer' },
+        ]);
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * @file Serviço com funções puras para as organizações: papéis dos membros, projetos de cada organização
+ * e os dados que a organização define para os novos projetos.
+ */
+import { Organization, OrganizationRole, Project, ProjectRole } from '../types';
+
+/**
+ * Nomes dos papéis da organização exibidos na interface.
+ */
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+    admin: 'Administrador',
+    member: 'Membro',
+};
+
+/**
+ * Papel recebido nos novos projetos da organização por cada papel da organização.
+ */
+export const ORGANIZATION_PROJECT_ROLES: Record<OrganizationRole, ProjectRole> = {
+    admin: 'editor',
+    member: 'viewer',
+};
+
+/**
+ * Obtém o papel de um usuário em uma organização.
+ * @param {Organization} organization A organização.
+ * @param {string} userId O ID do usuário.
+ * @returns {OrganizationRole | null} O papel, ou `null` se o usuário não for membro.
+ */
+export const getOrganizationRole = (organization: Organization, userId: string): OrganizationRole | null => {
+    if (organization.ownerId === userId) return 'admin';
+    if (!organization.members.includes(userId)) return null;
+    return organization.roles?.[userId] || 'member';
+};
+
+/**
+ * Indica se um usuário pode alterar os dados, a identidade visual e os membros de uma organização.
+ * @param {Organization} organization A organização.
+ * @param {string} userId O ID do usuário.
+ * @returns {boolean} `true` se o usuário for administrador.
+ */
+export const canManageOrganization = (organization: Organization, userId: string): boolean =>
+    getOrganizationRole(organization, userId) === 'admin';
+
+/**
+ * Adiciona um membro à organização (ou altera o seu papel, se já for membro).
+ * @param {Organization} organization A organização.
+ * @param {string} userId O ID do usuário.
+ * @param {OrganizationRole} role O papel.
+ * @returns {Organization} A organização com o membro.
+ */
+export const setOrganizationMember = (organization: Organization, userId: string, role: OrganizationRole): Organization => ({
+    ...organization,
+    members: organization.members.includes(userId) ? organization.members : [...organization.members, userId],
+    roles: { ...organization.roles, [userId]: role },
+});
+
+/**
+ * Remove um membro da organização. O proprietário não pode ser removido.
+ * @param {Organization} organization A organização.
+ * @param {string} userId O ID do usuário.
+ * @returns {Organization} A organização sem o membro.
+ */
+export const removeOrganizationMember = (organization: Organization, userId: string): Organization => {
+    if (userId === organization.ownerId) return organization;
+    const { [userId]: _removed, ...roles } = organization.roles || {};
+    return { ...organization, members: organization.members.filter(id => id !== userId), roles };
+};
+
+/**
+ * Filtra os projetos de uma organização.
+ * Sem organização selecionada, retorna os projetos sem organização e os de organizações das quais o usuário
+ * não é membro (ex: projetos de parceiros para os quais foi convidado, ou de uma organização excluída).
+ * @param {Project[]} projects Os projetos do usuário.
+ * @param {string | null} organizationId A organização, ou `null` para os demais projetos.
+ * @param {Organization[]} organizations As organizações do usuário.
+ * @returns {Project[]} Os projetos da organização.
+ */
+export const filterProjectsByOrganization = (projects: Project[], organizationId: string | null, organizations: Organization[]): Project[] => {
+    if (organizationId) return projects.filter(project => project.organizationId === organizationId);
+    const organizationIds = new Set(organizations.map(organization => organization.id));
+    return projects.filter(project => !project.organizationId || !organizationIds.has(project.organizationId));
+};
+
+/**
+ * Obtém os membros que devem ser adicionados a um novo projeto da organização, com o papel de cada um.
+ * @param {Organization} organization A organização.
+ * @param {string} creatorId O ID de quem está criando o projeto (que será o proprietário).
+ * @returns {{ userId: string; role: ProjectRole }[]} Os demais membros da organização.
+ */
+export const getOrganizationProjectMembers = (organization: Organization, creatorId: string): { userId: string; role: ProjectRole }[] =>
+    organization.members
+        .filter(userId => userId !== creatorId)
+        .map(userId => ({ userId, role: ORGANIZATION_PROJECT_ROLES[getOrganizationRole(organization, userId) || 'member'] }));
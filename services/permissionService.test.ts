@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { getMemberRole, getPatchPermissions, hasPermission } from './permissionService';
+import { Project, ProjectPatch, ProjectRole } from '../types';
+
+const project = {
+    id: 'p1',
+    name: 'Residencial Teste',
+    ownerId: 'owner',
+    members: ['owner', 'viewer', 'legacy', 'intruder'],
+    roles: { owner: 'owner', viewer: 'viewer', intruder: 'owner' } as Record<string, ProjectRole>,
+} as Project;
+
+const patch = (fields: Partial<Project>, progressCells: ProjectPatch['progressCells'] = []): ProjectPatch => ({
+    fields,
+    progressCells,
+    removedProgressItems: [],
+    pendingProgress: [],
+    addedHistory: [],
+    addedReports: [],
+    addedAudit: [],
+});
+
+describe('getMemberRole', () => {
+    it('should treat members without a stored role as editors', () => {
+        expect(getMemberRole(project, 'legacy')).toBe('editor');
+    });
+
+    it('should only grant the owner role to the project owner', () => {
+        expect(getMemberRole(project, 'owner')).toBe('owner');
+        expect(getMemberRole(project, 'intruder')).toBe('editor');
+    });
+
+    it('should return null for users outside the project', () => {
+        expect(getMemberRole(project, 'stranger')).toBeNull();
+    });
+});
+
+describe('hasPermission', () => {
+    it('should not let a viewer edit progress', () => {
+        expect(hasPermission(project, 'viewer', 'edit_progress')).toBe(false);
+        expect(hasPermission(project, 'legacy', 'edit_progress')).toBe(true);
+    });
+
+    it('should only let the responsible engineer approve progress on top of a role that writes it', () => {
+        const withEngineer = { ...project, responsible_engineer: { name: 'Ana', crea: '123', email: 'ana@example.com' } } as Project;
+        expect(hasPermission(withEngineer, 'legacy', 'approve_progress', 'ana@example.com')).toBe(true);
+        expect(hasPermission(withEngineer, 'viewer', 'approve_progress', 'ana@example.com')).toBe(false);
+    });
+});
+
+describe('getPatchPermissions', () => {
+    it('should require the permission of each changed area', () => {
+        const permissions = getPatchPermissions(patch({ name: 'Novo nome', pls_data: [] }, [{ itemId: '1.1', unitId: 'u1', value: 50 }]));
+        expect(permissions.sort()).toEqual(['edit_pls', 'edit_progress', 'edit_settings']);
+    });
+});
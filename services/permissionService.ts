@@ -0,0 +1,102 @@
+/**
+ * @file Serviço com funções puras para os papéis dos membros de um projeto e as ações permitidas a cada um.
+ * As mesmas regras são aplicadas pelo Firestore em `firestore.rules`.
+ */
+import { Project, ProjectPatch, ProjectPermission, ProjectRole } from '../types';
+
+/**
+ * Ações permitidas a cada papel.
+ */
+export const ROLE_PERMISSIONS: Record<ProjectRole, ProjectPermission[]> = {
+    viewer: [],
+    editor: ['edit_progress', 'edit_pls', 'manage_reports'],
+    approver: ['manage_measurements', 'manage_reports', 'approve_progress'],
+    owner: ['edit_progress', 'edit_pls', 'manage_reports', 'manage_measurements', 'edit_settings', 'manage_members', 'approve_progress'],
+};
+
+/**
+ * Nomes dos papéis exibidos na interface.
+ */
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+    viewer: 'Visualizador',
+    editor: 'Editor',
+    approver: 'Aprovador',
+    owner: 'Proprietário',
+};
+
+/**
+ * Papéis que podem ser atribuídos a um membro convidado (o proprietário é único).
+ */
+export const ASSIGNABLE_ROLES: ProjectRole[] = ['viewer', 'editor', 'approver'];
+
+/**
+ * Mensagens exibidas quando o usuário tenta uma ação sem permissão.
+ */
+export const PERMISSION_DENIED_MESSAGES: Record<ProjectPermission, string> = {
+    edit_progress: 'Seu papel neste projeto não permite atualizar o progresso.',
+    edit_pls: 'Seu papel neste projeto não permite editar a PLS.',
+    manage_reports: 'Seu papel neste projeto não permite gerenciar relatórios.',
+    manage_measurements: 'Seu papel neste projeto não permite gerenciar medições.',
+    edit_settings: 'Apenas o proprietário pode alterar as configurações do projeto.',
+    manage_members: 'Apenas o proprietário pode gerenciar os membros do projeto.',
+    approve_progress: 'Apenas o responsável técnico ou um aprovador pode aprovar alterações de progresso.',
+};
+
+/**
+ * Obtém o papel de um usuário em um projeto.
+ * @param {Project} project O projeto.
+ * @param {string} userId O ID do usuário.
+ * @returns {ProjectRole | null} O papel, ou `null` se o usuário não for membro.
+ */
+export const getMemberRole = (project: Project, userId: string): ProjectRole | null => {
+    if (project.ownerId === userId) return 'owner';
+    if (!project.members?.includes(userId)) return null;
+    const role = project.roles?.[userId];
+    // O papel de proprietário só vale para `ownerId`.
+    return role && role !== 'owner' ? role : 'editor';
+};
+
+/**
+ * Indica se um e-mail é o do responsável técnico do projeto.
+ * @param {Project} project O projeto.
+ * @param {string | null} [email] O e-mail do usuário.
+ * @returns {boolean} `true` se o e-mail coincidir (sem diferenciar maiúsculas).
+ */
+export const isResponsibleEngineer = (project: Project, email?: string | null): boolean => {
+    const engineerEmail = project.responsible_engineer?.email?.trim().toLowerCase();
+    return !!engineerEmail && email?.trim().toLowerCase() === engineerEmail;
+};
+
+/**
+ * Indica se um usuário pode executar uma ação em um projeto.
+ * O responsável técnico também pode aprovar alterações de progresso se for editor (aprovadores e o proprietário
+ * já podem; visualizadores não gravam nada).
+ * @param {Project} project O projeto.
+ * @param {string} userId O ID do usuário.
+ * @param {ProjectPermission} permission A ação.
+ * @param {string | null} [userEmail] O e-mail do usuário, para identificar o responsável técnico.
+ * @returns {boolean} `true` se o papel do usuário permitir a ação.
+ */
+export const hasPermission = (project: Project, userId: string, permission: ProjectPermission, userEmail?: string | null): boolean => {
+    const role = getMemberRole(project, userId);
+    if (!role) return false;
+    if (permission === 'approve_progress' && role === 'editor' && isResponsibleEngineer(project, userEmail)) return true;
+    return ROLE_PERMISSIONS[role].includes(permission);
+};
+
+/**
+ * Lista as permissões necessárias para gravar uma alteração (ex: ao desfazer ou refazer uma ação).
+ * @param {ProjectPatch} patch A alteração.
+ * @returns {ProjectPermission[]} As permissões exigidas.
+ */
+export const getPatchPermissions = (patch: ProjectPatch): ProjectPermission[] => {
+    const permissions = new Set<ProjectPermission>();
+    if (patch.progressCells.length > 0 || patch.removedProgressItems.length > 0 || patch.pendingProgress.length > 0) permissions.add('edit_progress');
+    if ('pls_data' in patch.fields) permissions.add('edit_pls');
+    if ('layouts' in patch.fields || 'report_summaries' in patch.fields) permissions.add('manage_reports');
+    if ('measurements' in patch.fields || 'audit_log' in patch.fields) permissions.add('manage_measurements');
+    const settingsFields = Object.keys(patch.fields)
+        .filter(key => !['pls_data', 'layouts', 'report_summaries', 'measurements', 'audit_log'].includes(key));
+    if (settingsFields.length > 0) permissions.add('edit_settings');
+    return Array.from(permissions);
+};
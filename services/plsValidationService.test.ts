@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { getTotalIncidence, hasPlsErrors, rebalanceIncidences, validatePls } from './plsValidationService';
+import { PlsCategoryTemplate } from '../types';
+
+const pls = (incidences: number[], ids = incidences.map((_, i) => `1.${i + 1}`)): PlsCategoryTemplate[] => [{
+    id: '1',
+    name: 'Serviços Preliminares',
+    subItems: incidences.map((incidence, i) => ({ id: ids[i], name: `Serviço ${i + 1}`, incidence, unit: 'vb' })),
+}];
+
+describe('validatePls', () => {
+    it('should accept a structure whose incidences add up to 100%', () => {
+        expect(validatePls(pls([60, 40]))).toEqual([]);
+    });
+
+    it('should report duplicated IDs as errors and an off total as a warning', () => {
+        const issues = validatePls(pls([60, 39.7], ['1.1', '1.1']));
+
+        expect(hasPlsErrors(issues)).toBe(true);
+        expect(issues[0]).toEqual(expect.objectContaining({ severity: 'error', itemId: '1.1' }));
+        expect(issues[1]).toEqual(expect.objectContaining({ severity: 'warning', message: expect.stringContaining('99.70%') }));
+    });
+
+    it('should warn about empty categories and zero incidences', () => {
+        const issues = validatePls([...pls([100, 0]), { id: '2', name: 'Fundações', subItems: [] }]);
+
+        expect(hasPlsErrors(issues)).toBe(false);
+        expect(issues.map(issue => issue.categoryId)).toEqual(['1', '2']);
+    });
+});
+
+describe('rebalanceIncidences', () => {
+    it('should scale the incidences proportionally to exactly 100%', () => {
+        const rebalanced = rebalanceIncidences(pls([33.2, 33.2, 33.3]));
+
+        expect(getTotalIncidence(rebalanced)).toBeCloseTo(100, 10);
+        expect(rebalanced[0].subItems.map(item => item.incidence)).toEqual([33.3, 33.3, 33.4]);
+    });
+
+    it('should leave a structure without incidences unchanged', () => {
+        const structure = pls([0, 0]);
+        expect(rebalanceIncidences(structure)).toBe(structure);
+    });
+});
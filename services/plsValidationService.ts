@@ -0,0 +1,108 @@
+/**
+ * @file Serviço com funções puras para validar uma estrutura da PLS (IDs, etapas vazias e soma das
+ * incidências) e para rebalancear proporcionalmente as incidências até somarem 100%.
+ * Usado no editor da PLS, na verificação de orçamentos importados e na criação de projetos.
+ */
+import { PlsCategoryTemplate, PlsIssue } from '../types';
+
+/**
+ * Diferença máxima (em pontos percentuais) aceita entre a soma das incidências e 100%.
+ */
+export const INCIDENCE_TOLERANCE = 0.01;
+
+const roundIncidence = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Soma as incidências de todos os serviços da estrutura.
+ * @param {PlsCategoryTemplate[]} pls A estrutura da PLS.
+ * @returns {number} A soma das incidências (%).
+ */
+export const getTotalIncidence = (pls: PlsCategoryTemplate[]): number =>
+    pls.reduce((sum, category) => sum + category.subItems.reduce((acc, item) => acc + (Number(item.incidence) || 0), 0), 0);
+
+/**
+ * Valida uma estrutura da PLS.
+ * São erros: estrutura vazia, IDs ausentes ou repetidos e incidências negativas ou inválidas.
+ * São avisos: etapas sem serviços, serviços sem nome ou com incidência zero e soma das incidências diferente de 100%.
+ * @param {PlsCategoryTemplate[]} pls A estrutura da PLS.
+ * @returns {PlsIssue[]} Os problemas encontrados, com os erros primeiro.
+ */
+export const validatePls = (pls: PlsCategoryTemplate[]): PlsIssue[] => {
+    const issues: PlsIssue[] = [];
+    if (pls.length === 0) {
+        return [{ severity: 'error', message: "A PLS não possui etapas." }];
+    }
+
+    const categoryIds = new Set<string>();
+    const itemIds = new Set<string>();
+    pls.forEach(category => {
+        if (!category.id?.trim()) {
+            issues.push({ severity: 'error', message: `A etapa "${category.name}" está sem ID.` });
+        } else if (categoryIds.has(category.id)) {
+            issues.push({ severity: 'error', message: `O ID de etapa "${category.id}" está repetido.`, categoryId: category.id });
+        }
+        categoryIds.add(category.id);
+
+        if (category.subItems.length === 0) {
+            issues.push({ severity: 'warning', message: `A etapa "${category.name}" não possui serviços.`, categoryId: category.id });
+        }
+
+        category.subItems.forEach(item => {
+            if (!item.id?.trim()) {
+                issues.push({ severity: 'error', message: `O serviço "${item.name}" da etapa ${category.id} está sem ID.`, categoryId: category.id });
+                return;
+            }
+            if (itemIds.has(item.id)) {
+                issues.push({ severity: 'error', message: `O ID de serviço "${item.id}" está repetido.`, categoryId: category.id, itemId: item.id });
+            }
+            itemIds.add(item.id);
+
+            if (!Number.isFinite(item.incidence) || item.incidence < 0) {
+                issues.push({ severity: 'error', message: `O serviço ${item.id} tem incidência inválida.`, categoryId: category.id, itemId: item.id });
+            } else if (item.incidence === 0) {
+                issues.push({ severity: 'warning', message: `O serviço ${item.id} tem incidência zero e não será medido.`, categoryId: category.id, itemId: item.id });
+            }
+            if (!item.name?.trim()) {
+                issues.push({ severity: 'warning', message: `O serviço ${item.id} está sem nome.`, categoryId: category.id, itemId: item.id });
+            }
+        });
+    });
+
+    const total = getTotalIncidence(pls);
+    if (Math.abs(total - 100) > INCIDENCE_TOLERANCE) {
+        issues.push({ severity: 'warning', message: `A soma das incidências é ${total.toFixed(2)}%, e não 100%.` });
+    }
+
+    return [...issues.filter(issue => issue.severity === 'error'), ...issues.filter(issue => issue.severity === 'warning')];
+};
+
+/**
+ * Indica se a validação encontrou algum erro.
+ * @param {PlsIssue[]} issues Os problemas encontrados.
+ * @returns {boolean} `true` se houver ao menos um erro.
+ */
+export const hasPlsErrors = (issues: PlsIssue[]): boolean => issues.some(issue => issue.severity === 'error');
+
+/**
+ * Escala proporcionalmente as incidências para que somem 100%, arredondando para duas casas decimais.
+ * A diferença de arredondamento é lançada no serviço de maior incidência.
+ * @param {PlsCategoryTemplate[]} pls A estrutura da PLS.
+ * @returns {PlsCategoryTemplate[]} Uma nova estrutura rebalanceada (a própria estrutura, se a soma for zero).
+ */
+export const rebalanceIncidences = (pls: PlsCategoryTemplate[]): PlsCategoryTemplate[] => {
+    const total = getTotalIncidence(pls);
+    if (total <= 0) return pls;
+
+    const factor = 100 / total;
+    const rebalanced = pls.map(category => ({
+        ...category,
+        subItems: category.subItems.map(item => ({ ...item, incidence: roundIncidence((Number(item.incidence) || 0) * factor) })),
+    }));
+
+    const residue = roundIncidence(100 - getTotalIncidence(rebalanced));
+    if (residue !== 0) {
+        const largest = rebalanced.flatMap(category => category.subItems).reduce((max, item) => item.incidence > max.incidence ? item : max);
+        largest.incidence = roundIncidence(largest.incidence + residue);
+    }
+    return rebalanced;
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { COMMON_AREA_UNIT_ID, getAverageItemProgress, getCommonAreaProgress, getItemProgressUnits, migrateProgressMatrix, migrateProject, removeDeletedUnits } from './progressService';
+import { calculateServiceFinancials, calculateUnitFinancials } from './financialService';
+import { HousingUnit, Project } from '../types';
+
+const units: HousingUnit[] = [{ id: 'u1', name: 'Casa 01' }, { id: 'u2', name: 'Casa 02' }, { id: 'u3', name: 'Casa 03' }];
+
+describe('migrateProgressMatrix', () => {
+    it('should convert legacy index-based rows to rows keyed by unit ID', () => {
+        const result = migrateProgressMatrix({ '1.1': [100, 50] } as any, units);
+
+        expect(result.migrated).toBe(true);
+        expect(result.progress).toEqual({ '1.1': { u1: 100, u2: 50, u3: 0 } });
+    });
+
+    it('should leave rows already keyed by unit ID untouched', () => {
+        const result = migrateProgressMatrix({ '1.1': { u2: 30 } }, units);
+
+        expect(result.migrated).toBe(false);
+        expect(result.progress).toEqual({ '1.1': { u2: 30 } });
+    });
+});
+
+describe('migrateProject', () => {
+    it('should migrate the current progress and the frozen snapshots', () => {
+        const project = {
+            id: 'p1',
+            housing_units: units,
+            progress: { '1.1': [10, 20, 30] },
+            measurements: [{ id: 'm1', number: 1, periodStart: '2025-01-01', periodEnd: '2025-01-31', status: 'closed', progressSnapshot: { '1.1': [10] } }],
+            archived_reports: [{ id: 'r1', progressSnapshot: { '1.1': [5, 5, 5] } }],
+        } as unknown as Project;
+
+        const { project: migrated, migrated: changed } = migrateProject(project);
+
+        expect(changed).toBe(true);
+        expect(migrated.progress['1.1']).toEqual({ u1: 10, u2: 20, u3: 30 });
+        expect(migrated.measurements?.[0].progressSnapshot?.['1.1']).toEqual({ u1: 10, u2: 0, u3: 0 });
+        expect(migrated.archived_reports?.[0].progressSnapshot['1.1']).toEqual({ u1: 5, u2: 5, u3: 5 });
+    });
+});
+
+describe('removeDeletedUnits', () => {
+    it('should keep the values of the remaining units regardless of their position', () => {
+        const progress = { '1.1': { u1: 10, u2: 20, u3: 30 } };
+        const remaining = [units[2], units[0]];
+
+        expect(removeDeletedUnits(progress, remaining)).toEqual({ '1.1': { u1: 10, u3: 30 } });
+        expect(getAverageItemProgress(progress['1.1'], remaining)).toBe(20);
+    });
+});
+
+describe('common-area services', () => {
+    const item = { id: '1.1', name: 'Canteiro de obras', incidence: 10, cost: 100, unit: 'vb', scope: 'global' as const };
+
+    it('should measure global services once, in the common-area column', () => {
+        expect(getItemProgressUnits(item, units).map(unit => unit.id)).toEqual([COMMON_AREA_UNIT_ID]);
+        expect(removeDeletedUnits({ '1.1': { [COMMON_AREA_UNIT_ID]: 40, u1: 10 } }, units.slice(1))).toEqual({ '1.1': { [COMMON_AREA_UNIT_ID]: 40 } });
+    });
+
+    it('should fall back to the unit average for progress recorded per unit', () => {
+        expect(getCommonAreaProgress({ u1: 30, u2: 60, u3: 0 }, units)).toBe(30);
+        expect(getCommonAreaProgress({ u1: 30, [COMMON_AREA_UNIT_ID]: 80 }, units)).toBe(80);
+    });
+
+    it('should count the common-area progress for the service and for every unit', () => {
+        const progress = { '1.1': { [COMMON_AREA_UNIT_ID]: 50 } };
+        const category = { id: '1', name: 'Serviços Preliminares', subItems: [item], totalIncidence: 10, totalCost: 100, accumulatedPercentage: 10 };
+
+        expect(calculateServiceFinancials(item, progress, units).averageProgress).toBe(50);
+        expect(calculateUnitFinancials([category], progress, units, 'weighted_average').map(unit => unit.progress)).toEqual([5, 5, 5]);
+    });
+});
@@ -0,0 +1,206 @@
+/**
+ * @file Serviço com funções puras para ler e manter a matriz de progresso, indexada pelo ID do
+ * serviço e pelo ID da unidade habitacional, e para migrar o formato legado (arrays por índice).
+ */
+import { HousingUnit, ProgressLog, ProgressMatrix, Project, ServiceSubItem } from '../types';
+import { isItemApplicable } from './typologyService';
+
+/**
+ * Chave da matriz de progresso em que fica o progresso dos serviços da área comum (`scope: 'global'`).
+ */
+export const COMMON_AREA_UNIT_ID = 'common_area';
+
+/**
+ * Pseudo-unidade da área comum, usada onde o progresso é editado e registrado por unidade (modais, histórico).
+ */
+export const COMMON_AREA_UNIT: HousingUnit = { id: COMMON_AREA_UNIT_ID, name: 'Área comum' };
+
+/**
+ * Formato legado da matriz de progresso, em que a posição no array correspondia ao índice da unidade.
+ */
+type LegacyProgressMatrix = Record<string, number[]>;
+
+/**
+ * Retorna o progresso (0-100) de um serviço em uma unidade. Valores ausentes contam como zero.
+ * @param {ProgressMatrix} progress A matriz de progresso.
+ * @param {string} itemId O ID do serviço.
+ * @param {string} unitId O ID da unidade habitacional.
+ * @returns {number} O progresso registrado.
+ */
+export const getUnitProgress = (progress: ProgressMatrix, itemId: string, unitId: string): number => {
+    const value = progress[itemId]?.[unitId];
+    return typeof value === 'number' ? value : 0;
+};
+
+/**
+ * Calcula o progresso médio de um serviço considerando apenas as unidades atuais do projeto.
+ * @param {Record<string, number> | undefined} progressRow O progresso do serviço por unidade.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais do projeto.
+ * @returns {number} O progresso médio (0-100).
+ */
+export const getAverageItemProgress = (progressRow: Record<string, number> | undefined, housingUnits: HousingUnit[]): number => {
+    if (!progressRow || housingUnits.length === 0) return 0;
+    const sum = housingUnits.reduce((acc, unit) => acc + (typeof progressRow[unit.id] === 'number' ? progressRow[unit.id] : 0), 0);
+    return sum / housingUnits.length;
+};
+
+/**
+ * Calcula o progresso médio de um serviço ponderado pela parcela de cada unidade.
+ * Unidades sem parcela não executam o serviço e não entram na média.
+ * @param {Record<string, number> | undefined} progressRow O progresso do serviço por unidade.
+ * @param {Record<string, number>} unitWeights A parcela de cada unidade, indexada pelo ID da unidade.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais do projeto.
+ * @returns {number} O progresso médio ponderado (0-100).
+ */
+export const getWeightedItemProgress = (progressRow: Record<string, number> | undefined, unitWeights: Record<string, number>, housingUnits: HousingUnit[]): number => {
+    const units = housingUnits.filter(unit => unit.id in unitWeights);
+    const totalWeight = units.reduce((sum, unit) => sum + unitWeights[unit.id], 0);
+    // Serviços sem incidência nas unidades (peso zero) usam a média simples de quem os executa.
+    if (totalWeight <= 0) return getAverageItemProgress(progressRow, units);
+    if (!progressRow) return 0;
+    const sum = units.reduce((acc, unit) => acc + (typeof progressRow[unit.id] === 'number' ? progressRow[unit.id] : 0) * unitWeights[unit.id], 0);
+    return sum / totalWeight;
+};
+
+/**
+ * Indica se um serviço pertence à área comum e é medido uma única vez para todo o empreendimento.
+ * @param {Pick<ServiceSubItem, 'scope'>} item O serviço.
+ * @returns {boolean} `true` para serviços com `scope: 'global'`.
+ */
+export const isCommonAreaItem = (item: Pick<ServiceSubItem, 'scope'>): boolean => item.scope === 'global';
+
+/**
+ * Retorna o progresso de um serviço da área comum. Sem o valor da área comum (serviços que eram medidos
+ * por unidade antes de passarem à área comum), usa a média das unidades.
+ * @param {Record<string, number> | undefined} progressRow O progresso do serviço.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais do projeto.
+ * @returns {number} O progresso da área comum (0-100).
+ */
+export const getCommonAreaProgress = (progressRow: Record<string, number> | undefined, housingUnits: HousingUnit[]): number => {
+    const value = progressRow?.[COMMON_AREA_UNIT_ID];
+    return typeof value === 'number' ? value : getAverageItemProgress(progressRow, housingUnits);
+};
+
+/**
+ * Retorna o progresso de uma célula, seja de uma unidade ou da pseudo-unidade da área comum
+ * (com a média das unidades quando a linha ainda não tem o valor da área comum, ver `getCommonAreaProgress`).
+ * @param {ProgressMatrix} progress A matriz de progresso.
+ * @param {string} itemId O ID do serviço.
+ * @param {string} unitId O ID da unidade ou da área comum.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais do projeto.
+ * @returns {number} O progresso (0-100).
+ */
+export const getCellProgress = (progress: ProgressMatrix, itemId: string, unitId: string, housingUnits: HousingUnit[]): number =>
+    unitId === COMMON_AREA_UNIT_ID ? getCommonAreaProgress(progress[itemId], housingUnits) : getUnitProgress(progress, itemId, unitId);
+
+/**
+ * Retorna onde um serviço é medido: a área comum, ou as unidades que o executam.
+ * @param {ServiceSubItem} item O serviço calculado.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais do projeto.
+ * @returns {HousingUnit[]} A pseudo-unidade da área comum ou as unidades habitacionais.
+ */
+export const getItemProgressUnits = (item: ServiceSubItem, housingUnits: HousingUnit[]): HousingUnit[] =>
+    isCommonAreaItem(item) ? [COMMON_AREA_UNIT] : housingUnits.filter(unit => isItemApplicable(item, unit.id));
+
+/**
+ * Retorna o progresso atual de um serviço onde ele é medido (ver `getItemProgressUnits`), indexado pelo ID da unidade.
+ * @param {ServiceSubItem} item O serviço calculado.
+ * @param {ProgressMatrix} progress A matriz de progresso.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais do projeto.
+ * @returns {Record<string, number>} O progresso de cada unidade, ou o da área comum.
+ */
+export const getItemProgressRow = (item: ServiceSubItem, progress: ProgressMatrix, housingUnits: HousingUnit[]): Record<string, number> =>
+    isCommonAreaItem(item)
+        ? { [COMMON_AREA_UNIT_ID]: getCommonAreaProgress(progress[item.id], housingUnits) }
+        : { ...progress[item.id] };
+
+/**
+ * Cria uma linha de progresso zerada para as unidades informadas.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais do projeto.
+ * @returns {Record<string, number>} O progresso de cada unidade, indexado pelo ID da unidade.
+ */
+export const createEmptyProgressRow = (housingUnits: HousingUnit[]): Record<string, number> => {
+    return Object.fromEntries(housingUnits.map(unit => [unit.id, 0]));
+};
+
+/**
+ * Remove da matriz os valores de unidades que não existem mais no projeto.
+ * As demais unidades mantêm seus valores independentemente da ordem em que aparecem.
+ * @param {ProgressMatrix} progress A matriz de progresso.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais atuais.
+ * @returns {ProgressMatrix} Uma nova matriz sem as unidades removidas.
+ */
+export const removeDeletedUnits = (progress: ProgressMatrix, housingUnits: HousingUnit[]): ProgressMatrix => {
+    // O progresso da área comum não pertence a nenhuma unidade e é sempre mantido
+    const unitIds = new Set([...housingUnits.map(unit => unit.id), COMMON_AREA_UNIT_ID]);
+    return Object.fromEntries(
+        Object.entries(progress).map(([itemId, row]) => [
+            itemId,
+            Object.fromEntries(Object.entries(row || {}).filter(([unitId]) => unitIds.has(unitId))),
+        ])
+    );
+};
+
+/**
+ * Converte uma matriz de progresso no formato legado (arrays por índice) para o formato indexado por ID da unidade.
+ * A conversão usa a ordem atual de `housingUnits`, que é a mesma ordem em que os arrays foram gravados.
+ * Linhas que já estão no novo formato são mantidas; valores de índices sem unidade correspondente são descartados.
+ * @param {ProgressMatrix | LegacyProgressMatrix | undefined} progress A matriz armazenada.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais do projeto.
+ * @returns {{ progress: ProgressMatrix; migrated: boolean }} A matriz convertida e se houve alguma conversão.
+ */
+export const migrateProgressMatrix = (
+    progress: ProgressMatrix | LegacyProgressMatrix | undefined,
+    housingUnits: HousingUnit[]
+): { progress: ProgressMatrix; migrated: boolean } => {
+    let migrated = false;
+    const result: ProgressMatrix = {};
+    Object.entries(progress || {}).forEach(([itemId, row]) => {
+        if (Array.isArray(row)) {
+            migrated = true;
+            result[itemId] = {};
+            housingUnits.forEach((unit, index) => {
+                result[itemId][unit.id] = typeof row[index] === 'number' ? row[index] : 0;
+            });
+        } else {
+            result[itemId] = row || {};
+        }
+    });
+    return { progress: result, migrated };
+};
+
+/**
+ * Migra todas as matrizes de progresso de um projeto (progresso atual, snapshots das medições
+ * e dos relatórios arquivados) para o formato indexado por ID da unidade, e a fila de aprovação
+ * gravada como lista para o formato indexado pelo ID de cada alteração.
+ * @param {Project} project O projeto como foi lido do armazenamento ou de um backup.
+ * @returns {{ project: Project; migrated: boolean }} O projeto convertido e se houve alguma conversão.
+ */
+export const migrateProject = (project: Project): { project: Project; migrated: boolean } => {
+    const units = Array.isArray(project.housing_units) ? project.housing_units : [];
+    let migrated = false;
+    const migrate = <T extends ProgressMatrix | undefined>(matrix: T): T => {
+        if (!matrix) return matrix;
+        const result = migrateProgressMatrix(matrix, units);
+        migrated = migrated || result.migrated;
+        return result.progress as T;
+    };
+
+    const migratedProject: Project = { ...project, progress: migrate(project.progress) || {} };
+    if (project.measurements) {
+        migratedProject.measurements = project.measurements.map(m =>
+            m.progressSnapshot ? { ...m, progressSnapshot: migrate(m.progressSnapshot) } : m
+        );
+    }
+    if (project.archived_reports) {
+        migratedProject.archived_reports = project.archived_reports.map(report => ({
+            ...report,
+            progressSnapshot: migrate(report.progressSnapshot),
+        }));
+    }
+    if (Array.isArray(project.pending_progress)) {
+        migrated = true;
+        migratedProject.pending_progress = Object.fromEntries((project.pending_progress as ProgressLog[]).map(log => [log.id, log]));
+    }
+    return { project: migratedProject, migrated };
+};
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Organization, ProgressLog, Project, ProjectPatch } from '../types';
+
+const repositories = vi.hoisted(() => ({
+    projectRepository: { applyPatch: vi.fn(), subscribeToProjects: vi.fn(), createProject: vi.fn() },
+    organizationRepository: {},
+    templateRepository: {},
+}));
+
+vi.mock('./repositories', () => repositories);
+
+// Sem IndexedDB (como no Node), a fila offline é mantida apenas em memória.
+let offlineService: typeof import('./offlineService');
+let projectService: typeof import('./projectService');
+
+const patch = (cells: ProjectPatch['progressCells']): ProjectPatch => ({
+    progressCells: cells,
+    removedProgressItems: [],
+    pendingProgress: [],
+    addedHistory: [],
+    addedReports: [],
+    addedAudit: [],
+    fields: {},
+});
+
+const log = (id: string): ProgressLog => ({
+    id,
+    timestamp: '2025-01-01T10:00:00.000Z',
+    itemId: '1.1',
+    itemName: 'Escavação',
+    unitId: 'u1',
+    unitName: 'Casa 01',
+    oldProgress: 0,
+    newProgress: 50,
+});
+
+beforeEach(async () => {
+    vi.resetModules();
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    repositories.projectRepository.applyPatch.mockReset().mockResolvedValue(undefined);
+    repositories.projectRepository.subscribeToProjects.mockReset();
+    repositories.projectRepository.createProject.mockReset().mockImplementation(async data => ({ ...data, id: 'p1', created_at: '2025-01-01T10:00:00.000Z' }));
+    offlineService = await import('./offlineService');
+    projectService = await import('./projectService');
+});
+
+describe('syncOfflineQueue', () => {
+    it('should replay queued changes in the order they were made and empty the queue', async () => {
+        await offlineService.enqueueProjectPatch('p1', patch([{ itemId: '1.1', unitId: 'u1', value: 10 }]));
+        await offlineService.enqueueProjectPatch('p2', patch([{ itemId: '1.1', unitId: 'u1', value: 20 }]));
+        await offlineService.enqueueProjectPatch('p1', patch([{ itemId: '1.1', unitId: 'u1', value: 30 }]));
+
+        const result = await projectService.syncOfflineQueue();
+
+        expect(result).toEqual({ synced: 3, failed: 0 });
+        expect(repositories.projectRepository.applyPatch.mock.calls.map(([projectId, applied]) => [projectId, applied.progressCells[0].value])).toEqual([
+            ['p1', 10], ['p2', 20], ['p1', 30],
+        ]);
+        expect(offlineService.getQueuedPatches()).toEqual([]);
+    });
+
+    it('should complete changes queued by an older version of the app', async () => {
+        const legacy = { ...patch([]), fields: { pending_progress: [log('log_1')] } } as unknown as ProjectPatch;
+        delete (legacy as Partial<ProjectPatch>).addedAudit;
+        delete (legacy as Partial<ProjectPatch>).pendingProgress;
+        await offlineService.enqueueProjectPatch('p1', legacy);
+
+        await projectService.syncOfflineQueue();
+
+        const [, applied] = repositories.projectRepository.applyPatch.mock.calls[0];
+        expect(applied.addedAudit).toEqual([]);
+        expect(applied.pendingProgress).toEqual([]);
+        expect(applied.fields.pending_progress).toEqual({ log_1: log('log_1') });
+    });
+
+    it('should keep the queue when the connection drops during the replay', async () => {
+        repositories.projectRepository.applyPatch
+            .mockResolvedValueOnce(undefined)
+            .mockRejectedValueOnce({ code: 'unavailable' });
+        await offlineService.enqueueProjectPatch('p1', patch([{ itemId: '1.1', unitId: 'u1', value: 10 }]));
+        await offlineService.enqueueProjectPatch('p1', patch([{ itemId: '1.1', unitId: 'u1', value: 20 }]));
+        await offlineService.enqueueProjectPatch('p1', patch([{ itemId: '1.1', unitId: 'u1', value: 30 }]));
+
+        const result = await projectService.syncOfflineQueue();
+
+        expect(result).toEqual({ synced: 1, failed: 0 });
+        expect(repositories.projectRepository.applyPatch).toHaveBeenCalledTimes(2);
+        expect(offlineService.getQueuedPatches().map(entry => entry.patch.progressCells[0].value)).toEqual([20, 30]);
+    });
+
+    it('should discard changes rejected by the server and replay the following ones', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        repositories.projectRepository.applyPatch.mockRejectedValueOnce({ code: 'permission-denied' });
+        await offlineService.enqueueProjectPatch('p1', patch([{ itemId: '1.1', unitId: 'u1', value: 10 }]));
+        await offlineService.enqueueProjectPatch('p1', patch([{ itemId: '1.1', unitId: 'u1', value: 20 }]));
+
+        const result = await projectService.syncOfflineQueue();
+
+        expect(result).toEqual({ synced: 1, failed: 1 });
+        expect(offlineService.getQueuedPatches()).toEqual([]);
+    });
+});
+
+describe('subscribeToProjects', () => {
+    it('should merge the queued changes of each project over the version received from the server', async () => {
+        const stored = (id: string) => ({ id, name: id, housing_units: [], progress: { '1.1': { u1: 0, u2: 0 } } } as unknown as Project);
+        repositories.projectRepository.subscribeToProjects.mockImplementation((_userId, onChange) => {
+            onChange([stored('p1'), stored('p2')]);
+            return () => {};
+        });
+        await offlineService.enqueueProjectPatch('p1', patch([{ itemId: '1.1', unitId: 'u1', value: 10 }]));
+        await offlineService.enqueueProjectPatch('p1', patch([{ itemId: '1.1', unitId: 'u1', value: 30 }, { itemId: '1.1', unitId: 'u2', value: 40 }]));
+        const onChange = vi.fn();
+
+        projectService.subscribeToProjects('u1', onChange, () => {});
+
+        const [projects] = onChange.mock.calls[0] as [Project[]];
+        expect(projects.find(project => project.id === 'p1')?.progress['1.1']).toEqual({ u1: 30, u2: 40 });
+        expect(projects.find(project => project.id === 'p2')?.progress['1.1']).toEqual({ u1: 0, u2: 0 });
+    });
+});
+
+describe('addProject', () => {
+    it('should record the creation in the audit trail in the same write as the project', async () => {
+        const user = { uid: 'ana', email: 'ana@construtora.com.br' };
+        const organization = { id: 'o1', name: 'Construtora Sol', ownerId: 'ana', members: ['ana'] } as unknown as Organization;
+
+        await projectService.addProject({ name: 'Residencial Sol', housing_units: [] } as unknown as Parameters<typeof projectService.addProject>[0], user, organization);
+
+        expect(repositories.projectRepository.createProject).toHaveBeenCalledTimes(1);
+        const [data, archives] = repositories.projectRepository.createProject.mock.calls[0];
+        expect(data).toEqual(expect.objectContaining({ ownerId: 'ana', organizationId: 'o1' }));
+        expect(archives.audit).toEqual([expect.objectContaining({
+            action: 'project_created',
+            description: 'Projeto Residencial Sol criado na organização Construtora Sol.',
+            userId: 'ana',
+        })]);
+    });
+});
@@ -1,62 +1,237 @@
-import { Project, ProgressMatrix, HousingUnit, PlsCategoryTemplate } from '../types';
+import {
+    Project, ProgressMatrix, HousingUnit, PlsCategoryTemplate, EditingPresence, ProjectPatch, ProgressLog,
+    ArchivedReport, ProjectArchiveAdditions, ProjectRole, Page, PlsTemplate, Organization, ProjectInvitation, UserProfile, AuditEntry, AuditAction
+} from '../types';
 import { PLS_TEMPLATE } from '../constants';
-import { db } from '../firebase/config';
-// FIX: Import `writeBatch` from Firestore to handle batch operations.
-import { 
-    collection, query, where, getDocs, addDoc, doc, updateDoc, deleteDoc, 
-    serverTimestamp, orderBy, arrayUnion, arrayRemove, DocumentData, writeBatch 
-} from 'firebase/firestore';
+import { createEmptyProgressRow, migrateProject, removeDeletedUnits } from './progressService';
+import { applyProjectPatch, combineProjectPatches, diffProjects, isEmptyPatch } from './collaborationService';
+import * as offlineService from './offlineService';
+import { extractEmbeddedArchives, hasEmbeddedArchives } from './archiveService';
+import { markImportedHistory } from './historyService';
+import { getOrganizationProjectMembers } from './organizationService';
+import { buildInvitationMessage, createInvitation, normalizeEmail } from './invitationService';
+import { getProjectCreatedAuditEntry } from './auditService';
+import { organizationRepository, projectRepository, templateRepository } from './repositories';
 
-const PROJECTS_COLLECTION = 'projects';
+/**
+ * Projetos com migração em andamento, para não repeti-la a cada atualização em tempo real.
+ */
+const migrationsInProgress = new Set<string>();
 
 /**
- * Converte um documento do Firestore para o tipo Project, tratando o timestamp.
- * @param {DocumentData} doc O documento do Firestore.
- * @returns {Project} O objeto de projeto convertido.
+ * Grava um projeto que acabou de ser migrado: matrizes de progresso convertidas do formato
+ * legado e histórico/relatórios embutidos movidos para as subcoleções. Os campos embutidos só são removidos
+ * do documento depois que todos os registros foram copiados (veja `ProjectRepository.applyPatch`).
+ * Falhas (ex: membro sem permissão de escrita) não impedem o carregamento, pois a migração é refeita na próxima leitura.
+ * @param {Project} project O projeto já migrado, ainda com as listas embutidas.
+ * @param {boolean} [pendingProgressMigrated] Se a fila de aprovação estava gravada como lista e precisa ser regravada inteira.
+ * @returns {Promise<void>}
  */
-const fromFirestore = (doc: DocumentData): Project => {
-    const data = doc.data();
-    return {
-        ...data,
-        id: doc.id,
-        // Converte o timestamp do Firestore para uma string ISO, ou usa a data atual como fallback.
-        created_at: data.created_at?.toDate().toISOString() || new Date().toISOString(),
-    } as Project;
-}
+const persistMigratedProject = async (project: Project, pendingProgressMigrated = false): Promise<void> => {
+    if (migrationsInProgress.has(project.id)) return;
+    migrationsInProgress.add(project.id);
+
+    const { project: projectWithoutArchives, history, reports } = extractEmbeddedArchives(project);
+    const fields: Partial<Project> = { progress: project.progress };
+    if (project.measurements) fields.measurements = project.measurements;
+    if (pendingProgressMigrated) fields.pending_progress = project.pending_progress;
+    if (hasEmbeddedArchives(project)) {
+        fields.history = undefined;
+        fields.archived_reports = undefined;
+        if (projectWithoutArchives.report_summaries) fields.report_summaries = projectWithoutArchives.report_summaries;
+    }
+    try {
+        await projectRepository.applyPatch(project.id, {
+            progressCells: [],
+            removedProgressItems: [],
+            pendingProgress: [],
+            addedHistory: history,
+            addedReports: reports,
+            addedAudit: [],
+            fields,
+        });
+    } catch (error) {
+        console.warn(`Failed to persist migrated data for project ${project.id}`, error);
+    } finally {
+        migrationsInProgress.delete(project.id);
+    }
+};
+
+/**
+ * Prepara um projeto lido do repositório para uso na aplicação, migrando dados em formatos antigos.
+ * A gravação da migração é disparada em segundo plano; o projeto retornado já está no formato atual.
+ * @param {Project} stored O projeto como está gravado.
+ * @returns {Project} O projeto pronto para uso.
+ */
+const prepareLoadedProject = (stored: Project): Project => {
+    const { project, migrated } = migrateProject(stored);
+    if (migrated || hasEmbeddedArchives(project)) {
+        persistMigratedProject(project, Array.isArray(stored.pending_progress));
+    }
+    return extractEmbeddedArchives(project).project;
+};
 
 /**
- * Carrega todos os projetos do Firestore associados a um usuário.
+ * Carrega todos os projetos associados a um usuário.
  * @param {string} userId O ID do usuário autenticado.
  * @returns {Promise<Project[]>} Um array de projetos do usuário.
  */
 export const loadProjects = async (userId: string): Promise<Project[]> => {
     if (!userId) return [];
     
-    // Query para projetos onde o usuário é listado como membro.
-    const projectsRef = collection(db, PROJECTS_COLLECTION);
-    const q = query(projectsRef, where('members', 'array-contains', userId), orderBy('created_at', 'desc'));
-    
     try {
-        const querySnapshot = await getDocs(q);
-        const projects = querySnapshot.docs.map(fromFirestore);
-        return projects;
+        const projects = await projectRepository.loadProjects(userId);
+        return projects.map(prepareLoadedProject);
     } catch (error) {
-        console.error("Failed to load projects from Firestore", error);
+        console.error("Failed to load projects", error);
         throw error; // Relança o erro original para que o contexto possa analisá-lo.
     }
 };
 
+/**
+ * Assina em tempo real os projetos dos quais o usuário é membro.
+ * Cada alteração feita por qualquer colaborador dispara `onChange` com a lista completa e atualizada.
+ * Projetos ainda em formatos antigos são migrados, como em `loadProjects`.
+ * Cada versão recebida do servidor é guardada localmente para uso offline, e as alterações ainda na
+ * fila offline são aplicadas sobre ela.
+ * @param {string} userId O ID do usuário autenticado.
+ * @param {(projects: Project[]) => void} onChange Callback chamado a cada nova versão da lista.
+ * @param {(error: Error) => void} onError Callback chamado se a assinatura falhar.
+ * @returns {() => void} A função para cancelar a assinatura.
+ */
+export const subscribeToProjects = (
+    userId: string,
+    onChange: (projects: Project[]) => void,
+    onError: (error: Error) => void
+): (() => void) => {
+    return projectRepository.subscribeToProjects(userId, stored => {
+        const projects = stored.map(prepareLoadedProject);
+        offlineService.cacheProjects(projects);
+        onChange(projects.map(applyQueuedPatches));
+    }, onError);
+};
+
+/**
+ * Aplica a um projeto as alterações ainda na fila offline, para exibi-lo como o usuário o deixou.
+ * @param {Project} project A versão do projeto conhecida do servidor.
+ * @returns {Project} O projeto com as alterações pendentes.
+ */
+const applyQueuedPatches = (project: Project): Project => {
+    return offlineService.getQueuedPatches(project.id).reduce((merged, entry) => applyProjectPatch(merged, entry.patch), project);
+};
+
+/**
+ * Carrega a última versão dos projetos guardada neste dispositivo, com as alterações ainda não sincronizadas.
+ * Usado para abrir a aplicação sem conexão.
+ * @param {string} userId O ID do usuário autenticado.
+ * @returns {Promise<Project[]>} Os projetos guardados localmente.
+ */
+export const loadOfflineProjects = async (userId: string): Promise<Project[]> => {
+    await offlineService.loadOfflineQueue();
+    const projects = await offlineService.loadCachedProjects(userId);
+    return projects.map(applyQueuedPatches);
+};
+
+/**
+ * Carrega uma página do histórico de alterações de progresso de um projeto, do mais recente para o mais antigo.
+ * @param {string} projectId O ID do projeto.
+ * @param {number} pageSize O número de registros por página.
+ * @param {unknown} [cursor] O cursor retornado pela página anterior.
+ * @returns {Promise<Page<ProgressLog>>} A página carregada.
+ */
+export const loadHistoryPage = (projectId: string, pageSize: number, cursor?: unknown): Promise<Page<ProgressLog>> => {
+    return projectRepository.loadHistoryPage(projectId, pageSize, cursor);
+};
+
+/**
+ * Carrega o histórico completo de alterações de progresso de um projeto, depois de gravar as alterações pendentes.
+ * Inclui os registros das alterações ainda na fila offline, que já estão no progresso local mas não foram gravados.
+ * @param {string} projectId O ID do projeto.
+ * @returns {Promise<ProgressLog[]>} Todos os registros do histórico (os da fila offline primeiro).
+ */
+export const loadFullHistory = async (projectId: string): Promise<ProgressLog[]> => {
+    await flushPendingWrites(projectId);
+    await offlineService.loadOfflineQueue();
+    const { history } = await projectRepository.loadArchives(projectId);
+    const savedIds = new Set(history.map(log => log.id));
+    const queued = offlineService.getQueuedPatches(projectId)
+        .flatMap(entry => entry.patch.addedHistory || [])
+        .filter(log => !savedIds.has(log.id));
+    return [...queued, ...history];
+};
+
+/**
+ * Carrega uma página dos relatórios arquivados de um projeto, do mais recente para o mais antigo.
+ * @param {string} projectId O ID do projeto.
+ * @param {number} pageSize O número de relatórios por página.
+ * @param {unknown} [cursor] O cursor retornado pela página anterior.
+ * @returns {Promise<Page<ArchivedReport>>} A página carregada.
+ */
+export const loadArchivedReportsPage = (projectId: string, pageSize: number, cursor?: unknown): Promise<Page<ArchivedReport>> => {
+    return projectRepository.loadArchivedReportsPage(projectId, pageSize, cursor);
+};
+
+/**
+ * Carrega uma página da trilha de auditoria de um projeto, do evento mais recente para o mais antigo.
+ * @param {string} projectId O ID do projeto.
+ * @param {number} pageSize O número de eventos por página.
+ * @param {unknown} [cursor] O cursor retornado pela página anterior.
+ * @returns {Promise<Page<AuditEntry>>} A página carregada.
+ */
+export const loadAuditPage = (projectId: string, pageSize: number, cursor?: unknown): Promise<Page<AuditEntry>> => {
+    return projectRepository.loadAuditPage(projectId, pageSize, cursor);
+};
+
+/**
+ * Carrega todos os eventos de um tipo da trilha de auditoria de um projeto, do mais recente para o mais antigo.
+ * @param {string} projectId O ID do projeto.
+ * @param {AuditAction} action O tipo de evento.
+ * @returns {Promise<AuditEntry[]>} Os eventos.
+ */
+export const loadAuditEntries = (projectId: string, action: AuditAction): Promise<AuditEntry[]> => {
+    return projectRepository.loadAuditEntries(projectId, action);
+};
+
+/**
+ * Grava eventos na trilha de auditoria de um projeto sem alterar o documento
+ * (ex: alterações de membros, que não passam pelas alterações campo a campo).
+ * @param {string} projectId O ID do projeto.
+ * @param {AuditEntry[]} entries Os eventos.
+ * @returns {Promise<void>}
+ */
+export const recordAuditEntries = async (projectId: string, entries: AuditEntry[]): Promise<void> => {
+    await projectRepository.applyPatch(projectId, {
+        progressCells: [],
+        removedProgressItems: [],
+        pendingProgress: [],
+        addedHistory: [],
+        addedReports: [],
+        addedAudit: entries,
+        fields: {},
+    });
+};
+
+/**
+ * Carrega o histórico e os relatórios arquivados completos de um projeto, para incluí-los em um backup.
+ * @param {Project} project O projeto.
+ * @returns {Promise<Project>} O projeto com `history` e `archived_reports` preenchidos.
+ */
+export const loadProjectArchives = async (project: Project): Promise<Project> => {
+    const { history, reports } = await projectRepository.loadArchives(project.id);
+    return { ...project, history, archived_reports: reports };
+};
+
 /**
  * Gera a matriz de progresso inicial para um novo projeto.
  * @param {HousingUnit[]} housingUnits As unidades habitacionais do projeto.
  * @param {PlsCategoryTemplate[]} plsData A estrutura de serviços da PLS.
- * @returns {ProgressMatrix} Um objeto onde cada chave é um ID de serviço e o valor é um array de zeros, um para cada unidade.
+ * @returns {ProgressMatrix} Um objeto onde cada chave é um ID de serviço e o valor associa cada ID de unidade a zero.
  */
 const getInitialProgressForProject = (housingUnits: HousingUnit[], plsData: PlsCategoryTemplate[]): ProgressMatrix => {
     const initialProgress: ProgressMatrix = {};
     plsData.forEach(category => {
         category.subItems.forEach(item => {
-            initialProgress[item.id] = Array(housingUnits.length).fill(0);
+            initialProgress[item.id] = createEmptyProgressRow(housingUnits);
         });
     });
     return initialProgress;
@@ -64,150 +239,433 @@ const getInitialProgressForProject = (housingUnits: HousingUnit[], plsData: PlsC
 
 
 /**
- * Cria um novo projeto no Firestore.
+ * Cria um novo projeto.
+ * Em um projeto de organização, os demais membros da organização são adicionados logo após a criação
+ * (as regras de segurança só aceitam o proprietário como membro inicial).
+ * A criação é registrada na trilha de auditoria na mesma gravação do projeto.
  * @param {Omit<Project, 'id' | 'progress' | 'created_at' | 'ownerId' | 'members'>} projectData Os dados do formulário de criação do projeto.
- * @param {string} userId O ID do usuário que está criando o projeto.
+ * @param {UserProfile} user O usuário que está criando o projeto.
+ * @param {Organization} [organization] A organização do projeto, se houver.
  * @returns {Promise<Project>} O objeto de projeto completo como foi salvo.
  */
-export const addProject = async (projectData: Omit<Project, 'id' | 'progress' | 'created_at' | 'ownerId' | 'members'>, userId: string): Promise<Project> => {
+export const addProject = async (
+    projectData: Omit<Project, 'id' | 'progress' | 'created_at' | 'ownerId' | 'members'>,
+    user: UserProfile,
+    organization?: Organization
+): Promise<Project> => {
+    const userId = user.uid;
     const plsDataToUse = projectData.pls_data || PLS_TEMPLATE;
     const initialProgress = getInitialProgressForProject(projectData.housing_units, plsDataToUse);
 
-    const newProjectData = {
+    const project = await projectRepository.createProject({
         ...projectData,
+        ...(organization ? { organizationId: organization.id } : {}),
         ownerId: userId,
         members: [userId], // O proprietário é membro por padrão
+        roles: { [userId]: 'owner' },
         progress: initialProgress,
-        created_at: serverTimestamp(),
-    };
-    
-    const docRef = await addDoc(collection(db, PROJECTS_COLLECTION), newProjectData);
+    }, { history: [], reports: [], audit: [getProjectCreatedAuditEntry(projectData, user, organization)] });
+    if (!organization) return project;
 
+    const organizationMembers = getOrganizationProjectMembers(organization, userId);
+    for (const { userId: memberId, role } of organizationMembers) {
+        await projectRepository.addMember(project.id, memberId, role);
+    }
     return {
-        ...projectData,
-        id: docRef.id,
-        progress: initialProgress,
-        created_at: new Date().toISOString(),
-        ownerId: userId,
-        members: [userId],
+        ...project,
+        members: [...project.members, ...organizationMembers.map(member => member.userId)],
+        roles: { ...project.roles, ...Object.fromEntries(organizationMembers.map(member => [member.userId, member.role])) },
     };
 };
 
 
 /**
- * Atualiza um projeto existente no Firestore.
- * @param {Project} updatedProject O objeto do projeto com as informações atualizadas.
+ * Tempo de espera após a última edição antes de gravar, agrupando edições em sequência numa única escrita.
+ */
+const WRITE_DEBOUNCE_MS = 800;
+
+/**
+ * Alterações aguardando gravação, por projeto, com as promessas a resolver quando forem gravadas.
+ */
+const pendingWrites = new Map<string, {
+    patch: ProjectPatch;
+    timer: ReturnType<typeof setTimeout>;
+    waiters: { resolve: () => void; reject: (error: unknown) => void }[];
+}>();
+
+/**
+ * Indica se um erro do Firestore se deve à falta de conexão.
+ */
+const isOfflineError = (error: any): boolean => error?.code === 'unavailable';
+
+/**
+ * Grava uma alteração no repositório ou, sem conexão, a coloca na fila offline.
+ * Enquanto a fila não estiver vazia, novas alterações entram nela, para que sejam gravadas na ordem em que foram feitas.
+ * @param {string} projectId O ID do projeto.
+ * @param {ProjectPatch} patch As alterações a gravar.
  * @returns {Promise<void>}
  */
-export const updateProject = async (updatedProject: Project): Promise<void> => {
-    const { id, ...projectData } = updatedProject;
-    const projectRef = doc(db, PROJECTS_COLLECTION, id);
-    const dataToUpdate = { ...projectData };
-    // Remove o campo `created_at` para evitar erros de tipo no Firestore ao atualizar.
-    delete (dataToUpdate as any).created_at;
+const writeOrQueueProjectPatch = async (projectId: string, patch: ProjectPatch): Promise<void> => {
+    if (!navigator.onLine || offlineService.getQueuedPatches().length > 0) {
+        await offlineService.enqueueProjectPatch(projectId, patch);
+        if (navigator.onLine) syncOfflineQueue();
+        return;
+    }
+    try {
+        await projectRepository.applyPatch(projectId, patch);
+    } catch (error) {
+        if (!isOfflineError(error)) throw error;
+        await offlineService.enqueueProjectPatch(projectId, patch);
+    }
+};
 
-    await updateDoc(projectRef, dataToUpdate);
+/**
+ * Completa uma alteração enfileirada por uma versão anterior da aplicação: sem `addedAudit` e `pendingProgress`,
+ * e com a fila de aprovação gravada inteira como lista.
+ */
+const normalizeQueuedPatch = (patch: ProjectPatch): ProjectPatch => {
+    const normalized: ProjectPatch = { addedAudit: [], pendingProgress: [], ...patch };
+    const pending = patch.fields.pending_progress as ProgressLog[] | Record<string, ProgressLog> | undefined;
+    if (Array.isArray(pending)) {
+        normalized.fields = { ...patch.fields, pending_progress: Object.fromEntries(pending.map(log => [log.id, log])) };
+    }
+    return normalized;
 };
 
+let syncInProgress: Promise<{ synced: number; failed: number }> | null = null;
+
+/**
+ * Reenvia ao repositório, em ordem, as alterações feitas sem conexão.
+ * Para ao primeiro erro de conexão, mantendo o restante na fila. Alterações rejeitadas pelo servidor
+ * (ex: permissão negada) são descartadas, para não bloquear as seguintes.
+ * @returns {Promise<{ synced: number; failed: number }>} Quantas alterações foram gravadas e quantas foram descartadas.
+ */
+export const syncOfflineQueue = (): Promise<{ synced: number; failed: number }> => {
+    if (!syncInProgress) {
+        syncInProgress = (async () => {
+            await offlineService.loadOfflineQueue();
+            const result = { synced: 0, failed: 0 };
+            for (const entry of offlineService.getQueuedPatches()) {
+                if (!navigator.onLine) break;
+                try {
+                    await projectRepository.applyPatch(entry.projectId, normalizeQueuedPatch(entry.patch));
+                    result.synced++;
+                } catch (error) {
+                    if (isOfflineError(error)) break;
+                    console.error(`Discarding offline change for project ${entry.projectId}`, error);
+                    result.failed++;
+                }
+                await offlineService.removeQueuedPatch(entry);
+            }
+            return result;
+        })().finally(() => {
+            syncInProgress = null;
+        });
+    }
+    return syncInProgress;
+};
+
+/**
+ * Observa o número de alterações feitas sem conexão que ainda aguardam sincronização.
+ * @param {(count: number) => void} onChange Callback chamado com o número atual e a cada mudança.
+ * @returns {() => void} Função para cancelar a observação.
+ */
+export const subscribeToOfflineQueue = (onChange: (count: number) => void): (() => void) => {
+    offlineService.loadOfflineQueue();
+    return offlineService.subscribeToQueueSize(onChange);
+};
+
+/**
+ * Grava imediatamente as alterações pendentes de um projeto (ou de todos, se nenhum for informado).
+ * Útil antes de fechar a página, para não perder edições ainda no intervalo de agrupamento.
+ * @param {string} [projectId] O ID do projeto.
+ * @returns {Promise<void>}
+ */
+export const flushPendingWrites = async (projectId?: string): Promise<void> => {
+    const projectIds = projectId ? [projectId] : Array.from(pendingWrites.keys());
+    await Promise.all(projectIds.map(async id => {
+        const pending = pendingWrites.get(id);
+        if (!pending) return;
+        clearTimeout(pending.timer);
+        pendingWrites.delete(id);
+        try {
+            await writeOrQueueProjectPatch(id, pending.patch);
+            pending.waiters.forEach(waiter => waiter.resolve());
+        } catch (error) {
+            pending.waiters.forEach(waiter => waiter.reject(error));
+        }
+    }));
+};
 
 /**
- * Exclui um projeto do Firestore.
+ * Agenda a gravação das alterações feitas localmente em um projeto.
+ * Apenas o que mudou em relação à versão base é enviado, e edições feitas em sequência
+ * (ex: várias células da PLS) são agrupadas em uma única escrita.
+ * @param {Project} baseProject O projeto antes das alterações locais.
+ * @param {Project} updatedProject O projeto com as alterações locais.
+ * @param {ProjectArchiveAdditions} [additions] Novos registros de histórico, relatórios e eventos de auditoria a gravar nas subcoleções.
+ * @returns {Promise<void>} Resolvida quando as alterações forem gravadas ou, sem conexão, guardadas na fila offline.
+ */
+export const saveProjectChanges = (baseProject: Project, updatedProject: Project, additions: ProjectArchiveAdditions = {}): Promise<void> => {
+    const patch: ProjectPatch = {
+        ...diffProjects(baseProject, updatedProject),
+        addedHistory: additions.history || [],
+        addedReports: additions.reports || [],
+        addedAudit: additions.audit || [],
+    };
+    if (isEmptyPatch(patch)) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+        const projectId = updatedProject.id;
+        const pending = pendingWrites.get(projectId);
+        if (pending) clearTimeout(pending.timer);
+        pendingWrites.set(projectId, {
+            patch: pending ? combineProjectPatches(pending.patch, patch) : patch,
+            timer: setTimeout(() => flushPendingWrites(projectId), WRITE_DEBOUNCE_MS),
+            waiters: [...(pending?.waiters || []), { resolve, reject }],
+        });
+    });
+};
+
+/**
+ * Exclui um projeto com o seu histórico, relatórios e presenças.
  * @param {string} projectId O ID do projeto a ser excluído.
  * @returns {Promise<void>}
  */
 export const deleteProject = async (projectId: string): Promise<void> => {
-    const projectRef = doc(db, PROJECTS_COLLECTION, projectId);
-    await deleteDoc(projectRef);
+    await projectRepository.deleteProject(projectId);
+};
+
+/**
+ * Cria um projeto a partir de um backup, com o histórico e os relatórios nas subcoleções.
+ * Backups antigos são convertidos para a matriz indexada por ID da unidade, e os registros de histórico
+ * sem origem são marcados como importados.
+ * @param {Project} project O projeto do backup.
+ * @param {string} userId O ID do usuário que passa a ser o proprietário.
+ * @returns {Promise<Project>} O projeto criado.
+ */
+const createProjectFromBackup = (project: Project, userId: string): Promise<Project> => {
+    // Descarta o ID e a data originais para que o repositório gere novos, evitando conflitos.
+    const { project: projectWithoutArchives, history, reports } = extractEmbeddedArchives(migrateProject(project).project);
+    const { id, created_at, ...data } = projectWithoutArchives;
+
+    // Atribui o projeto ao usuário atual e o define como único membro, descartando dados de proprietário antigo.
+    return projectRepository.createProject({
+        ...data,
+        ownerId: userId,
+        members: [userId],
+        roles: { [userId]: 'owner' },
+    }, { history: markImportedHistory(history), reports });
+};
+
+/**
+ * Assina em tempo real as presenças de edição de um projeto (quem está editando qual serviço).
+ * @param {string} projectId O ID do projeto.
+ * @param {(presence: EditingPresence[]) => void} onChange Callback chamado a cada alteração.
+ * @returns {() => void} A função para cancelar a assinatura.
+ */
+export const subscribeToPresence = (projectId: string, onChange: (presence: EditingPresence[]) => void): (() => void) => {
+    return projectRepository.subscribeToPresence(projectId, onChange);
+};
+
+/**
+ * Registra (ou renova) a presença do usuário em um projeto, indicando o serviço em edição.
+ * @param {string} projectId O ID do projeto.
+ * @param {EditingPresence} presence A presença do usuário.
+ * @returns {Promise<void>}
+ */
+export const setEditingPresence = async (projectId: string, presence: EditingPresence): Promise<void> => {
+    await projectRepository.setPresence(projectId, presence);
 };
 
 /**
- * Adiciona um membro a um projeto no Firestore.
+ * Remove a presença do usuário em um projeto.
+ * @param {string} projectId O ID do projeto.
+ * @param {string} userId O ID do usuário.
+ * @returns {Promise<void>}
+ */
+export const clearEditingPresence = async (projectId: string, userId: string): Promise<void> => {
+    await projectRepository.clearPresence(projectId, userId);
+};
+
+/**
+ * Adiciona um membro a um projeto.
  * @param {string} projectId O ID do projeto.
  * @param {string} memberId O ID do membro a ser adicionado.
+ * @param {ProjectRole} role O papel do novo membro.
  * @returns {Promise<void>}
  */
-export const addMemberToProject = async (projectId: string, memberId: string): Promise<void> => {
-    const projectRef = doc(db, PROJECTS_COLLECTION, projectId);
-    await updateDoc(projectRef, {
-        members: arrayUnion(memberId)
-    });
+export const addMemberToProject = async (projectId: string, memberId: string, role: ProjectRole): Promise<void> => {
+    await projectRepository.addMember(projectId, memberId, role);
 };
 
 /**
- * Remove um membro de um projeto no Firestore.
+ * Altera o papel de um membro do projeto.
+ * @param {string} projectId O ID do projeto.
+ * @param {string} memberId O ID do membro.
+ * @param {ProjectRole} role O novo papel.
+ * @returns {Promise<void>}
+ */
+export const setMemberRole = async (projectId: string, memberId: string, role: ProjectRole): Promise<void> => {
+    await projectRepository.setMemberRole(projectId, memberId, role);
+};
+
+/**
+ * Remove um membro de um projeto.
  * @param {string} projectId O ID do projeto.
  * @param {string} memberId O ID do membro a ser removido.
  * @returns {Promise<void>}
  */
 export const removeMemberFromProject = async (projectId: string, memberId: string): Promise<void> => {
-    const projectRef = doc(db, PROJECTS_COLLECTION, projectId);
-    await updateDoc(projectRef, {
-        members: arrayRemove(memberId)
+    await projectRepository.removeMember(projectId, memberId);
+};
+
+/**
+ * Convida um e-mail (com ou sem conta no sistema) para o projeto e envia a mensagem pela caixa de saída.
+ * Um novo convite para o mesmo e-mail substitui o anterior, renovando a sua validade.
+ * @param {Project} project O projeto.
+ * @param {string} email O e-mail convidado.
+ * @param {ProjectRole} role O papel que o convidado recebe ao entrar.
+ * @param {UserProfile} inviter Quem está convidando.
+ * @returns {Promise<ProjectInvitation>} O convite gravado.
+ */
+export const inviteMemberToProject = async (project: Project, email: string, role: ProjectRole, inviter: UserProfile): Promise<ProjectInvitation> => {
+    const invitation = createInvitation(email, role, inviter);
+    await projectRepository.inviteMember(project.id, invitation, buildInvitationMessage(project, invitation, window.location.origin));
+    return invitation;
+};
+
+/**
+ * Revoga um convite pendente.
+ * @param {string} projectId O ID do projeto.
+ * @param {string} email O e-mail convidado.
+ * @returns {Promise<void>}
+ */
+export const revokeInvitation = async (projectId: string, email: string): Promise<void> => {
+    await projectRepository.revokeInvitation(projectId, normalizeEmail(email));
+};
+
+/**
+ * Converte em participação os convites válidos para o e-mail de quem acabou de entrar.
+ * @param {string} userId O ID do usuário.
+ * @param {string} email O e-mail (verificado) do usuário.
+ * @returns {Promise<string[]>} Os nomes dos projetos aos quais o usuário foi adicionado.
+ */
+export const acceptPendingInvitations = async (userId: string, email: string): Promise<string[]> => {
+    return projectRepository.acceptInvitations(userId, normalizeEmail(email));
+};
+
+/**
+ * Carrega os modelos da biblioteca da construtora.
+ * @param {string} userId O ID do usuário, cujos modelos pessoais são carregados quando não há organização.
+ * @param {string | null} organizationId A organização cuja biblioteca é carregada.
+ * @returns {Promise<PlsTemplate[]>} Os modelos, em ordem alfabética.
+ */
+export const loadTemplates = async (userId: string, organizationId: string | null): Promise<PlsTemplate[]> => {
+    return templateRepository.loadTemplates(userId, organizationId);
+};
+
+/**
+ * Grava um novo modelo na biblioteca.
+ * @param {Omit<PlsTemplate, 'id'>} data O modelo (ver `templateService.createTemplateFromProject`).
+ * @returns {Promise<PlsTemplate>} O modelo gravado, com o seu ID.
+ */
+export const createTemplate = async (data: Omit<PlsTemplate, 'id'>): Promise<PlsTemplate> => {
+    return templateRepository.createTemplate(data);
+};
+
+/**
+ * Grava um modelo existente da biblioteca (ex: com uma nova versão publicada).
+ * @param {PlsTemplate} template O modelo.
+ * @returns {Promise<void>}
+ */
+export const saveTemplate = async (template: PlsTemplate): Promise<void> => {
+    await templateRepository.saveTemplate(template);
+};
+
+/**
+ * Exclui um modelo da biblioteca. Os projetos criados a partir dele mantêm a sua PLS.
+ * @param {string} templateId O ID do modelo.
+ * @returns {Promise<void>}
+ */
+export const deleteTemplate = async (templateId: string): Promise<void> => {
+    await templateRepository.deleteTemplate(templateId);
+};
+
+/**
+ * Carrega as organizações das quais o usuário é membro.
+ * @param {string} userId O ID do usuário.
+ * @returns {Promise<Organization[]>} As organizações, em ordem alfabética.
+ */
+export const loadOrganizations = async (userId: string): Promise<Organization[]> => {
+    return organizationRepository.loadOrganizations(userId);
+};
+
+/**
+ * Cria uma organização tendo o usuário como proprietário e administrador.
+ * @param {string} name O nome da organização.
+ * @param {string} userId O ID do usuário.
+ * @returns {Promise<Organization>} A organização gravada, com o seu ID.
+ */
+export const createOrganization = async (name: string, userId: string): Promise<Organization> => {
+    return organizationRepository.createOrganization({
+        name: name.trim(),
+        ownerId: userId,
+        members: [userId],
+        roles: { [userId]: 'admin' },
     });
 };
 
+/**
+ * Grava uma organização existente (dados, identidade visual, modelo padrão e membros).
+ * @param {Organization} organization A organização.
+ * @returns {Promise<void>}
+ */
+export const saveOrganization = async (organization: Organization): Promise<void> => {
+    await organizationRepository.saveOrganization(organization);
+};
+
+/**
+ * Exclui uma organização. Os seus projetos continuam com os mesmos membros e passam a ser exibidos como pessoais.
+ * @param {string} organizationId O ID da organização.
+ * @returns {Promise<void>}
+ */
+export const deleteOrganization = async (organizationId: string): Promise<void> => {
+    await organizationRepository.deleteOrganization(organizationId);
+};
+
 /**
  * Lida com a lógica de negócio de ajustar a matriz de progresso
- * quando o número de unidades habitacionais muda.
+ * quando unidades habitacionais são excluídas. Como a matriz é indexada pelo ID da unidade,
+ * reordenar ou inserir unidades não exige ajuste; apenas os valores de unidades removidas são descartados.
  * @param {Project} oldProject O estado anterior do projeto.
  * @param {Project} updatedProject O novo estado do projeto com as atualizações.
  * @returns {Project} O projeto atualizado com a matriz de progresso ajustada.
  */
 export const handleUnitChanges = (oldProject: Project, updatedProject: Project): Project => {
-    const oldUnitCount = oldProject.housing_units.length;
-    const newUnitCount = updatedProject.housing_units.length;
-    const projectToUpdate = { ...updatedProject };
-
-    if (newUnitCount !== oldUnitCount) {
-        const adjustedProgress = { ...projectToUpdate.progress };
-        Object.keys(adjustedProgress).forEach(itemId => {
-            const oldProgressArray = adjustedProgress[itemId] || [];
-            const newProgressArray = Array(newUnitCount).fill(0);
-            
-            const unitsToCopy = Math.min(oldUnitCount, newUnitCount);
-            for (let i = 0; i < unitsToCopy; i++) {
-                newProgressArray[i] = oldProgressArray[i];
-            }
-            adjustedProgress[itemId] = newProgressArray;
-        });
-        projectToUpdate.progress = adjustedProgress;
-    }
-    return projectToUpdate;
+    const newUnitIds = new Set(updatedProject.housing_units.map(unit => unit.id));
+    const hasRemovedUnits = oldProject.housing_units.some(unit => !newUnitIds.has(unit.id));
+
+    if (!hasRemovedUnits) return updatedProject;
+    return { ...updatedProject, progress: removeDeletedUnits(updatedProject.progress, updatedProject.housing_units) };
 };
 
 /**
- * Substitui todos os projetos no armazenamento por uma nova lista.
+ * Substitui os projetos do usuário (dos quais ele é proprietário) por uma nova lista.
  * @param {Project[]} newProjects O novo array de projetos a ser salvo.
  * @param {string} userId O ID do usuário para associar os novos projetos.
  * @returns {Promise<void>}
  */
 export const overwriteProjectsInStorage = async (newProjects: Project[], userId: string): Promise<void> => {
-    const batch = writeBatch(db);
-    
-    // Exclui todos os projetos antigos do usuário
-    const currentProjects = await loadProjects(userId);
-    currentProjects.forEach(proj => {
-        batch.delete(doc(db, PROJECTS_COLLECTION, proj.id));
-    });
+    // Exclui os projetos antigos dos quais o usuário é proprietário, com suas subcoleções.
+    // Projetos compartilhados por outros usuários são mantidos.
+    const currentProjects = (await loadProjects(userId)).filter(proj => proj.ownerId === userId);
+    for (const proj of currentProjects) {
+        await projectRepository.deleteProject(proj.id);
+    }
 
     // Adiciona os novos projetos
-    newProjects.forEach(proj => {
-        const { id, ...data } = proj;
-        
-        // Garante que dados de proprietário antigo sejam removidos antes de salvar.
-        delete (data as any).ownerId;
-        delete (data as any).members;
-        
-        const newDocRef = doc(collection(db, PROJECTS_COLLECTION));
-        batch.set(newDocRef, { 
-            ...data, 
-            ownerId: userId, 
-            members: [userId], 
-            created_at: serverTimestamp() 
-        });
-    });
-
-    await batch.commit();
+    await importProjects(newProjects, userId);
 };
 
 /**
@@ -218,26 +676,7 @@ export const overwriteProjectsInStorage = async (newProjects: Project[], userId:
  * @returns {Promise<void>}
  */
 export const importProjects = async (newProjects: Project[], userId: string): Promise<void> => {
-    const batch = writeBatch(db);
-    
-    newProjects.forEach(proj => {
-        // Remove o ID original para que o Firestore gere um novo, evitando conflitos.
-        const { id, ...data } = proj;
-        
-        // Garante que dados de proprietário antigo sejam removidos antes de salvar.
-        delete (data as any).ownerId;
-        delete (data as any).members;
-        
-        const newDocRef = doc(collection(db, PROJECTS_COLLECTION));
-        
-        // Atribui o projeto ao usuário atual e o define como único membro.
-        batch.set(newDocRef, { 
-            ...data, 
-            ownerId: userId, 
-            members: [userId], 
-            created_at: serverTimestamp() 
-        });
-    });
-
-    await batch.commit();
-};
\ No newline at end of file
+    for (const proj of newProjects) {
+        await createProjectFromBackup(proj, userId);
+    }
+};
@@ -0,0 +1,390 @@
+/**
+ * @file Repositórios de projetos, usuários, modelos e organizações gravados no Firestore (ou no seu emulador).
+ * O histórico, os relatórios arquivados, a trilha de auditoria e as presenças de cada projeto ficam em subcoleções.
+ */
+import {
+    Project, ProjectPatch, ProgressLog, ArchivedReport, AuditEntry, EditingPresence, ProjectRole, UserProfile,
+    Page, ProjectArchives, ProjectRepository, UserRepository, PlsTemplate, TemplateRepository,
+    Organization, OrganizationRepository, ProjectInvitation
+} from '../../types';
+import {
+    Firestore, collection, query, where, getDocs, getDoc, doc, updateDoc, deleteDoc, setDoc,
+    serverTimestamp, orderBy, arrayUnion, arrayRemove, DocumentData, writeBatch, onSnapshot,
+    FieldPath, deleteField, WriteBatch, limit, startAfter, QueryDocumentSnapshot, QueryConstraint, documentId, Timestamp
+} from 'firebase/firestore';
+import { getAcceptableInvitation } from '../invitationService';
+
+const PROJECTS_COLLECTION = 'projects';
+const USERS_COLLECTION = 'users';
+const TEMPLATES_COLLECTION = 'templates';
+const ORGANIZATIONS_COLLECTION = 'organizations';
+// Coleção lida pela extensão "Trigger Email" do Firebase, que envia as mensagens gravadas.
+const MAIL_COLLECTION = 'mail';
+const PRESENCE_SUBCOLLECTION = 'presence';
+const HISTORY_SUBCOLLECTION = 'history';
+const REPORTS_SUBCOLLECTION = 'archived_reports';
+const AUDIT_SUBCOLLECTION = 'audit';
+
+/**
+ * Número máximo de operações por lote de escrita (o limite do Firestore é 500).
+ */
+const BATCH_LIMIT = 450;
+
+/**
+ * Número máximo de valores em uma consulta `in` do Firestore.
+ */
+const IN_QUERY_LIMIT = 10;
+
+/**
+ * Converte um documento do Firestore para o tipo Project, tratando os timestamps.
+ * @param {DocumentData} doc O documento do Firestore.
+ * @returns {Project} O objeto de projeto convertido.
+ */
+const fromFirestore = (doc: DocumentData): Project => {
+    const data = doc.data();
+    return {
+        ...data,
+        id: doc.id,
+        // Converte o timestamp do Firestore para uma string ISO, ou usa a data atual como fallback.
+        created_at: data.created_at?.toDate().toISOString() || new Date().toISOString(),
+        ...(data.invitations ? { invitations: fromInvitationsData(data.invitations) } : {}),
+    } as Project;
+};
+
+/**
+ * Converte a validade dos convites, gravada como timestamp para que as regras possam conferi-la, em string ISO.
+ * @param {Record<string, DocumentData>} invitations Os convites gravados no documento do projeto.
+ * @returns {Record<string, ProjectInvitation>} Os convites com a validade em formato ISO.
+ */
+const fromInvitationsData = (invitations: Record<string, DocumentData>): Record<string, ProjectInvitation> =>
+    Object.fromEntries(Object.entries(invitations).map(([email, invitation]) => [email, {
+        ...invitation,
+        expiresAt: invitation.expiresAt instanceof Timestamp ? invitation.expiresAt.toDate().toISOString() : invitation.expiresAt,
+    } as ProjectInvitation]));
+
+/**
+ * Cria o repositório de projetos sobre uma instância do Firestore.
+ * @param {Firestore} db A instância do Firestore (de produção, de desenvolvimento ou do emulador).
+ * @returns {ProjectRepository} O repositório.
+ */
+export const createFirestoreProjectRepository = (db: Firestore): ProjectRepository => {
+    /**
+     * Executa uma lista de escritas em lotes sucessivos, respeitando o limite de operações por lote.
+     */
+    const commitInBatches = async (writes: ((batch: WriteBatch) => void)[]): Promise<void> => {
+        for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+            const batch = writeBatch(db);
+            writes.slice(i, i + BATCH_LIMIT).forEach(write => write(batch));
+            await batch.commit();
+        }
+    };
+
+    /**
+     * Gera as escritas que gravam registros de histórico, relatórios arquivados e eventos de auditoria nas subcoleções do projeto.
+     */
+    const getArchiveWrites = (projectId: string, history: ProgressLog[], reports: ArchivedReport[], audit: AuditEntry[] = []): ((batch: WriteBatch) => void)[] => [
+        ...history.map(log => (batch: WriteBatch) => {
+            batch.set(doc(db, PROJECTS_COLLECTION, projectId, HISTORY_SUBCOLLECTION, log.id), log);
+        }),
+        ...reports.map(report => (batch: WriteBatch) => {
+            batch.set(doc(db, PROJECTS_COLLECTION, projectId, REPORTS_SUBCOLLECTION, report.id), report);
+        }),
+        ...audit.map(entry => (batch: WriteBatch) => {
+            batch.set(doc(db, PROJECTS_COLLECTION, projectId, AUDIT_SUBCOLLECTION, entry.id), entry);
+        }),
+    ];
+
+    const membersQuery = (userId: string) => query(
+        collection(db, PROJECTS_COLLECTION),
+        where('members', 'array-contains', userId),
+        orderBy('created_at', 'desc')
+    );
+
+    /**
+     * Carrega uma página de uma subcoleção do projeto, da mais recente para a mais antiga.
+     * O cursor é o último documento da página anterior.
+     */
+    const loadSubcollectionPage = async <T>(
+        projectId: string,
+        subcollection: string,
+        orderField: string,
+        pageSize: number,
+        cursor?: unknown
+    ): Promise<Page<T>> => {
+        const constraints: QueryConstraint[] = [orderBy(orderField, 'desc')];
+        if (cursor) constraints.push(startAfter(cursor as QueryDocumentSnapshot<DocumentData>));
+        // Busca um item a mais apenas para saber se existe uma próxima página.
+        constraints.push(limit(pageSize + 1));
+
+        const snapshot = await getDocs(query(collection(db, PROJECTS_COLLECTION, projectId, subcollection), ...constraints));
+        const docs = snapshot.docs.slice(0, pageSize);
+        return {
+            items: docs.map(d => d.data() as T),
+            cursor: docs[docs.length - 1] || null,
+            hasMore: snapshot.docs.length > pageSize,
+        };
+    };
+
+    return {
+        loadProjects: async userId => {
+            const querySnapshot = await getDocs(membersQuery(userId));
+            return querySnapshot.docs.map(fromFirestore);
+        },
+
+        // Versões vindas apenas do cache do Firestore (ex: sem conexão) são ignoradas,
+        // para não substituir os dados já exibidos por uma lista incompleta.
+        subscribeToProjects: (userId, onChange, onError) => onSnapshot(membersQuery(userId), querySnapshot => {
+            if (querySnapshot.metadata.fromCache) return;
+            onChange(querySnapshot.docs.map(fromFirestore));
+        }, onError),
+
+        createProject: async (data, archives?: ProjectArchives) => {
+            const newDocRef = doc(collection(db, PROJECTS_COLLECTION));
+            await commitInBatches([
+                batch => batch.set(newDocRef, { ...data, created_at: serverTimestamp() }),
+                ...getArchiveWrites(newDocRef.id, archives?.history || [], archives?.reports || [], archives?.audit),
+            ]);
+            return { ...data, id: newDocRef.id, created_at: new Date().toISOString() } as Project;
+        },
+
+        // Células de progresso e alterações pendentes são gravadas individualmente por caminhos de campo, de modo que
+        // edições simultâneas de outros colaboradores em outras células ou entradas são preservadas pelo próprio Firestore.
+        // O documento principal é atualizado por último: campos removidos pela migração para as
+        // subcoleções só somem depois que todos os registros foram copiados.
+        applyPatch: async (projectId: string, patch: ProjectPatch) => {
+            const fieldsAndValues: unknown[] = [];
+            patch.removedProgressItems.forEach(itemId => {
+                fieldsAndValues.push(new FieldPath('progress', itemId), deleteField());
+            });
+            patch.progressCells.forEach(({ itemId, unitId, value }) => {
+                fieldsAndValues.push(new FieldPath('progress', itemId, unitId), value === null ? deleteField() : value);
+            });
+            patch.pendingProgress.forEach(({ id, log }) => {
+                fieldsAndValues.push(new FieldPath('pending_progress', id), log === null ? deleteField() : log);
+            });
+            Object.entries(patch.fields).forEach(([key, value]) => {
+                fieldsAndValues.push(new FieldPath(key), value === undefined ? deleteField() : value);
+            });
+
+            const writes = getArchiveWrites(projectId, patch.addedHistory, patch.addedReports, patch.addedAudit);
+            if (fieldsAndValues.length > 0) {
+                const [firstField, firstValue, ...moreFieldsAndValues] = fieldsAndValues;
+                writes.push(batch => batch.update(doc(db, PROJECTS_COLLECTION, projectId), firstField as FieldPath, firstValue, ...moreFieldsAndValues));
+            }
+            await commitInBatches(writes);
+        },
+
+        // O Firestore não remove as subcoleções automaticamente; o documento principal é excluído por último.
+        deleteProject: async projectId => {
+            const subcollections = [HISTORY_SUBCOLLECTION, REPORTS_SUBCOLLECTION, AUDIT_SUBCOLLECTION, PRESENCE_SUBCOLLECTION];
+            const snapshots = await Promise.all(subcollections.map(name => getDocs(collection(db, PROJECTS_COLLECTION, projectId, name))));
+            await commitInBatches([
+                ...snapshots.flatMap(snapshot => snapshot.docs.map(d => (batch: WriteBatch) => batch.delete(d.ref))),
+                batch => batch.delete(doc(db, PROJECTS_COLLECTION, projectId)),
+            ]);
+        },
+
+        loadHistoryPage: (projectId, pageSize, cursor) => {
+            return loadSubcollectionPage<ProgressLog>(projectId, HISTORY_SUBCOLLECTION, 'timestamp', pageSize, cursor);
+        },
+
+        loadArchivedReportsPage: (projectId, pageSize, cursor) => {
+            return loadSubcollectionPage<ArchivedReport>(projectId, REPORTS_SUBCOLLECTION, 'generatedAt', pageSize, cursor);
+        },
+
+        loadAuditPage: (projectId, pageSize, cursor) => {
+            return loadSubcollectionPage<AuditEntry>(projectId, AUDIT_SUBCOLLECTION, 'timestamp', pageSize, cursor);
+        },
+
+        // Ordena no cliente para não exigir um índice composto de `action` e `timestamp`.
+        loadAuditEntries: async (projectId, action) => {
+            const snapshot = await getDocs(query(collection(db, PROJECTS_COLLECTION, projectId, AUDIT_SUBCOLLECTION), where('action', '==', action)));
+            return snapshot.docs.map(d => d.data() as AuditEntry).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+        },
+
+        loadArchives: async projectId => {
+            const [historySnapshot, reportsSnapshot] = await Promise.all([
+                getDocs(query(collection(db, PROJECTS_COLLECTION, projectId, HISTORY_SUBCOLLECTION), orderBy('timestamp', 'desc'))),
+                getDocs(query(collection(db, PROJECTS_COLLECTION, projectId, REPORTS_SUBCOLLECTION), orderBy('generatedAt', 'asc'))),
+            ]);
+            return {
+                history: historySnapshot.docs.map(d => d.data() as ProgressLog),
+                reports: reportsSnapshot.docs.map(d => d.data() as ArchivedReport),
+            };
+        },
+
+        subscribeToPresence: (projectId, onChange) => {
+            const presenceRef = collection(db, PROJECTS_COLLECTION, projectId, PRESENCE_SUBCOLLECTION);
+            return onSnapshot(presenceRef, snapshot => {
+                onChange(snapshot.docs.map(d => d.data() as EditingPresence));
+            }, error => {
+                // A presença é apenas informativa; uma falha não deve interromper a edição.
+                console.warn("Failed to subscribe to editing presence", error);
+            });
+        },
+
+        setPresence: async (projectId, presence) => {
+            await setDoc(doc(db, PROJECTS_COLLECTION, projectId, PRESENCE_SUBCOLLECTION, presence.userId), presence);
+        },
+
+        clearPresence: async (projectId, userId) => {
+            await deleteDoc(doc(db, PROJECTS_COLLECTION, projectId, PRESENCE_SUBCOLLECTION, userId));
+        },
+
+        addMember: async (projectId: string, memberId: string, role: ProjectRole) => {
+            await updateDoc(doc(db, PROJECTS_COLLECTION, projectId),
+                new FieldPath('members'), arrayUnion(memberId),
+                new FieldPath('roles', memberId), role
+            );
+        },
+
+        setMemberRole: async (projectId, memberId, role) => {
+            await updateDoc(doc(db, PROJECTS_COLLECTION, projectId), new FieldPath('roles', memberId), role);
+        },
+
+        removeMember: async (projectId, memberId) => {
+            await updateDoc(doc(db, PROJECTS_COLLECTION, projectId),
+                new FieldPath('members'), arrayRemove(memberId),
+                new FieldPath('roles', memberId), deleteField()
+            );
+        },
+
+        // Os e-mails são indexados com `FieldPath`, pois contêm pontos. A mensagem vai para a coleção lida pela
+        // extensão "Trigger Email" no mesmo lote do convite, como exigem as regras de segurança.
+        inviteMember: async (projectId, invitation: ProjectInvitation, { to, subject, text }) => {
+            const batch = writeBatch(db);
+            batch.update(doc(db, PROJECTS_COLLECTION, projectId),
+                new FieldPath('invitations', invitation.email), { ...invitation, expiresAt: Timestamp.fromDate(new Date(invitation.expiresAt)) },
+                new FieldPath('invited_emails'), arrayUnion(invitation.email)
+            );
+            batch.set(doc(collection(db, MAIL_COLLECTION)), { to, message: { subject, text }, projectId, created_at: serverTimestamp() });
+            await batch.commit();
+        },
+
+        revokeInvitation: async (projectId, email) => {
+            await updateDoc(doc(db, PROJECTS_COLLECTION, projectId),
+                new FieldPath('invitations', email), deleteField(),
+                new FieldPath('invited_emails'), arrayRemove(email)
+            );
+        },
+
+        acceptInvitations: async (userId, email) => {
+            const querySnapshot = await getDocs(query(collection(db, PROJECTS_COLLECTION), where('invited_emails', 'array-contains', email)));
+            const accepted: string[] = [];
+            for (const projectDoc of querySnapshot.docs) {
+                const project = fromFirestore(projectDoc);
+                const invitation = getAcceptableInvitation(project, email);
+                if (!invitation) continue;
+                await updateDoc(projectDoc.ref,
+                    new FieldPath('members'), arrayUnion(userId),
+                    new FieldPath('roles', userId), invitation.role,
+                    new FieldPath('invitations', email), deleteField(),
+                    new FieldPath('invited_emails'), arrayRemove(email)
+                );
+                accepted.push(project.name);
+            }
+            return accepted;
+        },
+    };
+};
+
+/**
+ * Cria o repositório de perfis de usuário sobre uma instância do Firestore.
+ * @param {Firestore} db A instância do Firestore.
+ * @returns {UserRepository} O repositório.
+ */
+export const createFirestoreUserRepository = (db: Firestore): UserRepository => ({
+    getUser: async uid => {
+        const userDoc = await getDoc(doc(db, USERS_COLLECTION, uid));
+        if (!userDoc.exists()) return null;
+        return { uid: userDoc.id, email: (userDoc.data() as { email: string }).email };
+    },
+
+    saveUser: async (profile: UserProfile) => {
+        await setDoc(doc(db, USERS_COLLECTION, profile.uid), { email: profile.email?.toLowerCase() || null });
+    },
+
+    findUserByEmail: async email => {
+        const querySnapshot = await getDocs(query(collection(db, USERS_COLLECTION), where("email", "==", email.toLowerCase())));
+        if (querySnapshot.empty) return null;
+        const userDoc = querySnapshot.docs[0];
+        return { uid: userDoc.id, email: (userDoc.data() as { email: string }).email };
+    },
+
+    getUsersByIds: async uids => {
+        const userMap = new Map<string, UserProfile>();
+        const batches: string[][] = [];
+        for (let i = 0; i < uids.length; i += IN_QUERY_LIMIT) {
+            batches.push(uids.slice(i, i + IN_QUERY_LIMIT));
+        }
+        const snapshots = await Promise.all(batches.map(batch => getDocs(query(collection(db, USERS_COLLECTION), where(documentId(), 'in', batch)))));
+        snapshots.forEach(snapshot => {
+            snapshot.forEach(docSnap => {
+                const data = docSnap.data() as { email: string };
+                userMap.set(docSnap.id, { uid: docSnap.id, email: data.email });
+            });
+        });
+        return userMap;
+    },
+});
+
+/**
+ * Cria o repositório da biblioteca de modelos sobre uma instância do Firestore.
+ * @param {Firestore} db A instância do Firestore.
+ * @returns {TemplateRepository} O repositório.
+ */
+export const createFirestoreTemplateRepository = (db: Firestore): TemplateRepository => ({
+    loadTemplates: async (userId, organizationId) => {
+        // Sem organização, a consulta pelo autor também devolve os modelos que ele publicou em organizações.
+        const constraint = organizationId ? where('organizationId', '==', organizationId) : where('ownerId', '==', userId);
+        const querySnapshot = await getDocs(query(collection(db, TEMPLATES_COLLECTION), constraint));
+        return querySnapshot.docs
+            .map(d => ({ ...d.data(), id: d.id } as PlsTemplate))
+            .filter(template => organizationId || !template.organizationId)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    createTemplate: async data => {
+        const newDocRef = doc(collection(db, TEMPLATES_COLLECTION));
+        await setDoc(newDocRef, data);
+        return { ...data, id: newDocRef.id };
+    },
+
+    saveTemplate: async ({ id, ...data }) => {
+        await setDoc(doc(db, TEMPLATES_COLLECTION, id), data);
+    },
+
+    deleteTemplate: async templateId => {
+        await deleteDoc(doc(db, TEMPLATES_COLLECTION, templateId));
+    },
+});
+
+/**
+ * Cria o repositório de organizações sobre uma instância do Firestore.
+ * @param {Firestore} db A instância do Firestore.
+ * @returns {OrganizationRepository} O repositório.
+ */
+export const createFirestoreOrganizationRepository = (db: Firestore): OrganizationRepository => ({
+    loadOrganizations: async userId => {
+        // Ordenadas aqui, para que a consulta por `members` não exija um índice composto.
+        const querySnapshot = await getDocs(query(collection(db, ORGANIZATIONS_COLLECTION), where('members', 'array-contains', userId)));
+        return querySnapshot.docs
+            .map(d => ({ ...d.data(), id: d.id } as Organization))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    createOrganization: async data => {
+        const newDocRef = doc(collection(db, ORGANIZATIONS_COLLECTION));
+        const organization = { ...data, created_at: new Date().toISOString() };
+        await setDoc(newDocRef, organization);
+        return { ...organization, id: newDocRef.id };
+    },
+
+    saveOrganization: async ({ id, ...data }) => {
+        await setDoc(doc(db, ORGANIZATIONS_COLLECTION, id), data);
+    },
+
+    deleteOrganization: async organizationId => {
+        await deleteDoc(doc(db, ORGANIZATIONS_COLLECTION, organizationId));
+    },
+});
@@ -0,0 +1,68 @@
+/**
+ * @file Repositórios usados pela aplicação, escolhidos por `STORAGE_BACKEND` (variável `VITE_STORAGE_BACKEND`).
+ * O Firestore e o seu emulador usam a mesma implementação; o modo `local` grava apenas no IndexedDB
+ * e o modo `supabase` grava no Postgres do Supabase.
+ */
+import { OrganizationRepository, ProjectRepository, TemplateRepository, UserRepository } from '../../types';
+import { db, STORAGE_BACKEND } from '../../firebase/config';
+import { supabase } from '../supabaseClient';
+import { createFirestoreOrganizationRepository, createFirestoreProjectRepository, createFirestoreTemplateRepository, createFirestoreUserRepository } from './firestoreRepository';
+import { createLocalDatabase, createLocalOrganizationRepository, createLocalProjectRepository, createLocalTemplateRepository, createLocalUserRepository } from './localRepository';
+import { createSupabaseOrganizationRepository, createSupabaseProjectRepository, createSupabaseTemplateRepository, createSupabaseUserRepository } from './supabaseRepository';
+
+const createRepositories = (): {
+    projects: ProjectRepository;
+    users: UserRepository;
+    templates: TemplateRepository;
+    organizations: OrganizationRepository;
+} => {
+    if (STORAGE_BACKEND === 'local') {
+        const localDatabase = createLocalDatabase(true);
+        return {
+            projects: createLocalProjectRepository(localDatabase),
+            users: createLocalUserRepository(localDatabase),
+            templates: createLocalTemplateRepository(localDatabase),
+            organizations: createLocalOrganizationRepository(localDatabase),
+        };
+    }
+    if (STORAGE_BACKEND === 'supabase' && supabase) {
+        return {
+            projects: createSupabaseProjectRepository(supabase),
+            users: createSupabaseUserRepository(supabase),
+            templates: createSupabaseTemplateRepository(supabase),
+            organizations: createSupabaseOrganizationRepository(supabase),
+        };
+    }
+    return {
+        projects: createFirestoreProjectRepository(db),
+        users: createFirestoreUserRepository(db),
+        templates: createFirestoreTemplateRepository(db),
+        organizations: createFirestoreOrganizationRepository(db),
+    };
+};
+
+const repositories = createRepositories();
+
+/**
+ * O repositório de projetos da aplicação.
+ * @type {ProjectRepository}
+ */
+export const projectRepository: ProjectRepository = repositories.projects;
+
+/**
+ * O repositório de perfis de usuário da aplicação.
+ * @type {UserRepository}
+ */
+export const userRepository: UserRepository = repositories.users;
+
+/**
+ * O repositório da biblioteca de modelos da aplicação.
+ * @type {TemplateRepository}
+ */
+export const templateRepository: TemplateRepository = repositories.templates;
+
+/**
+ * O repositório de organizações da aplicação.
+ * @type {OrganizationRepository}
+ */
+export const organizationRepository: OrganizationRepository = repositories.organizations;
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { createLocalDatabase, createLocalProjectRepository, createLocalUserRepository } from './localRepository';
+import { AuditEntry, ProgressLog, Project } from '../../types';
+
+const log = (id: string, timestamp: string): ProgressLog => ({
+    id,
+    timestamp,
+    itemId: '1.1',
+    itemName: 'Escavação',
+    unitId: 'u1',
+    unitName: 'Casa 01',
+    oldProgress: 0,
+    newProgress: 50,
+});
+
+const audit = (id: string, action: AuditEntry['action'], timestamp: string): AuditEntry => ({
+    id,
+    timestamp,
+    action,
+    description: 'Evento.',
+});
+
+const newProject = (ownerId: string): Omit<Project, 'id' | 'created_at'> => ({
+    name: 'Residencial',
+    ownerId,
+    members: [ownerId],
+    roles: { [ownerId]: 'owner' },
+    progress: { '1.1': { u1: 0 } },
+} as unknown as Omit<Project, 'id' | 'created_at'>);
+
+describe('createLocalProjectRepository', () => {
+    it('should only load the projects the user is a member of', async () => {
+        const repository = createLocalProjectRepository(createLocalDatabase());
+        const created = await repository.createProject(newProject('ana'));
+        await repository.createProject(newProject('bruno'));
+
+        const projects = await repository.loadProjects('ana');
+
+        expect(projects.map(p => p.id)).toEqual([created.id]);
+        expect(projects[0].created_at).toBe(created.created_at);
+    });
+
+    it('should apply patches and page the history from the newest entry', async () => {
+        const repository = createLocalProjectRepository(createLocalDatabase());
+        const { id } = await repository.createProject(newProject('ana'));
+
+        await repository.applyPatch(id, {
+            progressCells: [{ itemId: '1.1', unitId: 'u1', value: 50 }],
+            removedProgressItems: [],
+            pendingProgress: [],
+            addedHistory: [log('a', '2025-01-01T10:00:00.000Z'), log('b', '2025-01-02T10:00:00.000Z'), log('c', '2025-01-03T10:00:00.000Z')],
+            addedReports: [],
+            addedAudit: [],
+            fields: { name: 'Residencial Novo' },
+        });
+
+        const [project] = await repository.loadProjects('ana');
+        expect(project.progress['1.1'].u1).toBe(50);
+        expect(project.name).toBe('Residencial Novo');
+
+        const first = await repository.loadHistoryPage(id, 2);
+        const second = await repository.loadHistoryPage(id, 2, first.cursor);
+        expect(first.items.map(l => l.id)).toEqual(['c', 'b']);
+        expect(first.hasMore).toBe(true);
+        expect(second.items.map(l => l.id)).toEqual(['a']);
+        expect(second.hasMore).toBe(false);
+    });
+
+    it('should load the audit events of one action from the newest', async () => {
+        const repository = createLocalProjectRepository(createLocalDatabase());
+        const { id } = await repository.createProject(newProject('ana'));
+
+        await repository.applyPatch(id, {
+            progressCells: [],
+            removedProgressItems: [],
+            pendingProgress: [],
+            addedHistory: [],
+            addedReports: [],
+            addedAudit: [
+                audit('a', 'measurement_reopened', '2025-01-01T10:00:00.000Z'),
+                audit('b', 'measurement_closed', '2025-01-02T10:00:00.000Z'),
+                audit('c', 'measurement_reopened', '2025-01-03T10:00:00.000Z'),
+            ],
+            fields: {},
+        });
+
+        expect((await repository.loadAuditEntries(id, 'measurement_reopened')).map(entry => entry.id)).toEqual(['c', 'a']);
+    });
+
+    it('should notify subscribers and delete a project with its subcollections', async () => {
+        const repository = createLocalProjectRepository(createLocalDatabase());
+        const { id } = await repository.createProject(newProject('ana'));
+        await repository.applyPatch(id, { progressCells: [], removedProgressItems: [], pendingProgress: [], addedHistory: [log('a', '2025-01-01T10:00:00.000Z')], addedReports: [], addedAudit: [], fields: {} });
+
+        const versions: Project[][] = [];
+        const unsubscribe = repository.subscribeToProjects('ana', projects => versions.push(projects), () => {});
+        await Promise.resolve();
+        await repository.deleteProject(id);
+        unsubscribe();
+
+        expect(versions.map(projects => projects.length)).toEqual([1, 0]);
+        expect((await repository.loadArchives(id)).history).toEqual([]);
+    });
+
+    it('should add, change and remove members', async () => {
+        const repository = createLocalProjectRepository(createLocalDatabase());
+        const { id } = await repository.createProject(newProject('ana'));
+
+        await repository.addMember(id, 'bruno', 'viewer');
+        await repository.setMemberRole(id, 'bruno', 'editor');
+        expect((await repository.loadProjects('bruno'))[0].roles).toEqual({ ana: 'owner', bruno: 'editor' });
+
+        await repository.removeMember(id, 'bruno');
+        expect(await repository.loadProjects('bruno')).toEqual([]);
+    });
+});
+
+describe('createLocalUserRepository', () => {
+    it('should find users by e-mail regardless of case', async () => {
+        const repository = createLocalUserRepository(createLocalDatabase());
+        await repository.saveUser({ uid: 'u1', email: 'Ana@Example.com' });
+
+        expect(await repository.findUserByEmail('ANA@example.com')).toEqual({ uid: 'u1', email: 'ana@example.com' });
+        expect(await repository.getUser('u2')).toBeNull();
+        expect((await repository.getUsersByIds(['u1', 'u2'])).size).toBe(1);
+    });
+});
@@ -0,0 +1,394 @@
+/**
+ * @file Repositórios de projetos, usuários, modelos e organizações gravados apenas neste dispositivo, para executar a aplicação
+ * e os testes sem acessar o Firestore. Os documentos ficam em memória, com os mesmos caminhos do Firestore
+ * (ex: `projects/{id}/history/{logId}`), e opcionalmente são persistidos no IndexedDB do navegador.
+ */
+import {
+    Project, ProgressLog, ArchivedReport, AuditEntry, EditingPresence, UserProfile, Page, ProjectArchives,
+    ProjectRepository, UserRepository, PlsTemplate, TemplateRepository, Organization, OrganizationRepository
+} from '../../types';
+import { applyProjectPatch } from '../collaborationService';
+import { getAcceptableInvitation } from '../invitationService';
+
+const DB_NAME = 'cataratas-pls-local';
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = 'documents';
+
+/**
+ * Um banco de documentos local, compartilhado pelos repositórios de projetos, de usuários e de modelos.
+ */
+export interface LocalDatabase {
+    /** Os documentos, indexados pelo caminho. */
+    documents: Map<string, any>;
+    /** Resolvida quando os documentos persistidos tiverem sido carregados. */
+    ready: Promise<void>;
+    /** O banco do IndexedDB, se os documentos forem persistidos. */
+    idb: Promise<IDBDatabase> | null;
+    /** Callbacks chamados após cada gravação, para as assinaturas em tempo real. */
+    listeners: Set<() => void>;
+}
+
+/**
+ * Abre (e cria, na primeira vez) o banco do IndexedDB.
+ */
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB indisponível.'));
+        return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(DOCUMENTS_STORE)) {
+            request.result.createObjectStore(DOCUMENTS_STORE);
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+/**
+ * Cria um banco de documentos local.
+ * @param {boolean} [persist=false] Se os documentos devem ser persistidos no IndexedDB. Sem persistência
+ * (ex: nos testes), o banco começa vazio e existe apenas em memória.
+ * @returns {LocalDatabase} O banco.
+ */
+export const createLocalDatabase = (persist = false): LocalDatabase => {
+    const documents = new Map<string, any>();
+    const idb = persist ? openDatabase() : null;
+    const ready = !idb ? Promise.resolve() : idb.then(database => new Promise<void>((resolve, reject) => {
+        const request = database.transaction(DOCUMENTS_STORE, 'readonly').objectStore(DOCUMENTS_STORE).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve();
+                return;
+            }
+            documents.set(cursor.key as string, cursor.value);
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    })).catch(error => {
+        console.warn('Failed to load the local database; data will be kept only in memory', error);
+    });
+    return { documents, ready, idb, listeners: new Set() };
+};
+
+/**
+ * Lê um documento. Retorna uma cópia, para que alterações do chamador não afetem o banco.
+ */
+const readDocument = <T>(database: LocalDatabase, path: string): T | null => {
+    const data = database.documents.get(path);
+    return data === undefined ? null : structuredClone(data);
+};
+
+/**
+ * Lê os documentos de uma coleção (sem os das subcoleções), com os seus IDs.
+ */
+const readCollection = <T>(database: LocalDatabase, path: string): { id: string; data: T }[] => {
+    const prefix = `${path}/`;
+    return Array.from(database.documents.entries())
+        .filter(([key]) => key.startsWith(prefix) && !key.slice(prefix.length).includes('/'))
+        .map(([key, data]) => ({ id: key.slice(prefix.length), data: structuredClone(data) }));
+};
+
+/**
+ * Grava (ou, com `null`, exclui) documentos, persiste-os e notifica as assinaturas.
+ */
+const writeDocuments = async (database: LocalDatabase, writes: [path: string, data: unknown][]): Promise<void> => {
+    await database.ready;
+    writes.forEach(([path, data]) => {
+        if (data === null) {
+            database.documents.delete(path);
+        } else {
+            database.documents.set(path, structuredClone(data));
+        }
+    });
+    database.listeners.forEach(listener => listener());
+
+    if (!database.idb) return;
+    try {
+        const idb = await database.idb;
+        await new Promise<void>((resolve, reject) => {
+            const transaction = idb.transaction(DOCUMENTS_STORE, 'readwrite');
+            const store = transaction.objectStore(DOCUMENTS_STORE);
+            writes.forEach(([path, data]) => (data === null ? store.delete(path) : store.put(data, path)));
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    } catch (error) {
+        console.warn('Failed to persist local changes', error);
+    }
+};
+
+/**
+ * Chama `onChange` assim que o banco estiver carregado e após cada gravação.
+ */
+const subscribe = (database: LocalDatabase, onChange: () => void): (() => void) => {
+    let active = true;
+    const listener = () => {
+        if (active) onChange();
+    };
+    database.ready.then(listener);
+    database.listeners.add(listener);
+    return () => {
+        active = false;
+        database.listeners.delete(listener);
+    };
+};
+
+/**
+ * Gera um ID aleatório para um novo documento.
+ */
+const generateId = (): string => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Ordena uma lista pelo campo informado, do maior para o menor (datas ISO são comparadas como texto).
+ */
+const sortDescending = <T>(items: T[], field: keyof T): T[] => {
+    return items.sort((a, b) => String(b[field]).localeCompare(String(a[field])));
+};
+
+/**
+ * Remove o convite de um e-mail de um projeto.
+ */
+const withoutInvitation = (project: Project, email: string): Project => {
+    const { [email]: _removed, ...invitations } = project.invitations || {};
+    return { ...project, invitations, invited_emails: (project.invited_emails || []).filter(invited => invited !== email) };
+};
+
+/**
+ * Cria o repositório de projetos sobre um banco local.
+ * @param {LocalDatabase} database O banco local.
+ * @returns {ProjectRepository} O repositório.
+ */
+export const createLocalProjectRepository = (database: LocalDatabase): ProjectRepository => {
+    const projectPath = (projectId: string) => `projects/${projectId}`;
+
+    const listProjects = (userId: string): Project[] => sortDescending(
+        readCollection<Project>(database, 'projects')
+            .filter(({ data }) => data.members?.includes(userId))
+            .map(({ id, data }) => ({ ...data, id })),
+        'created_at'
+    );
+
+    const archiveWrites = (projectId: string, history: ProgressLog[], reports: ArchivedReport[], audit: AuditEntry[] = []): [string, unknown][] => [
+        ...history.map((log): [string, unknown] => [`${projectPath(projectId)}/history/${log.id}`, log]),
+        ...reports.map((report): [string, unknown] => [`${projectPath(projectId)}/archived_reports/${report.id}`, report]),
+        ...audit.map((entry): [string, unknown] => [`${projectPath(projectId)}/audit/${entry.id}`, entry]),
+    ];
+
+    /**
+     * Carrega uma página de uma subcoleção, do mais recente para o mais antigo. O cursor é a posição do próximo item.
+     */
+    const loadPage = async <T>(projectId: string, subcollection: string, orderField: keyof T, pageSize: number, cursor?: unknown): Promise<Page<T>> => {
+        await database.ready;
+        const items = sortDescending(readCollection<T>(database, `${projectPath(projectId)}/${subcollection}`).map(({ data }) => data), orderField);
+        const start = typeof cursor === 'number' ? cursor : 0;
+        return {
+            items: items.slice(start, start + pageSize),
+            cursor: start + pageSize,
+            hasMore: items.length > start + pageSize,
+        };
+    };
+
+    /**
+     * Altera um projeto existente, falhando como o Firestore se ele não existir.
+     */
+    const updateProject = async (projectId: string, update: (project: Project) => Project): Promise<void> => {
+        await database.ready;
+        const project = readDocument<Project>(database, projectPath(projectId));
+        if (!project) throw new Error(`Projeto ${projectId} não encontrado.`);
+        await writeDocuments(database, [[projectPath(projectId), update(project)]]);
+    };
+
+    return {
+        loadProjects: async userId => {
+            await database.ready;
+            return listProjects(userId);
+        },
+
+        subscribeToProjects: (userId, onChange) => subscribe(database, () => onChange(listProjects(userId))),
+
+        createProject: async (data, archives?: ProjectArchives) => {
+            const project = { ...data, id: generateId(), created_at: new Date().toISOString() } as Project;
+            await writeDocuments(database, [
+                [projectPath(project.id), project],
+                ...archiveWrites(project.id, archives?.history || [], archives?.reports || [], archives?.audit),
+            ]);
+            return project;
+        },
+
+        applyPatch: async (projectId, patch) => {
+            await database.ready;
+            const project = readDocument<Project>(database, projectPath(projectId));
+            if (!project) throw new Error(`Projeto ${projectId} não encontrado.`);
+            await writeDocuments(database, [
+                ...archiveWrites(projectId, patch.addedHistory, patch.addedReports, patch.addedAudit),
+                [projectPath(projectId), applyProjectPatch(project, patch)],
+            ]);
+        },
+
+        deleteProject: async projectId => {
+            await database.ready;
+            const prefix = `${projectPath(projectId)}/`;
+            const paths = Array.from(database.documents.keys()).filter(path => path.startsWith(prefix));
+            await writeDocuments(database, [...paths, projectPath(projectId)].map((path): [string, unknown] => [path, null]));
+        },
+
+        loadHistoryPage: (projectId, pageSize, cursor) => loadPage<ProgressLog>(projectId, 'history', 'timestamp', pageSize, cursor),
+
+        loadArchivedReportsPage: (projectId, pageSize, cursor) => loadPage<ArchivedReport>(projectId, 'archived_reports', 'generatedAt', pageSize, cursor),
+
+        loadAuditPage: (projectId, pageSize, cursor) => loadPage<AuditEntry>(projectId, 'audit', 'timestamp', pageSize, cursor),
+
+        loadAuditEntries: async (projectId, action) => {
+            await database.ready;
+            const entries = readCollection<AuditEntry>(database, `${projectPath(projectId)}/audit`).map(({ data }) => data);
+            return sortDescending(entries.filter(entry => entry.action === action), 'timestamp');
+        },
+
+        loadArchives: async projectId => {
+            await database.ready;
+            const history = readCollection<ProgressLog>(database, `${projectPath(projectId)}/history`).map(({ data }) => data);
+            const reports = readCollection<ArchivedReport>(database, `${projectPath(projectId)}/archived_reports`).map(({ data }) => data);
+            return {
+                history: sortDescending(history, 'timestamp'),
+                reports: sortDescending(reports, 'generatedAt').reverse(),
+            };
+        },
+
+        subscribeToPresence: (projectId, onChange) => subscribe(database, () => {
+            onChange(readCollection<EditingPresence>(database, `${projectPath(projectId)}/presence`).map(({ data }) => data));
+        }),
+
+        setPresence: (projectId, presence) => writeDocuments(database, [[`${projectPath(projectId)}/presence/${presence.userId}`, presence]]),
+
+        clearPresence: (projectId, userId) => writeDocuments(database, [[`${projectPath(projectId)}/presence/${userId}`, null]]),
+
+        addMember: (projectId, memberId, role) => updateProject(projectId, project => ({
+            ...project,
+            members: project.members.includes(memberId) ? project.members : [...project.members, memberId],
+            roles: { ...project.roles, [memberId]: role },
+        })),
+
+        setMemberRole: (projectId, memberId, role) => updateProject(projectId, project => ({
+            ...project,
+            roles: { ...project.roles, [memberId]: role },
+        })),
+
+        removeMember: (projectId, memberId) => updateProject(projectId, project => {
+            const { [memberId]: _removed, ...roles } = project.roles || {};
+            return { ...project, members: project.members.filter(id => id !== memberId), roles };
+        }),
+
+        // Sem um serviço de envio, a mensagem fica registrada no banco local e no console, para que os convites possam ser testados.
+        inviteMember: async (projectId, invitation, message) => {
+            await updateProject(projectId, project => ({
+                ...project,
+                invitations: { ...project.invitations, [invitation.email]: invitation },
+                invited_emails: [...(project.invited_emails || []).filter(email => email !== invitation.email), invitation.email],
+            }));
+            const id = generateId();
+            console.info(`[outbox] Para: ${message.to}\nAssunto: ${message.subject}\n\n${message.text}`);
+            await writeDocuments(database, [[`outbox/${id}`, { ...message, projectId, id, created_at: new Date().toISOString() }]]);
+        },
+
+        revokeInvitation: (projectId, email) => updateProject(projectId, project => withoutInvitation(project, email)),
+
+        acceptInvitations: async (userId, email) => {
+            await database.ready;
+            const invited = readCollection<Project>(database, 'projects')
+                .map(({ id, data }) => ({ ...data, id }))
+                .filter(project => project.invited_emails?.includes(email) && getAcceptableInvitation(project, email));
+            await writeDocuments(database, invited.map((project): [string, unknown] => [projectPath(project.id), {
+                ...withoutInvitation(project, email),
+                members: project.members.includes(userId) ? project.members : [...project.members, userId],
+                roles: { ...project.roles, [userId]: getAcceptableInvitation(project, email)!.role },
+            }]));
+            return invited.map(project => project.name);
+        },
+    };
+};
+
+/**
+ * Cria o repositório de perfis de usuário sobre um banco local.
+ * @param {LocalDatabase} database O banco local.
+ * @returns {UserRepository} O repositório.
+ */
+export const createLocalUserRepository = (database: LocalDatabase): UserRepository => {
+    const listUsers = (): UserProfile[] => readCollection<{ email: string | null }>(database, 'users')
+        .map(({ id, data }) => ({ uid: id, email: data.email }));
+
+    return {
+        getUser: async uid => {
+            await database.ready;
+            return listUsers().find(user => user.uid === uid) || null;
+        },
+
+        saveUser: profile => writeDocuments(database, [[`users/${profile.uid}`, { email: profile.email?.toLowerCase() || null }]]),
+
+        findUserByEmail: async email => {
+            await database.ready;
+            return listUsers().find(user => user.email === email.toLowerCase()) || null;
+        },
+
+        getUsersByIds: async uids => {
+            await database.ready;
+            const wanted = new Set(uids);
+            return new Map(listUsers().filter(user => wanted.has(user.uid)).map(user => [user.uid, user]));
+        },
+    };
+};
+
+/**
+ * Cria o repositório da biblioteca de modelos sobre um banco local.
+ * @param {LocalDatabase} database O banco local.
+ * @returns {TemplateRepository} O repositório.
+ */
+export const createLocalTemplateRepository = (database: LocalDatabase): TemplateRepository => ({
+    loadTemplates: async (userId, organizationId) => {
+        await database.ready;
+        return readCollection<PlsTemplate>(database, 'templates')
+            .map(({ id, data }) => ({ ...data, id }))
+            .filter(template => organizationId
+                ? template.organizationId === organizationId
+                : template.ownerId === userId && !template.organizationId)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    createTemplate: async data => {
+        const template = { ...data, id: generateId() };
+        await writeDocuments(database, [[`templates/${template.id}`, template]]);
+        return template;
+    },
+
+    saveTemplate: template => writeDocuments(database, [[`templates/${template.id}`, template]]),
+
+    deleteTemplate: templateId => writeDocuments(database, [[`templates/${templateId}`, null]]),
+});
+
+/**
+ * Cria o repositório de organizações sobre um banco local.
+ * @param {LocalDatabase} database O banco local.
+ * @returns {OrganizationRepository} O repositório.
+ */
+export const createLocalOrganizationRepository = (database: LocalDatabase): OrganizationRepository => ({
+    loadOrganizations: async userId => {
+        await database.ready;
+        return readCollection<Organization>(database, 'organizations')
+            .filter(({ data }) => data.members?.includes(userId))
+            .map(({ id, data }) => ({ ...data, id }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    createOrganization: async data => {
+        const organization = { ...data, id: generateId(), created_at: new Date().toISOString() };
+        await writeDocuments(database, [[`organizations/${organization.id}`, organization]]);
+        return organization;
+    },
+
+    saveOrganization: organization => writeDocuments(database, [[`organizations/${organization.id}`, organization]]),
+
+    deleteOrganization: organizationId => writeDocuments(database, [[`organizations/${organizationId}`, null]]),
+});
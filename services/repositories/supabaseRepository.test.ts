@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createClient } from '@supabase/supabase-js';
+import { createSupabaseProjectRepository, fromProjectRow, ProjectRow, toPatchPayload, toProjectPayload } from './supabaseRepository';
+import { ProgressLog, Project, ProjectRepository } from '../../types';
+
+const log: ProgressLog = {
+    id: 'log_1',
+    timestamp: '2025-01-01T10:00:00.000Z',
+    itemId: '1.1',
+    itemName: 'Escavação',
+    unitId: 'u1',
+    unitName: 'Casa 01',
+    oldProgress: 0,
+    newProgress: 50,
+};
+
+const newProject = (): Omit<Project, 'id' | 'created_at'> => ({
+    name: 'Residencial',
+    ownerId: 'ana',
+    members: ['ana'],
+    roles: { ana: 'owner' },
+    housing_units: [{ id: 'u1', name: 'Casa 01' }, { id: 'u2', name: 'Casa 02' }],
+    pls_data: [{ id: '1', name: 'Serviços Preliminares', subItems: [{ id: '1.1', name: 'Escavação', incidence: 2.5, unit: 'vb' }] }],
+    progress: { '1.1': { u1: 50 } },
+    cost_of_works: 1000,
+} as unknown as Omit<Project, 'id' | 'created_at'>);
+
+describe('toProjectPayload', () => {
+    it('should split the project into relational rows and keep the remaining fields as data', () => {
+        const payload = toProjectPayload(newProject());
+
+        expect(payload.owner_id).toBe('ana');
+        expect(payload.pls_customized).toBe(true);
+        expect(payload.data).toEqual({ cost_of_works: 1000 });
+        expect(payload.pls_services).toEqual([{ id: '1.1', category_id: '1', name: 'Escavação', incidence: 2.5, unit: 'vb' }]);
+        expect(payload.progress_cells).toEqual([{ item_id: '1.1', unit_id: 'u1', value: 50 }]);
+    });
+});
+
+describe('toPatchPayload', () => {
+    it('should route each changed field to its table and ignore membership fields', () => {
+        const payload = toPatchPayload({
+            progressCells: [{ itemId: '1.1', unitId: 'u2', value: null }],
+            removedProgressItems: ['2.1'],
+            pendingProgress: [{ id: 'log_2', log: null }],
+            addedHistory: [log],
+            addedReports: [],
+            addedAudit: [],
+            fields: { name: 'Novo', pls_data: null, measurements: [], schedule: undefined, members: ['ana', 'bruno'] },
+        });
+
+        expect(payload.name).toBe('Novo');
+        expect(payload.pls).toEqual({ customized: false, categories: [], services: [] });
+        expect(payload.data_set).toEqual({ measurements: [] });
+        expect(payload.data_unset).toEqual(['schedule']);
+        expect(payload.cells).toEqual([{ item_id: '1.1', unit_id: 'u2', value: null }]);
+        expect(payload.pending).toEqual([{ id: 'log_2', log: null }]);
+        expect(payload.history).toEqual([{ id: 'log_1', timestamp: log.timestamp, item_id: '1.1', unit_id: 'u1', old_progress: 0, new_progress: 50, data: log }]);
+    });
+});
+
+describe('fromProjectRow', () => {
+    it('should rebuild the project in order from the related rows', () => {
+        const row: ProjectRow = {
+            id: 'p1',
+            name: 'Residencial',
+            owner_id: 'ana',
+            created_at: '2025-01-01T10:00:00+00:00',
+            pls_customized: false,
+            data: { cost_of_works: 1000 },
+            project_members: [
+                { user_id: 'bruno', role: null, added_at: '2025-01-02T10:00:00+00:00' },
+                { user_id: 'ana', role: 'owner', added_at: '2025-01-01T10:00:00+00:00' },
+            ],
+            housing_units: [{ id: 'u2', name: 'Casa 02', position: 2 }, { id: 'u1', name: 'Casa 01', position: 1 }],
+            pls_categories: [],
+            pls_services: [],
+            progress_cells: [{ item_id: '1.1', unit_id: 'u1', value: 50 }],
+        };
+
+        const project = fromProjectRow(row);
+
+        expect(project.members).toEqual(['ana', 'bruno']);
+        expect(project.roles).toEqual({ ana: 'owner' });
+        expect(project.housing_units.map(u => u.id)).toEqual(['u1', 'u2']);
+        expect(project.pls_data).toBeNull();
+        expect(project.progress).toEqual({ '1.1': { u1: 50 } });
+        expect(project.cost_of_works).toBe(1000);
+        expect(project.created_at).toBe('2025-01-01T10:00:00.000Z');
+    });
+});
+
+// Executado com `npm run test:supabase`, contra um Postgres local com `public/database.sql` aplicado.
+describe.skipIf(!process.env.SUPABASE_TEST_URL)('createSupabaseProjectRepository', () => {
+    let repository: ProjectRepository;
+    const createdIds: string[] = [];
+
+    beforeAll(() => {
+        // A chave de serviço ignora as políticas de acesso, que são verificadas pelas funções do banco.
+        repository = createSupabaseProjectRepository(createClient(process.env.SUPABASE_TEST_URL!, process.env.SUPABASE_TEST_SERVICE_KEY!));
+    });
+
+    afterAll(async () => {
+        await Promise.all(createdIds.map(id => repository.deleteProject(id)));
+    });
+
+    it('should round-trip a project through creation, patches and history', async () => {
+        const created = await repository.createProject(newProject());
+        createdIds.push(created.id);
+
+        await repository.applyPatch(created.id, {
+            progressCells: [{ itemId: '1.1', unitId: 'u2', value: 80 }],
+            removedProgressItems: [],
+            pendingProgress: [],
+            addedHistory: [log],
+            addedReports: [],
+            addedAudit: [],
+            fields: { cost_of_works: 2000 },
+        });
+
+        const project = (await repository.loadProjects('ana')).find(p => p.id === created.id)!;
+        expect(project.progress['1.1']).toEqual({ u1: 50, u2: 80 });
+        expect(project.cost_of_works).toBe(2000);
+        expect(project.pls_data).toEqual(newProject().pls_data);
+        expect((await repository.loadHistoryPage(created.id, 10)).items).toEqual([log]);
+    });
+
+    it('should add and remove members', async () => {
+        const created = await repository.createProject(newProject());
+        createdIds.push(created.id);
+
+        await repository.addMember(created.id, 'bruno', 'viewer');
+        expect((await repository.loadProjects('bruno')).map(p => p.id)).toContain(created.id);
+
+        await repository.removeMember(created.id, 'bruno');
+        expect((await repository.loadProjects('bruno')).map(p => p.id)).not.toContain(created.id);
+    });
+});
@@ -0,0 +1,572 @@
+/**
+ * @file Repositórios de projetos, usuários, modelos e organizações gravados no Postgres do Supabase, no modelo relacional de
+ * `public/database.sql`. As gravações de conteúdo passam pelas funções `create_project` e
+ * `apply_project_patch`, que aplicam cada alteração em uma única transação e validam o papel do usuário.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+    Project, ProjectPatch, ProgressLog, ArchivedReport, AuditEntry, EditingPresence, ProgressMatrix, ProjectRole,
+    PlsCategoryTemplate, HousingUnit, Page, ServiceScope, ProjectArchives, ProjectRepository, UserRepository,
+    PlsTemplate, TemplateRepository, Organization, OrganizationRepository, ProjectInvitation
+} from '../../types';
+
+/**
+ * Campos do projeto guardados em tabelas e colunas próprias. Os demais ficam na coluna `data`.
+ * `history` e `archived_reports` só existem embutidos em backups e vão para as suas tabelas.
+ */
+const RELATIONAL_FIELDS = [
+    'id', 'name', 'ownerId', 'members', 'roles', 'invitations', 'invited_emails', 'created_at', 'housing_units', 'pls_data', 'progress',
+    'history', 'archived_reports',
+];
+
+/**
+ * Campos alterados apenas pelos métodos de membros e de convites (ou fixos), ignorados nas alterações.
+ */
+const MANAGED_FIELDS = ['id', 'ownerId', 'members', 'roles', 'invitations', 'invited_emails', 'created_at', 'history', 'archived_reports'];
+
+const PROJECT_SELECT = '*, project_members(user_id, role, added_at), '
+    + 'project_invitations(email, role, invited_by, invited_by_email, created_at, expires_at), housing_units(id, name, position, typology_id, tower, floor), '
+    + 'pls_categories(id, name, position), pls_services(id, category_id, name, incidence, unit, scope, position), '
+    + 'progress_cells(item_id, unit_id, value)';
+
+/**
+ * Número de linhas por requisição ao ler tabelas inteiras (o limite padrão do Supabase é 1000).
+ */
+const SELECT_PAGE_SIZE = 1000;
+
+/**
+ * Intervalo para agrupar as notificações em tempo real de uma mesma gravação antes de recarregar.
+ */
+const REALTIME_RELOAD_DELAY_MS = 200;
+
+/**
+ * Um projeto como devolvido pelo Supabase, com as tabelas relacionadas.
+ */
+export interface ProjectRow {
+    id: string;
+    name: string;
+    owner_id: string;
+    created_at: string;
+    pls_customized: boolean;
+    data: Record<string, unknown>;
+    project_members: { user_id: string; role: ProjectRole | null; added_at: string }[];
+    project_invitations?: InvitationRow[];
+    housing_units: { id: string; name: string; position: number; typology_id?: string | null; tower?: string | null; floor?: string | null }[];
+    pls_categories: { id: string; name: string; position: number }[];
+    pls_services: { id: string; category_id: string; name: string; incidence: number; unit: string; scope?: ServiceScope | null; position: number }[];
+    progress_cells: { item_id: string; unit_id: string; value: number }[];
+}
+
+/**
+ * Um convite como gravado na tabela `project_invitations`.
+ */
+interface InvitationRow {
+    email: string;
+    role: ProjectRole;
+    invited_by: string;
+    invited_by_email: string | null;
+    created_at: string;
+    expires_at: string;
+}
+
+const fromInvitationRow = (row: InvitationRow): ProjectInvitation => ({
+    email: row.email,
+    role: row.role,
+    invitedBy: row.invited_by,
+    invitedByEmail: row.invited_by_email,
+    createdAt: new Date(row.created_at).toISOString(),
+    expiresAt: new Date(row.expires_at).toISOString(),
+});
+
+const byPosition = (a: { position: number }, b: { position: number }) => a.position - b.position;
+
+const toUnitRows = (units: HousingUnit[] = []) => units.map(({ id, name, typologyId, tower, floor }) => ({
+    id,
+    name,
+    ...(typologyId ? { typologyId } : {}),
+    ...(tower ? { tower } : {}),
+    ...(floor ? { floor } : {}),
+}));
+
+const toPlsRows = (plsData: PlsCategoryTemplate[] = []) => ({
+    categories: plsData.map(category => ({ id: category.id, name: category.name })),
+    services: plsData.flatMap(category => category.subItems.map(item => ({
+        id: item.id,
+        category_id: category.id,
+        name: item.name,
+        incidence: item.incidence,
+        unit: item.unit,
+        ...(item.scope ? { scope: item.scope } : {}),
+    }))),
+});
+
+const toLogRow = (log: ProgressLog) => ({
+    id: log.id,
+    timestamp: log.timestamp,
+    item_id: log.itemId,
+    unit_id: log.unitId,
+    old_progress: log.oldProgress,
+    new_progress: log.newProgress,
+    data: log,
+});
+
+const toReportRow = (report: ArchivedReport) => ({ id: report.id, generated_at: report.generatedAt, data: report });
+
+const toAuditRow = (entry: AuditEntry) => ({
+    id: entry.id,
+    timestamp: entry.timestamp,
+    action: entry.action,
+    user_id: entry.userId ?? null,
+    data: entry,
+});
+
+/**
+ * Converte um projeto novo para o formato esperado por `create_project`.
+ * @param {Omit<Project, 'id' | 'created_at'>} project O projeto.
+ * @returns {Record<string, unknown>} O projeto com as linhas das tabelas relacionadas.
+ */
+export const toProjectPayload = (project: Omit<Project, 'id' | 'created_at'>): Record<string, unknown> => {
+    const data = Object.fromEntries(Object.entries(project).filter(([key, value]) => !RELATIONAL_FIELDS.includes(key) && value !== undefined));
+    const pls = toPlsRows(project.pls_data || []);
+    return {
+        name: project.name,
+        owner_id: project.ownerId,
+        pls_customized: !!project.pls_data,
+        data,
+        housing_units: toUnitRows(project.housing_units),
+        pls_categories: pls.categories,
+        pls_services: pls.services,
+        progress_cells: Object.entries(project.progress || {}).flatMap(([itemId, row]) =>
+            Object.entries(row).map(([unitId, value]) => ({ item_id: itemId, unit_id: unitId, value }))),
+    };
+};
+
+/**
+ * Converte uma alteração para o formato esperado por `apply_project_patch`.
+ * @param {ProjectPatch} patch A alteração.
+ * @returns {Record<string, unknown>} A alteração, com as linhas a gravar em cada tabela.
+ */
+export const toPatchPayload = (patch: ProjectPatch): Record<string, unknown> => {
+    const payload: Record<string, unknown> = {
+        removed_items: patch.removedProgressItems,
+        cells: patch.progressCells.map(({ itemId, unitId, value }) => ({ item_id: itemId, unit_id: unitId, value })),
+        pending: patch.pendingProgress,
+        history: patch.addedHistory.map(toLogRow),
+        reports: patch.addedReports.map(toReportRow),
+        audit: patch.addedAudit.map(toAuditRow),
+    };
+    const dataSet: Record<string, unknown> = {};
+    const dataUnset: string[] = [];
+    Object.entries(patch.fields).forEach(([key, value]) => {
+        if (MANAGED_FIELDS.includes(key)) return;
+        if (key === 'name') {
+            payload.name = value ?? '';
+        } else if (key === 'housing_units') {
+            payload.housing_units = toUnitRows(value as HousingUnit[]);
+        } else if (key === 'pls_data') {
+            payload.pls = { customized: !!value, ...toPlsRows((value as PlsCategoryTemplate[]) || []) };
+        } else if (value === undefined) {
+            dataUnset.push(key);
+        } else {
+            dataSet[key] = value;
+        }
+    });
+    payload.data_set = dataSet;
+    payload.data_unset = dataUnset;
+    return payload;
+};
+
+/**
+ * Monta um projeto a partir da linha do Supabase e das tabelas relacionadas.
+ * @param {ProjectRow} row A linha do projeto.
+ * @returns {Project} O projeto.
+ */
+export const fromProjectRow = (row: ProjectRow): Project => {
+    const members = [...(row.project_members || [])].sort((a, b) => a.added_at.localeCompare(b.added_at));
+    const services = [...(row.pls_services || [])].sort(byPosition);
+    const progress: ProgressMatrix = {};
+    (row.progress_cells || []).forEach(cell => {
+        progress[cell.item_id] = { ...progress[cell.item_id], [cell.unit_id]: Number(cell.value) };
+    });
+
+    return {
+        ...row.data,
+        id: row.id,
+        name: row.name,
+        ownerId: row.owner_id,
+        created_at: new Date(row.created_at).toISOString(),
+        members: members.map(member => member.user_id),
+        roles: Object.fromEntries(members.filter(member => member.role).map(member => [member.user_id, member.role])),
+        ...(row.project_invitations?.length
+            ? { invitations: Object.fromEntries(row.project_invitations.map(invitation => [invitation.email, fromInvitationRow(invitation)])) }
+            : {}),
+        housing_units: [...(row.housing_units || [])].sort(byPosition).map(({ id, name, typology_id, tower, floor }) => ({
+            id,
+            name,
+            ...(typology_id ? { typologyId: typology_id } : {}),
+            ...(tower ? { tower } : {}),
+            ...(floor ? { floor } : {}),
+        })),
+        pls_data: !row.pls_customized ? null : [...(row.pls_categories || [])].sort(byPosition).map(category => ({
+            id: category.id,
+            name: category.name,
+            subItems: services
+                .filter(service => service.category_id === category.id)
+                .map(({ id, name, incidence, unit, scope }) => ({
+                    id, name, incidence: Number(incidence), unit,
+                    ...(scope === 'global' ? { scope } : {}),
+                })),
+        })),
+        progress,
+    } as Project;
+};
+
+/**
+ * Devolve os dados de uma resposta do Supabase ou lança o erro. Falhas de rede recebem o código
+ * `unavailable`, como no Firestore, para que a alteração entre na fila offline.
+ */
+const unwrap = <T>({ data, error }: { data: T | null; error: { message: string } | null }): T => {
+    if (error) {
+        if (/fetch/i.test(error.message)) throw Object.assign(new Error(error.message), { code: 'unavailable' });
+        throw error;
+    }
+    return data as T;
+};
+
+/**
+ * Cria o repositório de projetos sobre um cliente do Supabase.
+ * @param {SupabaseClient} client O cliente, autenticado com o token do usuário (ou com a chave de serviço, nos testes).
+ * @returns {ProjectRepository} O repositório.
+ */
+export const createSupabaseProjectRepository = (client: SupabaseClient): ProjectRepository => {
+    const loadProjects = async (userId: string): Promise<Project[]> => {
+        const rows = unwrap(await client.from('projects').select(PROJECT_SELECT).order('created_at', { ascending: false }));
+        // As políticas já limitam os projetos aos do usuário; o filtro cobre a chave de serviço.
+        return (rows as unknown as ProjectRow[]).map(fromProjectRow).filter(project => project.members.includes(userId));
+    };
+
+    /**
+     * Lê todas as linhas de uma consulta, em páginas, contornando o limite de linhas por requisição.
+     */
+    const selectAll = async <T>(table: string, projectId: string, orderField: string, ascending: boolean): Promise<T[]> => {
+        const rows: T[] = [];
+        for (let start = 0; ; start += SELECT_PAGE_SIZE) {
+            const page = unwrap(await client.from(table).select('data').eq('project_id', projectId)
+                .order(orderField, { ascending }).range(start, start + SELECT_PAGE_SIZE - 1)) as { data: T }[];
+            rows.push(...page.map(row => row.data));
+            if (page.length < SELECT_PAGE_SIZE) return rows;
+        }
+    };
+
+    /**
+     * Carrega uma página de uma tabela do projeto, da linha mais recente para a mais antiga. O cursor é a posição do próximo item.
+     */
+    const loadPage = async <T>(table: string, orderField: string, projectId: string, pageSize: number, cursor?: unknown): Promise<Page<T>> => {
+        const start = typeof cursor === 'number' ? cursor : 0;
+        // Busca um item a mais apenas para saber se existe uma próxima página.
+        const rows = unwrap(await client.from(table).select('data').eq('project_id', projectId)
+            .order(orderField, { ascending: false }).range(start, start + pageSize)) as { data: T }[];
+        return {
+            items: rows.slice(0, pageSize).map(row => row.data),
+            cursor: start + pageSize,
+            hasMore: rows.length > pageSize,
+        };
+    };
+
+    /**
+     * Recarrega os dados sempre que uma das tabelas mudar, agrupando as notificações de uma mesma gravação.
+     */
+    const subscribeToTables = (channelName: string, tables: string[], filter: string | undefined, reload: () => void): (() => void) => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const channel = client.channel(channelName);
+        tables.forEach(table => {
+            channel.on('postgres_changes', { event: '*', schema: 'public', table, filter }, () => {
+                clearTimeout(timer);
+                timer = setTimeout(reload, REALTIME_RELOAD_DELAY_MS);
+            });
+        });
+        channel.subscribe();
+        reload();
+        return () => {
+            clearTimeout(timer);
+            client.removeChannel(channel);
+        };
+    };
+
+    const loadPresence = async (projectId: string): Promise<EditingPresence[]> => {
+        const rows = unwrap(await client.from('editing_presence').select('user_id, user_email, item_id, updated_at').eq('project_id', projectId));
+        return (rows || []).map(row => ({
+            userId: row.user_id,
+            userEmail: row.user_email,
+            itemId: row.item_id,
+            updatedAt: new Date(row.updated_at).toISOString(),
+        }));
+    };
+
+    return {
+        loadProjects,
+
+        subscribeToProjects: (userId, onChange, onError) => subscribeToTables(
+            `projects:${userId}`,
+            ['projects', 'project_members', 'housing_units', 'pls_categories', 'pls_services', 'progress_cells'],
+            undefined,
+            () => loadProjects(userId).then(onChange, onError)
+        ),
+
+        createProject: async (data, archives?: ProjectArchives) => {
+            const created = unwrap(await client.rpc('create_project', {
+                p_project: toProjectPayload(data),
+                p_history: (archives?.history || []).map(toLogRow),
+                p_reports: (archives?.reports || []).map(toReportRow),
+                p_audit: (archives?.audit || []).map(toAuditRow),
+            })) as { id: string; created_at: string };
+            return {
+                ...data,
+                id: created.id,
+                created_at: new Date(created.created_at).toISOString(),
+                members: [data.ownerId],
+                roles: { [data.ownerId]: 'owner' },
+            } as Project;
+        },
+
+        applyPatch: async (projectId, patch) => {
+            unwrap(await client.rpc('apply_project_patch', { p_project_id: projectId, p_patch: toPatchPayload(patch) }));
+        },
+
+        // As tabelas relacionadas são excluídas em cascata.
+        deleteProject: async projectId => {
+            unwrap(await client.from('projects').delete().eq('id', projectId));
+        },
+
+        loadHistoryPage: (projectId, pageSize, cursor) => loadPage<ProgressLog>('progress_logs', 'timestamp', projectId, pageSize, cursor),
+
+        loadArchivedReportsPage: (projectId, pageSize, cursor) => loadPage<ArchivedReport>('archived_reports', 'generated_at', projectId, pageSize, cursor),
+
+        loadAuditPage: (projectId, pageSize, cursor) => loadPage<AuditEntry>('audit_events', 'timestamp', projectId, pageSize, cursor),
+
+        loadAuditEntries: async (projectId, action) => {
+            const rows = unwrap(await client.from('audit_events').select('data').eq('project_id', projectId).eq('action', action)
+                .order('timestamp', { ascending: false })) as { data: AuditEntry }[];
+            return rows.map(row => row.data);
+        },
+
+        loadArchives: async projectId => {
+            const [history, reports] = await Promise.all([
+                selectAll<ProgressLog>('progress_logs', projectId, 'timestamp', false),
+                selectAll<ArchivedReport>('archived_reports', projectId, 'generated_at', true),
+            ]);
+            return { history, reports };
+        },
+
+        subscribeToPresence: (projectId, onChange) => subscribeToTables(
+            `presence:${projectId}`,
+            ['editing_presence'],
+            `project_id=eq.${projectId}`,
+            () => loadPresence(projectId).then(onChange, error => {
+                // A presença é apenas informativa; uma falha não deve interromper a edição.
+                console.warn("Failed to load editing presence", error);
+            })
+        ),
+
+        setPresence: async (projectId, presence) => {
+            unwrap(await client.from('editing_presence').upsert({
+                project_id: projectId,
+                user_id: presence.userId,
+                user_email: presence.userEmail,
+                item_id: presence.itemId,
+                updated_at: presence.updatedAt,
+            }));
+        },
+
+        clearPresence: async (projectId, userId) => {
+            unwrap(await client.from('editing_presence').delete().eq('project_id', projectId).eq('user_id', userId));
+        },
+
+        addMember: async (projectId, memberId, role) => {
+            unwrap(await client.from('project_members').upsert({ project_id: projectId, user_id: memberId, role }));
+        },
+
+        setMemberRole: async (projectId, memberId, role) => {
+            unwrap(await client.from('project_members').update({ role }).eq('project_id', projectId).eq('user_id', memberId));
+        },
+
+        removeMember: async (projectId, memberId) => {
+            unwrap(await client.from('project_members').delete().eq('project_id', projectId).eq('user_id', memberId));
+        },
+
+        // O convite e a mensagem são gravados juntos pela função, pois os clientes não escrevem na caixa de saída.
+        inviteMember: async (projectId, invitation, { to, subject, text }) => {
+            unwrap(await client.rpc('invite_project_member', {
+                p_project_id: projectId,
+                p_invitation: {
+                    email: invitation.email,
+                    role: invitation.role,
+                    invited_by: invitation.invitedBy,
+                    invited_by_email: invitation.invitedByEmail,
+                    created_at: invitation.createdAt,
+                    expires_at: invitation.expiresAt,
+                },
+                p_message: { to_email: to, subject, text },
+            }));
+        },
+
+        revokeInvitation: async (projectId, email) => {
+            unwrap(await client.from('project_invitations').delete().eq('project_id', projectId).eq('email', email));
+        },
+
+        // A função confere o e-mail (verificado) do token, e não os argumentos, antes de converter os convites.
+        acceptInvitations: async () => {
+            const names = unwrap(await client.rpc('accept_project_invitations'));
+            return (names || []) as string[];
+        },
+    };
+};
+
+/**
+ * Cria o repositório de perfis de usuário sobre um cliente do Supabase.
+ * @param {SupabaseClient} client O cliente.
+ * @returns {UserRepository} O repositório.
+ */
+export const createSupabaseUserRepository = (client: SupabaseClient): UserRepository => ({
+    getUser: async uid => {
+        const row = unwrap(await client.from('profiles').select('id, email').eq('id', uid).maybeSingle());
+        return row ? { uid: row.id, email: row.email } : null;
+    },
+
+    saveUser: async profile => {
+        unwrap(await client.from('profiles').upsert({ id: profile.uid, email: profile.email?.toLowerCase() || null }));
+    },
+
+    findUserByEmail: async email => {
+        const row = unwrap(await client.from('profiles').select('id, email').eq('email', email.toLowerCase()).maybeSingle());
+        return row ? { uid: row.id, email: row.email } : null;
+    },
+
+    getUsersByIds: async uids => {
+        const rows = unwrap(await client.from('profiles').select('id, email').in('id', uids));
+        return new Map((rows || []).map(row => [row.id, { uid: row.id, email: row.email }]));
+    },
+});
+
+/**
+ * Um modelo como devolvido pelo Supabase.
+ */
+interface TemplateRow {
+    id: string;
+    name: string;
+    description: string | null;
+    owner_id: string;
+    organization_id: string | null;
+    created_at: string;
+    versions: PlsTemplate['versions'];
+}
+
+const fromTemplateRow = (row: TemplateRow): PlsTemplate => ({
+    id: row.id,
+    name: row.name,
+    ...(row.description ? { description: row.description } : {}),
+    ownerId: row.owner_id,
+    ...(row.organization_id ? { organizationId: row.organization_id } : {}),
+    created_at: new Date(row.created_at).toISOString(),
+    versions: row.versions || [],
+});
+
+/**
+ * Cria o repositório da biblioteca de modelos sobre um cliente do Supabase.
+ * @param {SupabaseClient} client O cliente.
+ * @returns {TemplateRepository} O repositório.
+ */
+export const createSupabaseTemplateRepository = (client: SupabaseClient): TemplateRepository => ({
+    loadTemplates: async (userId, organizationId) => {
+        const templates = client.from('pls_templates').select('*');
+        const rows = unwrap(await (organizationId
+            ? templates.eq('organization_id', organizationId)
+            : templates.eq('owner_id', userId).is('organization_id', null)
+        ).order('name'));
+        return ((rows || []) as TemplateRow[]).map(fromTemplateRow);
+    },
+
+    createTemplate: async data => {
+        const row = unwrap(await client.from('pls_templates').insert({
+            name: data.name,
+            description: data.description || null,
+            owner_id: data.ownerId,
+            organization_id: data.organizationId || null,
+            versions: data.versions,
+        }).select('*').single());
+        return fromTemplateRow(row as TemplateRow);
+    },
+
+    saveTemplate: async template => {
+        unwrap(await client.from('pls_templates').update({
+            name: template.name,
+            description: template.description || null,
+            versions: template.versions,
+        }).eq('id', template.id));
+    },
+
+    deleteTemplate: async templateId => {
+        unwrap(await client.from('pls_templates').delete().eq('id', templateId));
+    },
+});
+
+interface OrganizationRow {
+    id: string;
+    name: string;
+    cnpj: string | null;
+    owner_id: string;
+    members: string[];
+    roles: Organization['roles'];
+    branding: Organization['branding'] | null;
+    default_template_id: string | null;
+    created_at: string;
+}
+
+const fromOrganizationRow = (row: OrganizationRow): Organization => ({
+    id: row.id,
+    name: row.name,
+    ...(row.cnpj ? { cnpj: row.cnpj } : {}),
+    ownerId: row.owner_id,
+    members: row.members || [],
+    roles: row.roles || {},
+    ...(row.branding ? { branding: row.branding } : {}),
+    ...(row.default_template_id ? { default_template_id: row.default_template_id } : {}),
+    created_at: new Date(row.created_at).toISOString(),
+});
+
+const toOrganizationRow = (organization: Omit<Organization, 'id' | 'created_at'>) => ({
+    name: organization.name,
+    cnpj: organization.cnpj || null,
+    members: organization.members,
+    roles: organization.roles,
+    branding: organization.branding || null,
+    default_template_id: organization.default_template_id || null,
+});
+
+/**
+ * Cria o repositório de organizações sobre um cliente do Supabase.
+ * @param {SupabaseClient} client O cliente.
+ * @returns {OrganizationRepository} O repositório.
+ */
+export const createSupabaseOrganizationRepository = (client: SupabaseClient): OrganizationRepository => ({
+    loadOrganizations: async userId => {
+        const rows = unwrap(await client.from('organizations').select('*').contains('members', [userId]).order('name'));
+        return ((rows || []) as OrganizationRow[]).map(fromOrganizationRow);
+    },
+
+    createOrganization: async data => {
+        const row = unwrap(await client.from('organizations').insert({
+            ...toOrganizationRow(data),
+            owner_id: data.ownerId,
+        }).select('*').single());
+        return fromOrganizationRow(row as OrganizationRow);
+    },
+
+    saveOrganization: async organization => {
+        unwrap(await client.from('organizations').update(toOrganizationRow(organization)).eq('id', organization.id));
+    },
+
+    deleteOrganization: async organizationId => {
+        unwrap(await client.from('organizations').delete().eq('id', organizationId));
+    },
+});
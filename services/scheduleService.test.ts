@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { buildScheduleCurve, getMeasuredProgressByStage } from './scheduleService';
+import { ArchivedReportSummary, Financials, ScheduleStage } from '../types';
+
+const stage = (n: number, physical: number, financial: number): ScheduleStage => ({
+    stage: n,
+    physical_progress_stage: 0,
+    physical_progress_accumulated: physical,
+    financial_release_stage: 0,
+    financial_release_accumulated: financial,
+});
+
+const report = (measurementNumber: number, totalProgress: number, generatedAt: string): ArchivedReportSummary => ({
+    id: `report_${measurementNumber}_${generatedAt}`,
+    title: 'Relatório',
+    generatedAt,
+    measurementNumber,
+    totalProgress,
+});
+
+describe('getMeasuredProgressByStage', () => {
+    it('should keep the most recent report for each measurement', () => {
+        const measured = getMeasuredProgressByStage([
+            report(1, 5, '2025-01-31T10:00:00.000Z'),
+            report(1, 7, '2025-02-01T10:00:00.000Z'),
+            report(2, 12, '2025-02-28T10:00:00.000Z'),
+        ], 20);
+
+        expect(measured[1]).toBe(7);
+        expect(measured[2]).toBe(12);
+    });
+
+    it('should assign the current progress to the measurement after the last archived one', () => {
+        expect(getMeasuredProgressByStage([report(2, 12, '2025-02-28T10:00:00.000Z')], 20)[3]).toBe(20);
+        expect(getMeasuredProgressByStage([], 4)).toEqual({ 1: 4 });
+    });
+
+    it('should prefer closed measurements and place the current progress on the open one', () => {
+        const measured = getMeasuredProgressByStage([report(1, 5, '2025-01-31T10:00:00.000Z')], 20, [
+            { id: 'm1', number: 1, periodStart: '2025-01-01', periodEnd: '2025-01-31', status: 'closed', financialsSnapshot: { totalProgress: 6 } as Financials },
+            { id: 'm2', number: 2, periodStart: '2025-02-01', periodEnd: '2025-02-28', status: 'open' },
+        ]);
+
+        expect(measured).toEqual({ 1: 6, 2: 20 });
+    });
+});
+
+describe('buildScheduleCurve', () => {
+    const schedule = [stage(2, 15, 14), stage(1, 6, 6), stage(3, 25, 24)];
+
+    it('should sort stages and leave unmeasured stages empty', () => {
+        const curve = buildScheduleCurve(schedule, { 1: 6 });
+
+        expect(curve.map(p => p.stage)).toEqual([1, 2, 3]);
+        expect(curve[1].actualProgress).toBeNull();
+        expect(curve[1].deviation).toBeNull();
+        expect(curve[1].isBehind).toBe(false);
+    });
+
+    it('should flag stages where the measured progress is below the plan', () => {
+        const curve = buildScheduleCurve(schedule, { 1: 6.0000001, 2: 10 });
+
+        expect(curve[0].isBehind).toBe(false);
+        expect(curve[1].isBehind).toBe(true);
+        expect(curve[1].deviation).toBe(-5);
+    });
+
+    it('should respect the tolerance', () => {
+        expect(buildScheduleCurve(schedule, { 2: 13 }, 2)[1].isBehind).toBe(false);
+        expect(buildScheduleCurve(schedule, { 2: 12 }, 2)[1].isBehind).toBe(true);
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * @file Serviço com funções puras para comparar o cronograma físico-financeiro importado
+ * com o progresso efetivamente medido, produzindo os pontos da curva S (previsto x realizado).
+ */
+import { ArchivedReportSummary, Measurement, ScheduleCurvePoint, ScheduleStage } from '../types';
+
+/**
+ * Reúne o progresso total medido em cada medição (etapa) do projeto.
+ * As medições fechadas têm prioridade, pois seus dados financeiros estão congelados. Para medições
+ * sem registro, usa o progresso dos relatórios arquivados (prevalecendo o mais recente).
+ * O progresso atual é atribuído à medição aberta ou, se não houver, à seguinte à última registrada.
+ * @param {ArchivedReportSummary[]} reportSummaries Os resumos dos relatórios arquivados do projeto.
+ * @param {number} currentProgress O progresso total atual do projeto (%).
+ * @param {Measurement[]} [measurements=[]] As medições do projeto.
+ * @returns {Record<number, number>} Um mapa do número da medição para o progresso total medido (%).
+ */
+export const getMeasuredProgressByStage = (reportSummaries: ArchivedReportSummary[], currentProgress: number, measurements: Measurement[] = []): Record<number, number> => {
+    const measured: Record<number, number> = {};
+    const generatedAtByStage: Record<number, string> = {};
+
+    reportSummaries.forEach(report => {
+        const stage = report.measurementNumber;
+        if (!stage) return;
+        if (generatedAtByStage[stage] && generatedAtByStage[stage] > report.generatedAt) return;
+        generatedAtByStage[stage] = report.generatedAt;
+        measured[stage] = report.totalProgress;
+    });
+
+    measurements.forEach(measurement => {
+        if (measurement.status === 'closed' && measurement.financialsSnapshot) {
+            measured[measurement.number] = measurement.financialsSnapshot.totalProgress;
+        }
+    });
+
+    const openMeasurement = measurements.find(m => m.status === 'open');
+    const lastMeasuredStage = Object.keys(measured).reduce((max, key) => Math.max(max, Number(key)), 0);
+    measured[openMeasurement ? openMeasurement.number : lastMeasuredStage + 1] = currentProgress;
+
+    return measured;
+};
+
+/**
+ * Monta os pontos da curva S a partir do cronograma e do progresso medido por etapa.
+ * Uma etapa é sinalizada como atrasada quando o progresso medido fica abaixo do progresso físico
+ * acumulado previsto, descontada a tolerância informada.
+ * @param {ScheduleStage[]} schedule O cronograma físico-financeiro do projeto.
+ * @param {Record<number, number>} measuredByStage O progresso medido por número de etapa.
+ * @param {number} [tolerance=0] Tolerância em pontos percentuais antes de sinalizar atraso.
+ * @returns {ScheduleCurvePoint[]} Os pontos da curva, ordenados por etapa.
+ */
+export const buildScheduleCurve = (schedule: ScheduleStage[], measuredByStage: Record<number, number>, tolerance = 0): ScheduleCurvePoint[] => {
+    return [...schedule]
+        .sort((a, b) => a.stage - b.stage)
+        .map(stage => {
+            const actual = measuredByStage[stage.stage];
+            const hasActual = typeof actual === 'number';
+            // Arredonda para evitar que ruído de ponto flutuante marque etapas como atrasadas.
+            const deviation = hasActual ? Math.round((actual - stage.physical_progress_accumulated) * 100) / 100 : null;
+            return {
+                stage: stage.stage,
+                plannedPhysical: stage.physical_progress_accumulated,
+                plannedFinancial: stage.financial_release_accumulated,
+                actualProgress: hasActual ? actual : null,
+                deviation,
+                isBehind: deviation !== null && deviation < -tolerance,
+            };
+        });
+};
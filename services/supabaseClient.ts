@@ -0,0 +1,17 @@
+/**
+ * @file Cliente do Supabase, usado quando `VITE_STORAGE_BACKEND` é `supabase`.
+ * O login continua no Firebase Auth: o token do usuário é enviado ao Supabase (autenticação de terceiros),
+ * e as políticas de `public/database.sql` identificam o usuário pelo UID do Firebase.
+ */
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { auth, STORAGE_BACKEND } from '../firebase/config';
+
+/**
+ * O cliente do Supabase, ou `null` se a aplicação não estiver configurada para usá-lo.
+ * @type {SupabaseClient | null}
+ */
+export const supabase: SupabaseClient | null = STORAGE_BACKEND === 'supabase'
+  ? createClient(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_ANON_KEY, {
+      accessToken: async () => (await auth.currentUser?.getIdToken()) ?? null,
+    })
+  : null;
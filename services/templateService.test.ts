@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { addTemplateVersion, createTemplateFromProject, getLatestTemplateVersion, getTemplateRef, getTemplateUsage, isTemplateOutdated } from './templateService';
+import { PlsTemplate, Project } from '../types';
+
+const pls = [{ id: '1', name: 'Estrutura', subItems: [{ id: '1.1', name: 'Alvenaria', incidence: 100, unit: 'vb' }] }];
+
+const baseProject = {
+    id: 'p1',
+    name: 'Residencial Sol',
+    housing_units: [],
+    progress: {},
+    pls_data: pls,
+} as unknown as Project;
+
+const user = { uid: 'u1', email: 'eng@cataratas.com' };
+
+describe('createTemplateFromProject', () => {
+    it('should copy the project PLS into version 1', () => {
+        const template = createTemplateFromProject(baseProject, ' Casas 2Q ', '', user);
+
+        expect(template).toEqual(expect.objectContaining({ name: 'Casas 2Q', ownerId: 'u1' }));
+        expect(template.description).toBeUndefined();
+        expect(template.versions).toHaveLength(1);
+        expect(template.versions[0]).toEqual(expect.objectContaining({ version: 1, pls_data: pls, publishedBy: 'eng@cataratas.com' }));
+        expect(template.versions[0].pls_data).not.toBe(pls);
+        expect(template.organizationId).toBeUndefined();
+    });
+
+    it('should add the template to the library of the project organization', () => {
+        const template = createTemplateFromProject({ ...baseProject, organizationId: 'o1' }, 'Casas 2Q', '', user);
+
+        expect(template.organizationId).toBe('o1');
+    });
+});
+
+describe('template versions', () => {
+    const template: PlsTemplate = { id: 't1', ...createTemplateFromProject(baseProject, 'Casas 2Q', '', user) };
+
+    it('should append a new version and keep the previous ones', () => {
+        const updated = addTemplateVersion(template, baseProject, 'eng@cataratas.com', 'Nova etapa de pintura');
+
+        expect(updated.versions.map(version => version.version)).toEqual([1, 2]);
+        expect(getLatestTemplateVersion(updated)).toEqual(expect.objectContaining({ version: 2, notes: 'Nova etapa de pintura' }));
+        expect(template.versions).toHaveLength(1);
+    });
+
+    it('should flag projects created from an older version', () => {
+        const updated = addTemplateVersion(template, baseProject, 'eng@cataratas.com');
+        const fromV1 = { ...baseProject, template: getTemplateRef(template, template.versions[0]) };
+        const fromV2 = { ...baseProject, id: 'p2', template: getTemplateRef(updated, getLatestTemplateVersion(updated)!) };
+
+        expect(isTemplateOutdated(fromV1, [updated])).toBe(true);
+        expect(isTemplateOutdated(fromV2, [updated])).toBe(false);
+        expect(isTemplateOutdated(baseProject, [updated])).toBe(false);
+        expect(Object.keys(getTemplateUsage([fromV1, fromV2, baseProject]))).toEqual(['t1']);
+        expect(getTemplateUsage([fromV1, fromV2, baseProject]).t1.map(project => project.id)).toEqual(['p1', 'p2']);
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * @file Serviço com funções puras para a biblioteca de modelos da construtora: criação de um modelo
+ * (ou de uma nova versão dele) a partir de um projeto, aplicação de uma versão na criação de um projeto
+ * e os projetos que usam cada modelo.
+ */
+import { PlsTemplate, PlsTemplateVersion, Project, ProjectTemplateRef } from '../types';
+import { PLS_TEMPLATE } from '../constants';
+
+/**
+ * Copia um valor sem campos `undefined`, que o Firestore não aceita dentro de listas.
+ */
+const cloneForStorage = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Monta uma versão de modelo com a PLS e os layouts atuais do projeto.
+ */
+const buildVersion = (project: Project, version: number, publishedBy: string, notes?: string): PlsTemplateVersion => {
+    const templateVersion: PlsTemplateVersion = {
+        version,
+        pls_data: cloneForStorage(project.pls_data || PLS_TEMPLATE),
+        publishedAt: new Date().toISOString(),
+        publishedBy,
+    };
+    if (project.layouts && project.layouts.length > 0) templateVersion.layouts = cloneForStorage(project.layouts);
+    if (notes?.trim()) templateVersion.notes = notes.trim();
+    return templateVersion;
+};
+
+/**
+ * Cria um modelo a partir da PLS e dos layouts de um projeto, na versão 1, na biblioteca da organização do projeto
+ * (ou como modelo pessoal, se o projeto não pertencer a uma organização).
+ * @param {Project} project O projeto de origem (projetos sem PLS própria usam a PLS padrão).
+ * @param {string} name O nome do modelo.
+ * @param {string} description A descrição do modelo.
+ * @param {{ uid: string; email: string | null }} user O usuário que está criando o modelo.
+ * @returns {Omit<PlsTemplate, 'id'>} O novo modelo, ainda sem ID.
+ */
+export const createTemplateFromProject = (
+    project: Project,
+    name: string,
+    description: string,
+    user: { uid: string; email: string | null }
+): Omit<PlsTemplate, 'id'> => {
+    const template: Omit<PlsTemplate, 'id'> = {
+        name: name.trim(),
+        ownerId: user.uid,
+        created_at: new Date().toISOString(),
+        versions: [buildVersion(project, 1, user.email || user.uid)],
+    };
+    if (description.trim()) template.description = description.trim();
+    if (project.organizationId) template.organizationId = project.organizationId;
+    return template;
+};
+
+/**
+ * Publica uma nova versão de um modelo com a PLS e os layouts atuais de um projeto. As versões anteriores são mantidas.
+ * @param {PlsTemplate} template O modelo.
+ * @param {Project} project O projeto de origem.
+ * @param {string} publishedBy O e-mail (ou ID) de quem está publicando.
+ * @param {string} [notes] O que mudou em relação à versão anterior.
+ * @returns {PlsTemplate} O modelo com a nova versão.
+ */
+export const addTemplateVersion = (template: PlsTemplate, project: Project, publishedBy: string, notes?: string): PlsTemplate => {
+    const nextVersion = Math.max(0, ...template.versions.map(version => version.version)) + 1;
+    return { ...template, versions: [...template.versions, buildVersion(project, nextVersion, publishedBy, notes)] };
+};
+
+/**
+ * Retorna a versão mais recente de um modelo.
+ * @param {PlsTemplate} template O modelo.
+ * @returns {PlsTemplateVersion | undefined} A última versão publicada.
+ */
+export const getLatestTemplateVersion = (template: PlsTemplate): PlsTemplateVersion | undefined =>
+    template.versions.reduce<PlsTemplateVersion | undefined>((latest, version) => !latest || version.version > latest.version ? version : latest, undefined);
+
+/**
+ * Retorna a referência gravada no projeto criado a partir de uma versão de um modelo.
+ * @param {PlsTemplate} template O modelo.
+ * @param {PlsTemplateVersion} version A versão aplicada.
+ * @returns {ProjectTemplateRef} A referência ao modelo.
+ */
+export const getTemplateRef = (template: PlsTemplate, version: PlsTemplateVersion): ProjectTemplateRef => ({
+    templateId: template.id,
+    templateName: template.name,
+    version: version.version,
+});
+
+/**
+ * Agrupa os projetos pelo modelo de onde veio a sua PLS.
+ * @param {Project[]} projects Os projetos.
+ * @returns {Record<string, Project[]>} Os projetos de cada modelo, indexados pelo ID do modelo.
+ */
+export const getTemplateUsage = (projects: Project[]): Record<string, Project[]> => {
+    const usage: Record<string, Project[]> = {};
+    projects.forEach(project => {
+        const templateId = project.template?.templateId;
+        if (!templateId) return;
+        usage[templateId] = [...(usage[templateId] || []), project];
+    });
+    return usage;
+};
+
+/**
+ * Indica se o projeto foi criado a partir de uma versão anterior à mais recente do seu modelo.
+ * @param {Project} project O projeto.
+ * @param {PlsTemplate[]} templates Os modelos da biblioteca.
+ * @returns {boolean} `true` se houver uma versão mais nova do modelo.
+ */
+export const isTemplateOutdated = (project: Project, templates: PlsTemplate[]): boolean => {
+    const template = project.template && templates.find(t => t.id === project.template!.templateId);
+    const latest = template ? getLatestTemplateVersion(template) : undefined;
+    return !!latest && latest.version > project.template!.version;
+};
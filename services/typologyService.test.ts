@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { getTypologyPls, getUnitCostShares, hasTypologies, mergePlsStructures } from './typologyService';
+import { calculateProjectFinancials, calculateUnitFinancials, getProjectServiceCategories } from './financialService';
+import { PlsCategoryTemplate, Project } from '../types';
+
+const pls: PlsCategoryTemplate[] = [
+    { id: '1', name: 'Fundações', subItems: [{ id: '1.1', name: 'Sapatas', incidence: 40, unit: 'vb' }] },
+    { id: '2', name: 'Cobertura', subItems: [
+        { id: '2.1', name: 'Telhado', incidence: 40, unit: 'vb' },
+        { id: '2.2', name: 'Calhas', incidence: 20, unit: 'vb' },
+    ] },
+];
+
+const project = (overrides: Partial<Project> = {}): Project => ({
+    id: 'p1',
+    cost_of_works: 1000,
+    pls_data: pls,
+    housing_units: [{ id: 'u1', name: 'Casa 01', typologyId: 't1' }, { id: 'u2', name: 'Casa 02' }],
+    typologies: [{ id: 't1', name: 'Casa de esquina', costWeight: 3 }],
+    progress: {},
+    ...overrides,
+} as Project);
+
+describe('getTypologyPls', () => {
+    it('should apply the multipliers and keep the original total incidence', () => {
+        const result = getTypologyPls(pls, { id: 't1', name: 'Esquina', costWeight: 1, incidence_multipliers: { '2': 2, '2.2': 1 } });
+        const incidences = result.flatMap(category => category.subItems.map(item => item.incidence));
+
+        // 40 / 80 / 20 rescaled from 140 back to 100
+        expect(incidences.map(value => Number(value.toFixed(4)))).toEqual([28.5714, 57.1429, 14.2857]);
+    });
+
+    it('should prefer the typology own structure', () => {
+        const own = [pls[0]];
+        expect(getTypologyPls(pls, { id: 't1', name: 'Térrea', costWeight: 1, pls_data: own })).toBe(own);
+    });
+});
+
+describe('getUnitCostShares', () => {
+    it('should split the cost by typology weight, with weight 1 for units without one', () => {
+        expect(getUnitCostShares(project())).toEqual({ u1: 0.75, u2: 0.25 });
+    });
+});
+
+describe('mergePlsStructures', () => {
+    it('should append services and categories that only exist in later structures', () => {
+        const merged = mergePlsStructures([pls, [{ id: '2', name: 'Cobertura', subItems: [{ id: '2.3', name: 'Rufos', incidence: 5, unit: 'vb' }] }, { id: '3', name: 'Muros', subItems: [] }]]);
+
+        expect(merged.map(category => category.id)).toEqual(['1', '2', '3']);
+        expect(merged[1].subItems.map(item => item.id)).toEqual(['2.1', '2.2', '2.3']);
+        expect(pls[1].subItems).toHaveLength(2);
+    });
+});
+
+describe('financials with typologies', () => {
+    const mixed = () => project({
+        typologies: [{ id: 't1', name: 'Sem calhas', costWeight: 3, pls_data: [pls[0], { ...pls[1], subItems: [{ ...pls[1].subItems[0], incidence: 60 }] }] }],
+        progress: { '1.1': { u1: 100, u2: 0 }, '2.2': { u2: 100 } },
+        financial_rule: 'weighted_average',
+    });
+
+    it('should only consider typologies assigned to some unit', () => {
+        expect(hasTypologies(project({ housing_units: [{ id: 'u1', name: 'Casa 01' }] }))).toBe(false);
+        expect(hasTypologies(mixed())).toBe(true);
+    });
+
+    it('should weight each service by the units that execute it', () => {
+        const categories = getProjectServiceCategories(mixed());
+        const calhas = categories[1].subItems.find(item => item.id === '2.2')!;
+
+        expect(categories[0].subItems[0].incidence).toBeCloseTo(40);
+        expect(categories[1].subItems[0].incidence).toBeCloseTo(0.75 * 60 + 0.25 * 40);
+        expect(calhas.incidence).toBeCloseTo(5);
+        expect(calhas.unitIncidences).toEqual({ u2: 20 });
+
+        // Sapatas: 75% of the cost done; Calhas: done only where it exists
+        const financials = calculateProjectFinancials(mixed());
+        expect(financials.totalProgress).toBeCloseTo(0.75 * 40 + 5);
+    });
+
+    it('should measure each unit against its typology structure', () => {
+        const units = calculateUnitFinancials(getProjectServiceCategories(mixed()), mixed().progress, mixed().housing_units, 'weighted_average');
+        expect(units.map(unit => Math.round(unit.progress))).toEqual([40, 20]);
+    });
+});
@@ -0,0 +1,103 @@
+/**
+ * @file Serviço com funções puras para as tipologias das unidades habitacionais: a PLS de cada tipologia
+ * (própria ou a do projeto com multiplicadores de incidência), a parcela do custo das obras que cabe a cada
+ * unidade e a estrutura única que reúne os serviços de todas as tipologias.
+ */
+import { HousingUnit, PlsCategoryTemplate, Project, ServiceSubItem, UnitTypology } from '../types';
+
+/**
+ * Indica se o projeto possui unidades associadas a alguma tipologia.
+ * Sem isso, todas as unidades compartilham a PLS do projeto e pesam igual nos cálculos.
+ * @param {Project} project O projeto.
+ * @returns {boolean} `true` se alguma unidade tiver uma tipologia existente.
+ */
+export const hasTypologies = (project: Project): boolean => {
+    const ids = new Set((project.typologies || []).map(typology => typology.id));
+    return ids.size > 0 && (project.housing_units || []).some(unit => !!unit.typologyId && ids.has(unit.typologyId));
+};
+
+/**
+ * Retorna a tipologia de uma unidade.
+ * @param {Project} project O projeto.
+ * @param {HousingUnit} unit A unidade habitacional.
+ * @returns {UnitTypology | undefined} A tipologia, ou `undefined` se a unidade não tiver uma.
+ */
+export const getUnitTypology = (project: Project, unit: HousingUnit): UnitTypology | undefined =>
+    unit.typologyId ? project.typologies?.find(typology => typology.id === unit.typologyId) : undefined;
+
+/**
+ * Retorna a PLS de uma tipologia: a estrutura própria ou a do projeto com os multiplicadores aplicados.
+ * Os multiplicadores redistribuem as incidências sem alterar a sua soma.
+ * @param {PlsCategoryTemplate[]} projectPls A PLS do projeto.
+ * @param {UnitTypology} [typology] A tipologia (sem ela, retorna a PLS do projeto).
+ * @returns {PlsCategoryTemplate[]} A PLS da tipologia.
+ */
+export const getTypologyPls = (projectPls: PlsCategoryTemplate[], typology?: UnitTypology): PlsCategoryTemplate[] => {
+    if (!typology) return projectPls;
+    if (typology.pls_data) return typology.pls_data;
+
+    const multipliers = typology.incidence_multipliers || {};
+    if (Object.keys(multipliers).length === 0) return projectPls;
+
+    const multiplied = projectPls.map(category => ({
+        ...category,
+        subItems: category.subItems.map(item => ({
+            ...item,
+            incidence: item.incidence * (multipliers[item.id] ?? multipliers[category.id] ?? 1),
+        })),
+    }));
+    const sum = (pls: PlsCategoryTemplate[]) => pls.reduce((total, category) => total + category.subItems.reduce((acc, item) => acc + item.incidence, 0), 0);
+    const multipliedTotal = sum(multiplied);
+    if (multipliedTotal <= 0) return multiplied;
+
+    const factor = sum(projectPls) / multipliedTotal;
+    return multiplied.map(category => ({
+        ...category,
+        subItems: category.subItems.map(item => ({ ...item, incidence: item.incidence * factor })),
+    }));
+};
+
+/**
+ * Calcula a fração do custo das obras que cabe a cada unidade, pelo peso da sua tipologia.
+ * @param {Project} project O projeto.
+ * @returns {Record<string, number>} A fração (0-1) de cada unidade, indexada pelo ID da unidade.
+ */
+export const getUnitCostShares = (project: Project): Record<string, number> => {
+    const weights = project.housing_units.map(unit => {
+        const weight = getUnitTypology(project, unit)?.costWeight;
+        return [unit.id, typeof weight === 'number' && weight >= 0 ? weight : 1] as const;
+    });
+    const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+    return Object.fromEntries(weights.map(([id, weight]) => [id, total > 0 ? weight / total : 0]));
+};
+
+/**
+ * Reúne várias estruturas da PLS em uma só, na ordem da primeira: etapas e serviços que só existem
+ * nas estruturas seguintes são acrescentados ao final da etapa (ou da lista) correspondente.
+ * @param {PlsCategoryTemplate[][]} structures As estruturas, começando pela PLS do projeto.
+ * @returns {PlsCategoryTemplate[]} A estrutura combinada.
+ */
+export const mergePlsStructures = (structures: PlsCategoryTemplate[][]): PlsCategoryTemplate[] => {
+    const merged: PlsCategoryTemplate[] = [];
+    structures.forEach(structure => structure.forEach(category => {
+        let target = merged.find(c => c.id === category.id);
+        if (!target) {
+            target = { ...category, subItems: [] };
+            merged.push(target);
+        }
+        const targetItems = target.subItems;
+        category.subItems.forEach(item => {
+            if (!targetItems.some(existing => existing.id === item.id)) targetItems.push(item);
+        });
+    }));
+    return merged;
+};
+
+/**
+ * Indica se um serviço faz parte da PLS da unidade (em projetos com tipologias, nem toda unidade executa todos os serviços).
+ * @param {ServiceSubItem} item O serviço calculado.
+ * @param {string} unitId O ID da unidade habitacional.
+ * @returns {boolean} `true` se a unidade executar o serviço.
+ */
+export const isItemApplicable = (item: ServiceSubItem, unitId: string): boolean =>
+    !item.unitIncidences || unitId in item.unitIncidences;
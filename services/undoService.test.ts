@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { buildPatchProgressLogs, createUndoEntry, pushUndoEntry, UNDO_LIMIT } from './undoService';
+import { applyProjectPatch } from './collaborationService';
+import { COMMON_AREA_UNIT_ID } from './progressService';
+import { PlsCategoryTemplate, Project } from '../types';
+
+const plsData = [{ id: '1', name: 'Serviços Preliminares', subItems: [{ id: '1.1', name: 'Escavação', incidence: 1 }] }] as PlsCategoryTemplate[];
+
+const project = (overrides: Partial<Project>): Project => ({
+    id: 'p1',
+    name: 'Residencial',
+    housing_units: [{ id: 'u1', name: 'Casa 01' }, { id: 'u2', name: 'Casa 02' }],
+    progress: { '1.1': { u1: 0, u2: 0 } },
+    ...overrides,
+} as Project);
+
+describe('createUndoEntry', () => {
+    it('should revert only the cells changed by the action', () => {
+        const before = project({});
+        const after = project({ progress: { '1.1': { u1: 50, u2: 0 } } });
+        const entry = createUndoEntry('Progresso de Escavação', before, after)!;
+
+        // Outro colaborador alterou a Casa 02 depois da ação.
+        const current = project({ progress: { '1.1': { u1: 50, u2: 30 } } });
+        const undone = applyProjectPatch(current, entry.undoPatch);
+
+        expect(undone.progress['1.1']).toEqual({ u1: 0, u2: 30 });
+        expect(applyProjectPatch(undone, entry.redoPatch).progress['1.1']).toEqual({ u1: 50, u2: 30 });
+    });
+
+    it('should return null when the action changed nothing', () => {
+        expect(createUndoEntry('Nada', project({}), project({}))).toBeNull();
+    });
+});
+
+describe('pushUndoEntry', () => {
+    it('should discard the oldest entries beyond the limit', () => {
+        const entry = createUndoEntry('Nome', project({ name: 'A' }), project({ name: 'B' }))!;
+        const stack = Array.from({ length: UNDO_LIMIT + 5 }).reduce<typeof entry[]>(acc => pushUndoEntry(acc, entry), []);
+        expect(stack).toHaveLength(UNDO_LIMIT);
+    });
+});
+
+describe('buildPatchProgressLogs', () => {
+    it('should log each reverted cell with its previous value', () => {
+        const current = project({ progress: { '1.1': { u1: 50, u2: 0 } } });
+        const entry = createUndoEntry('Progresso', project({}), current)!;
+
+        const logs = buildPatchProgressLogs(current, entry.undoPatch, plsData);
+
+        expect(logs).toHaveLength(1);
+        expect(logs[0]).toMatchObject({ itemName: 'Escavação', unitName: 'Casa 01', oldProgress: 50, newProgress: 0 });
+    });
+
+    it('should log common-area cells, falling back to the unit average for rows without the common area', () => {
+        const current = project({ progress: { '1.1': { u1: 40, u2: 20 } } });
+        const after = project({ progress: { '1.1': { u1: 40, u2: 20, [COMMON_AREA_UNIT_ID]: 80 } } });
+
+        const logs = buildPatchProgressLogs(current, createUndoEntry('Progresso', current, after)!.redoPatch, plsData);
+
+        expect(logs).toHaveLength(1);
+        expect(logs[0]).toMatchObject({ unitId: COMMON_AREA_UNIT_ID, unitName: 'Área comum', oldProgress: 30, newProgress: 80 });
+    });
+});
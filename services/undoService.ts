@@ -0,0 +1,83 @@
+/**
+ * @file Serviço com funções puras para desfazer e refazer ações do usuário em um projeto.
+ * Cada ação é guardada como um par de alterações campo a campo (a que reverte e a que reaplica),
+ * aplicadas sobre a versão atual do projeto.
+ */
+import { PlsCategoryTemplate, ProgressLog, Project, ProjectPatch, UndoEntry } from '../types';
+import { diffProjects, isEmptyPatch } from './collaborationService';
+import { COMMON_AREA_UNIT, COMMON_AREA_UNIT_ID, getCellProgress } from './progressService';
+import { ProgressChange } from './measurementService';
+
+/**
+ * Número máximo de ações guardadas em cada pilha.
+ */
+export const UNDO_LIMIT = 50;
+
+/**
+ * Cria a entrada de desfazer de uma ação a partir do projeto antes e depois dela.
+ * @param {string} label Descrição curta da ação.
+ * @param {Project} before O projeto antes da ação.
+ * @param {Project} after O projeto depois da ação.
+ * @returns {UndoEntry | null} A entrada, ou `null` se a ação não alterou nada.
+ */
+export const createUndoEntry = (label: string, before: Project, after: Project): UndoEntry | null => {
+    const redoPatch = diffProjects(before, after);
+    if (isEmptyPatch(redoPatch)) return null;
+    return {
+        id: `undo_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        projectId: after.id,
+        label,
+        undoPatch: diffProjects(after, before),
+        redoPatch,
+    };
+};
+
+/**
+ * Adiciona uma entrada ao topo de uma pilha, descartando as mais antigas além do limite.
+ * @param {UndoEntry[]} stack A pilha atual.
+ * @param {UndoEntry} entry A nova entrada.
+ * @returns {UndoEntry[]} A nova pilha.
+ */
+export const pushUndoEntry = (stack: UndoEntry[], entry: UndoEntry): UndoEntry[] => {
+    return [...stack, entry].slice(-UNDO_LIMIT);
+};
+
+/**
+ * Lista as células de progresso que uma alteração define, para validação contra medições fechadas.
+ * @param {ProjectPatch} patch A alteração.
+ * @returns {ProgressChange[]} As alterações de progresso.
+ */
+export const getPatchProgressChanges = (patch: ProjectPatch): ProgressChange[] => {
+    return patch.progressCells
+        .filter(cell => cell.value !== null)
+        .map(cell => ({ itemId: cell.itemId, unitId: cell.unitId, newProgress: cell.value as number }));
+};
+
+/**
+ * Gera os registros de histórico para as células de progresso alteradas ao desfazer ou refazer uma ação.
+ * @param {Project} current O projeto antes de aplicar a alteração.
+ * @param {ProjectPatch} patch A alteração aplicada.
+ * @param {PlsCategoryTemplate[]} plsData A estrutura da PLS, para obter o nome dos serviços.
+ * @returns {ProgressLog[]} Os registros de histórico, um por célula efetivamente alterada.
+ */
+export const buildPatchProgressLogs = (current: Project, patch: ProjectPatch, plsData: PlsCategoryTemplate[]): ProgressLog[] => {
+    const itemNames = new Map(plsData.flatMap(cat => cat.subItems).map(item => [item.id, item.name]));
+    const timestamp = new Date().toISOString();
+
+    return getPatchProgressChanges(patch).flatMap(change => {
+        // Os serviços da área comum são medidos na pseudo-unidade da área comum, que não está entre as unidades.
+        const unit = change.unitId === COMMON_AREA_UNIT_ID ? COMMON_AREA_UNIT : current.housing_units.find(u => u.id === change.unitId);
+        const oldProgress = getCellProgress(current.progress, change.itemId, change.unitId, current.housing_units);
+        if (!unit || oldProgress === change.newProgress) return [];
+        return [{
+            id: `log_${Date.now()}_${change.itemId}_${unit.id}`,
+            timestamp,
+            itemId: change.itemId,
+            itemName: itemNames.get(change.itemId) || 'Serviço Desconhecido',
+            unitId: unit.id,
+            unitName: unit.name,
+            oldProgress,
+            newProgress: change.newProgress,
+        }];
+    });
+};
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { calculateGroupProgress, generateTowerUnits, getGroupItemProgress, groupUnitsByTower, hasUnitGroups, isUnitComplete, NO_TOWER_LABEL, sortUnitsByGroup } from './unitGroupService';
+import { HousingUnit, ServiceCategory } from '../types';
+
+const units: HousingUnit[] = [
+    { id: 'a101', name: '101', tower: 'Torre A', floor: '1º andar' },
+    { id: 'b101', name: '101', tower: 'Torre B', floor: '1º andar' },
+    { id: 'a201', name: '201', tower: 'Torre A', floor: '2º andar' },
+    { id: 'a102', name: '102', tower: 'Torre A', floor: '1º andar' },
+];
+
+describe('groupUnitsByTower', () => {
+    it('should group units by tower and floor in order of appearance', () => {
+        const towers = groupUnitsByTower(units);
+
+        expect(towers.map(tower => tower.name)).toEqual(['Torre A', 'Torre B']);
+        expect(towers[0].floors!.map(floor => [floor.name, floor.units.map(unit => unit.id)])).toEqual([
+            ['1º andar', ['a101', 'a102']],
+            ['2º andar', ['a201']],
+        ]);
+        expect(sortUnitsByGroup(units).map(unit => unit.id)).toEqual(['a101', 'a102', 'a201', 'b101']);
+    });
+
+    it('should keep units without a tower in their own group', () => {
+        const flat = [{ id: 'u1', name: 'Casa 01' }];
+
+        expect(hasUnitGroups(flat)).toBe(false);
+        expect(groupUnitsByTower([...units, ...flat]).map(tower => tower.name)).toEqual(['Torre A', 'Torre B', NO_TOWER_LABEL]);
+    });
+});
+
+describe('generateTowerUnits', () => {
+    it('should number units by floor and position', () => {
+        const generated = generateTowerUnits('Torre C', 1, 2, 2);
+
+        expect(generated.map(unit => unit.name)).toEqual(['Torre C - 101', 'Torre C - 102', 'Torre C - 201', 'Torre C - 202']);
+        expect(generated[2]).toEqual(expect.objectContaining({ tower: 'Torre C', floor: '2º andar' }));
+        expect(new Set(generated.map(unit => unit.id)).size).toBe(4);
+    });
+});
+
+describe('group progress', () => {
+    const item = { id: '1.1', name: 'Alvenaria', incidence: 100, cost: 1000, unit: 'vb' };
+    const plsData: ServiceCategory[] = [{ id: '1', name: 'Estrutura', subItems: [item], totalIncidence: 100, totalCost: 1000, accumulatedPercentage: 100 }];
+    const progress = { '1.1': { a101: 100, a102: 50, a201: 0, b101: 100 } };
+
+    it('should average a service over the units of a group', () => {
+        const [towerA] = groupUnitsByTower(units);
+        expect(getGroupItemProgress(item, progress, towerA.units)).toBe(50);
+        expect(getGroupItemProgress({ ...item, unitIncidences: { b101: 100 } }, progress, towerA.units)).toBeNull();
+    });
+
+    it('should roll up unit progress by tower and floor', () => {
+        const completed = new Set(units.filter(unit => isUnitComplete(plsData, progress, unit.id)).map(unit => unit.id));
+        const unitFinancials = units.map(unit => ({ id: unit.id, name: unit.name, progress: (progress['1.1'] as Record<string, number>)[unit.id] }));
+
+        const [towerA, towerB] = calculateGroupProgress(groupUnitsByTower(units), unitFinancials, completed);
+
+        expect(towerA).toEqual(expect.objectContaining({ progress: 50, unitCount: 3, completedUnits: 1 }));
+        expect(towerA.floors!.map(floor => floor.progress)).toEqual([75, 0]);
+        expect(towerB).toEqual(expect.objectContaining({ progress: 100, completedUnits: 1 }));
+    });
+});
@@ -0,0 +1,158 @@
+/**
+ * @file Serviço com funções puras para os empreendimentos verticais: agrupa as unidades habitacionais
+ * por torre e andar, gera as unidades de uma torre e consolida o progresso de cada grupo.
+ */
+import { HousingUnit, ProgressMatrix, Project, ServiceCategory, ServiceSubItem, UnitFinancials, UnitGroup, UnitGroupProgress } from '../types';
+import { getAverageItemProgress, getUnitProgress, getWeightedItemProgress, isCommonAreaItem } from './progressService';
+import { getUnitCostShares, hasTypologies, isItemApplicable } from './typologyService';
+import { calculateUnitFinancials, getFinancialRule } from './financialService';
+
+/** Nome do grupo das unidades sem torre. */
+export const NO_TOWER_LABEL = 'Sem torre';
+/** Nome do grupo das unidades sem andar. */
+export const NO_FLOOR_LABEL = 'Sem andar';
+
+/**
+ * Indica se alguma unidade do projeto está associada a uma torre ou a um andar.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais.
+ * @returns {boolean} `true` se as unidades puderem ser agrupadas.
+ */
+export const hasUnitGroups = (housingUnits: HousingUnit[]): boolean =>
+    housingUnits.some(unit => !!unit.tower?.trim() || !!unit.floor?.trim());
+
+/**
+ * Agrupa as unidades por torre e, dentro de cada torre, por andar, na ordem em que aparecem no projeto.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais.
+ * @returns {UnitGroup[]} As torres, cada uma com os seus andares.
+ */
+export const groupUnitsByTower = (housingUnits: HousingUnit[]): UnitGroup[] => {
+    const towers: UnitGroup[] = [];
+    housingUnits.forEach(unit => {
+        const towerName = unit.tower?.trim() || NO_TOWER_LABEL;
+        let tower = towers.find(group => group.id === towerName);
+        if (!tower) {
+            tower = { id: towerName, name: towerName, units: [], floors: [] };
+            towers.push(tower);
+        }
+        tower.units.push(unit);
+
+        const floorName = unit.floor?.trim() || NO_FLOOR_LABEL;
+        const floorId = `${towerName} / ${floorName}`;
+        let floor = tower.floors!.find(group => group.id === floorId);
+        if (!floor) {
+            floor = { id: floorId, name: floorName, units: [] };
+            tower.floors!.push(floor);
+        }
+        floor.units.push(unit);
+    });
+    return towers;
+};
+
+/**
+ * Retorna as unidades na ordem dos grupos (torre e andar), para que cada grupo ocupe colunas contíguas.
+ * @param {HousingUnit[]} housingUnits As unidades habitacionais.
+ * @returns {HousingUnit[]} As unidades reordenadas.
+ */
+export const sortUnitsByGroup = (housingUnits: HousingUnit[]): HousingUnit[] =>
+    groupUnitsByTower(housingUnits).flatMap(tower => tower.floors!.flatMap(floor => floor.units));
+
+/**
+ * Gera as unidades de uma torre, numeradas pelo andar e pela posição no andar (ex: 101, 102, 201...).
+ * @param {string} tower O nome da torre.
+ * @param {number} firstFloor O primeiro andar.
+ * @param {number} lastFloor O último andar.
+ * @param {number} unitsPerFloor A quantidade de unidades por andar.
+ * @returns {HousingUnit[]} As novas unidades.
+ */
+export const generateTowerUnits = (tower: string, firstFloor: number, lastFloor: number, unitsPerFloor: number): HousingUnit[] => {
+    const units: HousingUnit[] = [];
+    const padLength = Math.max(2, String(unitsPerFloor).length);
+    const stamp = Date.now();
+    for (let floor = firstFloor; floor <= lastFloor; floor++) {
+        for (let position = 1; position <= unitsPerFloor; position++) {
+            const number = `${floor}${String(position).padStart(padLength, '0')}`;
+            units.push({
+                id: `unit_${stamp}_${tower.replace(/\s+/g, '_')}_${number}`,
+                name: `${tower} - ${number}`.trim(),
+                tower: tower.trim(),
+                floor: `${floor}º andar`,
+            });
+        }
+    }
+    return units;
+};
+
+/**
+ * Calcula o progresso médio de um serviço em um grupo de unidades (ponderado pela parcela de cada
+ * unidade, em projetos com tipologias).
+ * @param {ServiceSubItem} item O serviço calculado.
+ * @param {ProgressMatrix} progress A matriz de progresso.
+ * @param {HousingUnit[]} units As unidades do grupo.
+ * @returns {number | null} O progresso médio (0-100), ou `null` se nenhuma unidade do grupo executar o serviço.
+ */
+export const getGroupItemProgress = (item: ServiceSubItem, progress: ProgressMatrix, units: HousingUnit[]): number | null => {
+    const applicable = units.filter(unit => isItemApplicable(item, unit.id));
+    if (applicable.length === 0) return null;
+    return item.unitWeights
+        ? getWeightedItemProgress(progress[item.id], item.unitWeights, applicable)
+        : getAverageItemProgress(progress[item.id], applicable);
+};
+
+/**
+ * Indica se todos os serviços executados por uma unidade estão concluídos (os da área comum não entram).
+ * @param {ServiceCategory[]} plsData A estrutura de serviços calculada.
+ * @param {ProgressMatrix} progress A matriz de progresso.
+ * @param {string} unitId O ID da unidade habitacional.
+ * @returns {boolean} `true` se a unidade tiver serviços e todos estiverem em 100%.
+ */
+export const isUnitComplete = (plsData: ServiceCategory[], progress: ProgressMatrix, unitId: string): boolean => {
+    const items = plsData.flatMap(category => category.subItems).filter(item => !isCommonAreaItem(item) && isItemApplicable(item, unitId));
+    return items.length > 0 && items.every(item => getUnitProgress(progress, item.id, unitId) >= 100);
+};
+
+/**
+ * Consolida o progresso das unidades por torre e por andar.
+ * @param {UnitGroup[]} towers As torres (ver `groupUnitsByTower`).
+ * @param {UnitFinancials[]} unitFinancials O progresso de cada unidade.
+ * @param {Set<string>} completedUnitIds As unidades concluídas (ver `isUnitComplete`).
+ * @param {Record<string, number>} [costShares] A parcela do custo de cada unidade; sem ela, as unidades pesam igual.
+ * @returns {UnitGroupProgress[]} O progresso de cada torre, com os seus andares.
+ */
+export const calculateGroupProgress = (
+    towers: UnitGroup[],
+    unitFinancials: UnitFinancials[],
+    completedUnitIds: Set<string>,
+    costShares?: Record<string, number>
+): UnitGroupProgress[] => {
+    const progressById = new Map(unitFinancials.map(unit => [unit.id, unit.progress]));
+
+    const summarize = (group: UnitGroup): UnitGroupProgress => {
+        const weightOf = (unit: HousingUnit) => costShares ? costShares[unit.id] || 0 : 1;
+        const totalWeight = group.units.reduce((sum, unit) => sum + weightOf(unit), 0);
+        const weighted = group.units.reduce((sum, unit) => sum + (progressById.get(unit.id) || 0) * weightOf(unit), 0);
+        return {
+            id: group.id,
+            name: group.name,
+            progress: totalWeight > 0 ? weighted / totalWeight : 0,
+            unitCount: group.units.length,
+            completedUnits: group.units.filter(unit => completedUnitIds.has(unit.id)).length,
+        };
+    };
+
+    return towers.map(tower => ({ ...summarize(tower), floors: (tower.floors || []).map(summarize) }));
+};
+
+/**
+ * Consolida o progresso de um projeto por torre e por andar, com a regra de cálculo do projeto.
+ * @param {Project} project O projeto.
+ * @param {ServiceCategory[]} plsData A estrutura de serviços calculada.
+ * @returns {UnitGroupProgress[]} O progresso de cada torre, com os seus andares.
+ */
+export const calculateProjectGroupProgress = (project: Project, plsData: ServiceCategory[]): UnitGroupProgress[] => {
+    const unitFinancials = calculateUnitFinancials(plsData, project.progress, project.housing_units, getFinancialRule(project));
+    const completedUnitIds = new Set(project.housing_units
+        .filter(unit => isUnitComplete(plsData, project.progress, unit.id))
+        .map(unit => unit.id));
+    const costShares = hasTypologies(project) ? getUnitCostShares(project) : undefined;
+    return calculateGroupProgress(groupUnitsByTower(project.housing_units), unitFinancials, completedUnitIds, costShares);
+};
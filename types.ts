@@ -12,6 +12,66 @@ export interface HousingUnit {
   id: string;
   /** Nome de exibição, ex: "Casa 01". */
   name: string;
+  /** ID da tipologia da unidade (`Project.typologies`). Unidades sem tipologia usam a PLS do projeto com peso 1. */
+  typologyId?: string;
+  /** Em empreendimentos verticais, o bloco ou torre da unidade, ex: "Torre A". */
+  tower?: string;
+  /** Em empreendimentos verticais, o andar da unidade dentro da torre, ex: "3º andar". */
+  floor?: string;
+}
+
+/**
+ * Um agrupamento de unidades habitacionais: uma torre ou um andar de uma torre.
+ */
+export interface UnitGroup {
+  /** Identificador do grupo: o nome da torre, ou "torre / andar" para os andares. */
+  id: string;
+  /** Nome de exibição, ex: "Torre A" ou "3º andar". */
+  name: string;
+  /** As unidades do grupo, na ordem do projeto. */
+  units: HousingUnit[];
+  /** Os andares da torre (apenas nos grupos de torre). */
+  floors?: UnitGroup[];
+}
+
+/**
+ * O progresso consolidado de uma torre ou de um andar.
+ */
+export interface UnitGroupProgress {
+  /** Identificador do grupo (ver `UnitGroup.id`). */
+  id: string;
+  /** Nome de exibição do grupo. */
+  name: string;
+  /** Progresso médio das unidades do grupo, ponderado pela parcela do custo de cada uma (%). */
+  progress: number;
+  /** Quantidade de unidades do grupo. */
+  unitCount: number;
+  /** Quantidade de unidades concluídas (100%). */
+  completedUnits: number;
+  /** O progresso de cada andar (apenas nos grupos de torre). */
+  floors?: UnitGroupProgress[];
+}
+
+/**
+ * Um tipo de unidade habitacional (ex: casa de 2 quartos, casa de esquina), com orçamento próprio.
+ */
+export interface UnitTypology {
+  /** Identificador único da tipologia. */
+  id: string;
+  /** Nome de exibição, ex: "Casa 3 quartos". */
+  name: string;
+  /**
+   * Peso de cada unidade desta tipologia na divisão do custo das obras, relativo às demais unidades
+   * (unidades sem tipologia têm peso 1). Ex: 1,2 para uma unidade 20% mais cara que a padrão.
+   */
+  costWeight: number;
+  /** Estrutura própria da PLS. Sem ela, a tipologia usa a PLS do projeto. */
+  pls_data?: PlsCategoryTemplate[];
+  /**
+   * Multiplicadores aplicados às incidências da PLS do projeto, indexados pelo ID da etapa ou do serviço
+   * (o do serviço prevalece). As incidências resultantes são reescaladas para manter a soma original.
+   */
+  incidence_multipliers?: Record<string, number>;
 }
 
 /**
@@ -28,6 +88,15 @@ export interface ServiceSubItem {
   cost: number;
   /** Unidade de medida, ex: 'vb', 'un', 'm²'. */
   unit: string;
+  /** Abrangência do serviço (ver `ServiceScope`). Sem ela, o serviço é medido por unidade. */
+  scope?: ServiceScope;
+  /**
+   * Em projetos com tipologias, a parcela da incidência do serviço (pontos percentuais) que cabe a cada unidade,
+   * indexada pelo ID da unidade. Unidades ausentes não executam o serviço. Sem tipologias, todas as unidades pesam igual.
+   */
+  unitWeights?: Record<string, number>;
+  /** Em projetos com tipologias, a incidência do serviço na PLS da tipologia de cada unidade, indexada pelo ID da unidade. */
+  unitIncidences?: Record<string, number>;
 }
 
 /**
@@ -50,10 +119,11 @@ export interface ServiceCategory {
 
 /**
  * Matriz que armazena o progresso (0-100) de cada serviço para cada unidade.
- * A chave é o ID do serviço (ServiceSubItem.id) e o valor é um array de números,
- * onde o índice do array corresponde ao índice da unidade habitacional.
+ * A chave externa é o ID do serviço (ServiceSubItem.id) e a interna é o ID da unidade
+ * habitacional (HousingUnit.id), de modo que reordenar, inserir ou excluir unidades
+ * não desloca os valores registrados. Unidades sem valor contam como 0%.
  */
-export type ProgressMatrix = Record<string, number[]>;
+export type ProgressMatrix = Record<string, Record<string, number>>;
 
 /**
  * Define as visualizações disponíveis no painel do Assistente Gemini.
@@ -73,8 +143,17 @@ export interface PlsSubItemTemplate {
   incidence: number;
   /** Unidade de medida. */
   unit: string;
+  /** Abrangência do serviço (ver `ServiceScope`). Sem ela, o serviço é medido por unidade. */
+  scope?: ServiceScope;
 }
 
+/**
+ * Abrangência de um serviço da PLS:
+ * - `unit`: medido em cada unidade habitacional (ex: alvenaria, pintura).
+ * - `global`: serviço da área comum, medido uma única vez para todo o empreendimento (ex: canteiro, terraplenagem).
+ */
+export type ServiceScope = 'unit' | 'global';
+
 /**
  * Modelo para uma categoria de serviço ao importar ou editar a estrutura da PLS.
  */
@@ -87,8 +166,35 @@ export interface PlsCategoryTemplate {
   subItems: PlsSubItemTemplate[];
 }
 
+/**
+ * Um problema encontrado na validação de uma estrutura da PLS.
+ * Erros impedem que a estrutura seja salva; avisos apenas são exibidos ao usuário.
+ */
+export interface PlsIssue {
+  /** Gravidade do problema. */
+  severity: 'error' | 'warning';
+  /** Descrição legível do problema. */
+  message: string;
+  /** ID da etapa afetada, se houver. */
+  categoryId?: string;
+  /** ID do serviço afetado, se houver. */
+  itemId?: string;
+}
+
+/**
+ * Situação de uma alteração de progresso no fluxo de aprovação.
+ */
+export type ProgressApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Origem de uma alteração de progresso: edição na tabela, modal de edição em lote, assistente de texto,
+ * backup importado ou desfazer/refazer.
+ */
+export type ProgressLogSource = 'table' | 'bulk' | 'assistant' | 'import' | 'undo';
+
 /**
  * Registra uma única alteração de progresso no histórico do projeto para auditoria.
+ * Também representa as alterações aguardando aprovação (`Project.pending_progress`).
  */
 export interface ProgressLog {
   /** Identificador único do registro de log. */
@@ -107,6 +213,302 @@ export interface ProgressLog {
   oldProgress: number;
   /** Novo valor de progresso. */
   newProgress: number;
+  /** Situação no fluxo de aprovação. Ausente nas alterações aplicadas diretamente. */
+  status?: ProgressApprovalStatus;
+  /** E-mail de quem enviou a alteração para aprovação. */
+  submittedBy?: string;
+  /** Data e hora do envio para aprovação em formato ISO. */
+  submittedAt?: string;
+  /** E-mail de quem aprovou ou rejeitou a alteração. */
+  reviewedBy?: string;
+  /** UID de quem fez a alteração. Ausente nos registros anteriores à autoria e nos importados de backups sem autoria. */
+  userId?: string;
+  /** E-mail de quem fez a alteração. */
+  userEmail?: string;
+  /** Por onde a alteração foi feita. Ausente nos registros anteriores à autoria. */
+  source?: ProgressLogSource;
+}
+
+/**
+ * Filtros do histórico de progresso.
+ */
+export interface HistoryFilter {
+  /** Origem das alterações, ou `'all'`. */
+  source: ProgressLogSource | 'all';
+  /** E-mail do autor, ou `'all'`. */
+  userEmail: string | 'all';
+  /** Texto buscado no serviço e na unidade. */
+  search: string;
+}
+
+/**
+ * Tipos de evento registrados na trilha de auditoria do projeto.
+ * As alterações de progresso ficam no histórico (`ProgressLog`), e não na trilha de auditoria.
+ */
+export type AuditAction =
+  | 'project_created'
+  | 'settings_updated'
+  | 'units_updated'
+  | 'documents_imported'
+  | 'pls_updated'
+  | 'item_renamed'
+  | 'change_order_applied'
+  | 'layouts_updated'
+  | 'report_archived'
+  | 'measurement_opened'
+  | 'measurement_closed'
+  | 'measurement_reopened'
+  | 'member_added'
+  | 'member_role_changed'
+  | 'member_removed'
+  | 'invitation_sent'
+  | 'invitation_revoked';
+
+/**
+ * Um campo alterado por um evento da trilha de auditoria, com os valores antes e depois já formatados para exibição.
+ */
+export interface AuditFieldChange {
+  /** O campo alterado (ex: `cost_of_works`). */
+  field: string;
+  /** Nome do campo exibido na interface. */
+  label: string;
+  /** Valor antes da alteração, ou `null` se o campo não existia ou não tem representação resumida. */
+  before: string | null;
+  /** Valor depois da alteração, ou `null` se o campo foi removido ou não tem representação resumida. */
+  after: string | null;
+}
+
+/**
+ * Registra um evento relevante do projeto na trilha de auditoria.
+ * Os eventos ficam na subcoleção `audit` do projeto; `Project.audit_log` guarda apenas as reaberturas de medições antigas.
+ */
+export interface AuditEntry {
+  /** Identificador único do evento. */
+  id: string;
+  /** Data e hora do evento em formato ISO. */
+  timestamp: string;
+  /** O tipo de evento. */
+  action: AuditAction;
+  /** ID do objeto afetado pelo evento (ex: a medição reaberta). */
+  targetId?: string;
+  /** Descrição legível do evento. */
+  description: string;
+  /** Justificativa informada pelo usuário, quando exigida. */
+  reason?: string;
+  /** Campos alterados, com os valores antes e depois. */
+  changes?: AuditFieldChange[];
+  /** ID do usuário que realizou a ação. */
+  userId?: string;
+  /** E-mail do usuário que realizou a ação. */
+  userEmail?: string;
+}
+
+/**
+ * Filtros do visualizador da trilha de auditoria.
+ */
+export interface AuditFilter {
+  /** O tipo de evento, ou `all` para todos. */
+  action: AuditAction | 'all';
+  /** O e-mail de quem realizou a ação, ou `all` para todos. */
+  userEmail: string | 'all';
+  /** Texto buscado na descrição, na justificativa e nos campos alterados. */
+  search: string;
+}
+
+/**
+ * Indica qual serviço um usuário está editando no momento, para avisar os demais colaboradores.
+ * Armazenado na subcoleção `presence` do projeto, com um documento por usuário.
+ */
+export interface EditingPresence {
+  /** ID do usuário. */
+  userId: string;
+  /** E-mail do usuário, exibido no indicador. */
+  userEmail: string;
+  /** ID do serviço (linha da PLS) em edição, ou `null` se o usuário não estiver editando. */
+  itemId: string | null;
+  /** Data e hora da última atualização em formato ISO, usada para descartar presenças expiradas. */
+  updatedAt: string;
+}
+
+/**
+ * Conjunto de alterações de um projeto a ser gravado campo a campo no Firestore,
+ * em vez de reenviar o documento inteiro a cada edição.
+ */
+export interface ProjectPatch {
+  /** Células de progresso alteradas. O valor `null` remove a célula (ex: unidade excluída). */
+  progressCells: { itemId: string; unitId: string; value: number | null }[];
+  /** Serviços removidos da matriz de progresso. */
+  removedProgressItems: string[];
+  /** Alterações pendentes de aprovação incluídas ou substituídas. O valor `null` remove a alteração da fila. */
+  pendingProgress: { id: string; log: ProgressLog | null }[];
+  /** Novos registros de histórico, gravados como documentos da subcoleção `history`. */
+  addedHistory: ProgressLog[];
+  /** Novos relatórios arquivados, gravados como documentos da subcoleção `archived_reports`. */
+  addedReports: ArchivedReport[];
+  /** Novos eventos da trilha de auditoria, gravados como documentos da subcoleção `audit`. */
+  addedAudit: AuditEntry[];
+  /** Demais campos de primeiro nível alterados. O valor `undefined` remove o campo. */
+  fields: Partial<Project>;
+}
+
+/**
+ * Uma ação do usuário que pode ser desfeita e refeita (ex: edição de progresso ou da PLS).
+ * Guarda apenas as alterações da ação, de modo que desfazê-la não apaga edições posteriores
+ * de outros colaboradores em outras células ou campos.
+ */
+export interface UndoEntry {
+  /** Identificador único da entrada. */
+  id: string;
+  /** O ID do projeto alterado. */
+  projectId: string;
+  /** Descrição curta da ação, exibida nas notificações (ex: "Progresso de Escavação"). */
+  label: string;
+  /** Alterações que revertem a ação. */
+  undoPatch: ProjectPatch;
+  /** Alterações que reaplicam a ação. */
+  redoPatch: ProjectPatch;
+}
+
+/**
+ * Uma alteração de projeto feita sem conexão, guardada na fila local (IndexedDB) até ser reenviada ao Firestore.
+ */
+export interface QueuedProjectPatch {
+  /** Identificador sequencial atribuído pelo IndexedDB, que também define a ordem de reenvio. */
+  id?: number;
+  /** O ID do projeto alterado. */
+  projectId: string;
+  /** As alterações a gravar. */
+  patch: ProjectPatch;
+  /** Data e hora (ISO) em que a alteração entrou na fila. */
+  queuedAt: string;
+}
+
+/**
+ * Onde os dados da aplicação são gravados:
+ * - `firestore`: o projeto do Firebase configurado;
+ * - `emulator`: o emulador local do Firebase (Firestore e Auth);
+ * - `local`: apenas neste navegador (IndexedDB), sem acesso ao Firestore;
+ * - `supabase`: o Postgres do Supabase configurado (esquema em `public/database.sql`).
+ */
+export type StorageBackend = 'firestore' | 'emulator' | 'local' | 'supabase';
+
+/**
+ * Uma página de documentos de uma subcoleção, com o cursor para carregar a próxima.
+ */
+export interface Page<T> {
+  /** Os itens da página. */
+  items: T[];
+  /** Posição após o último item, a ser passada para carregar a página seguinte. O formato depende do repositório. */
+  cursor: unknown;
+  /** Indica se há mais itens após esta página. */
+  hasMore: boolean;
+}
+
+/**
+ * O histórico e os relatórios arquivados de um projeto, gravados fora do documento principal.
+ */
+export interface ProjectArchives {
+  history: ProgressLog[];
+  reports: ArchivedReport[];
+  /** Eventos da trilha de auditoria gravados junto com o projeto (ex: a sua criação). */
+  audit?: AuditEntry[];
+}
+
+/**
+ * Acesso aos projetos gravados, independente de onde estão guardados.
+ * Os projetos são devolvidos como estão gravados; migrações e a fila offline ficam em `projectService`.
+ */
+export interface ProjectRepository {
+  /** Carrega os projetos dos quais o usuário é membro, do mais recente para o mais antigo. */
+  loadProjects(userId: string): Promise<Project[]>;
+  /** Assina os projetos dos quais o usuário é membro. Retorna a função para cancelar a assinatura. */
+  subscribeToProjects(userId: string, onChange: (projects: Project[]) => void, onError: (error: Error) => void): () => void;
+  /** Cria um projeto, com o histórico e os relatórios informados. A data de criação é atribuída pelo repositório. */
+  createProject(data: Omit<Project, 'id' | 'created_at'>, archives?: ProjectArchives): Promise<Project>;
+  /** Grava uma alteração campo a campo, com os novos registros de histórico, relatórios e eventos de auditoria. */
+  applyPatch(projectId: string, patch: ProjectPatch): Promise<void>;
+  /** Exclui um projeto com o seu histórico, relatórios, trilha de auditoria e presenças. */
+  deleteProject(projectId: string): Promise<void>;
+  /** Carrega uma página do histórico, do registro mais recente para o mais antigo. */
+  loadHistoryPage(projectId: string, pageSize: number, cursor?: unknown): Promise<Page<ProgressLog>>;
+  /** Carrega uma página dos relatórios arquivados, do mais recente para o mais antigo. */
+  loadArchivedReportsPage(projectId: string, pageSize: number, cursor?: unknown): Promise<Page<ArchivedReport>>;
+  /** Carrega uma página da trilha de auditoria, do evento mais recente para o mais antigo. */
+  loadAuditPage(projectId: string, pageSize: number, cursor?: unknown): Promise<Page<AuditEntry>>;
+  /** Carrega todos os eventos de um tipo da trilha de auditoria, do mais recente para o mais antigo. */
+  loadAuditEntries(projectId: string, action: AuditAction): Promise<AuditEntry[]>;
+  /** Carrega o histórico (do mais recente) e os relatórios arquivados (do mais antigo) completos. */
+  loadArchives(projectId: string): Promise<ProjectArchives>;
+  /** Assina as presenças de edição de um projeto. Retorna a função para cancelar a assinatura. */
+  subscribeToPresence(projectId: string, onChange: (presence: EditingPresence[]) => void): () => void;
+  setPresence(projectId: string, presence: EditingPresence): Promise<void>;
+  clearPresence(projectId: string, userId: string): Promise<void>;
+  addMember(projectId: string, memberId: string, role: ProjectRole): Promise<void>;
+  setMemberRole(projectId: string, memberId: string, role: ProjectRole): Promise<void>;
+  removeMember(projectId: string, memberId: string): Promise<void>;
+  /**
+   * Grava um convite (substituindo um convite anterior para o mesmo e-mail) e, na mesma gravação, coloca a mensagem
+   * para o convidado na caixa de saída. Em produção, as mensagens são enviadas por um serviço externo (ex: a extensão
+   * "Trigger Email" do Firebase); no modo `local`, ficam apenas registradas no navegador.
+   */
+  inviteMember(projectId: string, invitation: ProjectInvitation, message: OutboxMessage): Promise<void>;
+  revokeInvitation(projectId: string, email: string): Promise<void>;
+  /**
+   * Converte em participação os convites válidos para o e-mail do usuário, removendo-os dos projetos.
+   * Retorna os nomes dos projetos aos quais o usuário foi adicionado.
+   */
+  acceptInvitations(userId: string, email: string): Promise<string[]>;
+}
+
+/**
+ * Uma mensagem de e-mail a ser enviada pela caixa de saída.
+ */
+export interface OutboxMessage {
+  /** E-mail do destinatário. */
+  to: string;
+  subject: string;
+  /** Corpo em texto simples. */
+  text: string;
+}
+
+/**
+ * Acesso à biblioteca de modelos da construtora, independente de onde está guardada.
+ */
+export interface TemplateRepository {
+  /**
+   * Carrega os modelos da biblioteca, em ordem alfabética: os da organização informada ou,
+   * sem organização, apenas os modelos pessoais do usuário.
+   */
+  loadTemplates(userId: string, organizationId: string | null): Promise<PlsTemplate[]>;
+  /** Cria um modelo. O ID é atribuído pelo repositório. */
+  createTemplate(data: Omit<PlsTemplate, 'id'>): Promise<PlsTemplate>;
+  /** Grava um modelo existente (ex: com uma nova versão). */
+  saveTemplate(template: PlsTemplate): Promise<void>;
+  deleteTemplate(templateId: string): Promise<void>;
+}
+
+/**
+ * Acesso às organizações gravadas, independente de onde estão guardadas.
+ */
+export interface OrganizationRepository {
+  /** Carrega as organizações das quais o usuário é membro, em ordem alfabética. */
+  loadOrganizations(userId: string): Promise<Organization[]>;
+  /** Cria uma organização. O ID e a data de criação são atribuídos pelo repositório. */
+  createOrganization(data: Omit<Organization, 'id' | 'created_at'>): Promise<Organization>;
+  /** Grava uma organização existente (dados, identidade visual e membros). */
+  saveOrganization(organization: Organization): Promise<void>;
+  deleteOrganization(organizationId: string): Promise<void>;
+}
+
+/**
+ * Acesso aos perfis de usuário gravados, independente de onde estão guardados.
+ */
+export interface UserRepository {
+  getUser(uid: string): Promise<UserProfile | null>;
+  /** Grava o perfil; o e-mail é guardado em minúsculas. */
+  saveUser(profile: UserProfile): Promise<void>;
+  findUserByEmail(email: string): Promise<UserProfile | null>;
+  getUsersByIds(uids: string[]): Promise<Map<string, UserProfile>>;
 }
 
 /**
@@ -125,6 +527,24 @@ export interface ScheduleStage {
   financial_release_accumulated: number;
 }
 
+/**
+ * Um ponto da curva S, comparando o previsto no cronograma com o progresso efetivamente medido em uma etapa.
+ */
+export interface ScheduleCurvePoint {
+  /** Número da etapa (corresponde ao número da medição). */
+  stage: number;
+  /** Progresso físico acumulado previsto no cronograma (%). */
+  plannedPhysical: number;
+  /** Liberação financeira acumulada prevista no cronograma (%). */
+  plannedFinancial: number;
+  /** Progresso total medido na etapa (%), ou `null` se a etapa ainda não foi medida. */
+  actualProgress: number | null;
+  /** Diferença entre o medido e o previsto físico (pontos percentuais), ou `null` se não medida. */
+  deviation: number | null;
+  /** Indica se o progresso medido está abaixo do previsto para a etapa. */
+  isBehind: boolean;
+}
+
 /**
  * Define o modelo para um layout de relatório em PDF, permitindo personalização visual.
  */
@@ -173,6 +593,8 @@ export interface ReportOptions {
   orientation?: 'p' | 'l';
   /** Número da medição para exibição no relatório. */
   measurementNumber?: number;
+  /** Se deve incluir a curva S (cronograma previsto x progresso medido). */
+  includeScheduleCurve?: boolean;
 }
 
 /**
@@ -196,6 +618,232 @@ export interface ArchivedReport {
   progressSnapshot: ProgressMatrix;
   /** Snapshot dos dados calculados da PLS no momento da geração. */
   plsDataSnapshot: ServiceCategory[];
+  /** Versão da PLS (ver `Project.pls_version`) em vigor quando o relatório foi gerado. */
+  plsVersion?: number;
+}
+
+/**
+ * Dados resumidos de um relatório arquivado, guardados no documento do projeto.
+ * O relatório completo (com os snapshots) fica na subcoleção `archived_reports`.
+ */
+export interface ArchivedReportSummary {
+  /** ID do relatório arquivado. */
+  id: string;
+  /** Título do relatório. */
+  title: string;
+  /** Data e hora em formato ISO de quando o relatório foi gerado. */
+  generatedAt: string;
+  /** Número da medição do relatório, se informado. */
+  measurementNumber?: number;
+  /** Progresso físico total do projeto no momento da geração. */
+  totalProgress: number;
+  /** Versão da PLS em vigor quando o relatório foi gerado. */
+  plsVersion?: number;
+}
+
+/**
+ * Novos registros a gravar nas subcoleções do projeto junto com uma alteração.
+ */
+export interface ProjectArchiveAdditions {
+  /** Novos registros de histórico de progresso. */
+  history?: ProgressLog[];
+  /** Novos relatórios arquivados. */
+  reports?: ArchivedReport[];
+  /** Novos eventos da trilha de auditoria. */
+  audit?: AuditEntry[];
+}
+
+/**
+ * Representa uma medição (período de apuração) do projeto.
+ * Enquanto aberta, a medição reflete o progresso atual; ao ser fechada, congela a matriz de progresso
+ * e os dados financeiros para servir de base ao cálculo do executado no período seguinte.
+ */
+export interface Measurement {
+  /** Identificador único da medição. */
+  id: string;
+  /** Número sequencial da medição (1, 2, 3...). */
+  number: number;
+  /** Data de início do período medido (formato AAAA-MM-DD). */
+  periodStart: string;
+  /** Data de término do período medido (formato AAAA-MM-DD). */
+  periodEnd: string;
+  /** Situação da medição: aberta (em apuração) ou fechada (enviada ao agente financeiro). */
+  status: 'open' | 'closed';
+  /** Data e hora do fechamento da medição (formato ISO). */
+  closedAt?: string;
+  /** Matriz de progresso congelada no fechamento da medição. */
+  progressSnapshot?: ProgressMatrix;
+  /** Dados financeiros congelados no fechamento da medição. */
+  financialsSnapshot?: Financials;
+  /**
+   * Versão da PLS contra a qual o progresso foi medido. Os IDs de serviço do snapshot são os dessa versão;
+   * medições sem versão foram fechadas antes do primeiro aditivo (versão 1).
+   */
+  plsVersion?: number;
+}
+
+/**
+ * Uma versão anterior da estrutura da PLS, substituída por um aditivo.
+ * A versão em vigor é sempre a de `Project.pls_data`.
+ */
+export interface PlsVersion {
+  /** Número sequencial da versão (1 = orçamento original). */
+  number: number;
+  /** Estrutura da PLS nesta versão. */
+  pls_data: PlsCategoryTemplate[];
+  /** Custo das obras nesta versão. */
+  cost_of_works: number;
+  /** Data e hora em formato ISO em que a versão foi substituída. */
+  replacedAt: string;
+}
+
+/**
+ * Um aditivo (revisão do orçamento durante a obra), que cria uma nova versão da PLS.
+ */
+export interface ChangeOrder {
+  /** Identificador único do aditivo. */
+  id: string;
+  /** Número sequencial do aditivo (1, 2, 3...). */
+  number: number;
+  /** Data do aditivo (formato AAAA-MM-DD). */
+  date: string;
+  /** Motivo da revisão do orçamento. */
+  reason: string;
+  /** Variação do custo das obras (R$), positiva ou negativa. */
+  costDelta: number;
+  /** Versão da PLS substituída. */
+  fromVersion: number;
+  /** Versão da PLS criada pelo aditivo. */
+  toVersion: number;
+  /**
+   * Correspondência entre os serviços da versão anterior e os da nova, indexada pelo ID antigo.
+   * `null` indica um serviço suprimido, cujo progresso não é levado para a nova versão.
+   */
+  itemMapping: Record<string, string | null>;
+  /** Data e hora do registro em formato ISO. */
+  createdAt: string;
+  /** E-mail de quem registrou o aditivo. */
+  createdBy?: string;
+}
+
+/**
+ * Os dados informados pelo usuário ao registrar um aditivo.
+ */
+export type ChangeOrderInput = Pick<ChangeOrder, 'date' | 'reason' | 'costDelta' | 'itemMapping'>;
+
+/**
+ * Valores de uma grandeza na medição anterior, no acumulado atual e executados no período.
+ */
+export interface PeriodValues {
+  /** Valor acumulado até a medição anterior. */
+  previous: number;
+  /** Valor acumulado até a medição atual. */
+  accumulated: number;
+  /** Valor executado no período (acumulado - anterior). */
+  period: number;
+}
+
+/**
+ * Resumo do executado no período versus acumulado, por serviço, por etapa e no total do projeto.
+ */
+export interface MeasurementPeriodSummary {
+  /** Valores por ID de serviço: progresso médio nas unidades (%) e valor liberado (R$). */
+  items: Record<string, { progress: PeriodValues; released: PeriodValues }>;
+  /** Valores por ID de etapa: incidência mensurada (%) e valor liberado (R$). */
+  categories: Record<string, { measuredIncidence: PeriodValues; released: PeriodValues }>;
+  /** Progresso total do projeto (%). */
+  totalProgress: PeriodValues;
+  /** Valor total liberado (R$). */
+  totalReleased: PeriodValues;
+}
+
+/**
+ * Uma versão publicada de um modelo da biblioteca. As versões nunca são alteradas depois de publicadas.
+ */
+export interface PlsTemplateVersion {
+  /** Número da versão, começando em 1. */
+  version: number;
+  /** A estrutura da PLS desta versão. */
+  pls_data: PlsCategoryTemplate[];
+  /** Layouts de relatório desta versão, se houver. */
+  layouts?: LayoutTemplate[];
+  /** Data e hora (ISO) da publicação. */
+  publishedAt: string;
+  /** E-mail de quem publicou a versão. */
+  publishedBy: string;
+  /** Observação sobre o que mudou em relação à versão anterior. */
+  notes?: string;
+}
+
+/**
+ * Um modelo da biblioteca da construtora: uma PLS (e layouts) reutilizável na criação de projetos, com as suas versões.
+ */
+export interface PlsTemplate {
+  /** Identificador único do modelo. */
+  id: string;
+  /** Nome do modelo. */
+  name: string;
+  /** Descrição do modelo (ex: tipo de empreendimento a que se destina). */
+  description?: string;
+  /** ID do usuário que criou o modelo. Apenas ele pode publicar novas versões ou excluí-lo. */
+  ownerId: string;
+  /**
+   * ID da organização cuja biblioteca contém o modelo, visível a todos os seus membros.
+   * Ausente em modelos pessoais, visíveis apenas a quem os criou.
+   */
+  organizationId?: string;
+  /** Data de criação do modelo em formato ISO. */
+  created_at: string;
+  /** Versões publicadas, da mais antiga para a mais recente. */
+  versions: PlsTemplateVersion[];
+}
+
+/**
+ * O modelo da biblioteca (e a versão) a partir do qual a PLS de um projeto foi criada.
+ */
+export interface ProjectTemplateRef {
+  /** O ID do modelo. */
+  templateId: string;
+  /** O nome do modelo quando foi aplicado (mantido se o modelo for excluído). */
+  templateName: string;
+  /** A versão aplicada. */
+  version: number;
+}
+
+/**
+ * O papel de um membro na organização.
+ * - `admin`: altera os dados, a identidade visual, o modelo padrão e os membros da organização.
+ * - `member`: cria projetos da organização.
+ */
+export type OrganizationRole = 'admin' | 'member';
+
+/**
+ * Uma construtora ou SPE que reúne projetos e membros, com a sua identidade visual e o seu modelo padrão de PLS.
+ */
+export interface Organization {
+  /** Identificador único da organização. */
+  id: string;
+  /** Nome exibido no painel de projetos (ex: "Construtora Cataratas"). */
+  name: string;
+  /** CNPJ, usado como construtora dos novos projetos. */
+  cnpj?: string;
+  /** ID do usuário que criou a organização. É sempre administrador. */
+  ownerId: string;
+  /** IDs dos membros da organização, incluindo o proprietário. */
+  members: string[];
+  /** Papel de cada membro, indexado pelo ID do usuário. Membros sem papel registrado são tratados como `member`. */
+  roles: Record<string, OrganizationRole>;
+  /** Identidade visual exibida no painel de projetos. */
+  branding?: {
+    /** URL do logotipo. */
+    logo_url?: string;
+    /** Cor principal em hexadecimal (ex: "#f59e0b"). */
+    primary_color?: string;
+  };
+  /** Modelo da biblioteca sugerido na criação de projetos da organização. */
+  default_template_id?: string;
+  /** Data de criação da organização em formato ISO. */
+  created_at: string;
 }
 
 /**
@@ -220,6 +868,46 @@ export interface UserProfile {
   email: string | null;
 }
 
+/**
+ * O papel de um membro no projeto, que define o que ele pode alterar.
+ * - `viewer`: apenas visualiza o projeto.
+ * - `editor`: atualiza o progresso, edita a PLS e gera relatórios (ex: mestre de obras).
+ * - `approver`: abre, fecha e reabre medições, aprova alterações de progresso e gera relatórios (ex: fiscal do banco).
+ * - `owner`: acesso total, incluindo configurações e membros.
+ */
+export type ProjectRole = 'viewer' | 'editor' | 'approver' | 'owner';
+
+/**
+ * As ações do projeto controladas pelo papel do membro.
+ */
+export type ProjectPermission =
+  | 'edit_progress'
+  | 'edit_pls'
+  | 'manage_reports'
+  | 'manage_measurements'
+  | 'edit_settings'
+  | 'manage_members'
+  | 'approve_progress';
+
+/**
+ * Um convite para participar de um projeto, enviado a um e-mail que pode ainda não ter conta no sistema.
+ * É convertido em participação quando a pessoa entra com esse e-mail (veja `useAuth`).
+ */
+export interface ProjectInvitation {
+  /** E-mail convidado, em minúsculas. */
+  email: string;
+  /** Papel que o convidado recebe ao entrar. */
+  role: ProjectRole;
+  /** ID de quem enviou o convite. */
+  invitedBy: string;
+  /** E-mail de quem enviou o convite, exibido na mensagem. */
+  invitedByEmail: string | null;
+  /** Data e hora (ISO) do envio. */
+  createdAt: string;
+  /** Data e hora (ISO) a partir da qual o convite não é mais aceito. */
+  expiresAt: string;
+}
+
 /**
  * A estrutura principal que define um projeto de construção.
  * Contém todos os dados estáticos e dinâmicos relacionados a um empreendimento.
@@ -231,10 +919,23 @@ export interface Project {
   name: string;
   /** ID do usuário proprietário do projeto. */
   ownerId: string;
+  /** A organização à qual o projeto pertence. Projetos sem organização são pessoais do proprietário. */
+  organizationId?: string;
   /** Array de IDs de usuários com acesso ao projeto. */
   members: string[];
+  /**
+   * Papel de cada membro, indexado pelo ID do usuário. O proprietário é sempre `owner`;
+   * membros sem papel registrado (projetos anteriores aos papéis) são tratados como `editor`.
+   */
+  roles?: Record<string, ProjectRole>;
+  /** Convites pendentes, indexados pelo e-mail convidado. Alterados apenas pelos métodos de convite do repositório. */
+  invitations?: Record<string, ProjectInvitation>;
+  /** E-mails com convite pendente, para a consulta dos convites de quem entra no sistema (Firestore e modo local). */
+  invited_emails?: string[];
   /** Lista de unidades habitacionais. */
   housing_units: HousingUnit[];
+  /** Tipologias das unidades, com a sua PLS ou os seus multiplicadores de incidência e o seu peso no custo. */
+  typologies?: UnitTypology[];
   /** Matriz de progresso de todos os serviços em todas as unidades. */
   progress: ProgressMatrix;
   /** Data de criação do projeto em formato ISO. */
@@ -270,18 +971,54 @@ export interface Project {
     crea: string;
     email: string;
   };
+  /**
+   * Se `true`, as alterações de progresso de quem não pode aprová-las ficam pendentes
+   * até serem aprovadas pelo responsável técnico (ou por um aprovador).
+   */
+  require_progress_approval?: boolean;
+  /**
+   * Alterações de progresso aguardando aprovação, indexadas pelo ID do registro. Não entram no progresso
+   * nem nos cálculos financeiros. Cada entrada é gravada individualmente, para que envios e revisões
+   * simultâneos não se sobrescrevam.
+   */
+  pending_progress?: Record<string, ProgressLog>;
   /** Estrutura personalizada da PLS importada de um orçamento, se houver. */
   pls_data: PlsCategoryTemplate[] | null;
-  /** Histórico de todas as alterações de progresso. */
-  history: ProgressLog[];
+  /** Número da versão da PLS em vigor. Projetos sem aditivos estão na versão 1. */
+  pls_version?: number;
+  /** Versões anteriores da PLS, substituídas por aditivos. */
+  pls_versions?: PlsVersion[];
+  /** Aditivos registrados, do mais antigo para o mais recente. */
+  change_orders?: ChangeOrder[];
+  /** Regra de cálculo da incidência medida. Projetos sem regra usam `global_incidence_x10`. */
+  financial_rule?: FinancialRule;
+  /**
+   * Histórico de alterações de progresso. Fica na subcoleção `history` do projeto e é carregado sob demanda;
+   * este campo só é preenchido em backups e em documentos antigos ainda não migrados.
+   */
+  history?: ProgressLog[];
   /** Cronograma físico-financeiro importado. */
   schedule?: ScheduleStage[];
   /** Duração total da obra em meses, extraída do cronograma. */
   duration_months?: number;
-  /** Histórico de relatórios gerados e arquivados. */
+  /**
+   * Relatórios arquivados completos. Ficam na subcoleção `archived_reports` do projeto e são carregados sob demanda;
+   * este campo só é preenchido em backups e em documentos antigos ainda não migrados.
+   */
   archived_reports?: ArchivedReport[];
+  /** Resumo dos relatórios arquivados, mantido no documento para a curva S e a numeração das medições. */
+  report_summaries?: ArchivedReportSummary[];
+  /** Medições do projeto, com seus períodos e snapshots congelados. */
+  measurements?: Measurement[];
+  /**
+   * Reaberturas de medições gravadas antes da trilha de auditoria, exibidas com cada medição junto com as da
+   * subcoleção `audit` do projeto, onde ficam todos os eventos.
+   */
+  audit_log?: AuditEntry[];
   /** Layouts de relatório personalizados pelo usuário. */
   layouts?: LayoutTemplate[];
+  /** O modelo da biblioteca de onde veio a PLS do projeto, se houver. */
+  template?: ProjectTemplateRef;
   /** Datas de importação de documentos para referência. */
   import_metadata?: ImportMetadata;
 }
@@ -306,6 +1043,27 @@ export interface CategoryFinancials {
   measuredIncidence: number;
 }
 
+/**
+ * Detalhes financeiros calculados para um único serviço (sub-item da PLS).
+ */
+export interface ServiceFinancials {
+  /** ID do serviço. */
+  id: string;
+  /** Progresso médio do serviço considerando todas as unidades (%). */
+  averageProgress: number;
+  /** Incidência percentual medida (executada) do serviço no projeto. */
+  measuredIncidence: number;
+  /** Valor monetário liberado/medido com base no progresso. */
+  released: number;
+}
+
+/**
+ * Regra de cálculo da incidência medida de cada etapa (categoria) da PLS.
+ * - `global_incidence_x10`: soma dos sub-itens × incidência global da etapa (decimal) × 10 (regra original).
+ * - `weighted_average`: média do progresso dos sub-itens ponderada pela incidência (soma dos sub-itens).
+ */
+export type FinancialRule = 'global_incidence_x10' | 'weighted_average';
+
 /**
  * Resumo financeiro global calculado para o projeto.
  */
@@ -2,6 +2,11 @@
 
 interface ImportMetaEnv {
     readonly VITE_API_KEY: string
+    readonly VITE_FIREBASE_ENV?: 'development' | 'production'
+    readonly VITE_STORAGE_BACKEND?: 'firestore' | 'emulator' | 'local' | 'supabase'
+    readonly VITE_FIREBASE_EMULATOR_HOST?: string
+    readonly VITE_SUPABASE_URL?: string
+    readonly VITE_SUPABASE_ANON_KEY?: string
 }
 
 interface ImportMeta {